@@ -1,9 +1,27 @@
+import path from 'path';
 import { DataSource } from 'typeorm';
 import { Pool } from 'pg';
 import { User } from '../models/User';
 import { Transaction } from '../models/Transaction';
 import { Goal } from '../models/Goal';
 import { Budget } from '../models/Budget';
+import { RecurringTransaction } from '../models/RecurringTransaction';
+import { TransactionSplit } from '../models/TransactionSplit';
+import { Account } from '../models/Account';
+import { ExchangeRate } from '../models/ExchangeRate';
+import { Attachment } from '../models/Attachment';
+import { Tag } from '../models/Tag';
+import { DuplicateDismissal } from '../models/DuplicateDismissal';
+import { Merchant } from '../models/Merchant';
+import { Reconciliation } from '../models/Reconciliation';
+import { InstallmentPlan } from '../models/InstallmentPlan';
+import { Category } from '../models/Category';
+import { CategorizationRule } from '../models/CategorizationRule';
+import { CategoryClassifier } from '../models/CategoryClassifier';
+import { CategorizationCacheEntry } from '../models/CategorizationCacheEntry';
+import { LLMUsage } from '../models/LLMUsage';
+import { RecategorizationJob } from '../models/RecategorizationJob';
+import { createSearchIndexSql } from '../utils/search';
 import logger from '../utils/logger';
 
 // Cargar dotenv para asegurar que las variables de entorno estén disponibles
@@ -14,9 +32,11 @@ const databaseUrl = process.env.DATABASE_URL || 'postgresql://postgres:postgres@
 export const AppDataSource = new DataSource({
   type: 'postgres',
   url: databaseUrl,
-  entities: [User, Transaction, Goal, Budget],
-  migrations: [__dirname + '/../migrations/*.ts'],
-  synchronize: process.env.NODE_ENV === 'development',
+  entities: [User, Transaction, Goal, Budget, RecurringTransaction, TransactionSplit, Account, ExchangeRate, Attachment, Tag, DuplicateDismissal, Merchant, Reconciliation, InstallmentPlan, Category, CategorizationRule, CategoryClassifier, CategorizationCacheEntry, LLMUsage, RecategorizationJob],
+  // .ts when running with ts-node, .js from the compiled dist folder
+  migrations: [__dirname + `/../migrations/*${path.extname(__filename)}`],
+  // Schema sync runs in initializeDatabase, after migrations have backfilled existing rows
+  synchronize: false,
   logging: process.env.NODE_ENV === 'development',
   extra: {
     ssl: false,
@@ -30,11 +50,29 @@ export const pool = new Pool({
   ssl: false,
 });
 
+// Create the full-text search index once the transactions table exists
+// On a new database the AddTransactionSearchIndex migration runs before synchronize creates the table, so it cannot
+const ensureSearchIndex = async (): Promise<void> => {
+  const queryRunner = AppDataSource.createQueryRunner();
+  try {
+    if (await queryRunner.hasTable('transactions')) {
+      await queryRunner.query(createSearchIndexSql());
+    }
+  } finally {
+    await queryRunner.release();
+  }
+};
+
 // Initialize database connection
 export const initializeDatabase = async (): Promise<void> => {
   try {
     if (!AppDataSource.isInitialized) {
       await AppDataSource.initialize();
+      await AppDataSource.runMigrations();
+      if (process.env.NODE_ENV === 'development') {
+        await AppDataSource.synchronize();
+      }
+      await ensureSearchIndex();
       logger.info('Database connected successfully');
     }
   } catch (error) {
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { AccountService } from '../services/account.service';
+import { ACCOUNT_TYPES } from '../models/Account';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const createAccountSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  type: Joi.string().valid(...ACCOUNT_TYPES).required(),
+  currency: Joi.string().uppercase().pattern(/^[A-Z]{3}$/).optional(),
+  openingBalance: Joi.number().precision(2).optional(),
+  isDefault: Joi.boolean().optional(),
+});
+
+const updateAccountSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  type: Joi.string().valid(...ACCOUNT_TYPES).optional(),
+  currency: Joi.string().uppercase().pattern(/^[A-Z]{3}$/).optional(),
+  openingBalance: Joi.number().precision(2).optional(),
+  isDefault: Joi.boolean().valid(true).optional(),
+  archived: Joi.boolean().optional(),
+}).min(1);
+
+const balanceHistorySchema = Joi.object({
+  startDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  endDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+// Errors thrown by AccountService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'The default account cannot be archived',
+  'The default account cannot be deleted',
+  'Account has transactions, archive it instead',
+];
+
+export class AccountController {
+  private accountService = new AccountService();
+
+  async createAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createAccountSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const account = await this.accountService.createAccount(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Account created successfully',
+        data: account
+      });
+
+    } catch (error) {
+      logger.error('Error creating account:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  async getAccounts(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const includeArchived = req.query.includeArchived === 'true';
+
+      const accounts = await this.accountService.getAccounts(userId, includeArchived);
+
+      res.json({
+        success: true,
+        data: accounts
+      });
+
+    } catch (error) {
+      logger.error('Error getting accounts:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  async getAccountById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const account = await this.accountService.getAccountById(userId, id);
+
+      res.json({
+        success: true,
+        data: account
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting account:', error);
+    }
+  }
+
+  async getBalanceHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const { error, value } = balanceHistorySchema.validate({ startDate: req.query.startDate, endDate: req.query.endDate });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid date range',
+          error: error.details.map(d => d.message).join(', ')
+        });
+        return;
+      }
+
+      const history = await this.accountService.getBalanceHistory(userId, id, value.startDate, value.endDate);
+
+      res.json({
+        success: true,
+        data: history
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting account balance history:', error);
+    }
+  }
+
+  async updateAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const { error, value } = updateAccountSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const account = await this.accountService.updateAccount(userId, id, value);
+
+      res.json({
+        success: true,
+        message: 'Account updated successfully',
+        data: account
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error updating account:', error);
+    }
+  }
+
+  async deleteAccount(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      await this.accountService.deleteAccount(userId, id);
+
+      res.json({
+        success: true,
+        message: 'Account deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting account:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    if (error instanceof Error && error.message === 'Account not found') {
+      res.status(404).json({
+        success: false,
+        message: 'Account not found'
+      });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS.includes(error.message)) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+}
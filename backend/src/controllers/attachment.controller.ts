@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { AttachmentService } from '../services/attachment.service';
+import logger from '../utils/logger';
+
+// Errors thrown by AttachmentService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'El archivo supera el tamaño máximo permitido',
+  'Tipo de archivo no permitido',
+  'Una transacción admite como máximo',
+];
+
+export class AttachmentController {
+  private attachmentService = new AttachmentService();
+
+  /**
+   * Upload a receipt or invoice for a transaction (multipart field "file")
+   */
+  async uploadAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['A file is required in the "file" field']
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const attachment = await this.attachmentService.addAttachment(userId, id, {
+        originalName: req.file.originalname,
+        size: req.file.size,
+        content: req.file.buffer,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Attachment uploaded successfully',
+        data: attachment.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error uploading attachment:', error);
+    }
+  }
+
+  async getAttachments(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const attachments = await this.attachmentService.getAttachments(userId, id);
+
+      res.json({
+        success: true,
+        data: attachments.map(attachment => attachment.toJSON())
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting attachments:', error);
+    }
+  }
+
+  /**
+   * Stream the file; shown inline unless ?download=true is passed
+   */
+  async downloadAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, attachmentId } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const { attachment, content } = await this.attachmentService.getAttachmentContent(userId, id, attachmentId);
+      const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+
+      res.setHeader('Content-Type', attachment.mimeType);
+      res.setHeader('Content-Length', String(attachment.size));
+      res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+
+      content.on('error', error => {
+        logger.error('Error streaming attachment:', error);
+        res.destroy(error);
+      });
+      content.pipe(res);
+
+    } catch (error) {
+      this.handleError(res, 'Error downloading attachment:', error);
+    }
+  }
+
+  async deleteAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, attachmentId } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      await this.attachmentService.deleteAttachment(userId, id, attachmentId);
+
+      res.json({
+        success: true,
+        message: 'Attachment deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting attachment:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    const notFound = ['Transaction not found', 'Attachment not found', 'Attachment file not found'];
+    if (error instanceof Error && notFound.includes(error.message)) {
+      res.status(404).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS.some(message => error.message.startsWith(message))) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: [error.message]
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+}
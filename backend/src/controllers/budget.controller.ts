@@ -51,6 +51,13 @@ export class BudgetController {
 
     } catch (error) {
       logger.error('Error creating budget:', error);
+      if (error instanceof Error && error.message === 'Category not found') {
+        res.status(400).json({
+          success: false,
+          message: 'Category not found'
+        });
+        return;
+      }
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Internal server error'
@@ -83,6 +90,13 @@ export class BudgetController {
 
     } catch (error) {
       logger.error('Error upserting budgets:', error);
+      if (error instanceof Error && error.message === 'Category not found') {
+        res.status(400).json({
+          success: false,
+          message: 'Category not found'
+        });
+        return;
+      }
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Internal server error'
@@ -122,6 +136,13 @@ export class BudgetController {
         });
         return;
       }
+      if (error instanceof Error && error.message === 'Category not found') {
+        res.status(400).json({
+          success: false,
+          message: 'Category not found'
+        });
+        return;
+      }
       res.status(500).json({
         success: false,
         message: error instanceof Error ? error.message : 'Internal server error'
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { CategorizationReviewService, MAX_REVIEW_ITEMS } from '../services/categorization-review.service';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const reviewQuerySchema = Joi.object({
+  threshold: Joi.number().greater(0).max(1),
+  limit: Joi.number().integer().min(1).max(MAX_REVIEW_ITEMS).default(20),
+});
+
+const reviewSchema = Joi.object({
+  action: Joi.string().valid('accept', 'change').required(),
+  category: Joi.when('action', {
+    is: 'change',
+    then: Joi.string().trim().min(1).max(100).required(),
+    otherwise: Joi.forbidden()
+  }),
+});
+
+// Errors thrown by CategorizationReviewService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'Transaction is not pending review',
+  'Category not found',
+];
+
+export class CategorizationReviewController {
+  private reviewService = new CategorizationReviewService();
+
+  /**
+   * List expenses whose automatic category is below the confidence threshold, least confident first
+   */
+  async getReviewQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = reviewQuerySchema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const queue = await this.reviewService.getQueue(userId, {
+        threshold: value.threshold,
+        limit: value.limit
+      });
+
+      res.json({
+        success: true,
+        data: queue
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting review queue:', error);
+    }
+  }
+
+  /**
+   * Accept the proposed category or change it; either way it becomes a user-confirmed category
+   */
+  async reviewTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = reviewSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const transaction = await this.reviewService.review(userId, req.params.id, value);
+
+      res.json({
+        success: true,
+        message: 'Transaction reviewed successfully',
+        data: transaction
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error reviewing transaction:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    if (error instanceof Error && error.message === 'Transaction not found') {
+      res.status(404).json({
+        success: false,
+        message: 'Transaction not found'
+      });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS.includes(error.message)) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
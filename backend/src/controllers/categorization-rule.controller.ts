@@ -0,0 +1,251 @@
+import { Request, Response } from 'express';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import {
+  MAX_RULES_PER_USER,
+  MAX_RULE_CONDITIONS,
+  MAX_RULE_TEXT_LENGTH,
+  isValidRulePattern
+} from '../utils/rules';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_TRANSACTION } from '../utils/tags';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const ruleTextSchema = Joi.string().trim().min(1).max(MAX_RULE_TEXT_LENGTH);
+
+const conditionSchema = Joi.object({
+  type: Joi.string().valid('contains', 'regex', 'amount', 'transactionType', 'merchant').required(),
+  value: Joi.when('type', {
+    switch: [
+      { is: 'regex', then: ruleTextSchema.required().custom((value, helpers) => {
+        return isValidRulePattern(value) ? value : helpers.error('any.invalid');
+      }).messages({ 'any.invalid': '{{#label}} is not a supported regular expression (RE2 syntax: no backreferences or lookarounds)' }) },
+      { is: 'transactionType', then: Joi.string().valid('income', 'expense').required() },
+      { is: 'amount', then: Joi.forbidden() },
+    ],
+    otherwise: ruleTextSchema.required()
+  }),
+  min: Joi.when('type', { is: 'amount', then: Joi.number().min(0), otherwise: Joi.forbidden() }),
+  max: Joi.when('type', { is: 'amount', then: Joi.number().min(Joi.ref('min')), otherwise: Joi.forbidden() }),
+}).custom((value, helpers) => {
+  if (value.type === 'amount' && value.min === undefined && value.max === undefined) {
+    return helpers.error('any.invalid');
+  }
+  return value;
+}).messages({ 'any.invalid': 'Amount conditions need a minimum or a maximum' });
+
+const actionsSchema = Joi.object({
+  category: Joi.string().trim().min(1).max(100),
+  merchant: Joi.string().trim().min(1).max(255),
+  tags: Joi.array().items(Joi.string().trim().min(1).max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_TRANSACTION),
+  markAsTransfer: Joi.boolean(),
+  transferAccountId: Joi.string().guid(),
+}).min(1);
+
+const ruleFields = {
+  name: Joi.string().trim().min(1).max(100),
+  conditions: Joi.array().items(conditionSchema).min(1).max(MAX_RULE_CONDITIONS),
+  actions: actionsSchema,
+  priority: Joi.number().integer().min(0),
+  enabled: Joi.boolean(),
+};
+
+const createRuleSchema = Joi.object({
+  ...ruleFields,
+  name: ruleFields.name.required(),
+  conditions: ruleFields.conditions.required(),
+  actions: ruleFields.actions.required(),
+});
+
+const updateRuleSchema = Joi.object(ruleFields).min(1);
+
+const testRuleSchema = Joi.object({
+  conditions: ruleFields.conditions.required(),
+  actions: ruleFields.actions.required(),
+});
+
+const reorderRulesSchema = Joi.object({
+  ids: Joi.array().items(Joi.string().guid()).min(1).max(MAX_RULES_PER_USER).unique().required(),
+});
+
+// Errors thrown by CategorizationRuleService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'Name is required',
+  'A rule needs at least one condition',
+  `A rule can have at most ${MAX_RULE_CONDITIONS} conditions`,
+  'Amount conditions need a minimum or a maximum',
+  'A rule needs at least one action',
+  'Category not found',
+  'Marking as transfer needs the account on the other side',
+  'Account not found',
+  'Archived accounts cannot receive new transactions',
+  `A user can have at most ${MAX_RULES_PER_USER} rules`,
+];
+
+export class CategorizationRuleController {
+  private ruleService = new CategorizationRuleService();
+
+  /**
+   * List the user's categorization rules in priority order
+   */
+  async getRules(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const rules = await this.ruleService.getRules(userId);
+
+      res.json({
+        success: true,
+        data: rules.map(rule => rule.toJSON())
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting categorization rules:', error);
+    }
+  }
+
+  async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createRuleSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const rule = await this.ruleService.createRule(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Rule created successfully',
+        data: rule.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error creating categorization rule:', error);
+    }
+  }
+
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = updateRuleSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const rule = await this.ruleService.updateRule(userId, req.params.id, value);
+
+      res.json({
+        success: true,
+        message: 'Rule updated successfully',
+        data: rule.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error updating categorization rule:', error);
+    }
+  }
+
+  async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      await this.ruleService.deleteRule(userId, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Rule deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting categorization rule:', error);
+    }
+  }
+
+  /**
+   * Set the priority of the user's rules from their order in the list
+   */
+  async reorderRules(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = reorderRulesSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const rules = await this.ruleService.reorderRules(userId, value.ids);
+
+      res.json({
+        success: true,
+        message: 'Rules reordered successfully',
+        data: rules.map(rule => rule.toJSON())
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error reordering categorization rules:', error);
+    }
+  }
+
+  /**
+   * Preview which past transactions a rule would match, without changing them
+   */
+  async testRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = testRuleSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const preview = await this.ruleService.testRule(userId, value);
+
+      res.json({
+        success: true,
+        data: preview
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error testing categorization rule:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Rule not found') {
+      res.status(404).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    if (CLIENT_ERRORS.includes(message) || message.startsWith('Invalid pattern') || message.startsWith('Unknown condition type')) {
+      res.status(400).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
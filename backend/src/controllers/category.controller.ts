@@ -0,0 +1,159 @@
+import { Request, Response } from 'express';
+import { CategoryService } from '../services/category.service';
+import {
+  CATEGORY_COLOR_PATTERN,
+  CATEGORY_ICON_PATTERN,
+  CATEGORY_KINDS,
+  MAX_CATEGORIES_PER_USER,
+  MAX_CATEGORY_NAME_LENGTH
+} from '../utils/categories';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const categoryFields = {
+  name: Joi.string().trim().min(1).max(MAX_CATEGORY_NAME_LENGTH),
+  parentId: Joi.string().guid().allow(null),
+  icon: Joi.string().pattern(CATEGORY_ICON_PATTERN).allow(null),
+  color: Joi.string().pattern(CATEGORY_COLOR_PATTERN).allow(null),
+  kind: Joi.string().valid(...CATEGORY_KINDS),
+};
+
+const createCategorySchema = Joi.object({
+  ...categoryFields,
+  name: categoryFields.name.required(),
+});
+
+const updateCategorySchema = Joi.object(categoryFields).min(1);
+
+// Errors thrown by CategoryService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'A category with this name already exists',
+  `A user can have at most ${MAX_CATEGORIES_PER_USER} categories`,
+  'System categories cannot be renamed',
+  'System categories cannot change kind',
+  'System categories cannot be deleted',
+  'A category with subcategories cannot change kind',
+  'A category with subcategories cannot be a subcategory',
+  'Delete or move the subcategories first',
+  'Parent category not found',
+  'Subcategories cannot have subcategories',
+  'A subcategory must have the same kind as its parent',
+];
+
+export class CategoryController {
+  private categoryService = new CategoryService();
+
+  /**
+   * List the user's categories; the defaults are created on first access
+   */
+  async getCategories(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const categories = await this.categoryService.getCategories(userId);
+
+      res.json({
+        success: true,
+        data: categories
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting categories:', error);
+    }
+  }
+
+  async createCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createCategorySchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const category = await this.categoryService.createCategory(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Category created successfully',
+        data: category.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error creating category:', error);
+    }
+  }
+
+  /**
+   * Update a category; renaming it also renames it everywhere it is used
+   */
+  async updateCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = updateCategorySchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const category = await this.categoryService.updateCategory(userId, req.params.id, value);
+
+      res.json({
+        success: true,
+        message: 'Category updated successfully',
+        data: category.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error updating category:', error);
+    }
+  }
+
+  /**
+   * Delete a category; its transactions move to the parent or to the default category
+   */
+  async deleteCategory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      await this.categoryService.deleteCategory(userId, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Category deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting category:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Category not found') {
+      res.status(404).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    if (CLIENT_ERRORS.includes(message)) {
+      res.status(400).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
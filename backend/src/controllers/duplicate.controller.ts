@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import { DuplicateDetectionService } from '../services/duplicate.service';
+import { DEFAULT_DUPLICATE_MIN_SCORE, DEFAULT_DUPLICATE_WINDOW_DAYS, MAX_DUPLICATE_WINDOW_DAYS } from '../utils/duplicates';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const duplicatesQuerySchema = Joi.object({
+  days: Joi.number().integer().min(0).max(MAX_DUPLICATE_WINDOW_DAYS).default(DEFAULT_DUPLICATE_WINDOW_DAYS),
+  minScore: Joi.number().min(0).max(1).default(DEFAULT_DUPLICATE_MIN_SCORE),
+});
+
+const mergeSchema = Joi.object({
+  keepId: Joi.string().guid().required(),
+  removeId: Joi.string().guid().invalid(Joi.ref('keepId')).required()
+    .messages({ 'any.invalid': '"removeId" must be different from "keepId"' }),
+});
+
+const dismissSchema = Joi.object({
+  transactionId: Joi.string().guid().required(),
+  otherTransactionId: Joi.string().guid().invalid(Joi.ref('transactionId')).required()
+    .messages({ 'any.invalid': '"otherTransactionId" must be different from "transactionId"' }),
+});
+
+// Errors thrown by DuplicateDetectionService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'Transfers cannot be merged',
+  'Reconciled transactions cannot be deleted',
+];
+
+export class DuplicateController {
+  private duplicateService = new DuplicateDetectionService();
+
+  /**
+   * List likely duplicate transaction pairs, best matches first
+   */
+  async getDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = duplicatesQuerySchema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const pairs = await this.duplicateService.findDuplicates(userId, {
+        windowDays: value.days,
+        minScore: value.minScore
+      });
+
+      res.json({
+        success: true,
+        data: pairs
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting duplicate transactions:', error);
+    }
+  }
+
+  /**
+   * Keep one transaction of a duplicate pair and send the other to the trash
+   */
+  async mergeDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = mergeSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const transaction = await this.duplicateService.merge(userId, value.keepId, value.removeId);
+
+      res.json({
+        success: true,
+        message: 'Transactions merged successfully',
+        data: transaction
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error merging duplicate transactions:', error);
+    }
+  }
+
+  /**
+   * Mark a pair as "not a duplicate" so it is no longer suggested
+   */
+  async dismissDuplicate(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = dismissSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      await this.duplicateService.dismiss(userId, value.transactionId, value.otherTransactionId);
+
+      res.json({
+        success: true,
+        message: 'Duplicate dismissed successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error dismissing duplicate pair:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    if (error instanceof Error && error.message === 'Transaction not found') {
+      res.status(404).json({
+        success: false,
+        message: 'Transaction not found'
+      });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS.includes(error.message)) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const currencyCode = Joi.string().uppercase().pattern(/^[A-Z]{3}$/);
+
+const saveRateSchema = Joi.object({
+  fromCurrency: currencyCode.required(),
+  toCurrency: currencyCode.invalid(Joi.ref('fromCurrency')).required(),
+  rate: Joi.number().positive().required(),
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+});
+
+const rateFiltersSchema = Joi.object({
+  fromCurrency: currencyCode.optional(),
+  toCurrency: currencyCode.optional(),
+});
+
+const rateImportSchema = Joi.object({
+  dateFormat: Joi.string().valid('YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY').optional(),
+  decimalSeparator: Joi.string().valid('.', ',').optional(),
+});
+
+export class ExchangeRateController {
+  private exchangeRateService = new ExchangeRateService();
+
+  /**
+   * List the user's exchange rates, optionally filtered by currency pair
+   */
+  async getRates(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = rateFiltersSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const rates = await this.exchangeRateService.getRates(userId, value);
+
+      res.json({
+        success: true,
+        data: rates.map(rate => rate.toJSON())
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting exchange rates:', error);
+    }
+  }
+
+  /**
+   * Store a manual rate, replacing any rate for the same pair and date
+   */
+  async saveRate(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = saveRateSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const rate = await this.exchangeRateService.saveRate(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Exchange rate saved successfully',
+        data: rate.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error saving exchange rate:', error);
+    }
+  }
+
+  /**
+   * Import rates from a CSV file with date, from, to and rate columns
+   */
+  async importCsv(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['A CSV file is required in the "file" field']
+        });
+        return;
+      }
+
+      const { error, value } = rateImportSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const result = await this.exchangeRateService.importCsv(userId, req.file.buffer.toString('utf-8'), value);
+
+      res.status(201).json({
+        success: true,
+        message: `${result.imported} exchange rates imported`,
+        data: result
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error importing exchange rates:', error);
+    }
+  }
+
+  async deleteRate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      await this.exchangeRateService.deleteRate(userId, id);
+
+      res.json({
+        success: true,
+        message: 'Exchange rate deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting exchange rate:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    if (error instanceof Error && error.message === 'Exchange rate not found') {
+      res.status(404).json({
+        success: false,
+        message: 'Exchange rate not found'
+      });
+      return;
+    }
+    if (error instanceof Error && error.message.startsWith('Faltan columnas')) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: [error.message]
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+}
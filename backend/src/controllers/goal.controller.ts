@@ -10,6 +10,7 @@ const createGoalSchema = Joi.object({
   name: Joi.string().min(1).max(255).required(),
   targetAmount: Joi.number().positive().required(),
   currentAmount: Joi.number().min(0).default(0),
+  currency: Joi.string().uppercase().pattern(/^[A-Z]{3}$/).optional(),
   startDate: Joi.date().required(),
   endDate: Joi.date().greater(Joi.ref('startDate')).required(),
   interestRate: Joi.number().min(0).max(1).default(0.05),
@@ -20,6 +21,7 @@ const updateGoalSchema = Joi.object({
   name: Joi.string().min(1).max(255).optional(),
   targetAmount: Joi.number().positive().optional(),
   currentAmount: Joi.number().min(0).optional(),
+  currency: Joi.string().uppercase().pattern(/^[A-Z]{3}$/).optional(),
   startDate: Joi.date().optional(),
   endDate: Joi.date().optional(),
   interestRate: Joi.number().min(0).max(1).optional(),
@@ -43,7 +45,7 @@ export class GoalsController {
         return;
       }
 
-      const { name, targetAmount, currentAmount, startDate, endDate, interestRate, compoundFrequency } = value;
+      const { name, targetAmount, currentAmount, currency, startDate, endDate, interestRate, compoundFrequency } = value;
       const userId = (req as { user?: { id: string } }).user?.id ?? '';
 
       // Check if user exists
@@ -62,6 +64,7 @@ export class GoalsController {
       goal.name = name;
       goal.targetAmount = targetAmount;
       goal.currentAmount = currentAmount || 0;
+      goal.currency = currency || user.currency || 'USD';
       goal.startDate = new Date(startDate).toISOString().split('T')[0];
       goal.endDate = new Date(endDate).toISOString().split('T')[0];
       goal.interestRate = interestRate || 0.05;
@@ -215,6 +218,9 @@ export class GoalsController {
       if (value.currentAmount !== undefined) {
         goal.currentAmount = value.currentAmount;
       }
+      if (value.currency) {
+        goal.currency = value.currency;
+      }
       if (value.startDate) {
         goal.startDate = new Date(value.startDate).toISOString().split('T')[0];
       }
@@ -264,8 +270,9 @@ export class GoalsController {
       const { id } = req.params;
       const userId = (req as { user?: { id: string } }).user?.id || '';
 
+      // Soft delete: the goal goes to the trash and can be restored
       const goalRepository = AppDataSource.getRepository(Goal);
-      const result = await goalRepository.delete({
+      const result = await goalRepository.softDelete({
         id,
         userId
       });
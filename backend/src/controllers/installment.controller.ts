@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { InstallmentService } from '../services/installment.service';
+import { MAX_INSTALLMENTS, MAX_INSTALLMENT_INTEREST_RATE } from '../utils/installments';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const createPlanSchema = Joi.object({
+  description: Joi.string().min(1).max(255).required(),
+  totalAmount: Joi.number().positive().precision(2).required(),
+  installmentCount: Joi.number().integer().min(2).max(MAX_INSTALLMENTS).required(),
+  interestRate: Joi.number().min(0).max(MAX_INSTALLMENT_INTEREST_RATE).precision(2).optional(),
+  category: Joi.string().max(100).optional(),
+  merchant: Joi.string().max(255).optional(),
+  accountId: Joi.string().guid().optional(),
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  firstDueMonth: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).optional(),
+});
+
+// Errors thrown by InstallmentService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'First installment must not be due before the purchase date',
+  'Archived accounts cannot receive new transactions',
+];
+
+export class InstallmentController {
+  private installmentService = new InstallmentService();
+
+  async getPlans(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const plans = await this.installmentService.getPlans(userId);
+
+      res.json({
+        success: true,
+        data: plans
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting installment plans:', error);
+    }
+  }
+
+  /**
+   * Create a purchase paid in installments; installments already due are generated right away
+   */
+  async createPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createPlanSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const plan = await this.installmentService.createPlan(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Installment plan created successfully',
+        data: plan
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error creating installment plan:', error);
+    }
+  }
+
+  async getPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const plan = await this.installmentService.getPlan(userId, req.params.id);
+
+      res.json({
+        success: true,
+        data: plan
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting installment plan:', error);
+    }
+  }
+
+  /**
+   * Stop generating installments; the ones already charged are kept
+   */
+  async deletePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      await this.installmentService.deletePlan(userId, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Installment plan deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting installment plan:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Installment plan not found' || message === 'Account not found') {
+      res.status(404).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    if (CLIENT_ERRORS.includes(message)) {
+      res.status(400).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { MerchantService } from '../services/merchant.service';
+import {
+  MAX_MERCHANT_ALIASES,
+  MAX_MERCHANT_NAME_LENGTH,
+  MAX_MERCHANT_PATTERNS,
+  MAX_MERCHANT_PATTERN_LENGTH,
+  isValidMerchantPattern
+} from '../utils/merchants';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const patternSchema = Joi.string().trim().min(1).max(MAX_MERCHANT_PATTERN_LENGTH).custom((value, helpers) => {
+  return isValidMerchantPattern(value) ? value : helpers.error('any.invalid');
+}).messages({ 'any.invalid': '{{#label}} is not a supported regular expression (RE2 syntax: no backreferences or lookarounds)' });
+
+const merchantFields = {
+  name: Joi.string().trim().min(1).max(MAX_MERCHANT_NAME_LENGTH),
+  defaultCategory: Joi.string().trim().min(1).max(100).allow(null),
+  aliases: Joi.array().items(Joi.string().trim().min(1).max(255)).max(MAX_MERCHANT_ALIASES),
+  patterns: Joi.array().items(patternSchema).max(MAX_MERCHANT_PATTERNS),
+};
+
+const createMerchantSchema = Joi.object({
+  ...merchantFields,
+  name: merchantFields.name.required(),
+});
+
+const updateMerchantSchema = Joi.object(merchantFields).min(1);
+
+const mergeMerchantsSchema = Joi.object({
+  targetId: Joi.string().guid().required(),
+  sourceIds: Joi.array().items(Joi.string().guid().invalid(Joi.ref('...targetId'))).min(1).max(100).unique().required()
+    .messages({ 'any.invalid': 'A merchant cannot be merged into itself' }),
+});
+
+// Errors thrown by MerchantService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'A merchant with this name already exists',
+];
+
+export class MerchantController {
+  private merchantService = new MerchantService();
+
+  /**
+   * List the user's merchant directory
+   */
+  async getMerchants(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const merchants = await this.merchantService.getMerchants(userId);
+
+      res.json({
+        success: true,
+        data: merchants
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting merchants:', error);
+    }
+  }
+
+  async createMerchant(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createMerchantSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const merchant = await this.merchantService.createMerchant(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Merchant created successfully',
+        data: merchant.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error creating merchant:', error);
+    }
+  }
+
+  /**
+   * Update a merchant; renaming it also renames its transactions
+   */
+  async updateMerchant(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = updateMerchantSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const merchant = await this.merchantService.updateMerchant(userId, req.params.id, value);
+
+      res.json({
+        success: true,
+        message: 'Merchant updated successfully',
+        data: merchant.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error updating merchant:', error);
+    }
+  }
+
+  async deleteMerchant(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      await this.merchantService.deleteMerchant(userId, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Merchant deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting merchant:', error);
+    }
+  }
+
+  /**
+   * Merge several merchants into one, moving their transactions and aliases
+   */
+  async mergeMerchants(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = mergeMerchantsSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const merchant = await this.merchantService.mergeMerchants(userId, value.targetId, value.sourceIds);
+
+      res.json({
+        success: true,
+        message: 'Merchants merged successfully',
+        data: merchant.toJSON()
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error merging merchants:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Merchant not found') {
+      res.status(404).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    // Merging can exceed the alias and pattern limits checked by Merchant.validate
+    if (CLIENT_ERRORS.includes(message) || message.startsWith('A merchant can have at most')) {
+      res.status(400).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
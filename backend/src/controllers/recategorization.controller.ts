@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { RecategorizationService } from '../services/recategorization.service';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const startSchema = Joi.object({
+  startDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  endDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  lowConfidenceOnly: Joi.boolean().default(false),
+  threshold: Joi.number().greater(0).max(1).optional(),
+});
+
+const applySchema = Joi.object({
+  transactionIds: Joi.array().items(Joi.string().guid()).optional(),
+});
+
+// Errors thrown by RecategorizationService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'startDate must be on or before endDate',
+  'A recategorization job is already running',
+  'Recategorization job is not ready',
+];
+
+export class RecategorizationController {
+  private recategorizationService = new RecategorizationService();
+
+  /**
+   * Start re-categorizing the user's history in the background; nothing changes until the diff is applied
+   */
+  async startJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = startSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const job = await this.recategorizationService.start(userId, value);
+
+      res.status(202).json({
+        success: true,
+        message: 'Recategorization job started',
+        data: job
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error starting recategorization job:', error);
+    }
+  }
+
+  /**
+   * The user's most recent job, or null if they never started one
+   */
+  async getLatestJob(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const job = await this.recategorizationService.getLatestJob(userId);
+
+      res.json({
+        success: true,
+        data: job
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting recategorization job:', error);
+    }
+  }
+
+  /**
+   * Job status and progress; once ready it includes the proposed changes
+   */
+  async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const job = await this.recategorizationService.getJob(userId, req.params.jobId);
+
+      res.json({
+        success: true,
+        data: job
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting recategorization job:', error);
+    }
+  }
+
+  /**
+   * Apply the proposed changes the user confirmed (all of them when no ids are given)
+   */
+  async applyJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = applySchema.validate(req.body || {});
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const job = await this.recategorizationService.apply(userId, req.params.jobId, value.transactionIds);
+
+      res.json({
+        success: true,
+        message: 'Recategorization applied successfully',
+        data: job
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error applying recategorization job:', error);
+    }
+  }
+
+  /**
+   * Discard the job and its proposed changes, stopping it if it is still running
+   */
+  async discardJob(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      await this.recategorizationService.discard(userId, req.params.jobId);
+
+      res.json({
+        success: true,
+        message: 'Recategorization job discarded'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error discarding recategorization job:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    if (error instanceof Error && error.message === 'Recategorization job not found') {
+      res.status(404).json({
+        success: false,
+        message: 'Recategorization job not found'
+      });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS.includes(error.message)) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
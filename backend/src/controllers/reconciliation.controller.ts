@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import { ReconciliationService } from '../services/reconciliation.service';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const startReconciliationSchema = Joi.object({
+  accountId: Joi.string().guid().required(),
+  statementDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  closingBalance: Joi.number().precision(2).required(),
+});
+
+const listReconciliationsSchema = Joi.object({
+  accountId: Joi.string().guid().optional(),
+});
+
+const clearTransactionsSchema = Joi.object({
+  transactionIds: Joi.array().items(Joi.string().guid()).min(1).max(500).unique().required(),
+  cleared: Joi.boolean().required(),
+});
+
+// Errors thrown by ReconciliationService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'A reconciliation is already in progress for this account',
+  'Statement date must not be before the last reconciled statement',
+  'Reconciliation is already completed',
+  'Reconciliation is not balanced',
+];
+
+export class ReconciliationController {
+  private reconciliationService = new ReconciliationService();
+
+  /**
+   * List reconciliation sessions, optionally for a single account
+   */
+  async getReconciliations(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = listReconciliationsSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const reconciliations = await this.reconciliationService.getReconciliations(userId, value.accountId);
+
+      res.json({
+        success: true,
+        data: reconciliations
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting reconciliations:', error);
+    }
+  }
+
+  /**
+   * Start a session from the statement end date and closing balance
+   */
+  async startReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = startReconciliationSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const detail = await this.reconciliationService.startReconciliation(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Reconciliation started successfully',
+        data: detail
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error starting reconciliation:', error);
+    }
+  }
+
+  async getReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const detail = await this.reconciliationService.getReconciliation(userId, req.params.id);
+
+      res.json({
+        success: true,
+        data: detail
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting reconciliation:', error);
+    }
+  }
+
+  /**
+   * Tick or untick transactions and return the updated balances
+   */
+  async setCleared(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = clearTransactionsSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const summary = await this.reconciliationService.setCleared(userId, req.params.id, value.transactionIds, value.cleared);
+
+      res.json({
+        success: true,
+        data: summary
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error updating cleared transactions:', error);
+    }
+  }
+
+  /**
+   * Lock the cleared transactions once the difference is zero
+   */
+  async completeReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const detail = await this.reconciliationService.completeReconciliation(userId, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Reconciliation completed successfully',
+        data: detail
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error completing reconciliation:', error);
+    }
+  }
+
+  async cancelReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      await this.reconciliationService.cancelReconciliation(userId, req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Reconciliation cancelled successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error cancelling reconciliation:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    const message = error instanceof Error ? error.message : '';
+    if (['Reconciliation not found', 'Account not found', 'Transaction not found'].includes(message)) {
+      res.status(404).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    if (CLIENT_ERRORS.includes(message)) {
+      res.status(400).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+}
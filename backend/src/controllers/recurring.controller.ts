@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import { RecurringTransactionService } from '../services/recurring.service';
+import { RECURRENCE_FREQUENCIES, isValidCronExpression } from '../utils/recurrence';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const cronExpressionSchema = Joi.string().max(100).custom((value: string, helpers) => {
+  if (!isValidCronExpression(value)) {
+    return helpers.error('any.invalid');
+  }
+  return value;
+}).messages({ 'any.invalid': '"cronExpression" is not a valid cron expression' });
+
+// Shared with transaction creation, where a recurrence can be attached to a new transaction
+export const recurrenceSchema = Joi.object({
+  frequency: Joi.string().valid(...RECURRENCE_FREQUENCIES).required(),
+  cronExpression: cronExpressionSchema.when('frequency', {
+    is: 'cron',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  endDate: Joi.string().pattern(datePattern).optional(),
+});
+
+const createRecurringSchema = recurrenceSchema.keys({
+  description: Joi.string().min(1).max(255).required(),
+  amount: Joi.number().positive().required(),
+  type: Joi.string().valid('income', 'expense').required(),
+  category: Joi.string().max(100).optional(),
+  merchant: Joi.string().optional(),
+  accountId: Joi.string().guid().optional(),
+  startDate: Joi.string().pattern(datePattern).required(),
+});
+
+const updateRecurringSchema = Joi.object({
+  description: Joi.string().min(1).max(255).optional(),
+  amount: Joi.number().positive().optional(),
+  type: Joi.string().valid('income', 'expense').optional(),
+  category: Joi.string().max(100).optional(),
+  merchant: Joi.string().optional(),
+  accountId: Joi.string().guid().optional(),
+  frequency: Joi.string().valid(...RECURRENCE_FREQUENCIES).optional(),
+  cronExpression: cronExpressionSchema.optional(),
+  startDate: Joi.string().pattern(datePattern).optional(),
+  endDate: Joi.string().pattern(datePattern).optional(),
+  active: Joi.boolean().optional(),
+}).min(1);
+
+export class RecurringTransactionController {
+  private recurringService = new RecurringTransactionService();
+
+  async createRecurringTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createRecurringSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const recurring = await this.recurringService.createRecurringTransaction(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Recurring transaction created successfully',
+        data: recurring
+      });
+
+    } catch (error) {
+      logger.error('Error creating recurring transaction:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  async getRecurringTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const recurring = await this.recurringService.getRecurringTransactions(userId);
+
+      res.json({
+        success: true,
+        data: recurring
+      });
+
+    } catch (error) {
+      logger.error('Error getting recurring transactions:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  async updateRecurringTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const { error, value } = updateRecurringSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const recurring = await this.recurringService.updateRecurringTransaction(userId, id, value);
+
+      res.json({
+        success: true,
+        message: 'Recurring transaction updated successfully',
+        data: recurring
+      });
+
+    } catch (error) {
+      logger.error('Error updating recurring transaction:', error);
+      if (error instanceof Error && error.message === 'Recurring transaction not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Recurring transaction not found'
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  async deleteRecurringTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      await this.recurringService.deleteRecurringTransaction(userId, id);
+
+      res.json({
+        success: true,
+        message: 'Recurring transaction deleted successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error deleting recurring transaction:', error);
+      if (error instanceof Error && error.message === 'Recurring transaction not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Recurring transaction not found'
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { TagService } from '../services/tag.service';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const tagSearchSchema = Joi.object({
+  q: Joi.string().max(50).allow('').optional(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export class TagController {
+  private tagService = new TagService();
+
+  /**
+   * List the user's tags by usage, optionally filtered by prefix for autocomplete
+   */
+  async getTags(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = tagSearchSchema.validate(req.query);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const tags = await this.tagService.getTags(userId, value.q, value.limit);
+
+      res.json({
+        success: true,
+        data: tags
+      });
+
+    } catch (error) {
+      logger.error('Error getting tags:', error);
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  async deleteTag(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      await this.tagService.deleteTag(userId, id);
+
+      res.json({
+        success: true,
+        message: 'Tag deleted successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error deleting tag:', error);
+      if (error instanceof Error && error.message === 'Tag not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Tag not found'
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+}
@@ -1,24 +1,144 @@
 import { Request, Response } from 'express';
 import { AppDataSource } from '../config/database';
 import { Transaction } from '../models/Transaction';
+import { TransactionSplit } from '../models/TransactionSplit';
+import { Category } from '../models/Category';
 import { User } from '../models/User';
+import { Merchant } from '../models/Merchant';
 import { NLPCategorizationService } from '../services/nlp.service';
 import AnalyticsService from '../services/analytics.service';
+import { ImportService, CsvColumnMapping } from '../services/import.service';
+import { ExportService, ExportFormat, EXPORT_CONTENT_TYPES } from '../services/export.service';
+import { RecurringTransactionService } from '../services/recurring.service';
+import { AccountService } from '../services/account.service';
+import { TransferService } from '../services/transfer.service';
+import { TagService } from '../services/tag.service';
+import { MerchantService } from '../services/merchant.service';
+import { CategoryService } from '../services/category.service';
+import { CategorizationRuleService } from '../services/categorization-rule.service';
+import { ClassifierService } from '../services/classifier.service';
+import { CategorizationCacheService } from '../services/categorization-cache.service';
+import { LLMUsageService } from '../services/llm-usage.service';
+import { TransactionSearchService } from '../services/transaction-search.service';
+import { BulkTransactionService, MAX_BULK_TRANSACTIONS } from '../services/bulk-transaction.service';
+import { recurrenceSchema } from './recurring.controller';
+import { convertedAmountSql } from '../utils/currency';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_TRANSACTION, parseTagsQuery } from '../utils/tags';
+import { TRANSACTION_SORT_FIELDS } from '../utils/search';
+import { ruleTransferAccount } from '../utils/rules';
+import { categorizationSource, fallbackCategorization } from '../utils/categories';
 import Joi from 'joi';
 import logger from '../utils/logger';
 
 // Validation schemas
+const splitSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).required(),
+  category: Joi.string().min(1).max(100).required(),
+  description: Joi.string().max(255).optional(),
+});
+
 const createTransactionSchema = Joi.object({
   description: Joi.string().min(1).max(255).required(),
   amount: Joi.number().positive().required(),
+  currency: Joi.string().uppercase().pattern(/^[A-Z]{3}$/).optional(),
   type: Joi.string().valid('income', 'expense').required(),
   category: Joi.string().optional(),
   merchant: Joi.string().optional(),
   date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  accountId: Joi.string().guid().optional(),
+  recurrence: recurrenceSchema.optional(),
+  splits: Joi.array().items(splitSchema).max(50).optional(),
+  tags: Joi.array().items(Joi.string().trim().min(1).max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_TRANSACTION).optional(),
 });
 
 const categorizeTransactionSchema = Joi.object({
   description: Joi.string().min(1).max(255).required(),
+  merchant: Joi.string().max(255).optional(),
+});
+
+const columnMappingSchema = Joi.object({
+  description: Joi.string().required(),
+  amount: Joi.string().required(),
+  date: Joi.string().required(),
+  merchant: Joi.string().optional(),
+  type: Joi.string().optional(),
+});
+
+// Multipart fields arrive as strings, so mapping is sent as a JSON string
+const csvImportSchema = Joi.object({
+  mapping: Joi.string().optional(),
+  dateFormat: Joi.string().valid('YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY').optional(),
+  decimalSeparator: Joi.string().valid('.', ',').optional(),
+  dryRun: Joi.boolean().truthy('true').falsy('false').default(true),
+  accountId: Joi.string().guid().optional(),
+});
+
+const ofxImportSchema = Joi.object({
+  accountId: Joi.string().guid().optional(),
+});
+
+const exportSchema = Joi.object({
+  format: Joi.string().valid('csv', 'xlsx', 'ofx').default('csv'),
+});
+
+// Filters shared by the transaction search and the bulk operations
+const searchFilterFields = {
+  q: Joi.string().trim().max(200).allow('').optional(),
+  type: Joi.string().valid('income', 'expense', 'transfer').optional(),
+  category: Joi.string().max(100).optional(),
+  merchant: Joi.string().max(255).optional(),
+  accountId: Joi.string().guid().optional(),
+  minAmount: Joi.number().min(0).optional(),
+  maxAmount: Joi.number().min(0).when('minAmount', { is: Joi.exist(), then: Joi.number().min(Joi.ref('minAmount')) }).optional(),
+  startDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  endDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+};
+
+// Errors thrown by ImportService that are caused by the uploaded file or options (matched by prefix)
+const IMPORT_CLIENT_ERRORS = [
+  'El archivo supera el máximo',
+  'Columnas no encontradas en el archivo',
+  'El archivo no es un extracto OFX válido',
+  'Movimiento inválido',
+  'Account not found',
+  'Archived accounts cannot receive new transactions',
+];
+
+// Search, filter and sort params for the transaction list
+const transactionSearchSchema = Joi.object({
+  ...searchFilterFields,
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+  tags: Joi.alternatives().try(Joi.string().allow(''), Joi.array().items(Joi.string())).optional(),
+  sortBy: Joi.string().valid(...TRANSACTION_SORT_FIELDS).optional(),
+  sortOrder: Joi.string().uppercase().valid('ASC', 'DESC').optional(),
+});
+
+// Bulk operations target either explicit ids or a non-empty filter
+const bulkSelectionFields = {
+  ids: Joi.array().items(Joi.string().guid()).min(1).max(MAX_BULK_TRANSACTIONS).unique(),
+  filter: Joi.object({
+    ...searchFilterFields,
+    q: Joi.string().trim().min(1).max(200).optional(),
+    tags: Joi.array().items(Joi.string().max(MAX_TAG_LENGTH)).optional(),
+  }).min(1),
+};
+
+const bulkDeleteSchema = Joi.object(bulkSelectionFields).xor('ids', 'filter');
+
+const bulkUpdateSchema = Joi.object({
+  ...bulkSelectionFields,
+  changes: Joi.object({
+    category: Joi.string().min(1).max(100).optional(),
+    merchant: Joi.string().max(255).allow('', null).optional(),
+    type: Joi.string().valid('income', 'expense').optional(),
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  }).min(1).required(),
+}).xor('ids', 'filter');
+
+// Only a completed reconciliation marks transactions as reconciled
+const transactionStatusSchema = Joi.object({
+  status: Joi.string().valid('pending', 'cleared').required(),
 });
 
 // Date range validation schema for query params
@@ -27,6 +147,17 @@ const dateRangeSchema = Joi.object({
   endDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
 });
 
+// Helper function to build split lines from validated input
+function buildSplits(lines: Array<{ amount: number; category: string; description?: string }>): TransactionSplit[] {
+  return lines.map(line => {
+    const split = new TransactionSplit();
+    split.amount = line.amount;
+    split.category = line.category;
+    split.description = line.description;
+    return split;
+  });
+}
+
 // Helper function to validate date range query params
 function validateDateRange(query: Record<string, unknown>): { 
   valid: boolean; 
@@ -58,9 +189,23 @@ function validateDateRange(query: Record<string, unknown>): {
 export class TransactionsController {
   private nlpService = new NLPCategorizationService();
   private analyticsService = new AnalyticsService();
+  private importService = new ImportService();
+  private exportService = new ExportService();
+  private recurringService = new RecurringTransactionService();
+  private accountService = new AccountService();
+  private transferService = new TransferService();
+  private tagService = new TagService();
+  private merchantService = new MerchantService();
+  private categoryService = new CategoryService();
+  private ruleService = new CategorizationRuleService();
+  private classifierService = new ClassifierService();
+  private categorizationCacheService = new CategorizationCacheService();
+  private llmUsageService = new LLMUsageService();
+  private transactionSearchService = new TransactionSearchService();
+  private bulkTransactionService = new BulkTransactionService();
 
   /**
-   * Create a new transaction with optional AI categorization
+   * Create a new transaction with optional AI categorization and recurrence
    */
   async createTransaction(req: Request, res: Response): Promise<void> {
     try {
@@ -75,7 +220,7 @@ export class TransactionsController {
         return;
       }
 
-      const { description, amount, type, merchant, date } = value;
+      const { description, amount, currency, type, merchant, date, accountId, recurrence, splits, tags } = value;
       const userId = (req as { user?: { id: string } }).user?.id ?? ''; // From auth middleware
 
       // Check if user exists
@@ -98,6 +243,33 @@ export class TransactionsController {
       transaction.userId = userId;
       // Use provided date or default to today's date (YYYY-MM-DD format)
       transaction.date = date || new Date().toISOString().split('T')[0];
+      if (splits) {
+        transaction.splits = buildSplits(splits);
+      }
+      if (tags) {
+        transaction.tags = await this.tagService.resolveTags(userId, tags);
+      }
+
+      // Normalize the merchant against the user's merchant directory
+      const merchantEntry = await this.merchantService.resolveMerchant(userId, merchant, description);
+      if (merchantEntry) {
+        transaction.merchantId = merchantEntry.id;
+        transaction.merchant = merchantEntry.name;
+      }
+
+      // Use the requested account or fall back to the user's default account (and its currency)
+      try {
+        const account = await this.accountService.resolveAccount(userId, accountId);
+        transaction.accountId = account.id;
+        transaction.currency = currency || account.currency;
+      } catch (accountError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [accountError instanceof Error ? accountError.message : 'Invalid account']
+        });
+        return;
+      }
 
       // Validate transaction data
       const validationErrors = transaction.validate();
@@ -110,27 +282,40 @@ export class TransactionsController {
         return;
       }
 
-      // Try to categorize if it's an expense
-      if (type === 'expense') {
-        try {
-          const categorization = await this.nlpService.categorizeTransaction(description);
-          transaction.category = categorization.category;
-          transaction.confidence = categorization.confidence;
-        } catch (error) {
-          logger.error('Categorization failed:', error);
-          // Continue without categorization
-          transaction.category = 'Otros';
-          transaction.confidence = 0.5;
+      // User rules run first for both types; expenses then fall back to the merchant, keywords and AI
+      let transferAccountId: string | null = null;
+      try {
+        const categorization = await this.nlpService.categorizeTransaction(description, merchantEntry, {
+          categories: await this.categoryService.getCategoryNames(userId, 'expense'),
+          rules: await this.ruleService.getActiveRules(userId),
+          classifier: await this.classifierService.getModel(userId),
+          userId,
+          amount,
+          type
+        });
+        transaction.category = categorization.category;
+        transaction.confidence = categorization.confidence;
+        transaction.categorySource = categorizationSource(categorization);
+        if (categorization.rule) {
+          await this.ruleService.applyActions(userId, transaction, categorization.rule.actions);
+          // A recurring template cannot become a transfer
+          transferAccountId = recurrence ? null : ruleTransferAccount(categorization.rule.actions);
         }
-      } else {
-        // For income, set default category
-        transaction.category = 'Ingresos';
-        transaction.confidence = 1.0;
+      } catch (error) {
+        logger.error('Categorization failed:', error);
+        // Continue without categorization
+        transaction.category = type === 'expense' ? 'Otros' : 'Ingresos';
+        transaction.confidence = type === 'expense' ? 0.5 : 1.0;
+        transaction.categorySource = 'auto';
       }
 
-      // Save transaction
+      // Save transaction, creating its recurring rule in the same database transaction
       const transactionRepository = AppDataSource.getRepository(Transaction);
-      const savedTransaction = await transactionRepository.save(transaction);
+      const savedTransaction = recurrence
+        ? await this.recurringService.createFromTransaction(transaction, recurrence)
+        : transferAccountId
+          ? await this.saveAsRuleTransfer(transaction, transferAccountId)
+          : await transactionRepository.save(transaction);
 
       res.status(201).json({
         success: true,
@@ -148,45 +333,72 @@ export class TransactionsController {
   }
 
   /**
-   * Get all transactions for the authenticated user
+   * Save a transaction matched by a "mark as transfer" rule as a transfer with the rule's account
+   * Falls back to a regular transaction when that account can no longer take it (archived, other currency...)
+   * @returns The leg in the transaction's own account
    */
-  async getUserTransactions(req: Request, res: Response): Promise<void> {
+  private async saveAsRuleTransfer(transaction: Transaction, transferAccountId: string): Promise<Transaction> {
     try {
-      const userId = (req as { user?: { id: string } }).user?.id || '';
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-      const offset = (page - 1) * limit;
+      const [leg] = await AppDataSource.transaction(manager =>
+        this.transferService.saveAsTransfer(manager, transaction, transferAccountId));
+      return leg;
+    } catch (error) {
+      logger.warn(`Rule transfer skipped: ${error instanceof Error ? error.message : error}`);
+      return AppDataSource.getRepository(Transaction).save(transaction);
+    }
+  }
 
-      // Validate date range query params
-      const dateValidation = validateDateRange(req.query as Record<string, unknown>);
-      if (!dateValidation.valid) {
+  /**
+   * Categorize an edited transaction again with the user's rules, classifier and AI, applying the rule's actions
+   * Rules only turn new transactions into transfers; on failure the current category is kept
+   */
+  private async recategorize(userId: string, transaction: Transaction, merchant: Merchant | null): Promise<void> {
+    try {
+      const categorization = await this.nlpService.categorizeTransaction(transaction.description, merchant, {
+        categories: await this.categoryService.getCategoryNames(userId, 'expense'),
+        rules: await this.ruleService.getActiveRules(userId),
+        classifier: await this.classifierService.getModel(userId),
+        userId,
+        amount: Number(transaction.amount),
+        type: transaction.type === 'income' ? 'income' : 'expense'
+      });
+      transaction.category = categorization.category;
+      transaction.confidence = categorization.confidence;
+      transaction.categorySource = categorizationSource(categorization);
+      if (categorization.rule) {
+        await this.ruleService.applyActions(userId, transaction, categorization.rule.actions);
+      }
+    } catch (error) {
+      logger.error('Re-categorization failed:', error);
+    }
+  }
+
+  /**
+   * Search the authenticated user's transactions with optional text, filters and sorting
+   */
+  async getUserTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = transactionSearchSchema.validate(req.query);
+      if (error) {
         res.status(400).json({
           success: false,
-          message: 'Invalid date range',
-          error: dateValidation.error
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
         });
         return;
       }
 
-      const { startDate, endDate } = dateValidation;
-
-      // Build query with optional date filtering
-      const transactionRepository = AppDataSource.getRepository(Transaction);
-      const queryBuilder = transactionRepository.createQueryBuilder('t')
-        .where('t.userId = :userId', { userId });
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const { page, limit, startDate, endDate } = value;
 
-      if (startDate && endDate) {
-        queryBuilder.andWhere('t.date >= :startDate AND t.date <= :endDate', { 
-          startDate, 
-          endDate 
-        });
-      }
+      // ?tags=a,b returns transactions that have every listed tag
+      const tagNames = parseTagsQuery(value.tags);
 
-      const [transactions, total] = await queryBuilder
-        .orderBy('t.createdAt', 'DESC')
-        .take(limit)
-        .skip(offset)
-        .getManyAndCount();
+      const { transactions, total } = await this.transactionSearchService.search(userId, {
+        ...value,
+        q: value.q || undefined,
+        tags: tagNames
+      });
 
       res.json({
         success: true,
@@ -198,7 +410,8 @@ export class TransactionsController {
             total,
             pages: Math.ceil(total / limit)
           },
-          dateRange: startDate && endDate ? { startDate, endDate } : undefined
+          dateRange: startDate && endDate ? { startDate, endDate } : undefined,
+          tags: tagNames.length > 0 ? tagNames : undefined
         }
       });
 
@@ -221,7 +434,8 @@ export class TransactionsController {
 
       const transactionRepository = AppDataSource.getRepository(Transaction);
       const transaction = await transactionRepository.findOne({
-        where: { id, userId }
+        where: { id, userId },
+        relations: { splits: true, attachments: true, tags: true }
       });
 
       if (!transaction) {
@@ -267,7 +481,8 @@ export class TransactionsController {
 
       const transactionRepository = AppDataSource.getRepository(Transaction);
       const transaction = await transactionRepository.findOne({
-        where: { id, userId }
+        where: { id, userId },
+        relations: { splits: true, tags: true }
       });
 
       if (!transaction) {
@@ -278,25 +493,93 @@ export class TransactionsController {
         return;
       }
 
+      // Reconciled rows are locked; PATCH /:id/status unlocks them explicitly
+      if (transaction.status === 'reconciled') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Reconciled transactions cannot be edited']
+        });
+        return;
+      }
+
+      // Both legs of a transfer must change together
+      if (transaction.type === 'transfer') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Transfers must be updated through /api/transfers']
+        });
+        return;
+      }
+
+      // Compared after the update to decide whether to re-categorize
+      const previousDescription = transaction.description;
+      const previousType = transaction.type;
+      const previousMerchantId = transaction.merchantId || null;
+      // A category picked by the user is a correction the classifier learns from
+      const categoryCorrected = value.category !== undefined && value.category !== transaction.category;
+      if (categoryCorrected && !(await this.categoryService.categoryExists(userId, value.category))) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Category not found']
+        });
+        return;
+      }
+
       // Update transaction fields
       transaction.description = value.description;
       transaction.amount = value.amount;
       transaction.type = value.type;
       transaction.merchant = value.merchant || null;
+      const merchantEntry = await this.merchantService.resolveMerchant(userId, value.merchant, value.description);
+      transaction.merchantId = merchantEntry?.id || null;
+      if (merchantEntry) {
+        transaction.merchant = merchantEntry.name;
+      }
       // Update date if provided
       if (value.date) {
         transaction.date = value.date;
       }
-
-      // Re-categorize if description changed and it's an expense
-      if (transaction.type === 'expense' && transaction.description !== value.description) {
+      // Replace split lines if provided (an empty array removes the split)
+      if (value.splits) {
+        transaction.splits = buildSplits(value.splits);
+      }
+      if (value.currency) {
+        transaction.currency = value.currency;
+      }
+      // Replace tags if provided (an empty array removes them all)
+      if (value.tags) {
+        transaction.tags = await this.tagService.resolveTags(userId, value.tags);
+      }
+      // Move to another account if requested
+      if (value.accountId && value.accountId !== transaction.accountId) {
         try {
-          const categorization = await this.nlpService.categorizeTransaction(value.description);
-          transaction.category = categorization.category;
-          transaction.confidence = categorization.confidence;
-        } catch (error) {
-          logger.error('Re-categorization failed:', error);
-          // Keep existing category
+          transaction.accountId = (await this.accountService.resolveAccount(userId, value.accountId)).id;
+        } catch (accountError) {
+          res.status(400).json({
+            success: false,
+            message: 'Validation error',
+            errors: [accountError instanceof Error ? accountError.message : 'Invalid account']
+          });
+          return;
+        }
+      }
+
+      // Unless the user picked the category: a new type starts from its fallback category, as bulk edits do,
+      // and a new description or merchant runs the rules and the categorizer again, as on creation
+      const merchantChanged = (merchantEntry?.id || null) !== previousMerchantId;
+      if (categoryCorrected) {
+        transaction.category = value.category;
+        transaction.confidence = 1.0;
+        transaction.categorySource = 'user';
+      } else {
+        if (transaction.type !== previousType) {
+          Object.assign(transaction, fallbackCategorization(value.type));
+        }
+        if (previousDescription !== value.description || merchantChanged) {
+          await this.recategorize(userId, transaction, merchantEntry);
         }
       }
 
@@ -313,6 +596,22 @@ export class TransactionsController {
 
       const updatedTransaction = await transactionRepository.save(transaction);
 
+      // Split lines carry their own categories, so a split transaction teaches nothing
+      if (categoryCorrected && transaction.type === 'expense' && !(transaction.splits && transaction.splits.length > 0)) {
+        try {
+          const correction = {
+            description: transaction.description,
+            merchant: transaction.merchant,
+            category: value.category
+          };
+          await this.classifierService.learn(userId, [correction]);
+          // Drop the AI answer the user just corrected so it is not served from the cache again
+          await this.categorizationCacheService.invalidate(userId, [correction]);
+        } catch (error) {
+          logger.error('Classifier update failed:', error);
+        }
+      }
+
       res.json({
         success: true,
         message: 'Transaction updated successfully',
@@ -337,7 +636,29 @@ export class TransactionsController {
       const userId = (req as { user?: { id: string } }).user?.id || '';
 
       const transactionRepository = AppDataSource.getRepository(Transaction);
-      const result = await transactionRepository.delete({
+      const transaction = await transactionRepository.findOne({ where: { id, userId } });
+
+      if (transaction?.status === 'reconciled') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['Reconciled transactions cannot be deleted']
+        });
+        return;
+      }
+
+      // Deleting one leg of a transfer removes the whole transfer; TransferService refuses if either leg is reconciled
+      if (transaction?.transferId) {
+        await this.transferService.deleteTransfer(userId, transaction.transferId);
+        res.json({
+          success: true,
+          message: 'Transfer deleted successfully'
+        });
+        return;
+      }
+
+      // Soft delete: the transaction goes to the trash and can be restored
+      const result = await transactionRepository.softDelete({
         id,
         userId
       });
@@ -357,6 +678,60 @@ export class TransactionsController {
 
     } catch (error) {
       logger.error('Error deleting transaction:', error);
+      if (error instanceof Error && error.message === 'Reconciled transactions cannot be deleted') {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [error.message]
+        });
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Mark a transaction as pending or cleared outside a reconciliation session
+   * This is also the explicit way to unlock a reconciled transaction
+   */
+  async updateTransactionStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = transactionStatusSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const transactionRepository = AppDataSource.getRepository(Transaction);
+      const transaction = await transactionRepository.findOne({ where: { id: req.params.id, userId } });
+      if (!transaction) {
+        res.status(404).json({
+          success: false,
+          message: 'Transaction not found'
+        });
+        return;
+      }
+
+      transaction.status = value.status;
+      transaction.reconciliationId = null;
+      const saved = await transactionRepository.save(transaction);
+
+      res.json({
+        success: true,
+        message: 'Transaction status updated successfully',
+        data: saved.toJSON()
+      });
+
+    } catch (error) {
+      logger.error('Error updating transaction status:', error);
       res.status(500).json({
         success: false,
         message: 'Internal server error'
@@ -364,6 +739,273 @@ export class TransactionsController {
     }
   }
 
+  /**
+   * Apply the same category/merchant/type/date change to many transactions at once
+   */
+  async bulkUpdateTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = bulkUpdateSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const updated = await this.bulkTransactionService.bulkUpdate(userId, {
+        ids: value.ids,
+        filter: value.filter && { ...value.filter, tags: parseTagsQuery(value.filter.tags) }
+      }, value.changes);
+
+      res.json({
+        success: true,
+        message: 'Transactions updated successfully',
+        data: { updated }
+      });
+
+    } catch (error) {
+      this.handleBulkError(res, error, 'Error bulk updating transactions:');
+    }
+  }
+
+  /**
+   * Delete many transactions at once, selected by id or by filter
+   */
+  async bulkDeleteTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = bulkDeleteSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const ids = await this.bulkTransactionService.bulkDelete(userId, {
+        ids: value.ids,
+        filter: value.filter && { ...value.filter, tags: parseTagsQuery(value.filter.tags) }
+      });
+
+      res.json({
+        success: true,
+        message: 'Transactions deleted successfully',
+        data: { deleted: ids.length, ids }
+      });
+
+    } catch (error) {
+      this.handleBulkError(res, error, 'Error bulk deleting transactions:');
+    }
+  }
+
+  private handleBulkError(res: Response, error: unknown, context: string): void {
+    logger.error(context, error);
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Transaction not found') {
+      res.status(404).json({
+        success: false,
+        message
+      });
+      return;
+    }
+    if (
+      message === 'Transfers must be updated through /api/transfers' ||
+      message === 'Reconciled transactions cannot be edited' ||
+      message === 'Category not found' ||
+      message === 'The category does not match the transaction type' ||
+      message.startsWith('Bulk operations are limited')
+    ) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: [message]
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+
+  /**
+   * Import transactions from a CSV bank statement (dry-run preview by default)
+   */
+  async importCsv(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['A CSV file is required in the "file" field']
+        });
+        return;
+      }
+
+      const { error, value } = csvImportSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      let mapping: CsvColumnMapping | undefined;
+      if (value.mapping) {
+        let parsedMapping: unknown;
+        try {
+          parsedMapping = JSON.parse(value.mapping);
+        } catch {
+          parsedMapping = null;
+        }
+        const mappingValidation = columnMappingSchema.validate(parsedMapping);
+        if (mappingValidation.error) {
+          res.status(400).json({
+            success: false,
+            message: 'Validation error',
+            errors: mappingValidation.error.details.map(d => d.message)
+          });
+          return;
+        }
+        mapping = mappingValidation.value;
+      }
+
+      const result = await this.importService.importCsv(userId, req.file.buffer.toString('utf-8'), {
+        mapping,
+        dateFormat: value.dateFormat,
+        decimalSeparator: value.decimalSeparator,
+        dryRun: value.dryRun,
+        accountId: value.accountId,
+      });
+
+      res.status(result.dryRun ? 200 : 201).json({
+        success: true,
+        message: result.dryRun ? 'Import preview generated' : `${result.imported} transactions imported`,
+        data: result
+      });
+
+    } catch (error) {
+      this.handleImportError(res, error, 'Error importing CSV:');
+    }
+  }
+
+  /**
+   * Import transactions from an OFX/QFX statement, skipping already imported FITIDs
+   */
+  async importOfx(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: ['An OFX/QFX file is required in the "file" field']
+        });
+        return;
+      }
+
+      const { error, value } = ofxImportSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const summary = await this.importService.importOfx(userId, req.file.buffer.toString('utf-8'), value.accountId);
+
+      res.status(201).json({
+        success: true,
+        message: `${summary.imported} transactions imported`,
+        data: summary
+      });
+
+    } catch (error) {
+      this.handleImportError(res, error, 'Error importing OFX:');
+    }
+  }
+
+  private handleImportError(res: Response, error: unknown, context: string): void {
+    logger.error(context, error);
+    const message = error instanceof Error ? error.message : '';
+    if (IMPORT_CLIENT_ERRORS.some(prefix => message.startsWith(prefix))) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: [message]
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+
+  /**
+   * Export transactions as CSV, XLSX or OFX, streaming rows to the response
+   */
+  async exportTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const { error, value } = exportSchema.validate({ format: req.query.format });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const dateValidation = validateDateRange({ startDate: req.query.startDate, endDate: req.query.endDate });
+      if (!dateValidation.valid) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid date range',
+          error: dateValidation.error
+        });
+        return;
+      }
+
+      const format = value.format as ExportFormat;
+      const filename = `transacciones-${new Date().toISOString().split('T')[0]}.${format}`;
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+      await this.exportService.exportTransactions(userId, format, res, {
+        startDate: dateValidation.startDate,
+        endDate: dateValidation.endDate
+      });
+
+    } catch (error) {
+      logger.error('Error exporting transactions:', error);
+      // Once streaming has started the status can no longer change, so just abort
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
   /**
    * Categorize a transaction description without saving
    */
@@ -380,8 +1022,15 @@ export class TransactionsController {
         return;
       }
 
-      const { description } = value;
-      const categorization = await this.nlpService.categorizeTransaction(description);
+      // Preview only: unknown merchants are not added to the directory
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const merchantEntry = await this.merchantService.resolveMerchant(userId, value.merchant, value.description, false);
+      const categorization = await this.nlpService.categorizeTransaction(value.description, merchantEntry, {
+        categories: await this.categoryService.getCategoryNames(userId, 'expense'),
+        rules: await this.ruleService.getActiveRules(userId),
+        classifier: await this.classifierService.getModel(userId),
+        userId
+      });
 
       res.json({
         success: true,
@@ -397,6 +1046,50 @@ export class TransactionsController {
     }
   }
 
+  /**
+   * How much the user's local classifier has learned and how accurate its predictions are
+   */
+  async getClassifierStats(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const stats = await this.classifierService.getStats(userId);
+
+      res.json({
+        success: true,
+        data: stats
+      });
+
+    } catch (error) {
+      logger.error('Error getting classifier stats:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * AI tokens the user has spent this month against the monthly budget
+   */
+  async getAIUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const usage = await this.llmUsageService.getUsage(userId);
+
+      res.json({
+        success: true,
+        data: usage
+      });
+
+    } catch (error) {
+      logger.error('Error getting AI usage:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
   /**
    * Get transaction statistics for the user
    */
@@ -425,43 +1118,53 @@ export class TransactionsController {
         return '';
       };
 
-      const params: Record<string, string> = { userId };
+      // Amounts in other currencies are converted to the user's base currency
+      const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+      const baseCurrency = user?.currency || 'USD';
+
+      const params: Record<string, string> = { userId, baseCurrency };
       if (startDate && endDate) {
         params.startDate = startDate;
         params.endDate = endDate;
       }
 
       const transactionRepository = AppDataSource.getRepository(Transaction);
+      const convertedAmount = convertedAmountSql('t.amount', 't', ':baseCurrency');
 
       // Get total income and expenses with optional date filtering
       const [totalIncome, totalExpenses] = await Promise.all([
         transactionRepository
           .createQueryBuilder('t')
-          .select('SUM(t.amount)', 'total')
+          .select(`SUM(${convertedAmount})`, 'total')
           .where('t.userId = :userId', { userId })
           .andWhere('t.type = :type', { type: 'income' })
           .andWhere(`t.date IS NOT NULL ${getDateCondition()}`, params)
           .getRawOne(),
         transactionRepository
           .createQueryBuilder('t')
-          .select('SUM(t.amount)', 'total')
+          .select(`SUM(${convertedAmount})`, 'total')
           .where('t.userId = :userId', { userId })
           .andWhere('t.type = :type', { type: 'expense' })
           .andWhere(`t.date IS NOT NULL ${getDateCondition()}`, params)
           .getRawOne()
       ]);
 
-      // Get category breakdown for expenses with optional date filtering
+      // Get category breakdown for expenses with optional date filtering (split lines count towards their own category,
+      // subcategories towards their parent)
+      const rolledUpCategory = 'COALESCE(p.name, s.category, t.category)';
       const categoryBreakdown = await transactionRepository
         .createQueryBuilder('t')
-        .select('t.category', 'category')
-        .addSelect('SUM(t.amount)', 'total')
-        .addSelect('COUNT(t.id)', 'count')
+        .leftJoin('t.splits', 's')
+        .leftJoin(Category, 'c', 'c."userId"::text = t."userId" AND c.name = COALESCE(s.category, t.category)')
+        .leftJoin(Category, 'p', 'p.id = c."parentId"')
+        .select(rolledUpCategory, 'category')
+        .addSelect(`SUM(${convertedAmountSql('COALESCE(s.amount, t.amount)', 't', ':baseCurrency')})`, 'total')
+        .addSelect('COUNT(DISTINCT t.id)', 'count')
         .where('t.userId = :userId', { userId })
         .andWhere('t.type = :type', { type: 'expense' })
-        .andWhere('t.category IS NOT NULL')
+        .andWhere('COALESCE(s.category, t.category) IS NOT NULL')
         .andWhere(`t.date IS NOT NULL ${getDateCondition()}`, params)
-        .groupBy('t.category')
+        .groupBy(rolledUpCategory)
         .orderBy('total', 'DESC')
         .getRawMany();
 
@@ -471,6 +1174,7 @@ export class TransactionsController {
           totalIncome: parseFloat(totalIncome?.total || '0'),
           totalExpenses: parseFloat(totalExpenses?.total || '0'),
           balance: parseFloat(totalIncome?.total || '0') - parseFloat(totalExpenses?.total || '0'),
+          currency: baseCurrency,
           categoryBreakdown,
           dateRange: startDate && endDate ? { startDate, endDate } : undefined
         }
@@ -569,6 +1273,28 @@ export class TransactionsController {
     }
   }
 
+  /**
+   * Dashboard totals and daily cash flow, converted to the user's base currency
+   */
+  async getDashboardSummary(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const summary = await this.analyticsService.getDashboardSummary(userId);
+
+      res.json({
+        success: true,
+        data: summary
+      });
+
+    } catch (error) {
+      logger.error('Error getting dashboard summary:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
+
   /**
    * Get monthly trend data for charts
    */
@@ -643,4 +1369,41 @@ export class TransactionsController {
       });
     }
   }
+
+  /**
+   * Get income and expense totals per tag (optionally limited with ?tags=)
+   */
+  async getTagBreakdown(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      // Validate date range query params
+      const dateValidation = validateDateRange(req.query as Record<string, unknown>);
+      if (!dateValidation.valid) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid date range',
+          error: dateValidation.error
+        });
+        return;
+      }
+
+      const { startDate, endDate } = dateValidation;
+
+      const breakdown = await this.analyticsService.getTagBreakdown(userId, startDate, endDate, parseTagsQuery(req.query.tags));
+
+      res.json({
+        success: true,
+        data: breakdown,
+        dateRange: startDate && endDate ? { startDate, endDate } : undefined
+      });
+
+    } catch (error) {
+      logger.error('Error getting tag breakdown:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      });
+    }
+  }
 }
@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { TransferService } from '../services/transfer.service';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const createTransferSchema = Joi.object({
+  fromAccountId: Joi.string().guid().required(),
+  toAccountId: Joi.string().guid().required(),
+  amount: Joi.number().positive().precision(2).required(),
+  toAmount: Joi.number().positive().precision(2).optional(),
+  date: Joi.string().pattern(datePattern).optional(),
+  description: Joi.string().min(1).max(255).optional(),
+});
+
+const updateTransferSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).optional(),
+  toAmount: Joi.number().positive().precision(2).optional(),
+  date: Joi.string().pattern(datePattern).optional(),
+  description: Joi.string().min(1).max(255).optional(),
+}).min(1);
+
+// Errors thrown by TransferService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'Account not found',
+  'Archived accounts cannot receive new transactions',
+  'Source and destination accounts must be different',
+  'Transfers between accounts with different currencies require toAmount',
+  'Transfers between accounts with the same currency must credit the same amount',
+  'Reconciled transactions cannot be edited',
+  'Reconciled transactions cannot be deleted',
+];
+
+export class TransferController {
+  private transferService = new TransferService();
+
+  async createTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = createTransferSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const transfer = await this.transferService.createTransfer(userId, value);
+
+      res.status(201).json({
+        success: true,
+        message: 'Transfer created successfully',
+        data: transfer
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error creating transfer:', error);
+    }
+  }
+
+  async getTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const transfer = await this.transferService.getTransfer(userId, id);
+
+      res.json({
+        success: true,
+        data: transfer
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting transfer:', error);
+    }
+  }
+
+  async updateTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      const { error, value } = updateTransferSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const transfer = await this.transferService.updateTransfer(userId, id, value);
+
+      res.json({
+        success: true,
+        message: 'Transfer updated successfully',
+        data: transfer
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error updating transfer:', error);
+    }
+  }
+
+  async deleteTransfer(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+
+      await this.transferService.deleteTransfer(userId, id);
+
+      res.json({
+        success: true,
+        message: 'Transfer deleted successfully'
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error deleting transfer:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    if (error instanceof Error && error.message === 'Transfer not found') {
+      res.status(404).json({
+        success: false,
+        message: 'Transfer not found'
+      });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS.some(message => error.message.includes(message))) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.message.split(', ')
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+}
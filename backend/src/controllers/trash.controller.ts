@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { TrashService, TRASH_ITEM_TYPES } from '../services/trash.service';
+import Joi from 'joi';
+import logger from '../utils/logger';
+
+const trashItemsSchema = Joi.object({
+  type: Joi.string().valid(...TRASH_ITEM_TYPES).required(),
+  ids: Joi.array().items(Joi.string().guid()).min(1).max(1000).unique().required(),
+});
+
+// Errors thrown by TrashService that are caused by the request rather than the server
+const CLIENT_ERRORS = [
+  'An active budget already exists for this category and month',
+];
+
+export class TrashController {
+  private trashService = new TrashService();
+
+  /**
+   * List the user's deleted transactions, goals and budgets
+   */
+  async getTrash(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const trash = await this.trashService.getTrash(userId);
+
+      res.json({
+        success: true,
+        data: trash
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error getting trash:', error);
+    }
+  }
+
+  /**
+   * Restore items from the trash (also used by the frontend "undo" after a delete)
+   */
+  async restore(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = trashItemsSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const restored = await this.trashService.restore(userId, value.type, value.ids);
+
+      res.json({
+        success: true,
+        message: 'Items restored successfully',
+        data: { restored }
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error restoring from trash:', error);
+    }
+  }
+
+  /**
+   * Permanently delete selected items from the trash
+   */
+  async purge(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = trashItemsSchema.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.details.map(d => d.message)
+        });
+        return;
+      }
+
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const purged = await this.trashService.purge(userId, value.type, value.ids);
+
+      res.json({
+        success: true,
+        message: 'Items permanently deleted',
+        data: { purged }
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error purging trash items:', error);
+    }
+  }
+
+  async emptyTrash(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as { user?: { id: string } }).user?.id || '';
+      const purged = await this.trashService.emptyTrash(userId);
+
+      res.json({
+        success: true,
+        message: 'Trash emptied successfully',
+        data: { purged }
+      });
+
+    } catch (error) {
+      this.handleError(res, 'Error emptying trash:', error);
+    }
+  }
+
+  private handleError(res: Response, logMessage: string, error: unknown): void {
+    logger.error(logMessage, error);
+    if (error instanceof Error && error.message === 'Item not found in trash') {
+      res.status(404).json({
+        success: false,
+        message: 'Item not found in trash'
+      });
+      return;
+    }
+    if (error instanceof Error && CLIENT_ERRORS.includes(error.message)) {
+      res.status(400).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+}
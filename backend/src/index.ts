@@ -10,10 +10,27 @@ import authRoutes from './routes/auth.routes';
 import transactionRoutes from './routes/transactions.routes';
 import goalRoutes from './routes/goal.routes';
 import budgetRoutes from './routes/budget.routes';
+import recurringRoutes from './routes/recurring.routes';
+import accountRoutes from './routes/account.routes';
+import transferRoutes from './routes/transfer.routes';
+import exchangeRateRoutes from './routes/exchange-rate.routes';
+import tagRoutes from './routes/tag.routes';
+import trashRoutes from './routes/trash.routes';
+import merchantRoutes from './routes/merchant.routes';
+import reconciliationRoutes from './routes/reconciliation.routes';
+import installmentRoutes from './routes/installment.routes';
+import categoryRoutes from './routes/category.routes';
+import ruleRoutes from './routes/categorization-rule.routes';
 import { initializeDatabase } from './config/database';
 import { validateEnvironmentAtStartup } from './middleware/env-validation.middleware';
 import { apiLimiter } from './middleware/rate-limit.middleware';
 import { requestLogger } from './middleware/request-logger.middleware';
+import { RecurringTransactionService } from './services/recurring.service';
+import { InstallmentService } from './services/installment.service';
+import { TrashService } from './services/trash.service';
+import { CategorizationCacheService } from './services/categorization-cache.service';
+import { RecategorizationService } from './services/recategorization.service';
+import { scheduleTask } from './utils/scheduler';
 
 // Load environment variables
 dotenv.config();
@@ -24,8 +41,40 @@ validateEnvironmentAtStartup();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Initialize database
-initializeDatabase();
+// Initialize database and start background jobs once connected
+initializeDatabase().then(() => {
+  const recurringService = new RecurringTransactionService();
+  scheduleTask(
+    'recurring-transactions',
+    Number(process.env.RECURRING_SCHEDULER_INTERVAL_MS) || 60 * 60 * 1000,
+    () => recurringService.processDueTransactions()
+  );
+
+  const installmentService = new InstallmentService();
+  scheduleTask(
+    'installment-charges',
+    Number(process.env.RECURRING_SCHEDULER_INTERVAL_MS) || 60 * 60 * 1000,
+    () => installmentService.processDueInstallments()
+  );
+
+  const trashService = new TrashService();
+  scheduleTask(
+    'trash-purge',
+    Number(process.env.TRASH_PURGE_INTERVAL_MS) || 24 * 60 * 60 * 1000,
+    () => trashService.purgeExpired()
+  );
+
+  const categorizationCacheService = new CategorizationCacheService();
+  scheduleTask(
+    'categorization-cache-purge',
+    Number(process.env.TRASH_PURGE_INTERVAL_MS) || 24 * 60 * 60 * 1000,
+    () => categorizationCacheService.purgeExpired()
+  );
+
+  // Los trabajos de recategorización corren en memoria y no sobreviven a un reinicio
+  new RecategorizationService().failInterrupted()
+    .catch(error => logger.error('Error failing interrupted recategorization jobs:', error));
+});
 
 // Middleware
 app.use(helmet());
@@ -45,6 +94,17 @@ app.use('/api/auth', authRoutes);
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/goals', goalRoutes);
 app.use('/api/budgets', budgetRoutes);
+app.use('/api/recurring', recurringRoutes);
+app.use('/api/accounts', accountRoutes);
+app.use('/api/transfers', transferRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/merchants', merchantRoutes);
+app.use('/api/reconciliations', reconciliationRoutes);
+app.use('/api/installments', installmentRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/rules', ruleRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
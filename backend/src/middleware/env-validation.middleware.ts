@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import logger from '../utils/logger';
+import { getLLMConfigError } from '../services/llm.service';
 
 /**
  * Middleware to validate required environment variables
@@ -9,7 +10,6 @@ export function validateEnvironment(req: Request, res: Response, next: NextFunct
     'NODE_ENV',
     'PORT',
     'JWT_SECRET',
-    'OPENAI_API_KEY',
     'DATABASE_URL'
   ];
 
@@ -54,6 +54,18 @@ export function validateEnvironment(req: Request, res: Response, next: NextFunct
     return;
   }
 
+  // The LLM provider is optional, but a partial configuration is an error
+  const llmConfigError = getLLMConfigError();
+  if (llmConfigError) {
+    logger.error(llmConfigError);
+    res.status(500).json({
+      success: false,
+      message: 'Server configuration error',
+      error: llmConfigError
+    });
+    return;
+  }
+
   next();
 }
 
@@ -65,7 +77,6 @@ export function validateEnvironmentAtStartup(): void {
     'NODE_ENV',
     'PORT',
     'JWT_SECRET',
-    'OPENAI_API_KEY',
     'DATABASE_URL'
   ];
 
@@ -97,5 +108,13 @@ export function validateEnvironmentAtStartup(): void {
     process.exit(1);
   }
 
+  // The LLM provider is optional, but a partial configuration is an error
+  const llmConfigError = getLLMConfigError();
+  if (llmConfigError) {
+    logger.error(llmConfigError);
+    logger.error('Set LLM_PROVIDER=none to run with keyword categorization only.');
+    process.exit(1);
+  }
+
   logger.info('Environment variables validation passed');
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { ATTACHMENT_MIME_TYPES, MAX_ATTACHMENT_SIZE } from '../utils/attachments';
+import logger from '../utils/logger';
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024; // 5 MB
+
+/**
+ * Upload en memoria para extractos bancarios (CSV)
+ */
+const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_STATEMENT_SIZE, files: 1 },
+});
+
+/**
+ * Upload en memoria para comprobantes adjuntos
+ * El tipo declarado se filtra aquí; el servicio verifica además el contenido real
+ */
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (!ATTACHMENT_MIME_TYPES[file.mimetype]) {
+      const error = new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname);
+      error.message = 'Tipo de archivo no permitido: solo se aceptan imágenes JPEG, PNG, WebP y PDF';
+      callback(error);
+      return;
+    }
+    callback(null, true);
+  },
+});
+
+/**
+ * Convierte los errores de multer en respuestas 400 en lugar de errores 500
+ */
+function withUploadErrors(handler: RequestHandler): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (err?: unknown) => {
+      if (err instanceof multer.MulterError) {
+        logger.warn(`Upload rejected: ${err.message}`);
+        res.status(400).json({
+          success: false,
+          message: 'Upload error',
+          error: err.code === 'LIMIT_FILE_SIZE' ? 'El archivo supera el tamaño máximo permitido' : err.message
+        });
+        return;
+      }
+      next(err);
+    });
+  };
+}
+
+/**
+ * Middleware para recibir un único extracto en el campo "file"
+ */
+export const uploadStatement = withUploadErrors(statementUpload.single('file'));
+
+/**
+ * Middleware para recibir un comprobante en el campo "file"
+ */
+export const uploadAttachment = withUploadErrors(attachmentUpload.single('file'));
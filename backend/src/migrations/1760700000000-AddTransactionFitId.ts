@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Agrega el identificador de la entidad financiera (FITID de OFX) para no reimportar movimientos
+ */
+export class AddTransactionFitId1760700000000 implements MigrationInterface {
+  name = 'AddTransactionFitId1760700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    if (!(await queryRunner.hasColumn('transactions', 'fitId'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'fitId', type: 'varchar', isNullable: true }));
+      // Las transacciones cargadas a mano no tienen FITID y Postgres admite varios NULL en un índice único
+      await queryRunner.createIndex('transactions', new TableIndex({
+        name: 'IDX_transactions_user_fitId',
+        columnNames: ['userId', 'fitId'],
+        isUnique: true,
+      }));
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('transactions', 'fitId')) {
+      await queryRunner.dropIndex('transactions', 'IDX_transactions_user_fitId');
+      await queryRunner.dropColumn('transactions', 'fitId');
+    }
+  }
+}
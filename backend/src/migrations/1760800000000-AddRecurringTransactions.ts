@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Crea las reglas de transacciones recurrentes y enlaza cada transacción con la regla que la generó
+ */
+export class AddRecurringTransactions1760800000000 implements MigrationInterface {
+  name = 'AddRecurringTransactions1760800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS "uuid-ossp"');
+    await queryRunner.createTable(new Table({
+      name: 'recurring_transactions',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'description', type: 'varchar' },
+        { name: 'amount', type: 'decimal', precision: 10, scale: 2 },
+        { name: 'category', type: 'varchar', isNullable: true },
+        { name: 'type', type: 'varchar' },
+        { name: 'merchant', type: 'varchar', isNullable: true },
+        { name: 'frequency', type: 'varchar', length: '20' },
+        { name: 'cronExpression', type: 'varchar', length: '100', isNullable: true },
+        { name: 'startDate', type: 'date' },
+        { name: 'endDate', type: 'date', isNullable: true },
+        { name: 'nextRunDate', type: 'date' },
+        { name: 'lastRunDate', type: 'date', isNullable: true },
+        { name: 'active', type: 'boolean', default: true },
+        { name: 'accountId', type: 'uuid', isNullable: true },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+      ],
+      indices: [
+        { columnNames: ['active', 'nextRunDate'] },
+      ],
+    }), true);
+
+    if (!(await queryRunner.hasColumn('transactions', 'recurringTransactionId'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'recurringTransactionId', type: 'uuid', isNullable: true }));
+      // Evita generar dos veces la misma ocurrencia si el planificador corre en varias instancias
+      await queryRunner.createIndex('transactions', new TableIndex({
+        name: 'IDX_transactions_recurring_date',
+        columnNames: ['recurringTransactionId', 'date'],
+        isUnique: true,
+      }));
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('transactions', 'recurringTransactionId')) {
+      await queryRunner.dropIndex('transactions', 'IDX_transactions_recurring_date');
+      await queryRunner.dropColumn('transactions', 'recurringTransactionId');
+    }
+    await queryRunner.dropTable('recurring_transactions', true);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea las líneas de las transacciones divididas en varias categorías
+ */
+export class AddTransactionSplits1760900000000 implements MigrationInterface {
+  name = 'AddTransactionSplits1760900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS "uuid-ossp"');
+    await queryRunner.createTable(new Table({
+      name: 'transaction_splits',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'transactionId', type: 'uuid' },
+        { name: 'amount', type: 'decimal', precision: 10, scale: 2 },
+        { name: 'category', type: 'varchar', length: '100' },
+        { name: 'description', type: 'varchar', length: '255', isNullable: true },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['transactionId'], referencedTableName: 'transactions', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('transaction_splits', true);
+  }
+}
@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey } from 'typeorm';
+
+/**
+ * Crea la tabla de cuentas y asigna las transacciones existentes a una cuenta por defecto de cada usuario
+ */
+export class AddAccounts1761000000000 implements MigrationInterface {
+  name = 'AddAccounts1761000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS "uuid-ossp"');
+    await queryRunner.createTable(new Table({
+      name: 'accounts',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'name', type: 'varchar', length: '100' },
+        { name: 'type', type: 'varchar', length: '20' },
+        { name: 'currency', type: 'varchar', length: '3', default: "'USD'" },
+        { name: 'openingBalance', type: 'decimal', precision: 12, scale: 2, default: 0 },
+        { name: 'archived', type: 'boolean', default: false },
+        { name: 'isDefault', type: 'boolean', default: false },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+      ],
+      indices: [
+        { columnNames: ['userId'] },
+      ],
+    }), true);
+
+    if (!(await queryRunner.hasColumn('transactions', 'accountId'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'accountId', type: 'uuid', isNullable: true }));
+    }
+
+    // transactions.userId es varchar y users.id es uuid, de ahí los casts
+    await queryRunner.query(`
+      INSERT INTO "accounts" ("name", "type", "currency", "isDefault", "userId")
+      SELECT 'Cuenta principal', 'bank', COALESCE(u."currency", 'USD'), true, u."id"
+      FROM "users" u
+      WHERE EXISTS (SELECT 1 FROM "transactions" t WHERE t."userId" = u."id"::text AND t."accountId" IS NULL)
+        AND NOT EXISTS (SELECT 1 FROM "accounts" a WHERE a."userId" = u."id" AND a."isDefault" = true)
+    `);
+
+    await queryRunner.query(`
+      UPDATE "transactions" t
+      SET "accountId" = a."id"
+      FROM "accounts" a
+      WHERE a."userId"::text = t."userId" AND a."isDefault" = true AND t."accountId" IS NULL
+    `);
+
+    await queryRunner.query('ALTER TABLE "transactions" ALTER COLUMN "accountId" SET NOT NULL');
+    await queryRunner.createForeignKey('transactions', new TableForeignKey({
+      columnNames: ['accountId'],
+      referencedTableName: 'accounts',
+      referencedColumnNames: ['id'],
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const transactions = await queryRunner.getTable('transactions');
+    const foreignKey = transactions?.foreignKeys.find(fk => fk.columnNames.includes('accountId'));
+    if (foreignKey) {
+      await queryRunner.dropForeignKey('transactions', foreignKey);
+    }
+    if (await queryRunner.hasColumn('transactions', 'accountId')) {
+      await queryRunner.dropColumn('transactions', 'accountId');
+    }
+    await queryRunner.dropTable('accounts', true);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+/**
+ * Agrega las columnas que vinculan los dos movimientos de una transferencia entre cuentas
+ */
+export class AddTransfers1761100000000 implements MigrationInterface {
+  name = 'AddTransfers1761100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    if (!(await queryRunner.hasColumn('transactions', 'transferId'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'transferId', type: 'uuid', isNullable: true }));
+      await queryRunner.createIndex('transactions', new TableIndex({
+        name: 'IDX_transactions_transferId',
+        columnNames: ['transferId'],
+      }));
+    }
+
+    if (!(await queryRunner.hasColumn('transactions', 'transferDirection'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'transferDirection', type: 'varchar', length: '3', isNullable: true }));
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('transactions', 'transferDirection')) {
+      await queryRunner.dropColumn('transactions', 'transferDirection');
+    }
+    if (await queryRunner.hasColumn('transactions', 'transferId')) {
+      await queryRunner.dropIndex('transactions', 'IDX_transactions_transferId');
+      await queryRunner.dropColumn('transactions', 'transferId');
+    }
+  }
+}
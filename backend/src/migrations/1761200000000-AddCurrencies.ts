@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+/**
+ * Crea la tabla de tasas de cambio y agrega la moneda a transacciones y metas
+ * Las transacciones existentes toman la moneda de su cuenta y las metas la del usuario
+ */
+export class AddCurrencies1761200000000 implements MigrationInterface {
+  name = 'AddCurrencies1761200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'exchange_rates',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'fromCurrency', type: 'varchar', length: '3' },
+        { name: 'toCurrency', type: 'varchar', length: '3' },
+        { name: 'rate', type: 'decimal', precision: 18, scale: 8 },
+        { name: 'date', type: 'date' },
+        { name: 'source', type: 'varchar', length: '10', default: "'manual'" },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+      ],
+      indices: [
+        { name: 'IDX_exchange_rates_pair_date', columnNames: ['userId', 'fromCurrency', 'toCurrency', 'date'], isUnique: true },
+      ],
+    }), true);
+
+    if (!(await queryRunner.hasColumn('transactions', 'currency'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'currency', type: 'varchar', length: '3', default: "'USD'" }));
+      await queryRunner.query(`
+        UPDATE "transactions" t
+        SET "currency" = a."currency"
+        FROM "accounts" a
+        WHERE a."id" = t."accountId"
+      `);
+    }
+
+    if (await queryRunner.hasTable('goals') && !(await queryRunner.hasColumn('goals', 'currency'))) {
+      await queryRunner.addColumn('goals', new TableColumn({ name: 'currency', type: 'varchar', length: '3', default: "'USD'" }));
+      // goals.userId es varchar y users.id es uuid, de ahí el cast
+      await queryRunner.query(`
+        UPDATE "goals" g
+        SET "currency" = COALESCE(u."currency", 'USD')
+        FROM "users" u
+        WHERE u."id"::text = g."userId"
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('goals', 'currency')) {
+      await queryRunner.dropColumn('goals', 'currency');
+    }
+    if (await queryRunner.hasColumn('transactions', 'currency')) {
+      await queryRunner.dropColumn('transactions', 'currency');
+    }
+    await queryRunner.dropTable('exchange_rates', true);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea la tabla de comprobantes adjuntos a las transacciones
+ * Los archivos viven en el almacenamiento configurado; aquí solo se guardan sus metadatos
+ */
+export class AddAttachments1761300000000 implements MigrationInterface {
+  name = 'AddAttachments1761300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'attachments',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'transactionId', type: 'uuid' },
+        { name: 'userId', type: 'varchar' },
+        { name: 'fileName', type: 'varchar', length: '255' },
+        { name: 'mimeType', type: 'varchar', length: '100' },
+        { name: 'size', type: 'int' },
+        { name: 'storageKey', type: 'varchar', length: '500' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['transactionId'], referencedTableName: 'transactions', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+      indices: [
+        { name: 'IDX_attachments_transactionId', columnNames: ['transactionId'] },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('attachments', true);
+  }
+}
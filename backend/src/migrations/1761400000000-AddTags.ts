@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea las etiquetas libres y su relación muchos a muchos con las transacciones
+ */
+export class AddTags1761400000000 implements MigrationInterface {
+  name = 'AddTags1761400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'tags',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'name', type: 'varchar', length: '50' },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+      ],
+      indices: [
+        { name: 'IDX_tags_user_name', columnNames: ['userId', 'name'], isUnique: true },
+      ],
+    }), true);
+
+    await queryRunner.createTable(new Table({
+      name: 'transaction_tags',
+      columns: [
+        { name: 'transactionId', type: 'uuid', isPrimary: true },
+        { name: 'tagId', type: 'uuid', isPrimary: true },
+      ],
+      foreignKeys: [
+        { columnNames: ['transactionId'], referencedTableName: 'transactions', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+        { columnNames: ['tagId'], referencedTableName: 'tags', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+      indices: [
+        { name: 'IDX_transaction_tags_tagId', columnNames: ['tagId'] },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('transaction_tags', true);
+    await queryRunner.dropTable('tags', true);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Crea el índice GIN de texto completo (español) sobre descripción y comercio
+ * synchronize no sabe crear índices por expresión; sin él la búsqueda funciona
+ * igual, pero recorriendo toda la tabla.
+ * En una base nueva la tabla todavía no existe: el índice lo crea initializeDatabase después de sincronizar
+ */
+export class AddTransactionSearchIndex1761500000000 implements MigrationInterface {
+  name = 'AddTransactionSearchIndex1761500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.query(
+      'CREATE INDEX IF NOT EXISTS "IDX_transactions_search" ON "transactions" ' +
+      "USING GIN (to_tsvector('spanish', coalesce(description, '') || ' ' || coalesce(merchant, '')))"
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP INDEX IF EXISTS "IDX_transactions_search"');
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+const SOFT_DELETE_TABLES = ['transactions', 'goals', 'budgets'];
+
+/**
+ * Agrega deletedAt a transacciones, metas y presupuestos para la papelera
+ */
+export class AddSoftDelete1761600000000 implements MigrationInterface {
+  name = 'AddSoftDelete1761600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    for (const table of SOFT_DELETE_TABLES) {
+      if (await queryRunner.hasTable(table) && !(await queryRunner.hasColumn(table, 'deletedAt'))) {
+        await queryRunner.addColumn(table, new TableColumn({ name: 'deletedAt', type: 'timestamp', isNullable: true }));
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of SOFT_DELETE_TABLES) {
+      if (await queryRunner.hasTable(table) && await queryRunner.hasColumn(table, 'deletedAt')) {
+        // Lo que estaba en la papelera se elimina definitivamente
+        await queryRunner.query(`DELETE FROM "${table}" WHERE "deletedAt" IS NOT NULL`);
+        await queryRunner.dropColumn(table, 'deletedAt');
+      }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea la tabla de pares de transacciones que el usuario marcó como "no son duplicados"
+ */
+export class AddDuplicateDismissals1761700000000 implements MigrationInterface {
+  name = 'AddDuplicateDismissals1761700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'duplicate_dismissals',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'userId', type: 'varchar' },
+        { name: 'transactionId', type: 'uuid' },
+        { name: 'otherTransactionId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['transactionId'], referencedTableName: 'transactions', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+        { columnNames: ['otherTransactionId'], referencedTableName: 'transactions', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+      indices: [
+        { name: 'IDX_duplicate_dismissals_pair', columnNames: ['userId', 'transactionId', 'otherTransactionId'], isUnique: true },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('duplicate_dismissals', true);
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Crea el directorio de comercios y vincula cada transacción con su comercio normalizado
+ * La columna de texto transactions.merchant se conserva: guarda el nombre del comercio para mostrar y buscar
+ */
+export class AddMerchants1761800000000 implements MigrationInterface {
+  name = 'AddMerchants1761800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'merchants',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'name', type: 'varchar', length: '100' },
+        { name: 'defaultCategory', type: 'varchar', isNullable: true },
+        { name: 'aliases', type: 'text', isArray: true, default: "'{}'" },
+        { name: 'patterns', type: 'text', isArray: true, default: "'{}'" },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+      ],
+      indices: [
+        { name: 'IDX_merchants_user_name', columnNames: ['userId', 'name'], isUnique: true },
+      ],
+    }), true);
+
+    if (!(await queryRunner.hasColumn('transactions', 'merchantId'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'merchantId', type: 'uuid', isNullable: true }));
+      await queryRunner.createForeignKey('transactions', new TableForeignKey({
+        columnNames: ['merchantId'],
+        referencedTableName: 'merchants',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }));
+      await queryRunner.createIndex('transactions', new TableIndex({
+        name: 'IDX_transactions_merchantId',
+        columnNames: ['merchantId'],
+      }));
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('transactions', 'merchantId')) {
+      await queryRunner.dropIndex('transactions', 'IDX_transactions_merchantId');
+      // Al borrar la columna se elimina también su clave foránea
+      await queryRunner.dropColumn('transactions', 'merchantId');
+    }
+    await queryRunner.dropTable('merchants', true);
+  }
+}
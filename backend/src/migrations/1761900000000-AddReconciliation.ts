@@ -0,0 +1,67 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Agrega el estado de conciliación de las transacciones (pendiente, marcada, conciliada)
+ * y las sesiones de conciliación contra el extracto de cada cuenta
+ */
+export class AddReconciliation1761900000000 implements MigrationInterface {
+  name = 'AddReconciliation1761900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'reconciliations',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'accountId', type: 'uuid' },
+        { name: 'statementDate', type: 'date' },
+        { name: 'closingBalance', type: 'decimal', precision: 12, scale: 2 },
+        { name: 'status', type: 'varchar', length: '12', default: "'in_progress'" },
+        { name: 'completedAt', type: 'timestamp', isNullable: true },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['accountId'], referencedTableName: 'accounts', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+      ],
+      indices: [
+        { name: 'IDX_reconciliations_account', columnNames: ['accountId', 'status'] },
+      ],
+    }), true);
+
+    if (!(await queryRunner.hasColumn('transactions', 'status'))) {
+      // Las transacciones existentes quedan pendientes hasta la primera conciliación
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'status', type: 'varchar', length: '10', default: "'pending'" }));
+      await queryRunner.createIndex('transactions', new TableIndex({
+        name: 'IDX_transactions_account_status',
+        columnNames: ['accountId', 'status'],
+      }));
+    }
+
+    if (!(await queryRunner.hasColumn('transactions', 'reconciliationId'))) {
+      await queryRunner.addColumn('transactions', new TableColumn({ name: 'reconciliationId', type: 'uuid', isNullable: true }));
+      await queryRunner.createForeignKey('transactions', new TableForeignKey({
+        columnNames: ['reconciliationId'],
+        referencedTableName: 'reconciliations',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }));
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('transactions', 'reconciliationId')) {
+      await queryRunner.dropColumn('transactions', 'reconciliationId');
+    }
+    if (await queryRunner.hasColumn('transactions', 'status')) {
+      await queryRunner.dropIndex('transactions', 'IDX_transactions_account_status');
+      await queryRunner.dropColumn('transactions', 'status');
+    }
+    await queryRunner.dropTable('reconciliations', true);
+  }
+}
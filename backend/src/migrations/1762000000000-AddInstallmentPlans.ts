@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex } from 'typeorm';
+
+/**
+ * Agrega los planes de compras en cuotas y el número de cuota de las transacciones que generan
+ */
+export class AddInstallmentPlans1762000000000 implements MigrationInterface {
+  name = 'AddInstallmentPlans1762000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'installment_plans',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'description', type: 'varchar' },
+        { name: 'totalAmount', type: 'decimal', precision: 12, scale: 2 },
+        { name: 'installmentCount', type: 'int' },
+        { name: 'interestRate', type: 'decimal', precision: 6, scale: 2, default: 0 },
+        { name: 'category', type: 'varchar', isNullable: true },
+        { name: 'merchant', type: 'varchar', isNullable: true },
+        { name: 'merchantId', type: 'uuid', isNullable: true },
+        { name: 'date', type: 'date' },
+        { name: 'firstDueMonth', type: 'varchar', length: '7' },
+        { name: 'currency', type: 'varchar', length: '3', default: "'USD'" },
+        { name: 'accountId', type: 'uuid' },
+        { name: 'generatedCount', type: 'int', default: 0 },
+        { name: 'nextDueDate', type: 'date', isNullable: true },
+        { name: 'active', type: 'boolean', default: true },
+        // Mismo tipo que transactions.userId
+        { name: 'userId', type: 'varchar' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['accountId'], referencedTableName: 'accounts', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+        { columnNames: ['merchantId'], referencedTableName: 'merchants', referencedColumnNames: ['id'], onDelete: 'SET NULL' },
+      ],
+      indices: [
+        { columnNames: ['active', 'nextDueDate'] },
+      ],
+    }), true);
+
+    if (!(await queryRunner.hasColumn('transactions', 'installmentPlanId'))) {
+      await queryRunner.addColumns('transactions', [
+        new TableColumn({ name: 'installmentPlanId', type: 'uuid', isNullable: true }),
+        new TableColumn({ name: 'installmentNumber', type: 'int', isNullable: true }),
+        new TableColumn({ name: 'installmentCount', type: 'int', isNullable: true }),
+      ]);
+      await queryRunner.createForeignKey('transactions', new TableForeignKey({
+        columnNames: ['installmentPlanId'],
+        referencedTableName: 'installment_plans',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }));
+      // Evita generar dos veces la misma cuota si el planificador corre en varias instancias
+      await queryRunner.createIndex('transactions', new TableIndex({
+        name: 'IDX_transactions_installment',
+        columnNames: ['installmentPlanId', 'installmentNumber'],
+        isUnique: true,
+      }));
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('transactions', 'installmentPlanId')) {
+      await queryRunner.dropIndex('transactions', 'IDX_transactions_installment');
+      await queryRunner.dropColumn('transactions', 'installmentCount');
+      await queryRunner.dropColumn('transactions', 'installmentNumber');
+      await queryRunner.dropColumn('transactions', 'installmentPlanId');
+    }
+    await queryRunner.dropTable('installment_plans', true);
+  }
+}
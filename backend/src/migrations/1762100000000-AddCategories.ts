@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea las categorías de cada usuario con jerarquía, icono, color y tipo
+ * Las transacciones siguen guardando el nombre de la categoría; las categorías de cada usuario
+ * se crean la primera vez que las consulta, a partir de la lista por defecto y de las que ya usa
+ */
+export class AddCategories1762100000000 implements MigrationInterface {
+  name = 'AddCategories1762100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'categories',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'name', type: 'varchar', length: '100' },
+        { name: 'parentId', type: 'uuid', isNullable: true },
+        { name: 'icon', type: 'varchar', length: '50', isNullable: true },
+        { name: 'color', type: 'varchar', length: '7', isNullable: true },
+        { name: 'kind', type: 'varchar', length: '10', default: "'expense'" },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+        { columnNames: ['parentId'], referencedTableName: 'categories', referencedColumnNames: ['id'], onDelete: 'RESTRICT' },
+      ],
+      indices: [
+        { name: 'IDX_categories_user_name', columnNames: ['userId', 'name'], isUnique: true },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('categories', true);
+  }
+}
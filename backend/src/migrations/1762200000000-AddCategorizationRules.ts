@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea las reglas de categorización de cada usuario
+ * Se evalúan por prioridad antes del comercio, las palabras clave y la IA
+ */
+export class AddCategorizationRules1762200000000 implements MigrationInterface {
+  name = 'AddCategorizationRules1762200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'categorization_rules',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'name', type: 'varchar', length: '100' },
+        { name: 'conditions', type: 'jsonb', default: "'[]'" },
+        { name: 'actions', type: 'jsonb', default: "'{}'" },
+        { name: 'priority', type: 'int', default: 0 },
+        { name: 'enabled', type: 'boolean', default: true },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'] },
+      ],
+      indices: [
+        { name: 'IDX_categorization_rules_user_priority', columnNames: ['userId', 'priority'] },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('categorization_rules', true);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea el clasificador local de cada usuario, que aprende de sus correcciones de categoría
+ */
+export class AddCategoryClassifiers1762300000000 implements MigrationInterface {
+  name = 'AddCategoryClassifiers1762300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'category_classifiers',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'state', type: 'jsonb', default: `'{"examples": 0, "labels": {}}'` },
+        { name: 'evaluated', type: 'int', default: 0 },
+        { name: 'correct', type: 'int', default: 0 },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+      indices: [
+        { name: 'IDX_category_classifiers_user', columnNames: ['userId'], isUnique: true },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('category_classifiers', true);
+  }
+}
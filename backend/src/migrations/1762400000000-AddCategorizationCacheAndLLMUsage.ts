@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea la caché de categorizaciones de la IA y el consumo mensual de tokens de cada usuario
+ */
+export class AddCategorizationCacheAndLLMUsage1762400000000 implements MigrationInterface {
+  name = 'AddCategorizationCacheAndLLMUsage1762400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'categorization_cache',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'key', type: 'varchar', length: '64' },
+        { name: 'category', type: 'varchar', length: '100' },
+        { name: 'confidence', type: 'float' },
+        { name: 'explanation', type: 'varchar', length: '255', isNullable: true },
+        { name: 'expiresAt', type: 'timestamp' },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+      indices: [
+        { name: 'IDX_categorization_cache_user_key', columnNames: ['userId', 'key'], isUnique: true },
+      ],
+    }), true);
+
+    await queryRunner.createTable(new Table({
+      name: 'llm_usage',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'month', type: 'varchar', length: '7' },
+        { name: 'promptTokens', type: 'int', default: 0 },
+        { name: 'completionTokens', type: 'int', default: 0 },
+        { name: 'requests', type: 'int', default: 0 },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+      indices: [
+        { name: 'IDX_llm_usage_user_month', columnNames: ['userId', 'month'], isUnique: true },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('llm_usage', true);
+    await queryRunner.dropTable('categorization_cache', true);
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+/**
+ * Crea los trabajos de recategorización del historial con sus cambios propuestos
+ */
+export class AddRecategorizationJobs1762500000000 implements MigrationInterface {
+  name = 'AddRecategorizationJobs1762500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions'))) {
+      return;
+    }
+
+    await queryRunner.createTable(new Table({
+      name: 'recategorization_jobs',
+      columns: [
+        { name: 'id', type: 'uuid', isPrimary: true, isGenerated: true, generationStrategy: 'uuid' },
+        { name: 'status', type: 'varchar', length: '20', default: "'pending'" },
+        { name: 'startDate', type: 'date', isNullable: true },
+        { name: 'endDate', type: 'date', isNullable: true },
+        { name: 'maxConfidence', type: 'float', isNullable: true },
+        { name: 'total', type: 'int', default: 0 },
+        { name: 'processed', type: 'int', default: 0 },
+        { name: 'changes', type: 'jsonb', default: "'[]'" },
+        { name: 'applied', type: 'int', default: 0 },
+        { name: 'error', type: 'varchar', length: '255', isNullable: true },
+        { name: 'userId', type: 'uuid' },
+        { name: 'createdAt', type: 'timestamp', default: 'now()' },
+        { name: 'updatedAt', type: 'timestamp', default: 'now()' },
+      ],
+      foreignKeys: [
+        { columnNames: ['userId'], referencedTableName: 'users', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+      ],
+      indices: [
+        { name: 'IDX_recategorization_jobs_user', columnNames: ['userId', 'createdAt'] },
+      ],
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('recategorization_jobs', true);
+  }
+}
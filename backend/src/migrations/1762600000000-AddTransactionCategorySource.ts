@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+/**
+ * Agrega a las transacciones quién eligió su categoría (usuario, regla o categorizador automático)
+ * Las existentes no guardan si la categoría con confianza 1 vino del usuario o de una regla: se consideran
+ * del usuario para que la recategorización no pise ninguna elección manual; el resto queda como automática
+ */
+export class AddTransactionCategorySource1762600000000 implements MigrationInterface {
+  name = 'AddTransactionCategorySource1762600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasTable('transactions')) || await queryRunner.hasColumn('transactions', 'categorySource')) {
+      return;
+    }
+
+    await queryRunner.addColumn('transactions', new TableColumn({ name: 'categorySource', type: 'varchar', length: '10', isNullable: true }));
+    await queryRunner.query(
+      `UPDATE "transactions"
+       SET "categorySource" = CASE WHEN "confidence" >= 1 THEN 'user' ELSE 'auto' END
+       WHERE "category" IS NOT NULL`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('transactions', 'categorySource')) {
+      await queryRunner.dropColumn('transactions', 'categorySource');
+    }
+  }
+}
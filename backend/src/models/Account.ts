@@ -0,0 +1,83 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { isCurrencyCode } from '../utils/currency';
+
+export type AccountType = 'bank' | 'cash' | 'credit_card' | 'wallet';
+
+export const ACCOUNT_TYPES: AccountType[] = ['bank', 'cash', 'credit_card', 'wallet'];
+
+@Entity('accounts')
+@Index(['userId'])
+export class Account {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  type!: AccountType;
+
+  @Column({ type: 'varchar', length: 3, default: 'USD' })
+  currency!: string; // ISO 4217 code
+
+  @Column('decimal', { precision: 12, scale: 2, default: 0 })
+  openingBalance!: number;
+
+  @Column({ type: 'boolean', default: false })
+  archived!: boolean; // Archived accounts keep their history but can't receive new transactions
+
+  @Column({ type: 'boolean', default: false })
+  isDefault!: boolean; // Used when a transaction is created without an account
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  // Method to validate account data
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Name is required');
+    }
+
+    if (!ACCOUNT_TYPES.includes(this.type)) {
+      errors.push(`Type must be one of: ${ACCOUNT_TYPES.join(', ')}`);
+    }
+
+    if (!isCurrencyCode(this.currency)) {
+      errors.push('Currency must be a 3-letter ISO code');
+    }
+
+    if (this.openingBalance !== undefined && isNaN(Number(this.openingBalance))) {
+      errors.push('Opening balance must be a number');
+    }
+
+    return errors;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      type: this.type,
+      currency: this.currency,
+      openingBalance: Number(this.openingBalance),
+      archived: this.archived,
+      isDefault: this.isDefault,
+      userId: this.userId,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Transaction } from './Transaction';
+
+@Entity('attachments')
+@Index('IDX_attachments_transactionId', ['transactionId'])
+export class Attachment {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  transactionId!: string;
+
+  @ManyToOne(() => Transaction, transaction => transaction.attachments, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'transactionId' })
+  transaction!: Transaction;
+
+  @Column({ type: 'varchar' })
+  userId!: string; // Same type as transactions.userId so ownership checks compare directly
+
+  @Column({ type: 'varchar', length: 255 })
+  fileName!: string; // Original name, sanitized, used for downloads
+
+  @Column({ type: 'varchar', length: 100 })
+  mimeType!: string; // Detected from the file content, not the client header
+
+  @Column({ type: 'int' })
+  size!: number; // Bytes
+
+  @Column({ type: 'varchar', length: 500 })
+  storageKey!: string; // Path inside the configured storage driver
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      transactionId: this.transactionId,
+      fileName: this.fileName,
+      mimeType: this.mimeType,
+      size: this.size,
+      createdAt: this.createdAt?.toISOString()
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, DeleteDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { User } from './User';
 
 @Entity('budgets')
@@ -28,6 +28,9 @@ export class Budget {
   @CreateDateColumn()
   updatedAt!: Date;
 
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt?: Date; // Set while the budget is in the trash, see TrashService
+
   // Method to validate budget data
   validate(): string[] {
     const errors: string[] = [];
@@ -57,7 +60,8 @@ export class Budget {
       month: this.month || null,
       userId: this.userId,
       createdAt: this.createdAt?.toISOString(),
-      updatedAt: this.updatedAt?.toISOString()
+      updatedAt: this.updatedAt?.toISOString(),
+      deletedAt: this.deletedAt?.toISOString()
     };
   }
 }
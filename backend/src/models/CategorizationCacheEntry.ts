@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+
+@Entity('categorization_cache')
+@Index('IDX_categorization_cache_user_key', ['userId', 'key'], { unique: true })
+export class CategorizationCacheEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  key!: string; // Hash of the normalized description and merchant, see utils/llm
+
+  @Column({ type: 'varchar', length: 100 })
+  category!: string;
+
+  @Column({ type: 'float' })
+  confidence!: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  explanation?: string | null;
+
+  @Column({ type: 'timestamp' })
+  expiresAt!: Date;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,92 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import {
+  MAX_RULE_CONDITIONS,
+  RULE_CONDITION_TYPES,
+  RuleActions,
+  RuleCondition,
+  isValidRulePattern
+} from '../utils/rules';
+
+@Entity('categorization_rules')
+@Index('IDX_categorization_rules_user_priority', ['userId', 'priority'])
+export class CategorizationRule {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name!: string;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  conditions!: RuleCondition[]; // Every condition must match, see utils/rules
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  actions!: RuleActions;
+
+  @Column({ type: 'int', default: 0 })
+  priority!: number; // Lower runs first; the first matching rule wins
+
+  @Column({ type: 'boolean', default: true })
+  enabled!: boolean;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  // Method to validate rule data
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Name is required');
+    }
+
+    if (!this.conditions || this.conditions.length === 0) {
+      errors.push('A rule needs at least one condition');
+    } else if (this.conditions.length > MAX_RULE_CONDITIONS) {
+      errors.push(`A rule can have at most ${MAX_RULE_CONDITIONS} conditions`);
+    }
+
+    for (const condition of this.conditions || []) {
+      if (!RULE_CONDITION_TYPES.includes(condition.type)) {
+        errors.push(`Unknown condition type: ${condition.type}`);
+      } else if (condition.type === 'regex' && !isValidRulePattern(condition.value)) {
+        errors.push(`Invalid pattern: ${condition.value}`);
+      } else if (condition.type === 'amount' && condition.min === undefined && condition.max === undefined) {
+        errors.push('Amount conditions need a minimum or a maximum');
+      }
+    }
+
+    const { category, merchant, tags, markAsTransfer, transferAccountId } = this.actions || {};
+    if (!category && !merchant && !(tags && tags.length > 0) && !markAsTransfer) {
+      errors.push('A rule needs at least one action');
+    }
+    if (markAsTransfer && !transferAccountId) {
+      errors.push('Marking as transfer needs the account on the other side');
+    }
+
+    return errors;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      conditions: this.conditions,
+      actions: this.actions,
+      priority: this.priority,
+      enabled: this.enabled,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import {
+  CATEGORY_COLOR_PATTERN,
+  CATEGORY_ICON_PATTERN,
+  CATEGORY_KINDS,
+  CategoryKind,
+  MAX_CATEGORY_NAME_LENGTH
+} from '../utils/categories';
+
+@Entity('categories')
+@Index('IDX_categories_user_name', ['userId', 'name'], { unique: true })
+export class Category {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: MAX_CATEGORY_NAME_LENGTH })
+  name!: string; // Stored by name on transactions, splits, budgets and merchants
+
+  @Column({ type: 'uuid', nullable: true })
+  parentId?: string | null; // Subcategories roll up to their parent in analytics; only one level deep
+
+  @ManyToOne(() => Category, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'parentId' })
+  parent?: Category;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  icon?: string | null; // lucide-react icon name
+
+  @Column({ type: 'varchar', length: 7, nullable: true })
+  color?: string | null; // #rrggbb
+
+  @Column({ type: 'varchar', length: 10, default: 'expense' })
+  kind!: CategoryKind;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  // Method to validate category data
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Name is required');
+    } else if (this.name.length > MAX_CATEGORY_NAME_LENGTH) {
+      errors.push(`Name must be at most ${MAX_CATEGORY_NAME_LENGTH} characters`);
+    }
+
+    if (!CATEGORY_KINDS.includes(this.kind)) {
+      errors.push(`Kind must be one of: ${CATEGORY_KINDS.join(', ')}`);
+    }
+
+    if (this.color && !CATEGORY_COLOR_PATTERN.test(this.color)) {
+      errors.push('Color must be a hex color like #22c55e');
+    }
+
+    if (this.icon && !CATEGORY_ICON_PATTERN.test(this.icon)) {
+      errors.push('Icon must be an icon name like ShoppingCart');
+    }
+
+    return errors;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      parentId: this.parentId || null,
+      icon: this.icon || null,
+      color: this.color || null,
+      kind: this.kind,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
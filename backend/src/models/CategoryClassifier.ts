@@ -0,0 +1,43 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { ClassifierState } from '../utils/classifier';
+
+@Entity('category_classifiers')
+@Index('IDX_category_classifiers_user', ['userId'], { unique: true })
+export class CategoryClassifier {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'jsonb', default: () => "'{\"examples\": 0, \"labels\": {}}'" })
+  state!: ClassifierState; // Naive Bayes token counts per category, see utils/classifier
+
+  @Column({ type: 'int', default: 0 })
+  evaluated!: number; // Examples the model predicted before learning them
+
+  @Column({ type: 'int', default: 0 })
+  correct!: number; // Of those, how many it predicted right
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  toJSON() {
+    return {
+      examples: this.state.examples,
+      categories: Object.keys(this.state.labels).length,
+      evaluated: this.evaluated,
+      correct: this.correct,
+      accuracy: this.evaluated > 0 ? Math.round((this.correct / this.evaluated) * 1000) / 1000 : null,
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Transaction } from './Transaction';
+
+@Entity('duplicate_dismissals')
+@Index('IDX_duplicate_dismissals_pair', ['userId', 'transactionId', 'otherTransactionId'], { unique: true })
+export class DuplicateDismissal {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  userId!: string; // Same type as transactions.userId so ownership checks compare directly
+
+  @Column({ type: 'uuid' })
+  transactionId!: string; // The lower id of the pair, so each pair is stored only once
+
+  @ManyToOne(() => Transaction, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'transactionId' })
+  transaction!: Transaction;
+
+  @Column({ type: 'uuid' })
+  otherTransactionId!: string;
+
+  @ManyToOne(() => Transaction, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'otherTransactionId' })
+  otherTransaction!: Transaction;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
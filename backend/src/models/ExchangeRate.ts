@@ -0,0 +1,70 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { isCurrencyCode } from '../utils/currency';
+
+export type ExchangeRateSource = 'manual' | 'import';
+
+@Entity('exchange_rates')
+@Index('IDX_exchange_rates_pair_date', ['userId', 'fromCurrency', 'toCurrency', 'date'], { unique: true })
+export class ExchangeRate {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 3 })
+  fromCurrency!: string;
+
+  @Column({ type: 'varchar', length: 3 })
+  toCurrency!: string;
+
+  @Column('decimal', { precision: 18, scale: 8 })
+  rate!: number; // Units of toCurrency for one unit of fromCurrency
+
+  @Column({ type: 'date' })
+  date!: string; // YYYY-MM-DD the rate applies from
+
+  @Column({ type: 'varchar', length: 10, default: 'manual' })
+  source!: ExchangeRateSource;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  // Method to validate exchange rate data
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!isCurrencyCode(this.fromCurrency) || !isCurrencyCode(this.toCurrency)) {
+      errors.push('Currencies must be 3-letter ISO codes');
+    } else if (this.fromCurrency === this.toCurrency) {
+      errors.push('From and to currencies must be different');
+    }
+
+    if (!this.rate || isNaN(Number(this.rate)) || Number(this.rate) <= 0) {
+      errors.push('Rate must be greater than 0');
+    }
+
+    if (!this.date || !/^\d{4}-\d{2}-\d{2}$/.test(this.date)) {
+      errors.push('Date must use the YYYY-MM-DD format');
+    }
+
+    return errors;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      fromCurrency: this.fromCurrency,
+      toCurrency: this.toCurrency,
+      rate: Number(this.rate),
+      date: this.date,
+      source: this.source,
+      createdAt: this.createdAt?.toISOString()
+    };
+  }
+}
@@ -1,5 +1,6 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, DeleteDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { User } from './User';
+import { isCurrencyCode } from '../utils/currency';
 
 @Entity('goals')
 export class Goal {
@@ -15,6 +16,9 @@ export class Goal {
   @Column('decimal', { precision: 10, scale: 2, default: 0 })
   currentAmount!: number;
 
+  @Column({ type: 'varchar', length: 3, default: 'USD' })
+  currency!: string; // ISO 4217 code, defaults to the user's currency
+
   @Column({ type: 'date' })
   startDate!: string;
 
@@ -37,6 +41,9 @@ export class Goal {
   @CreateDateColumn()
   createdAt!: Date;
 
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt?: Date; // Set while the goal is in the trash, see TrashService
+
   // Method to validate goal data
   validate(): string[] {
     const errors: string[] = [];
@@ -52,6 +59,10 @@ export class Goal {
     if (this.currentAmount < 0) {
       errors.push('Current amount cannot be negative');
     }
+
+    if (!isCurrencyCode(this.currency)) {
+      errors.push('Currency must be a 3-letter ISO code');
+    }
     
     if (!this.startDate) {
       errors.push('Start date is required');
@@ -91,13 +102,15 @@ export class Goal {
       name: this.name,
       targetAmount: Number(this.targetAmount),
       currentAmount: Number(this.currentAmount),
+      currency: this.currency,
       startDate: this.startDate,
       endDate: this.endDate,
       interestRate: this.interestRate,
       compoundFrequency: this.compoundFrequency,
       userId: this.userId,
       progress: this.getProgress(),
-      createdAt: this.createdAt?.toISOString()
+      createdAt: this.createdAt?.toISOString(),
+      deletedAt: this.deletedAt?.toISOString()
     };
   }
 }
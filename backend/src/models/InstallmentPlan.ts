@@ -0,0 +1,124 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Account } from './Account';
+import { Merchant } from './Merchant';
+import { isCurrencyCode } from '../utils/currency';
+import { MAX_INSTALLMENTS, MAX_INSTALLMENT_INTEREST_RATE } from '../utils/installments';
+
+@Entity('installment_plans')
+@Index(['active', 'nextDueDate'])
+export class InstallmentPlan {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  description!: string; // Purchase description, copied to every generated installment
+
+  @Column('decimal', { precision: 12, scale: 2 })
+  totalAmount!: number; // Purchase price before interest
+
+  @Column({ type: 'int' })
+  installmentCount!: number;
+
+  @Column('decimal', { precision: 6, scale: 2, default: 0 })
+  interestRate!: number; // Nominal annual rate (TNA) in percent; 0 for "cuotas sin interés"
+
+  @Column({ type: 'varchar', nullable: true })
+  category?: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  merchant?: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  merchantId?: string | null; // Merchant directory entry, copied to every generated installment
+
+  @ManyToOne(() => Merchant, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'merchantId' })
+  merchantEntry?: Merchant;
+
+  @Column({ type: 'date' })
+  date!: string; // Purchase date (YYYY-MM-DD); its day of month is the due day of every installment
+
+  @Column({ type: 'varchar', length: 7 })
+  firstDueMonth!: string; // YYYY-MM of the first installment
+
+  @Column({ type: 'varchar', length: 3, default: 'USD' })
+  currency!: string; // Currency of the account the installments are charged to
+
+  @Column({ type: 'uuid' })
+  accountId!: string;
+
+  @ManyToOne(() => Account, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'accountId' })
+  account?: Account;
+
+  @Column({ type: 'int', default: 0 })
+  generatedCount!: number; // Installments already materialised as transactions
+
+  @Column({ type: 'date', nullable: true })
+  nextDueDate?: string | null; // Due date of the next installment still to be generated
+
+  @Column({ type: 'boolean', default: true })
+  active!: boolean; // False once every installment has been generated
+
+  @Column({ type: 'varchar' })
+  userId!: string; // Same type as Transaction.userId so convertedAmountSql works on plans too
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  // Method to validate installment plan data
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.description || this.description.trim().length === 0) {
+      errors.push('Description is required');
+    }
+
+    if (!this.totalAmount || this.totalAmount <= 0) {
+      errors.push('Total amount must be greater than 0');
+    }
+
+    if (!Number.isInteger(this.installmentCount) || this.installmentCount < 2 || this.installmentCount > MAX_INSTALLMENTS) {
+      errors.push(`Installment count must be between 2 and ${MAX_INSTALLMENTS}`);
+    }
+
+    if (this.interestRate < 0 || this.interestRate > MAX_INSTALLMENT_INTEREST_RATE) {
+      errors.push(`Interest rate must be between 0 and ${MAX_INSTALLMENT_INTEREST_RATE}`);
+    }
+
+    if (this.firstDueMonth && this.date && this.firstDueMonth < this.date.slice(0, 7)) {
+      errors.push('First installment must not be due before the purchase date');
+    }
+
+    if (!isCurrencyCode(this.currency)) {
+      errors.push('Currency must be a 3-letter ISO 4217 code');
+    }
+
+    return errors;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      description: this.description,
+      totalAmount: Number(this.totalAmount),
+      installmentCount: this.installmentCount,
+      interestRate: Number(this.interestRate),
+      category: this.category || null,
+      merchant: this.merchant || null,
+      merchantId: this.merchantId || null,
+      date: this.date,
+      firstDueMonth: this.firstDueMonth,
+      currency: this.currency,
+      accountId: this.accountId,
+      generatedCount: this.generatedCount,
+      nextDueDate: this.nextDueDate || null,
+      active: this.active,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
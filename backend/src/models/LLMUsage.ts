@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+
+@Entity('llm_usage')
+@Index('IDX_llm_usage_user_month', ['userId', 'month'], { unique: true })
+export class LLMUsage {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 7 })
+  month!: string; // YYYY-MM (UTC)
+
+  @Column({ type: 'int', default: 0 })
+  promptTokens!: number;
+
+  @Column({ type: 'int', default: 0 })
+  completionTokens!: number;
+
+  @Column({ type: 'int', default: 0 })
+  requests!: number;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,77 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import {
+  MAX_MERCHANT_ALIASES,
+  MAX_MERCHANT_NAME_LENGTH,
+  MAX_MERCHANT_PATTERNS,
+  isValidMerchantPattern
+} from '../utils/merchants';
+
+@Entity('merchants')
+@Index('IDX_merchants_user_name', ['userId', 'name'], { unique: true })
+export class Merchant {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: MAX_MERCHANT_NAME_LENGTH })
+  name!: string; // Display name, copied to Transaction.merchant on every matched transaction
+
+  @Column({ type: 'varchar', nullable: true })
+  defaultCategory?: string | null; // Used by the categorizer before asking the AI
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  aliases!: string[]; // Other spellings found in statements, compared with merchantKey
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  patterns!: string[]; // Case-insensitive regular expressions tested against merchant and description
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  // Method to validate merchant data
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Name is required');
+    }
+
+    if (this.aliases.length > MAX_MERCHANT_ALIASES) {
+      errors.push(`A merchant can have at most ${MAX_MERCHANT_ALIASES} aliases`);
+    }
+
+    if (this.patterns.length > MAX_MERCHANT_PATTERNS) {
+      errors.push(`A merchant can have at most ${MAX_MERCHANT_PATTERNS} patterns`);
+    }
+
+    for (const pattern of this.patterns) {
+      if (!isValidMerchantPattern(pattern)) {
+        errors.push(`Invalid pattern: ${pattern}`);
+      }
+    }
+
+    return errors;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      defaultCategory: this.defaultCategory || null,
+      aliases: this.aliases,
+      patterns: this.patterns,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
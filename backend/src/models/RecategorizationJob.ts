@@ -0,0 +1,70 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { RecategorizationChange, RecategorizationJobStatus } from '../utils/recategorization';
+
+@Entity('recategorization_jobs')
+@Index('IDX_recategorization_jobs_user', ['userId', 'createdAt'])
+export class RecategorizationJob {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status!: RecategorizationJobStatus;
+
+  @Column({ type: 'date', nullable: true })
+  startDate?: string | null;
+
+  @Column({ type: 'date', nullable: true })
+  endDate?: string | null;
+
+  @Column({ type: 'float', nullable: true })
+  maxConfidence?: number | null; // Only transactions below this confidence; null = every automatic category
+
+  @Column({ type: 'int', default: 0 })
+  total!: number;
+
+  @Column({ type: 'int', default: 0 })
+  processed!: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  changes!: RecategorizationChange[]; // Proposed diff, applied only after the user confirms
+
+  @Column({ type: 'int', default: 0 })
+  applied!: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  error?: string | null;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      status: this.status,
+      filters: {
+        startDate: this.startDate || null,
+        endDate: this.endDate || null,
+        maxConfidence: this.maxConfidence ?? null
+      },
+      total: this.total,
+      processed: this.processed,
+      progress: this.total > 0 ? Math.round((this.processed / this.total) * 1000) / 1000 : (this.status === 'pending' ? 0 : 1),
+      changes: this.changes,
+      applied: this.applied,
+      error: this.error || null,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
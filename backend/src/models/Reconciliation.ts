@@ -0,0 +1,57 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { Account } from './Account';
+
+export type ReconciliationStatus = 'in_progress' | 'completed';
+
+@Entity('reconciliations')
+@Index('IDX_reconciliations_account', ['accountId', 'status'])
+export class Reconciliation {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  accountId!: string;
+
+  @ManyToOne(() => Account, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'accountId' })
+  account?: Account;
+
+  @Column({ type: 'date' })
+  statementDate!: string; // Statement end date (YYYY-MM-DD); later transactions are not part of it
+
+  @Column('decimal', { precision: 12, scale: 2 })
+  closingBalance!: number; // Closing balance printed on the statement, in the account currency
+
+  @Column({ type: 'varchar', length: 12, default: 'in_progress' })
+  status!: ReconciliationStatus; // Only one session per account can be in progress
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt?: Date | null;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      accountId: this.accountId,
+      statementDate: this.statementDate,
+      closingBalance: Number(this.closingBalance),
+      status: this.status,
+      completedAt: this.completedAt?.toISOString() || null,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { RecurrenceFrequency, RECURRENCE_FREQUENCIES, isValidCronExpression } from '../utils/recurrence';
+
+@Entity('recurring_transactions')
+@Index(['active', 'nextRunDate'])
+export class RecurringTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  description!: string; // Template description for generated transactions
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount!: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  category?: string;
+
+  @Column({ type: 'varchar' })
+  type!: 'income' | 'expense';
+
+  @Column({ type: 'varchar', nullable: true })
+  merchant?: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  frequency!: RecurrenceFrequency;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  cronExpression?: string; // Only used when frequency is "cron"
+
+  @Column({ type: 'date' })
+  startDate!: string; // YYYY-MM-DD
+
+  @Column({ type: 'date', nullable: true })
+  endDate?: string; // Last date an occurrence may fall on (inclusive)
+
+  @Column({ type: 'date' })
+  nextRunDate!: string; // Next occurrence still to be materialised
+
+  @Column({ type: 'date', nullable: true })
+  lastRunDate?: string;
+
+  @Column({ type: 'boolean', default: true })
+  active!: boolean;
+
+  @Column({ type: 'uuid', nullable: true })
+  accountId?: string; // Target account; the user's default account when not set
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+
+  // Method to validate recurring transaction data
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.description || this.description.trim().length === 0) {
+      errors.push('Description is required');
+    }
+
+    if (!this.amount || this.amount <= 0) {
+      errors.push('Amount must be greater than 0');
+    }
+
+    if (!this.type || !['income', 'expense'].includes(this.type)) {
+      errors.push('Type must be either "income" or "expense"');
+    }
+
+    if (!RECURRENCE_FREQUENCIES.includes(this.frequency)) {
+      errors.push(`Frequency must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`);
+    }
+
+    if (this.frequency === 'cron' && (!this.cronExpression || !isValidCronExpression(this.cronExpression))) {
+      errors.push('A valid cron expression is required for cron frequency');
+    }
+
+    if (this.endDate && this.startDate && this.endDate < this.startDate) {
+      errors.push('End date must be on or after start date');
+    }
+
+    return errors;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      description: this.description,
+      amount: Number(this.amount),
+      category: this.category || null,
+      type: this.type,
+      merchant: this.merchant || null,
+      frequency: this.frequency,
+      cronExpression: this.cronExpression || null,
+      startDate: this.startDate,
+      endDate: this.endDate || null,
+      nextRunDate: this.nextRunDate,
+      lastRunDate: this.lastRunDate || null,
+      active: this.active,
+      accountId: this.accountId || null,
+      userId: this.userId,
+      createdAt: this.createdAt?.toISOString(),
+      updatedAt: this.updatedAt?.toISOString()
+    };
+  }
+}
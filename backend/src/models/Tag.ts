@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from './User';
+import { MAX_TAG_LENGTH } from '../utils/tags';
+
+@Entity('tags')
+@Index('IDX_tags_user_name', ['userId', 'name'], { unique: true })
+export class Tag {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: MAX_TAG_LENGTH })
+  name!: string; // Normalized with normalizeTagName, so "Vacaciones 2026" and "vacaciones 2026" are the same tag
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user!: User;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      createdAt: this.createdAt?.toISOString()
+    };
+  }
+}
@@ -1,7 +1,34 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, DeleteDateColumn, ManyToOne, OneToMany, ManyToMany, JoinColumn, JoinTable, Index } from 'typeorm';
 import { User } from './User';
+import { Account } from './Account';
+import { TransactionSplit } from './TransactionSplit';
+import { Attachment } from './Attachment';
+import { Tag } from './Tag';
+import { Merchant } from './Merchant';
+import { Reconciliation } from './Reconciliation';
+import { InstallmentPlan } from './InstallmentPlan';
+import { validateSplitLines } from '../utils/splits';
+import { isCurrencyCode } from '../utils/currency';
+import { MAX_TAGS_PER_TRANSACTION } from '../utils/tags';
+import { CategorySource } from '../utils/categories';
+
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+export type TransferDirection = 'in' | 'out';
+
+// pending: not yet seen on a bank statement; cleared: ticked off; reconciled: locked by a completed reconciliation
+export type TransactionStatus = 'pending' | 'cleared' | 'reconciled';
+
+export const TRANSACTION_STATUSES: TransactionStatus[] = ['pending', 'cleared', 'reconciled'];
 
 @Entity('transactions')
+@Index('IDX_transactions_user_fitId', ['userId', 'fitId'], { unique: true })
+@Index('IDX_transactions_recurring_date', ['recurringTransactionId', 'date'], { unique: true })
+@Index('IDX_transactions_installment', ['installmentPlanId', 'installmentNumber'], { unique: true })
+@Index('IDX_transactions_transferId', ['transferId'])
+@Index('IDX_transactions_merchantId', ['merchantId'])
+@Index('IDX_transactions_account_status', ['accountId', 'status'])
+@Index('IDX_transactions_search', { synchronize: false }) // GIN full-text index, see createSearchIndexSql
 export class Transaction {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
@@ -12,21 +39,76 @@ export class Transaction {
   @Column('decimal', { precision: 10, scale: 2 })
   amount!: number;
 
+  @Column({ type: 'varchar', length: 3, default: 'USD' })
+  currency!: string; // ISO 4217 code, defaults to the account currency
+
   @Column({ nullable: true })
   category?: string; // AI-generated category
 
   @Column({ type: 'float', nullable: true })
   confidence?: number; // AI confidence score (0-1)
 
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  categorySource?: CategorySource | null; // Who picked the category; recategorization never overrides 'user'
+
   @Column()
-  type!: 'income' | 'expense'; // Transaction type
+  type!: TransactionType; // Transaction type
 
   @Column({ nullable: true })
-  merchant?: string; // Optional merchant name
+  merchant?: string; // Optional merchant name, the directory name when merchantId is set
+
+  @Column({ type: 'uuid', nullable: true })
+  merchantId?: string | null; // Merchant directory entry resolved by MerchantService
+
+  @ManyToOne(() => Merchant, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'merchantId' })
+  merchantEntry?: Merchant;
 
   @Column({ type: 'date', nullable: true })
   date?: string; // Transaction date (string format YYYY-MM-DD)
 
+  @Column({ nullable: true })
+  fitId?: string; // Financial institution transaction ID (OFX FITID), used to skip re-imports
+
+  @Column({ type: 'uuid', nullable: true })
+  recurringTransactionId?: string; // Recurring rule that generated this transaction, if any
+
+  @Column({ type: 'uuid', nullable: true })
+  installmentPlanId?: string | null; // Installment plan that generated this charge, if any
+
+  @ManyToOne(() => InstallmentPlan, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'installmentPlanId' })
+  installmentPlan?: InstallmentPlan;
+
+  @Column({ type: 'int', nullable: true })
+  installmentNumber?: number | null; // "cuota 3/12": 3
+
+  @Column({ type: 'int', nullable: true })
+  installmentCount?: number | null; // "cuota 3/12": 12; kept even if the plan is deleted
+
+  @Column({ type: 'uuid' })
+  accountId!: string; // Required since the AddAccounts migration backfilled a default account
+
+  @ManyToOne(() => Account)
+  @JoinColumn({ name: 'accountId' })
+  account?: Account;
+
+  @Column({ type: 'uuid', nullable: true })
+  transferId?: string; // Shared by both legs of a transfer between accounts
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  transferDirection?: TransferDirection; // "out" leaves the account, "in" arrives at it
+
+  @Column({ type: 'varchar', length: 10, default: 'pending' })
+  status!: TransactionStatus;
+
+  @Column({ type: 'uuid', nullable: true })
+  reconciliationId?: string | null; // Reconciliation that locked this transaction, see ReconciliationService
+
+  @ManyToOne(() => Reconciliation, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'reconciliationId' })
+  reconciliation?: Reconciliation;
+
   @Column()
   userId!: string;
 
@@ -34,12 +116,29 @@ export class Transaction {
   @JoinColumn({ name: 'userId' })
   user!: User;
 
+  @OneToMany(() => TransactionSplit, split => split.transaction, { cascade: true })
+  splits?: TransactionSplit[]; // Per-category lines; when present they replace `category` in analytics
+
+  @OneToMany(() => Attachment, attachment => attachment.transaction)
+  attachments?: Attachment[]; // Receipts and invoices, managed through AttachmentService
+
+  @ManyToMany(() => Tag)
+  @JoinTable({
+    name: 'transaction_tags',
+    joinColumn: { name: 'transactionId', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'tagId', referencedColumnName: 'id' }
+  })
+  tags?: Tag[]; // Free-form labels such as "vacaciones-2026", resolved through TagService
+
   @CreateDateColumn()
   createdAt!: Date;
 
   @CreateDateColumn()
   updatedAt!: Date;
 
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt?: Date; // Set while the transaction is in the trash, see TrashService
+
   // Method to validate transaction data
   validate(): string[] {
     const errors: string[] = [];
@@ -52,8 +151,29 @@ export class Transaction {
       errors.push('Amount must be greater than 0');
     }
     
-    if (!this.type || !['income', 'expense'].includes(this.type)) {
-      errors.push('Type must be either "income" or "expense"');
+    if (!this.type || !['income', 'expense', 'transfer'].includes(this.type)) {
+      errors.push('Type must be "income", "expense" or "transfer"');
+    }
+
+    if (this.type === 'transfer') {
+      if (!this.transferId || !this.transferDirection || !['in', 'out'].includes(this.transferDirection)) {
+        errors.push('Transfers require a transfer ID and direction');
+      }
+      if (this.splits && this.splits.length > 0) {
+        errors.push('Transfers cannot be split');
+      }
+    }
+    
+    if (!this.accountId) {
+      errors.push('Account is required');
+    }
+
+    if (this.status && !TRANSACTION_STATUSES.includes(this.status)) {
+      errors.push(`Status must be one of: ${TRANSACTION_STATUSES.join(', ')}`);
+    }
+
+    if (!isCurrencyCode(this.currency)) {
+      errors.push('Currency must be a 3-letter ISO code');
     }
     
     if (this.category && this.category.trim().length === 0) {
@@ -65,6 +185,14 @@ export class Transaction {
         errors.push('Confidence must be between 0 and 1');
       }
     }
+
+    if (this.splits && this.splits.length > 0) {
+      errors.push(...validateSplitLines(this.amount, this.splits));
+    }
+
+    if (this.tags && this.tags.length > MAX_TAGS_PER_TRANSACTION) {
+      errors.push(`A transaction can have at most ${MAX_TAGS_PER_TRANSACTION} tags`);
+    }
     
     return errors;
   }
@@ -75,14 +203,31 @@ export class Transaction {
       id: this.id,
       description: this.description,
       amount: Number(this.amount),
+      currency: this.currency,
       category: this.category || null,
       confidence: this.confidence || null,
+      categorySource: this.categorySource || null,
       type: this.type,
       merchant: this.merchant || null,
+      merchantId: this.merchantId || null,
       date: this.date || this.createdAt?.toISOString().split('T')[0],
+      fitId: this.fitId || null,
+      accountId: this.accountId,
+      transferId: this.transferId || null,
+      transferDirection: this.transferDirection || null,
+      recurringTransactionId: this.recurringTransactionId || null,
+      installmentPlanId: this.installmentPlanId || null,
+      installmentNumber: this.installmentNumber || null,
+      installmentCount: this.installmentCount || null,
+      status: this.status || 'pending',
+      reconciliationId: this.reconciliationId || null,
+      splits: this.splits?.map(split => split.toJSON()),
+      attachments: this.attachments?.map(attachment => attachment.toJSON()),
+      tags: this.tags?.map(tag => tag.name).sort(),
       userId: this.userId,
       createdAt: this.createdAt?.toISOString(),
-      updatedAt: this.updatedAt?.toISOString()
+      updatedAt: this.updatedAt?.toISOString(),
+      deletedAt: this.deletedAt?.toISOString()
     };
   }
 }
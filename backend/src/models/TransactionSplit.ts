@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Transaction } from './Transaction';
+
+@Entity('transaction_splits')
+export class TransactionSplit {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  transactionId!: string;
+
+  // Removing a line from Transaction.splits deletes it instead of leaving it orphaned
+  @ManyToOne(() => Transaction, transaction => transaction.splits, { onDelete: 'CASCADE', orphanedRowAction: 'delete' })
+  @JoinColumn({ name: 'transactionId' })
+  transaction!: Transaction;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount!: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  category!: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description?: string; // Optional note for the line (e.g. "Detergente")
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  toJSON() {
+    return {
+      id: this.id,
+      amount: Number(this.amount),
+      category: this.category,
+      description: this.description || null
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { AccountController } from '../controllers/account.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const accountController = new AccountController();
+
+router.use(authenticateToken);
+
+router.post('/', accountController.createAccount.bind(accountController));
+router.get('/', accountController.getAccounts.bind(accountController));
+router.get('/:id', accountController.getAccountById.bind(accountController));
+router.get('/:id/balance-history', accountController.getBalanceHistory.bind(accountController));
+router.put('/:id', accountController.updateAccount.bind(accountController));
+router.delete('/:id', accountController.deleteAccount.bind(accountController));
+
+export default router;
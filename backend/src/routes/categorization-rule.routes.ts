@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { CategorizationRuleController } from '../controllers/categorization-rule.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const ruleController = new CategorizationRuleController();
+
+router.use(authenticateToken);
+
+router.get('/', ruleController.getRules.bind(ruleController));
+router.post('/', ruleController.createRule.bind(ruleController));
+router.post('/test', ruleController.testRule.bind(ruleController));
+router.put('/reorder', ruleController.reorderRules.bind(ruleController));
+router.put('/:id', ruleController.updateRule.bind(ruleController));
+router.delete('/:id', ruleController.deleteRule.bind(ruleController));
+
+export default router;
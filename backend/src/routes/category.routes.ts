@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { CategoryController } from '../controllers/category.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const categoryController = new CategoryController();
+
+router.use(authenticateToken);
+
+router.get('/', categoryController.getCategories.bind(categoryController));
+router.post('/', categoryController.createCategory.bind(categoryController));
+router.put('/:id', categoryController.updateCategory.bind(categoryController));
+router.delete('/:id', categoryController.deleteCategory.bind(categoryController));
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { ExchangeRateController } from '../controllers/exchange-rate.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { uploadStatement } from '../middleware/upload.middleware';
+
+const router = Router();
+const exchangeRateController = new ExchangeRateController();
+
+router.use(authenticateToken);
+
+router.get('/', exchangeRateController.getRates.bind(exchangeRateController));
+router.post('/', exchangeRateController.saveRate.bind(exchangeRateController));
+router.post('/import', uploadStatement, exchangeRateController.importCsv.bind(exchangeRateController));
+router.delete('/:id', exchangeRateController.deleteRate.bind(exchangeRateController));
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { InstallmentController } from '../controllers/installment.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const installmentController = new InstallmentController();
+
+router.use(authenticateToken);
+
+router.get('/', installmentController.getPlans.bind(installmentController));
+router.post('/', installmentController.createPlan.bind(installmentController));
+router.get('/:id', installmentController.getPlan.bind(installmentController));
+router.delete('/:id', installmentController.deletePlan.bind(installmentController));
+
+export default router;
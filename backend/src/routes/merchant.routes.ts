@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { MerchantController } from '../controllers/merchant.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const merchantController = new MerchantController();
+
+router.use(authenticateToken);
+
+router.get('/', merchantController.getMerchants.bind(merchantController));
+router.post('/', merchantController.createMerchant.bind(merchantController));
+router.post('/merge', merchantController.mergeMerchants.bind(merchantController));
+router.put('/:id', merchantController.updateMerchant.bind(merchantController));
+router.delete('/:id', merchantController.deleteMerchant.bind(merchantController));
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { ReconciliationController } from '../controllers/reconciliation.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const reconciliationController = new ReconciliationController();
+
+router.use(authenticateToken);
+
+router.get('/', reconciliationController.getReconciliations.bind(reconciliationController));
+router.post('/', reconciliationController.startReconciliation.bind(reconciliationController));
+router.get('/:id', reconciliationController.getReconciliation.bind(reconciliationController));
+router.post('/:id/transactions', reconciliationController.setCleared.bind(reconciliationController));
+router.post('/:id/complete', reconciliationController.completeReconciliation.bind(reconciliationController));
+router.delete('/:id', reconciliationController.cancelReconciliation.bind(reconciliationController));
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { RecurringTransactionController } from '../controllers/recurring.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const recurringController = new RecurringTransactionController();
+
+router.use(authenticateToken);
+
+router.post('/', recurringController.createRecurringTransaction.bind(recurringController));
+router.get('/', recurringController.getRecurringTransactions.bind(recurringController));
+router.put('/:id', recurringController.updateRecurringTransaction.bind(recurringController));
+router.delete('/:id', recurringController.deleteRecurringTransaction.bind(recurringController));
+
+export default router;
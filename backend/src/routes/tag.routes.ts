@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { TagController } from '../controllers/tag.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const tagController = new TagController();
+
+router.use(authenticateToken);
+
+router.get('/', tagController.getTags.bind(tagController));
+router.delete('/:id', tagController.deleteTag.bind(tagController));
+
+export default router;
@@ -1,9 +1,18 @@
 import { Router } from 'express';
 import { TransactionsController } from '../controllers/transactions.controller';
+import { AttachmentController } from '../controllers/attachment.controller';
+import { DuplicateController } from '../controllers/duplicate.controller';
+import { CategorizationReviewController } from '../controllers/categorization-review.controller';
+import { RecategorizationController } from '../controllers/recategorization.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
+import { uploadAttachment, uploadStatement } from '../middleware/upload.middleware';
 
 const router = Router();
 const transactionsController = new TransactionsController();
+const attachmentController = new AttachmentController();
+const duplicateController = new DuplicateController();
+const reviewController = new CategorizationReviewController();
+const recategorizationController = new RecategorizationController();
 
 // Public routes (no authentication required)
 router.get('/test', (req, res) => {
@@ -19,21 +28,59 @@ router.use(authenticateToken);
 
 // Protected routes
 router.post('/categorize', transactionsController.categorizeTransaction.bind(transactionsController));
+router.get('/categorize/model', transactionsController.getClassifierStats.bind(transactionsController));
+router.get('/categorize/usage', transactionsController.getAIUsage.bind(transactionsController));
 
 // Transaction routes (require authentication)
 router.post('/', transactionsController.createTransaction.bind(transactionsController));
 router.get('/', transactionsController.getUserTransactions.bind(transactionsController));
 router.get('/stats', transactionsController.getTransactionStats.bind(transactionsController));
 
+// Import routes
+router.post('/import/csv', uploadStatement, transactionsController.importCsv.bind(transactionsController));
+router.post('/import/ofx', uploadStatement, transactionsController.importOfx.bind(transactionsController));
+
+// Export routes
+router.get('/export', transactionsController.exportTransactions.bind(transactionsController));
+
 // Analytics routes
 router.get('/analytics/projection', transactionsController.getExpenseProjection.bind(transactionsController));
 router.get('/analytics/anomalies', transactionsController.detectAnomalies.bind(transactionsController));
 router.get('/analytics/insights', transactionsController.getAIInsights.bind(transactionsController));
 router.get('/analytics/trend', transactionsController.getMonthlyTrend.bind(transactionsController));
+router.get('/analytics/summary', transactionsController.getDashboardSummary.bind(transactionsController));
 router.get('/analytics/budget', transactionsController.getBudgetComparison.bind(transactionsController));
+router.get('/analytics/tags', transactionsController.getTagBreakdown.bind(transactionsController));
+
+// Bulk routes (before /:id so "bulk" is not taken as an id)
+router.patch('/bulk', transactionsController.bulkUpdateTransactions.bind(transactionsController));
+router.delete('/bulk', transactionsController.bulkDeleteTransactions.bind(transactionsController));
+
+// Duplicate routes (also before /:id)
+router.get('/duplicates', duplicateController.getDuplicates.bind(duplicateController));
+router.post('/duplicates/merge', duplicateController.mergeDuplicates.bind(duplicateController));
+router.post('/duplicates/dismiss', duplicateController.dismissDuplicate.bind(duplicateController));
+
+// Low-confidence categorization review (also before /:id)
+router.get('/review', reviewController.getReviewQueue.bind(reviewController));
+router.post('/review/:id', reviewController.reviewTransaction.bind(reviewController));
+
+// History re-categorization jobs (also before /:id)
+router.post('/recategorize', recategorizationController.startJob.bind(recategorizationController));
+router.get('/recategorize', recategorizationController.getLatestJob.bind(recategorizationController));
+router.get('/recategorize/:jobId', recategorizationController.getJob.bind(recategorizationController));
+router.post('/recategorize/:jobId/apply', recategorizationController.applyJob.bind(recategorizationController));
+router.delete('/recategorize/:jobId', recategorizationController.discardJob.bind(recategorizationController));
 
 router.get('/:id', transactionsController.getTransactionById.bind(transactionsController));
 router.put('/:id', transactionsController.updateTransaction.bind(transactionsController));
+router.patch('/:id/status', transactionsController.updateTransactionStatus.bind(transactionsController));
 router.delete('/:id', transactionsController.deleteTransaction.bind(transactionsController));
 
+// Attachment routes
+router.get('/:id/attachments', attachmentController.getAttachments.bind(attachmentController));
+router.post('/:id/attachments', uploadAttachment, attachmentController.uploadAttachment.bind(attachmentController));
+router.get('/:id/attachments/:attachmentId', attachmentController.downloadAttachment.bind(attachmentController));
+router.delete('/:id/attachments/:attachmentId', attachmentController.deleteAttachment.bind(attachmentController));
+
 export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { TransferController } from '../controllers/transfer.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const transferController = new TransferController();
+
+router.use(authenticateToken);
+
+router.post('/', transferController.createTransfer.bind(transferController));
+router.get('/:id', transferController.getTransfer.bind(transferController));
+router.put('/:id', transferController.updateTransfer.bind(transferController));
+router.delete('/:id', transferController.deleteTransfer.bind(transferController));
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { TrashController } from '../controllers/trash.controller';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+const trashController = new TrashController();
+
+router.use(authenticateToken);
+
+router.get('/', trashController.getTrash.bind(trashController));
+router.post('/restore', trashController.restore.bind(trashController));
+router.post('/purge', trashController.purge.bind(trashController));
+router.delete('/', trashController.emptyTrash.bind(trashController));
+
+export default router;
@@ -0,0 +1,365 @@
+import { EntityManager } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Account, AccountType } from '../models/Account';
+import { Transaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { signedAmountSql } from '../utils/transfers';
+import { convertedAmountSql } from '../utils/currency';
+import logger from '../utils/logger';
+
+export interface AccountDTO {
+  name: string;
+  type: AccountType;
+  currency?: string;
+  openingBalance?: number;
+  isDefault?: boolean;
+}
+
+export interface UpdateAccountDTO extends Partial<AccountDTO> {
+  archived?: boolean;
+}
+
+export type AccountResponse = ReturnType<Account['toJSON']> & {
+  balance: number;
+  transactionCount: number;
+};
+
+export interface BalanceEntry {
+  id: string;
+  date: string;
+  description: string;
+  type: 'income' | 'expense' | 'transfer';
+  transferDirection: 'in' | 'out' | null;
+  amount: number;
+  currency: string; // Moneda del movimiento; el saldo está en la moneda de la cuenta
+  balance: number;
+}
+
+export interface BalanceHistory {
+  account: AccountResponse;
+  openingBalance: number; // Saldo al inicio del rango solicitado
+  closingBalance: number;
+  entries: BalanceEntry[];
+}
+
+const DEFAULT_ACCOUNT_NAME = 'Cuenta principal';
+
+// Suma con signo en la moneda de la cuenta: los ingresos y transferencias entrantes suman, el resto resta
+const SIGNED_AMOUNT = convertedAmountSql(signedAmountSql('t'), 't', ':accountCurrency');
+
+/**
+ * Servicio de cuentas (banco, efectivo, tarjeta de crédito, billetera)
+ * Calcula saldos a partir del saldo inicial y las transacciones de cada cuenta
+ */
+export class AccountService {
+  private accountRepository = AppDataSource.getRepository(Account);
+
+  /**
+   * Crear una nueva cuenta
+   * La primera cuenta del usuario se marca como cuenta por defecto
+   */
+  async createAccount(userId: string, data: AccountDTO): Promise<AccountResponse> {
+    try {
+      const account = new Account();
+      account.userId = userId;
+      account.name = data.name;
+      account.type = data.type;
+      account.currency = data.currency || await this.getUserCurrency(userId);
+      account.openingBalance = data.openingBalance ?? 0;
+      account.archived = false;
+
+      const validationErrors = account.validate();
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join(', '));
+      }
+
+      const existing = await this.accountRepository.count({ where: { userId } });
+      account.isDefault = existing === 0 || Boolean(data.isDefault);
+
+      const saved = await AppDataSource.transaction(async manager => {
+        if (account.isDefault) {
+          await manager.update(Account, { userId, isDefault: true }, { isDefault: false });
+        }
+        return manager.save(Account, account);
+      });
+
+      logger.info(`Account ${saved.id} created for user ${userId}`);
+      return this.withBalance(saved);
+    } catch (error) {
+      logger.error('Error creating account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener las cuentas del usuario con su saldo actual
+   * @param includeArchived - Incluir cuentas archivadas
+   */
+  async getAccounts(userId: string, includeArchived: boolean = false): Promise<AccountResponse[]> {
+    try {
+      const where: { userId: string; archived?: boolean } = { userId };
+      if (!includeArchived) {
+        where.archived = false;
+      }
+
+      const accounts = await this.accountRepository.find({
+        where,
+        order: { isDefault: 'DESC', name: 'ASC' }
+      });
+
+      const balances = await this.getBalances(userId);
+      return accounts.map(account => {
+        const balance = balances.get(account.id);
+        return {
+          ...account.toJSON(),
+          balance: Number(account.openingBalance) + (balance?.movement || 0),
+          transactionCount: balance?.count || 0,
+        };
+      });
+    } catch (error) {
+      logger.error('Error getting accounts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una cuenta con su saldo actual
+   */
+  async getAccountById(userId: string, accountId: string): Promise<AccountResponse> {
+    try {
+      const account = await this.findAccount(userId, accountId);
+      return this.withBalance(account);
+    } catch (error) {
+      logger.error('Error getting account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar una cuenta
+   */
+  async updateAccount(userId: string, accountId: string, data: UpdateAccountDTO): Promise<AccountResponse> {
+    try {
+      const account = await this.findAccount(userId, accountId);
+
+      if (data.name !== undefined) {
+        account.name = data.name;
+      }
+      if (data.type !== undefined) {
+        account.type = data.type;
+      }
+      if (data.currency !== undefined) {
+        account.currency = data.currency;
+      }
+      if (data.openingBalance !== undefined) {
+        account.openingBalance = data.openingBalance;
+      }
+      if (data.archived !== undefined) {
+        account.archived = data.archived;
+      }
+
+      if (account.archived && (account.isDefault || data.isDefault)) {
+        throw new Error('The default account cannot be archived');
+      }
+
+      const validationErrors = account.validate();
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join(', '));
+      }
+
+      const updated = await AppDataSource.transaction(async manager => {
+        if (data.isDefault && !account.isDefault) {
+          await manager.update(Account, { userId, isDefault: true }, { isDefault: false });
+          account.isDefault = true;
+        }
+        return manager.save(Account, account);
+      });
+
+      logger.info(`Account ${accountId} updated for user ${userId}`);
+      return this.withBalance(updated);
+    } catch (error) {
+      logger.error('Error updating account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una cuenta sin transacciones
+   * Las cuentas con historial deben archivarse para no perder sus saldos
+   */
+  async deleteAccount(userId: string, accountId: string): Promise<void> {
+    try {
+      const account = await this.findAccount(userId, accountId);
+
+      if (account.isDefault) {
+        throw new Error('The default account cannot be deleted');
+      }
+
+      // Las transacciones en la papelera también cuentan: restaurarlas necesita la cuenta
+      const transactionCount = await AppDataSource.getRepository(Transaction).count({ where: { accountId }, withDeleted: true });
+      if (transactionCount > 0) {
+        throw new Error('Account has transactions, archive it instead');
+      }
+
+      await this.accountRepository.delete({ id: accountId, userId });
+      logger.info(`Account ${accountId} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saldo acumulado de una cuenta transacción a transacción
+   * @param startDate - Fecha de inicio opcional (YYYY-MM-DD)
+   * @param endDate - Fecha de fin opcional (YYYY-MM-DD)
+   */
+  async getBalanceHistory(userId: string, accountId: string, startDate?: string, endDate?: string): Promise<BalanceHistory> {
+    try {
+      const account = await this.findAccount(userId, accountId);
+      const transactionRepository = AppDataSource.getRepository(Transaction);
+
+      // Movimientos anteriores al rango: forman el saldo de apertura del período
+      let carried = 0;
+      if (startDate) {
+        const before = await transactionRepository
+          .createQueryBuilder('t')
+          .select(`COALESCE(SUM(${SIGNED_AMOUNT}), 0)`, 'total')
+          .where('t.accountId = :accountId', { accountId, accountCurrency: account.currency })
+          .andWhere('t.date < :startDate', { startDate })
+          .getRawOne<{ total: string }>();
+        carried = parseFloat(before?.total || '0');
+      }
+
+      const queryBuilder = transactionRepository
+        .createQueryBuilder('t')
+        .select('t.id', 'id')
+        .addSelect("TO_CHAR(t.date, 'YYYY-MM-DD')", 'date')
+        .addSelect('t.description', 'description')
+        .addSelect('t.type', 'type')
+        .addSelect('t.transferDirection', 'transferDirection')
+        .addSelect('t.amount', 'amount')
+        .addSelect('t.currency', 'currency')
+        .addSelect(`COALESCE(SUM(${SIGNED_AMOUNT}) OVER (ORDER BY t.date, t.createdAt, t.id), 0)`, 'movement')
+        .where('t.accountId = :accountId', { accountId, accountCurrency: account.currency });
+
+      if (startDate) {
+        queryBuilder.andWhere('t.date >= :startDate', { startDate });
+      }
+      if (endDate) {
+        queryBuilder.andWhere('t.date <= :endDate', { endDate });
+      }
+
+      const rows = await queryBuilder
+        .orderBy('t.date', 'ASC')
+        .addOrderBy('t.createdAt', 'ASC')
+        .addOrderBy('t.id', 'ASC')
+        .getRawMany<{ id: string; date: string; description: string; type: 'income' | 'expense' | 'transfer'; transferDirection: 'in' | 'out' | null; amount: string; currency: string; movement: string }>();
+
+      const periodOpening = Number(account.openingBalance) + carried;
+      const entries = rows.map(row => ({
+        id: row.id,
+        date: row.date,
+        description: row.description,
+        type: row.type,
+        transferDirection: row.transferDirection,
+        amount: parseFloat(row.amount),
+        currency: row.currency,
+        balance: Math.round((periodOpening + parseFloat(row.movement)) * 100) / 100,
+      }));
+
+      return {
+        account: await this.withBalance(account),
+        openingBalance: Math.round(periodOpening * 100) / 100,
+        closingBalance: entries.length > 0 ? entries[entries.length - 1].balance : Math.round(periodOpening * 100) / 100,
+        entries,
+      };
+    } catch (error) {
+      logger.error('Error getting account balance history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Devuelve la cuenta a usar para una nueva transacción (su moneda es la moneda por defecto del movimiento)
+   * Sin cuenta explícita se usa (y si hace falta se crea) la cuenta por defecto del usuario
+   * @param manager - EntityManager opcional para participar en una transacción de base de datos
+   */
+  async resolveAccount(userId: string, accountId?: string | null, manager: EntityManager = AppDataSource.manager): Promise<Account> {
+    if (accountId) {
+      const account = await manager.findOne(Account, { where: { id: accountId, userId } });
+      if (!account) {
+        throw new Error('Account not found');
+      }
+      if (account.archived) {
+        throw new Error('Archived accounts cannot receive new transactions');
+      }
+      return account;
+    }
+
+    const defaultAccount = await manager.findOne(Account, { where: { userId, isDefault: true } });
+    if (defaultAccount) {
+      return defaultAccount;
+    }
+
+    const account = new Account();
+    account.userId = userId;
+    account.name = DEFAULT_ACCOUNT_NAME;
+    account.type = 'bank';
+    account.currency = await this.getUserCurrency(userId, manager);
+    account.openingBalance = 0;
+    account.archived = false;
+    account.isDefault = true;
+
+    const saved = await manager.save(Account, account);
+    logger.info(`Default account ${saved.id} created for user ${userId}`);
+    return saved;
+  }
+
+  private async findAccount(userId: string, accountId: string): Promise<Account> {
+    const account = await this.accountRepository.findOne({ where: { id: accountId, userId } });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    return account;
+  }
+
+  private async getBalances(userId: string, accountId?: string): Promise<Map<string, { movement: number; count: number }>> {
+    const queryBuilder = AppDataSource.getRepository(Transaction)
+      .createQueryBuilder('t')
+      .innerJoin('t.account', 'a')
+      .select('t.accountId', 'accountId')
+      .addSelect(`COALESCE(SUM(${convertedAmountSql(signedAmountSql('t'), 't', 'a.currency')}), 0)`, 'movement')
+      .addSelect('COUNT(t.id)', 'count')
+      .where('t.userId = :userId', { userId });
+
+    if (accountId) {
+      queryBuilder.andWhere('t.accountId = :accountId', { accountId });
+    }
+
+    const rows = await queryBuilder
+      .groupBy('t.accountId')
+      .getRawMany<{ accountId: string; movement: string; count: string }>();
+
+    return new Map(rows.map(row => [row.accountId, {
+      movement: parseFloat(row.movement) || 0,
+      count: parseInt(row.count) || 0,
+    }]));
+  }
+
+  private async withBalance(account: Account): Promise<AccountResponse> {
+    const balance = (await this.getBalances(account.userId, account.id)).get(account.id);
+    return {
+      ...account.toJSON(),
+      balance: Number(account.openingBalance) + (balance?.movement || 0),
+      transactionCount: balance?.count || 0,
+    };
+  }
+
+  private async getUserCurrency(userId: string, manager: EntityManager = AppDataSource.manager): Promise<string> {
+    const user = await manager.findOne(User, { where: { id: userId } });
+    return user?.currency || 'USD';
+  }
+}
+
+export default AccountService;
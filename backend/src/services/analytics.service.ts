@@ -1,6 +1,12 @@
 import { AppDataSource } from '../config/database';
 import { Transaction } from '../models/Transaction';
 import { Budget } from '../models/Budget';
+import { User } from '../models/User';
+import { InstallmentPlan } from '../models/InstallmentPlan';
+import { Category } from '../models/Category';
+import { CategoryService } from './category.service';
+import { convertedAmountSql } from '../utils/currency';
+import { addMonths, planSchedule } from '../utils/installments';
 import logger from '../utils/logger';
 
 export interface MonthlyData {
@@ -23,6 +29,7 @@ export interface ProjectionData {
   confidence: number;
   monthlyData: MonthlyData[];
   method: 'linear_regression' | 'weighted_average';
+  committedInstallments: number; // Cuotas que vencen el mes proyectado, ya incluidas en projection
 }
 
 export interface AnomalyAlert {
@@ -50,6 +57,34 @@ export interface BudgetComparison {
   isCustomBudget?: boolean;
 }
 
+export interface TagBreakdown {
+  tag: string;
+  income: number;
+  expense: number;
+  net: number;
+  count: number;
+}
+
+export interface CashFlowDay {
+  date: string;
+  income: number;
+  expense: number;
+}
+
+export interface DashboardSummary {
+  currency: string; // The user's base currency, every amount below is expressed in it
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  totalIncome: number;
+  totalExpenses: number;
+  transactionCount: number;
+  unconverted: number; // Transactions left out of the totals because there is no exchange rate for them
+  cashFlow: CashFlowDay[];
+}
+
+// Días del flujo de caja del dashboard, incluido hoy
+export const DASHBOARD_CASH_FLOW_DAYS = 30;
+
 export interface MonthlyTrendData {
   month: string;
   total: number;
@@ -68,12 +103,50 @@ export interface AIInsight {
   priority: number;
 }
 
+// Montos sumados por la base (texto o NULL) redondeados a centavos
+function roundAmount(value: string | null | undefined): number {
+  return Math.round(Number(value || 0) * 100) / 100;
+}
+
 /**
  * Servicio de análisis financiero con IA
  * Proporciona proyecciones, detección de anomalías e insights
  */
 export class AnalyticsService {
   private transactionRepository = AppDataSource.getRepository(Transaction);
+  private categoryService = new CategoryService();
+
+  /**
+   * Moneda base del usuario: todos los importes de los análisis se expresan en ella
+   */
+  private async getBaseCurrency(userId: string): Promise<string> {
+    const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+    return user?.currency || 'USD';
+  }
+
+  /**
+   * Consulta base de gastos agrupados por categoría, convertidos a la moneda base
+   * Las transacciones divididas aportan cada línea a su propia categoría en lugar de la del padre,
+   * y las subcategorías se suman a su categoría padre
+   */
+  private categoryExpensesQuery(userId: string, baseCurrency: string) {
+    const amount = convertedAmountSql('COALESCE(s.amount, t.amount)', 't', ':baseCurrency');
+    const category = 'COALESCE(p.name, s.category, t.category)';
+
+    return this.transactionRepository
+      .createQueryBuilder('t')
+      .leftJoin('t.splits', 's')
+      .leftJoin(Category, 'c', 'c."userId"::text = t."userId" AND c.name = COALESCE(s.category, t.category)')
+      .leftJoin(Category, 'p', 'p.id = c."parentId"')
+      .select(category, 'category')
+      .addSelect(`SUM(${amount})`, 'total')
+      .addSelect('COUNT(DISTINCT t.id)', 'count')
+      .addSelect(`SUM(${amount}) / COUNT(DISTINCT t.id)`, 'average')
+      .where('t.userId = :userId', { userId, baseCurrency })
+      .andWhere('t.type = :type', { type: 'expense' })
+      .andWhere('COALESCE(s.category, t.category) IS NOT NULL')
+      .groupBy(category);
+  }
 
   /**
    * Obtiene los datos mensuales de gastos para los últimos N meses
@@ -97,13 +170,14 @@ export class AnalyticsService {
         startDateStr = calculatedStartDate.toISOString().slice(0, 10); // YYYY-MM-DD
       }
 
-      // Build query with optional date range
+      // Build query with optional date range, converting every amount to the user's base currency
+      const baseCurrency = await this.getBaseCurrency(userId);
       const queryBuilder = this.transactionRepository
         .createQueryBuilder('t')
         .select("TO_CHAR(t.date, 'YYYY-MM')", 'month')
-        .addSelect('SUM(t.amount)', 'total')
+        .addSelect(`SUM(${convertedAmountSql('t.amount', 't', ':baseCurrency')})`, 'total')
         .addSelect('COUNT(t.id)', 'count')
-        .where('t.userId = :userId', { userId })
+        .where('t.userId = :userId', { userId, baseCurrency })
         .andWhere('t.type = :type', { type: 'expense' })
         .andWhere('t.date >= :startDate', { startDate: startDateStr })
         .andWhere('t.date IS NOT NULL');
@@ -141,18 +215,10 @@ export class AnalyticsService {
       const lastDay = new Date(currentYear, currentMonth, 0).getDate();
       const endDate = `${currentYear}-${String(currentMonth).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
       
-      const result = await this.transactionRepository
-        .createQueryBuilder('t')
-        .select('t.category', 'category')
-        .addSelect('SUM(t.amount)', 'total')
-        .addSelect('COUNT(t.id)', 'count')
-        .addSelect('AVG(t.amount)', 'average')
-        .where('t.userId = :userId', { userId })
-        .andWhere('t.type = :type', { type: 'expense' })
+      const baseCurrency = await this.getBaseCurrency(userId);
+      const result = await this.categoryExpensesQuery(userId, baseCurrency)
         .andWhere('t.date >= :startDate', { startDate })
         .andWhere('t.date <= :endDate', { endDate })
-        .andWhere('t.category IS NOT NULL')
-        .groupBy('t.category')
         .orderBy('total', 'DESC')
         .getRawMany();
 
@@ -178,17 +244,9 @@ export class AnalyticsService {
       startDate.setMonth(startDate.getMonth() - 3);
       const startDateStr = startDate.toISOString().slice(0, 10); // YYYY-MM-DD
       
-      const result = await this.transactionRepository
-        .createQueryBuilder('t')
-        .select('t.category', 'category')
-        .addSelect('SUM(t.amount)', 'total')
-        .addSelect('COUNT(t.id)', 'count')
-        .addSelect('AVG(t.amount)', 'average')
-        .where('t.userId = :userId', { userId })
-        .andWhere('t.type = :type', { type: 'expense' })
+      const baseCurrency = await this.getBaseCurrency(userId);
+      const result = await this.categoryExpensesQuery(userId, baseCurrency)
         .andWhere('t.date >= :startDate', { startDate: startDateStr })
-        .andWhere('t.category IS NOT NULL')
-        .groupBy('t.category')
         .orderBy('total', 'DESC')
         .getRawMany();
 
@@ -212,18 +270,10 @@ export class AnalyticsService {
    */
   async getCategoryExpensesInRange(userId: string, startDate: string, endDate: string): Promise<CategoryData[]> {
     try {
-      const result = await this.transactionRepository
-        .createQueryBuilder('t')
-        .select('t.category', 'category')
-        .addSelect('SUM(t.amount)', 'total')
-        .addSelect('COUNT(t.id)', 'count')
-        .addSelect('AVG(t.amount)', 'average')
-        .where('t.userId = :userId', { userId })
-        .andWhere('t.type = :type', { type: 'expense' })
+      const baseCurrency = await this.getBaseCurrency(userId);
+      const result = await this.categoryExpensesQuery(userId, baseCurrency)
         .andWhere('t.date >= :startDate', { startDate })
         .andWhere('t.date <= :endDate', { endDate })
-        .andWhere('t.category IS NOT NULL')
-        .groupBy('t.category')
         .orderBy('total', 'DESC')
         .getRawMany();
 
@@ -241,22 +291,33 @@ export class AnalyticsService {
 
   /**
    * Calcula la proyección del gasto para el mes siguiente
-   * Usa regresión lineal simple o promedio móvil ponderado
+   * Usa regresión lineal simple o promedio móvil ponderado sobre el gasto sin cuotas
+   * y le suma las cuotas que ya se sabe que vencen ese mes
    */
   async calculateProjection(userId: string, method: 'linear_regression' | 'weighted_average' = 'weighted_average'): Promise<ProjectionData> {
     try {
       const monthlyData = await this.getMonthlyExpenses(userId, 3);
-      
-      if (monthlyData.length < 2) {
+      const currentMonth = new Date().toISOString().slice(0, 7);
+      const [commitment] = await this.getInstallmentCommitments(userId, addMonths(currentMonth, 1), 1);
+      const committedInstallments = commitment.total;
+
+      // Las cuotas pasadas no son gasto que se repita: se proyectan aparte con su calendario
+      const installmentCharges = await this.getMonthlyInstallmentCharges(userId, monthlyData[0]?.month);
+      const baseline = monthlyData.map(month => ({
+        ...month,
+        total: Math.max(0, month.total - (installmentCharges.get(month.month) || 0))
+      }));
+
+      if (baseline.length < 2) {
         // No hay suficientes datos para proyectar
-        const currentMonth = new Date().toISOString().slice(0, 7);
         return {
           currentMonth,
-          projection: monthlyData[0]?.total || 0,
+          projection: Math.round(((baseline[0]?.total || 0) + committedInstallments) * 100) / 100,
           trend: 'stable',
           confidence: 0,
           monthlyData,
           method,
+          committedInstallments,
         };
       }
 
@@ -265,26 +326,25 @@ export class AnalyticsService {
       let confidence: number;
 
       if (method === 'linear_regression') {
-        const regression = this.linearRegression(monthlyData);
+        const regression = this.linearRegression(baseline);
         projection = regression.prediction;
         trend = regression.trend;
         confidence = regression.rSquared;
       } else {
-        const weighted = this.weightedMovingAverage(monthlyData);
+        const weighted = this.weightedMovingAverage(baseline);
         projection = weighted.prediction;
         trend = weighted.trend;
         confidence = weighted.confidence;
       }
 
-      const currentMonth = new Date().toISOString().slice(0, 7);
-
       return {
         currentMonth,
-        projection: Math.round(projection * 100) / 100,
+        projection: Math.round((projection + committedInstallments) * 100) / 100,
         trend,
         confidence: Math.round(confidence * 100) / 100,
         monthlyData,
         method,
+        committedInstallments,
       };
     } catch (error) {
       logger.error('Error calculating projection:', error);
@@ -292,6 +352,85 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Cuotas que vencen en cada uno de los próximos meses y todavía no se generaron
+   * @param userId - ID del usuario
+   * @param fromMonth - Primer mes (YYYY-MM)
+   * @param months - Cantidad de meses
+   */
+  async getInstallmentCommitments(userId: string, fromMonth: string, months: number): Promise<MonthlyData[]> {
+    try {
+      const baseCurrency = await this.getBaseCurrency(userId);
+      // Factor de conversión de cada plan a la moneda base; NULL si no hay tasa, como en el resto de los análisis
+      const plans = await AppDataSource.getRepository(InstallmentPlan)
+        .createQueryBuilder('p')
+        .select('p.totalAmount', 'totalAmount')
+        .addSelect('p.installmentCount', 'installmentCount')
+        .addSelect('p.interestRate', 'interestRate')
+        .addSelect('p.firstDueMonth', 'firstDueMonth')
+        .addSelect("TO_CHAR(p.date, 'YYYY-MM-DD')", 'date')
+        .addSelect('p.generatedCount', 'generatedCount')
+        .addSelect(convertedAmountSql('1', 'p', ':baseCurrency'), 'rate')
+        .where('p.userId = :userId', { userId, baseCurrency })
+        .andWhere('p.active = true')
+        .getRawMany<{
+          totalAmount: string;
+          installmentCount: number;
+          interestRate: string;
+          firstDueMonth: string;
+          date: string;
+          generatedCount: number;
+          rate: string | null;
+        }>();
+
+      const commitments: MonthlyData[] = Array.from({ length: months }, (_, index) => ({
+        month: addMonths(fromMonth, index),
+        total: 0,
+        count: 0,
+      }));
+      for (const plan of plans) {
+        if (plan.rate === null) {
+          continue;
+        }
+        for (const installment of planSchedule(plan)) {
+          const commitment = commitments.find(month => month.month === installment.date.slice(0, 7));
+          if (commitment && installment.number > plan.generatedCount) {
+            commitment.total += installment.amount * parseFloat(plan.rate);
+            commitment.count += 1;
+          }
+        }
+      }
+
+      return commitments.map(month => ({ ...month, total: Math.round(month.total * 100) / 100 }));
+    } catch (error) {
+      logger.error('Error getting installment commitments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gasto en cuotas ya generadas por mes, en la moneda base
+   */
+  private async getMonthlyInstallmentCharges(userId: string, fromMonth?: string): Promise<Map<string, number>> {
+    if (!fromMonth) {
+      return new Map();
+    }
+
+    const baseCurrency = await this.getBaseCurrency(userId);
+    const result = await this.transactionRepository
+      .createQueryBuilder('t')
+      .select("TO_CHAR(t.date, 'YYYY-MM')", 'month')
+      .addSelect(`SUM(${convertedAmountSql('t.amount', 't', ':baseCurrency')})`, 'total')
+      .where('t.userId = :userId', { userId, baseCurrency })
+      .andWhere('t.type = :type', { type: 'expense' })
+      .andWhere('t.installmentNumber IS NOT NULL')
+      .andWhere('t.date >= :startDate', { startDate: `${fromMonth}-01` })
+      .groupBy("TO_CHAR(t.date, 'YYYY-MM')")
+      .getRawMany<{ month: string; total: string }>();
+
+    return new Map(result.map(row => [row.month, parseFloat(row.total) || 0]));
+  }
+
   /**
    * Regresión lineal simple para proyección
    */
@@ -602,6 +741,76 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Totales del dashboard y flujo de caja diario de los últimos días, convertidos a la moneda base
+   * Las transferencias no son ingresos ni gastos y quedan fuera
+   * @param userId - ID del usuario
+   * @param days - Días del flujo de caja, incluido hoy
+   */
+  async getDashboardSummary(userId: string, days: number = DASHBOARD_CASH_FLOW_DAYS): Promise<DashboardSummary> {
+    try {
+      const baseCurrency = await this.getBaseCurrency(userId);
+      const amount = convertedAmountSql('t.amount', 't', ':baseCurrency');
+      const date = 'COALESCE(t.date, t."createdAt"::date)';
+
+      const now = new Date();
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString().slice(0, 10);
+      const nextMonthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString().slice(0, 10);
+      const today = now.toISOString().slice(0, 10);
+      const firstDay = new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const inMonth = `${date} >= :monthStart AND ${date} < :nextMonthStart`;
+
+      const totals = await this.transactionRepository
+        .createQueryBuilder('t')
+        .select(`SUM(CASE WHEN t.type = 'income' THEN ${amount} END)`, 'totalIncome')
+        .addSelect(`SUM(CASE WHEN t.type = 'expense' THEN ${amount} END)`, 'totalExpenses')
+        .addSelect(`SUM(CASE WHEN t.type = 'income' AND ${inMonth} THEN ${amount} END)`, 'monthlyIncome')
+        .addSelect(`SUM(CASE WHEN t.type = 'expense' AND ${inMonth} THEN ${amount} END)`, 'monthlyExpenses')
+        .addSelect('COUNT(t.id)', 'count')
+        .addSelect(`COUNT(t.id) FILTER (WHERE ${amount} IS NULL)`, 'unconverted')
+        .where('t.userId = :userId', { userId, baseCurrency, monthStart, nextMonthStart })
+        .andWhere("t.type IN ('income', 'expense')")
+        .getRawOne<Record<'totalIncome' | 'totalExpenses' | 'monthlyIncome' | 'monthlyExpenses' | 'count' | 'unconverted', string | null>>();
+
+      const dailyRows = await this.transactionRepository
+        .createQueryBuilder('t')
+        .select(`TO_CHAR(${date}, 'YYYY-MM-DD')`, 'date')
+        .addSelect(`SUM(CASE WHEN t.type = 'income' THEN ${amount} END)`, 'income')
+        .addSelect(`SUM(CASE WHEN t.type = 'expense' THEN ${amount} END)`, 'expense')
+        .where('t.userId = :userId', { userId, baseCurrency })
+        .andWhere("t.type IN ('income', 'expense')")
+        .andWhere(`${date} >= :firstDay AND ${date} <= :today`, { firstDay, today })
+        .groupBy(`TO_CHAR(${date}, 'YYYY-MM-DD')`)
+        .getRawMany<{ date: string; income: string | null; expense: string | null }>();
+
+      // Los días sin movimientos también se muestran, en cero
+      const daily = new Map(dailyRows.map(row => [row.date, row]));
+      const cashFlow: CashFlowDay[] = [];
+      for (let offset = days - 1; offset >= 0; offset--) {
+        const day = new Date(now.getTime() - offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        cashFlow.push({
+          date: day,
+          income: roundAmount(daily.get(day)?.income),
+          expense: roundAmount(daily.get(day)?.expense),
+        });
+      }
+
+      return {
+        currency: baseCurrency,
+        monthlyIncome: roundAmount(totals?.monthlyIncome),
+        monthlyExpenses: roundAmount(totals?.monthlyExpenses),
+        totalIncome: roundAmount(totals?.totalIncome),
+        totalExpenses: roundAmount(totals?.totalExpenses),
+        transactionCount: Number(totals?.count || 0),
+        unconverted: Number(totals?.unconverted || 0),
+        cashFlow,
+      };
+    } catch (error) {
+      logger.error('Error getting dashboard summary:', error);
+      throw error;
+    }
+  }
+
   /**
    * Obtiene datos para gráfico de tendencia mensual
    * @param userId - ID del usuario
@@ -667,11 +876,24 @@ export class AnalyticsService {
         .getMany();
 
       // Crear mapa de presupuestos personalizados
-      const customBudgetMap = new Map<string, number>();
+      const budgetByCategory = new Map<string, number>();
       for (const budget of customBudgets) {
         // Si hay presupuesto del mes específico, usarlo; si no, usar el general
-        if (!customBudgetMap.has(budget.category) || (budget.month === currentMonth)) {
-          customBudgetMap.set(budget.category, Number(budget.amount));
+        if (!budgetByCategory.has(budget.category) || (budget.month === currentMonth)) {
+          budgetByCategory.set(budget.category, Number(budget.amount));
+        }
+      }
+
+      // Los gastos se agrupan por categoría padre: vale el presupuesto del padre y,
+      // si no tiene, la suma de los presupuestos de sus subcategorías
+      const rollup = await this.categoryService.getRollupMap(userId);
+      const customBudgetMap = new Map<string, number>();
+      for (const [category, amount] of budgetByCategory) {
+        const root = rollup.get(category) || category;
+        if (root === category) {
+          customBudgetMap.set(root, amount);
+        } else if (!budgetByCategory.has(root)) {
+          customBudgetMap.set(root, (customBudgetMap.get(root) || 0) + amount);
         }
       }
 
@@ -722,6 +944,55 @@ export class AnalyticsService {
       throw error;
     }
   }
+
+  /**
+   * Totales de ingresos y gastos por etiqueta, convertidos a la moneda base
+   * Una transacción con varias etiquetas suma en cada una de ellas
+   * @param tags - Limitar el reporte a estas etiquetas (ya normalizadas)
+   */
+  async getTagBreakdown(userId: string, startDate?: string, endDate?: string, tags: string[] = []): Promise<TagBreakdown[]> {
+    try {
+      const baseCurrency = await this.getBaseCurrency(userId);
+      const amount = convertedAmountSql('t.amount', 't', ':baseCurrency');
+
+      const queryBuilder = this.transactionRepository
+        .createQueryBuilder('t')
+        .innerJoin('t.tags', 'tag')
+        .select('tag.name', 'tag')
+        .addSelect(`SUM(CASE WHEN t.type = 'income' THEN ${amount} ELSE 0 END)`, 'income')
+        .addSelect(`SUM(CASE WHEN t.type = 'expense' THEN ${amount} ELSE 0 END)`, 'expense')
+        .addSelect('COUNT(t.id)', 'count')
+        .where('t.userId = :userId', { userId, baseCurrency })
+        .andWhere("t.type IN ('income', 'expense')");
+
+      if (startDate && endDate) {
+        queryBuilder.andWhere('t.date >= :startDate AND t.date <= :endDate', { startDate, endDate });
+      }
+      if (tags.length > 0) {
+        queryBuilder.andWhere('tag.name IN (:...tags)', { tags });
+      }
+
+      const rows = await queryBuilder
+        .groupBy('tag.name')
+        .orderBy('expense', 'DESC')
+        .getRawMany<{ tag: string; income: string | null; expense: string | null; count: string }>();
+
+      return rows.map(row => {
+        const income = Math.round(Number(row.income || 0) * 100) / 100;
+        const expense = Math.round(Number(row.expense || 0) * 100) / 100;
+        return {
+          tag: row.tag,
+          income,
+          expense,
+          net: Math.round((income - expense) * 100) / 100,
+          count: Number(row.count),
+        };
+      });
+    } catch (error) {
+      logger.error('Error getting tag breakdown:', error);
+      throw error;
+    }
+  }
 }
 
 export default AnalyticsService;
@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Attachment } from '../models/Attachment';
+import { Transaction } from '../models/Transaction';
+import { getStorageDriver } from './storage.service';
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  detectMimeType,
+  sanitizeFileName
+} from '../utils/attachments';
+import logger from '../utils/logger';
+
+export interface AttachmentUpload {
+  originalName: string;
+  size: number;
+  content: Buffer;
+}
+
+/**
+ * Servicio de comprobantes adjuntos (tickets, facturas, garantías)
+ * Los metadatos se guardan en la base de datos y el contenido en el driver de almacenamiento
+ */
+export class AttachmentService {
+  private attachmentRepository = AppDataSource.getRepository(Attachment);
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+
+  /**
+   * Adjuntar un archivo a una transacción del usuario
+   */
+  async addAttachment(userId: string, transactionId: string, upload: AttachmentUpload): Promise<Attachment> {
+    try {
+      await this.findTransaction(userId, transactionId);
+
+      if (upload.size > MAX_ATTACHMENT_SIZE) {
+        throw new Error('El archivo supera el tamaño máximo permitido');
+      }
+
+      const mimeType = detectMimeType(upload.content);
+      if (!mimeType || !ATTACHMENT_MIME_TYPES[mimeType]) {
+        throw new Error('Tipo de archivo no permitido: solo se aceptan imágenes JPEG, PNG, WebP y PDF');
+      }
+
+      const count = await this.attachmentRepository.count({ where: { transactionId, userId } });
+      if (count >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+        throw new Error(`Una transacción admite como máximo ${MAX_ATTACHMENTS_PER_TRANSACTION} adjuntos`);
+      }
+
+      const attachment = new Attachment();
+      attachment.transactionId = transactionId;
+      attachment.userId = userId;
+      attachment.fileName = sanitizeFileName(upload.originalName);
+      attachment.mimeType = mimeType;
+      attachment.size = upload.size;
+      attachment.storageKey = `${userId}/${randomUUID()}${ATTACHMENT_MIME_TYPES[mimeType]}`;
+
+      const storage = getStorageDriver();
+      await storage.put(attachment.storageKey, upload.content, mimeType);
+
+      try {
+        const saved = await this.attachmentRepository.save(attachment);
+        logger.info(`Attachment ${saved.id} added to transaction ${transactionId} for user ${userId}`);
+        return saved;
+      } catch (error) {
+        // Sin registro en la base el archivo quedaría huérfano
+        await storage.delete(attachment.storageKey);
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Error adding attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Listar los adjuntos de una transacción
+   */
+  async getAttachments(userId: string, transactionId: string): Promise<Attachment[]> {
+    try {
+      await this.findTransaction(userId, transactionId);
+      return await this.attachmentRepository.find({
+        where: { transactionId, userId },
+        order: { createdAt: 'ASC' }
+      });
+    } catch (error) {
+      logger.error('Error getting attachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener un adjunto junto con el stream de su contenido
+   */
+  async getAttachmentContent(
+    userId: string,
+    transactionId: string,
+    attachmentId: string
+  ): Promise<{ attachment: Attachment; content: Readable }> {
+    try {
+      const attachment = await this.findAttachment(userId, transactionId, attachmentId);
+      const content = await getStorageDriver().get(attachment.storageKey);
+      return { attachment, content };
+    } catch (error) {
+      logger.error('Error getting attachment content:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un adjunto y su archivo
+   */
+  async deleteAttachment(userId: string, transactionId: string, attachmentId: string): Promise<void> {
+    try {
+      const attachment = await this.findAttachment(userId, transactionId, attachmentId);
+      await this.attachmentRepository.delete({ id: attachment.id });
+      await getStorageDriver().delete(attachment.storageKey);
+
+      logger.info(`Attachment ${attachmentId} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Borrar los archivos de las transacciones que se van a eliminar
+   * Las filas se eliminan en cascada junto con la transacción
+   */
+  async removeFilesForTransactions(userId: string, transactionIds: string[]): Promise<void> {
+    if (transactionIds.length === 0) {
+      return;
+    }
+
+    const attachments = await this.attachmentRepository.find({
+      where: { userId, transactionId: In(transactionIds) }
+    });
+    const storage = getStorageDriver();
+
+    for (const attachment of attachments) {
+      try {
+        await storage.delete(attachment.storageKey);
+      } catch (error) {
+        // Un archivo que no se pudo borrar no debe impedir eliminar la transacción
+        logger.warn(`Could not delete attachment file ${attachment.storageKey}:`, error);
+      }
+    }
+  }
+
+  private async findTransaction(userId: string, transactionId: string): Promise<Transaction> {
+    const transaction = await this.transactionRepository.findOne({ where: { id: transactionId, userId } });
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+    return transaction;
+  }
+
+  private async findAttachment(userId: string, transactionId: string, attachmentId: string): Promise<Attachment> {
+    const attachment = await this.attachmentRepository.findOne({
+      where: { id: attachmentId, transactionId, userId }
+    });
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+    return attachment;
+  }
+}
+
+export default AttachmentService;
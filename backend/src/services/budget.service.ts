@@ -1,5 +1,6 @@
 import { AppDataSource } from '../config/database';
 import { Budget } from '../models/Budget';
+import { CategoryService } from './category.service';
 import logger from '../utils/logger';
 
 export interface BudgetDTO {
@@ -15,6 +16,7 @@ export interface BudgetResponse {
   month: string | null;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
 
 /**
@@ -22,12 +24,15 @@ export interface BudgetResponse {
  */
 export class BudgetService {
   private budgetRepository = AppDataSource.getRepository(Budget);
+  private categoryService = new CategoryService();
 
   /**
    * Crear un nuevo presupuesto para una categoría
    */
   async createBudget(userId: string, budgetData: BudgetDTO): Promise<BudgetResponse> {
     try {
+      await this.checkCategory(userId, budgetData.category);
+
       // Verificar si ya existe un presupuesto para esta categoría y mes
       const existingBudget = await this.budgetRepository.findOne({
         where: {
@@ -82,7 +87,8 @@ export class BudgetService {
       }
 
       // Actualizar campos
-      if (budgetData.category !== undefined) {
+      if (budgetData.category !== undefined && budgetData.category !== budget.category) {
+        await this.checkCategory(userId, budgetData.category);
         budget.category = budgetData.category;
       }
       if (budgetData.amount !== undefined) {
@@ -109,11 +115,11 @@ export class BudgetService {
   }
 
   /**
-   * Eliminar un presupuesto
+   * Enviar un presupuesto a la papelera (se puede restaurar con TrashService)
    */
   async deleteBudget(userId: string, budgetId: string): Promise<void> {
     try {
-      const result = await this.budgetRepository.delete({
+      const result = await this.budgetRepository.softDelete({
         id: budgetId,
         userId
       });
@@ -212,6 +218,15 @@ export class BudgetService {
       throw error;
     }
   }
+
+  /**
+   * Los presupuestos solo se pueden asignar a categorías existentes del usuario
+   */
+  private async checkCategory(userId: string, category: string): Promise<void> {
+    if (!(await this.categoryService.categoryExists(userId, category))) {
+      throw new Error('Category not found');
+    }
+  }
 }
 
 export default BudgetService;
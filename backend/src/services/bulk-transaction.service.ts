@@ -0,0 +1,207 @@
+import { EntityManager, In } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { AppDataSource } from '../config/database';
+import { Transaction } from '../models/Transaction';
+import { TransactionSplit } from '../models/TransactionSplit';
+import { TransactionSearchService, TransactionSearchFilters } from './transaction-search.service';
+import { MerchantService } from './merchant.service';
+import { ClassifierExample, ClassifierService } from './classifier.service';
+import { CategorizationCacheService } from './categorization-cache.service';
+import { CategoryService } from './category.service';
+import { fallbackCategorization } from '../utils/categories';
+import logger from '../utils/logger';
+
+export const MAX_BULK_TRANSACTIONS = 1000;
+
+export type BulkTransactionFilter = Omit<TransactionSearchFilters, 'sortBy' | 'sortOrder' | 'page' | 'limit'>;
+
+// Se indica una lista de ids o un filtro como el de la búsqueda, nunca ambos
+export interface BulkSelection {
+  ids?: string[];
+  filter?: BulkTransactionFilter;
+}
+
+export interface BulkTransactionChanges {
+  category?: string;
+  merchant?: string | null;
+  type?: 'income' | 'expense';
+  date?: string;
+}
+
+/**
+ * Servicio de edición y borrado masivo de transacciones
+ * Cada operación se aplica en una única transacción de base de datos: cambian todas o ninguna
+ */
+export class BulkTransactionService {
+  private searchService = new TransactionSearchService();
+  private merchantService = new MerchantService();
+  private classifierService = new ClassifierService();
+  private cacheService = new CategorizationCacheService();
+  private categoryService = new CategoryService();
+
+  /**
+   * Aplicar los mismos cambios a todas las transacciones seleccionadas
+   * Cambiar la categoría elimina las divisiones, que de otro modo seguirían mandando en los análisis,
+   * y cuenta como una corrección de la que aprende el clasificador
+   * Cambiar el tipo sin indicar categoría lleva las transacciones que cambian de tipo a la categoría de respaldo
+   * del nuevo tipo: una categoría de gasto no puede quedar en un ingreso ni al revés
+   * Por lo mismo, la categoría indicada tiene que existir y ser del tipo que tendrá cada transacción
+   * @returns Número de transacciones actualizadas
+   */
+  async bulkUpdate(userId: string, selection: BulkSelection, changes: BulkTransactionChanges): Promise<number> {
+    try {
+      const corrections: ClassifierExample[] = [];
+      const updated = await AppDataSource.transaction(async manager => {
+        const targets = await this.findTargets(manager, userId, selection);
+
+        // Las dos patas de una transferencia deben cambiar juntas
+        if (targets.some(transaction => transaction.type === 'transfer')) {
+          throw new Error('Transfers must be updated through /api/transfers');
+        }
+
+        if (changes.category !== undefined) {
+          const kind = await this.categoryService.getCategoryKind(userId, changes.category);
+          if (!kind) {
+            throw new Error('Category not found');
+          }
+          if (targets.some(transaction => (changes.type || transaction.type) !== kind)) {
+            throw new Error('The category does not match the transaction type');
+          }
+        }
+
+        const ids = targets.map(transaction => transaction.id);
+        if (ids.length === 0) {
+          return 0;
+        }
+
+        const patch: QueryDeepPartialEntity<Transaction> = {};
+        if (changes.category !== undefined) {
+          patch.category = changes.category;
+          patch.confidence = 1.0;
+          patch.categorySource = 'user';
+          await manager.delete(TransactionSplit, { transactionId: In(ids) });
+        }
+        if (changes.merchant) {
+          // El comercio indicado se normaliza contra el directorio, igual que al crear una transacción
+          const resolver = await this.merchantService.createResolver(userId, { manager });
+          const merchant = await resolver.resolve(changes.merchant, changes.merchant);
+          patch.merchant = merchant?.name || changes.merchant;
+          patch.merchantId = merchant?.id || (() => 'NULL');
+        } else if (changes.merchant !== undefined) {
+          // Un comercio vacío lo borra
+          patch.merchant = () => 'NULL';
+          patch.merchantId = () => 'NULL';
+        }
+        if (changes.type !== undefined) {
+          patch.type = changes.type;
+        }
+        if (changes.date !== undefined) {
+          patch.date = changes.date;
+        }
+
+        await manager.update(Transaction, { id: In(ids), userId }, patch);
+
+        if (changes.type !== undefined && changes.category === undefined) {
+          const retypedIds = targets.filter(transaction => transaction.type !== changes.type).map(transaction => transaction.id);
+          if (retypedIds.length > 0) {
+            await manager.delete(TransactionSplit, { transactionId: In(retypedIds) });
+            await manager.update(Transaction, { id: In(retypedIds), userId }, fallbackCategorization(changes.type));
+          }
+        }
+
+        const category = changes.category;
+        if (category !== undefined) {
+          const merchant = typeof patch.merchant === 'string' ? patch.merchant : changes.merchant;
+          corrections.push(...targets
+            .filter(transaction => (changes.type || transaction.type) === 'expense' && transaction.category !== category)
+            .map(transaction => ({
+              description: transaction.description,
+              merchant: merchant === undefined ? transaction.merchant : merchant,
+              category
+            })));
+        }
+        return ids.length;
+      });
+
+      logger.info(`Bulk updated ${updated} transactions for user ${userId}`);
+      try {
+        await this.classifierService.learn(userId, corrections);
+        // La IA ya se equivocó con estas descripciones: no repetir su respuesta
+        await this.cacheService.invalidate(userId, corrections);
+      } catch {
+        // Los cambios ya se guardaron; el modelo aprende en la próxima corrección
+      }
+      return updated;
+    } catch (error) {
+      logger.error('Error bulk updating transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enviar a la papelera todas las transacciones seleccionadas
+   * Una transferencia seleccionada se borra con sus dos patas
+   * @returns Ids de las transacciones eliminadas, para poder deshacer la operación
+   */
+  async bulkDelete(userId: string, selection: BulkSelection): Promise<string[]> {
+    try {
+      const ids = await AppDataSource.transaction(async manager => {
+        const targets = await this.findTargets(manager, userId, selection);
+
+        const transferIds = [...new Set(targets.map(t => t.transferId).filter((id): id is string => !!id))];
+        const otherLegs = transferIds.length > 0
+          ? await manager.find(Transaction, { where: { userId, transferId: In(transferIds) }, select: { id: true, status: true } })
+          : [];
+        // La otra pata también cuenta: una transferencia no se borra si cualquiera de las dos está conciliada
+        if (otherLegs.some(transaction => transaction.status === 'reconciled')) {
+          throw new Error('Reconciled transactions cannot be edited');
+        }
+        const allIds = [...new Set([...targets, ...otherLegs].map(t => t.id))];
+        if (allIds.length === 0) {
+          return [];
+        }
+
+        await manager.softDelete(Transaction, { id: In(allIds), userId });
+        return allIds;
+      });
+
+      logger.info(`Bulk deleted ${ids.length} transactions for user ${userId}`);
+      return ids;
+    } catch (error) {
+      logger.error('Error bulk deleting transactions:', error);
+      throw error;
+    }
+  }
+
+  private async findTargets(manager: EntityManager, userId: string, selection: BulkSelection): Promise<Transaction[]> {
+    const queryBuilder = selection.ids
+      ? manager.createQueryBuilder(Transaction, 't')
+        .where('t.userId = :userId', { userId })
+        .andWhere('t.id IN (:...ids)', { ids: selection.ids })
+      : this.searchService.createQuery(userId, selection.filter || {}, manager);
+
+    const targets = await queryBuilder
+      .select(['t.id', 't.type', 't.transferId', 't.status', 't.description', 't.merchant', 't.category'])
+      .setLock('pessimistic_write')
+      .limit(MAX_BULK_TRANSACTIONS + 1)
+      .getMany();
+
+    if (targets.length > MAX_BULK_TRANSACTIONS) {
+      throw new Error(`Bulk operations are limited to ${MAX_BULK_TRANSACTIONS} transactions`);
+    }
+
+    // Con ids explícitos, uno inexistente o ajeno invalida toda la operación
+    if (selection.ids && targets.length !== new Set(selection.ids).size) {
+      throw new Error('Transaction not found');
+    }
+
+    // Las conciliadas están bloqueadas, igual que al editarlas una a una
+    if (targets.some(transaction => transaction.status === 'reconciled')) {
+      throw new Error('Reconciled transactions cannot be edited');
+    }
+
+    return targets;
+  }
+}
+
+export default BulkTransactionService;
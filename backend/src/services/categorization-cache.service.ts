@@ -0,0 +1,87 @@
+import { In, LessThan, MoreThan } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { CategorizationCacheEntry } from '../models/CategorizationCacheEntry';
+import { AICategorization, categorizationCacheKey, DEFAULT_CATEGORIZATION_CACHE_TTL_DAYS } from '../utils/llm';
+import logger from '../utils/logger';
+
+/**
+ * Caché de las respuestas de la IA por usuario, por descripción y comercio normalizados
+ * Solo guarda lo que respondió la IA: reglas, comercios, clasificador y palabras clave son locales y baratos
+ */
+export class CategorizationCacheService {
+  private cacheRepository = AppDataSource.getRepository(CategorizationCacheEntry);
+
+  /**
+   * Entradas vigentes para las claves indicadas
+   */
+  async getMany(userId: string, keys: string[]): Promise<Map<string, AICategorization>> {
+    if (keys.length === 0) {
+      return new Map();
+    }
+    const entries = await this.cacheRepository.find({
+      where: { userId, key: In([...new Set(keys)]), expiresAt: MoreThan(new Date()) }
+    });
+    return new Map(entries.map(entry => [entry.key, {
+      category: entry.category,
+      confidence: entry.confidence,
+      explanation: entry.explanation || undefined
+    }]));
+  }
+
+  async setMany(userId: string, entries: Array<{ key: string; result: AICategorization }>): Promise<void> {
+    // Una misma clave dos veces en el INSERT ... ON CONFLICT haría fallar la consulta
+    const unique = new Map(entries.map(entry => [entry.key, entry.result]));
+    if (unique.size === 0) {
+      return;
+    }
+
+    const expiresAt = new Date(Date.now() + this.getTtlDays() * 24 * 60 * 60 * 1000);
+    await this.cacheRepository.createQueryBuilder()
+      .insert()
+      .into(CategorizationCacheEntry)
+      .values([...unique].map(([key, result]) => ({
+        userId,
+        key,
+        category: result.category,
+        confidence: result.confidence,
+        explanation: result.explanation?.slice(0, 255) || null,
+        expiresAt
+      })))
+      .orUpdate(['category', 'confidence', 'explanation', 'expiresAt'], ['userId', 'key'])
+      .execute();
+  }
+
+  /**
+   * Olvidar lo que respondió la IA para descripciones que el usuario corrigió
+   */
+  async invalidate(userId: string, items: Array<{ description: string; merchant?: string | null }>): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+    try {
+      const keys = items.map(item => categorizationCacheKey(item.description, item.merchant));
+      await this.cacheRepository.delete({ userId, key: In([...new Set(keys)]) });
+    } catch (error) {
+      logger.error('Error invalidating categorization cache:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Borrar las entradas vencidas de todos los usuarios (tarea programada)
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await this.cacheRepository.delete({ expiresAt: LessThan(new Date()) });
+    const purged = result.affected || 0;
+    if (purged > 0) {
+      logger.info(`Purged ${purged} expired categorization cache entries`);
+    }
+    return purged;
+  }
+
+  private getTtlDays(): number {
+    return Number(process.env.CATEGORIZATION_CACHE_TTL_DAYS) || DEFAULT_CATEGORIZATION_CACHE_TTL_DAYS;
+  }
+}
+
+export default CategorizationCacheService;
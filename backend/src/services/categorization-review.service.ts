@@ -0,0 +1,131 @@
+import { AppDataSource } from '../config/database';
+import { Transaction } from '../models/Transaction';
+import { CategoryService } from './category.service';
+import { ClassifierService } from './classifier.service';
+import { CategorizationCacheService } from './categorization-cache.service';
+import logger from '../utils/logger';
+
+// Por debajo de esta confianza la categoría se pide revisar; coincide con la del clasificador
+export const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const MAX_REVIEW_ITEMS = 100;
+
+/**
+ * Umbral configurado con REVIEW_CONFIDENCE_THRESHOLD (entre 0 y 1) o el predeterminado
+ */
+export function reviewConfidenceThreshold(): number {
+  const configured = Number(process.env.REVIEW_CONFIDENCE_THRESHOLD);
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_REVIEW_CONFIDENCE_THRESHOLD;
+}
+
+export interface ReviewQueueOptions {
+  threshold?: number;
+  limit?: number;
+}
+
+export interface ReviewQueue {
+  threshold: number;
+  total: number;
+  transactions: ReturnType<Transaction['toJSON']>[];
+}
+
+export type ReviewAction = { action: 'accept' } | { action: 'change'; category: string };
+
+/**
+ * Bandeja de revisión de las categorizaciones automáticas con poca confianza
+ * Aceptar o cambiar la categoría la deja con confianza 1 (elegida por el usuario), así sale de la bandeja
+ * y el clasificador aprende de ella
+ */
+export class CategorizationReviewService {
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+  private categoryService = new CategoryService();
+  private classifierService = new ClassifierService();
+  private cacheService = new CategorizationCacheService();
+
+  /**
+   * Gastos del usuario con confianza menor al umbral, los más dudosos primero
+   * Las transacciones divididas (cada línea tiene su categoría) y las conciliadas no se revisan
+   */
+  async getQueue(userId: string, options: ReviewQueueOptions = {}): Promise<ReviewQueue> {
+    const threshold = options.threshold ?? reviewConfidenceThreshold();
+    const limit = Math.min(options.limit ?? MAX_REVIEW_ITEMS, MAX_REVIEW_ITEMS);
+
+    try {
+      const [transactions, total] = await this.transactionRepository
+        .createQueryBuilder('t')
+        .leftJoin('t.splits', 's')
+        .where('t.userId = :userId', { userId })
+        .andWhere("t.type = 'expense'")
+        .andWhere("t.status != 'reconciled'")
+        .andWhere('t.confidence < :threshold', { threshold })
+        .andWhere('s.id IS NULL')
+        .orderBy('t.confidence', 'ASC')
+        .addOrderBy('t.date', 'DESC')
+        .addOrderBy('t.createdAt', 'DESC')
+        .take(limit)
+        .getManyAndCount();
+
+      return {
+        threshold,
+        total,
+        transactions: transactions.map(transaction => transaction.toJSON())
+      };
+    } catch (error) {
+      logger.error('Error getting categorization review queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirmar la categoría propuesta o reemplazarla por otra del usuario
+   */
+  async review(userId: string, id: string, review: ReviewAction): Promise<ReturnType<Transaction['toJSON']>> {
+    try {
+      const transaction = await this.transactionRepository.findOne({
+        where: { id, userId },
+        relations: { splits: true, tags: true }
+      });
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+      if (transaction.type !== 'expense' || transaction.status === 'reconciled' || (transaction.splits && transaction.splits.length > 0)) {
+        throw new Error('Transaction is not pending review');
+      }
+
+      const corrected = review.action === 'change' && review.category !== transaction.category;
+      if (corrected && !(await this.categoryService.categoryExists(userId, review.category))) {
+        throw new Error('Category not found');
+      }
+
+      if (review.action === 'change') {
+        transaction.category = review.category;
+      }
+      transaction.confidence = 1.0;
+      transaction.categorySource = 'user';
+      const saved = await this.transactionRepository.save(transaction);
+
+      try {
+        const example = {
+          description: saved.description,
+          merchant: saved.merchant,
+          category: saved.category as string
+        };
+        await this.classifierService.learn(userId, [example]);
+        // La respuesta de la IA que el usuario corrigió no debe volver a servirse desde la caché
+        if (corrected) {
+          await this.cacheService.invalidate(userId, [example]);
+        }
+      } catch (error) {
+        logger.error('Classifier update failed:', error);
+      }
+
+      logger.info(`Reviewed categorization of transaction ${id} for user ${userId} (${review.action})`);
+      return saved.toJSON();
+    } catch (error) {
+      logger.error('Error reviewing categorization:', error);
+      throw error;
+    }
+  }
+}
+
+export default CategorizationReviewService;
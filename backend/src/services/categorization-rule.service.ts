@@ -0,0 +1,260 @@
+import { In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { CategorizationRule } from '../models/CategorizationRule';
+import { Transaction } from '../models/Transaction';
+import { AccountService } from './account.service';
+import { CategoryService } from './category.service';
+import { MerchantResolver, MerchantService } from './merchant.service';
+import { TagService } from './tag.service';
+import { MAX_RULES_PER_USER, RuleActions, RuleCondition, ruleMatches, ruleTransferAccount } from '../utils/rules';
+import { TRANSFER_CATEGORY } from '../utils/transfers';
+import { MAX_TAGS_PER_TRANSACTION, normalizeTagNames } from '../utils/tags';
+import logger from '../utils/logger';
+
+export interface CategorizationRuleData {
+  name: string;
+  conditions: RuleCondition[];
+  actions: RuleActions;
+  priority?: number;
+  enabled?: boolean;
+}
+
+export interface RulePreviewMatch {
+  transaction: ReturnType<Transaction['toJSON']>;
+  proposed: {
+    category: string | null;
+    merchant: string | null;
+    type: Transaction['type'];
+  };
+}
+
+export interface RulePreview {
+  scanned: number;
+  matchCount: number;
+  matches: RulePreviewMatch[];
+}
+
+// La vista previa recorre las transacciones más recientes y devuelve solo las primeras coincidencias
+export const RULE_PREVIEW_SCAN_LIMIT = 2000;
+export const RULE_PREVIEW_MATCH_LIMIT = 50;
+
+/**
+ * Servicio de reglas de categorización
+ * Las reglas son deterministas: se evalúan por prioridad en NLPCategorizationService antes de
+ * cualquier heurística y sus acciones se aplican al crear o importar transacciones
+ */
+export class CategorizationRuleService {
+  private ruleRepository = AppDataSource.getRepository(CategorizationRule);
+  private accountService = new AccountService();
+  private categoryService = new CategoryService();
+  private merchantService = new MerchantService();
+  private tagService = new TagService();
+
+  /**
+   * Listar las reglas del usuario en orden de prioridad
+   */
+  async getRules(userId: string): Promise<CategorizationRule[]> {
+    try {
+      return await this.ruleRepository.find({ where: { userId }, order: { priority: 'ASC', createdAt: 'ASC' } });
+    } catch (error) {
+      logger.error('Error getting categorization rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reglas activas en orden de prioridad, las que recibe el categorizador
+   */
+  async getActiveRules(userId: string): Promise<CategorizationRule[]> {
+    return this.ruleRepository.find({ where: { userId, enabled: true }, order: { priority: 'ASC', createdAt: 'ASC' } });
+  }
+
+  /**
+   * Crear una regla; sin prioridad indicada se agrega al final
+   */
+  async createRule(userId: string, data: CategorizationRuleData): Promise<CategorizationRule> {
+    try {
+      const existing = await this.getRules(userId);
+      if (existing.length >= MAX_RULES_PER_USER) {
+        throw new Error(`A user can have at most ${MAX_RULES_PER_USER} rules`);
+      }
+
+      const rule = new CategorizationRule();
+      rule.userId = userId;
+      rule.name = data.name.trim();
+      rule.conditions = data.conditions;
+      rule.actions = data.actions;
+      rule.enabled = data.enabled ?? true;
+      rule.priority = data.priority ?? (existing.length > 0 ? existing[existing.length - 1].priority + 1 : 0);
+      await this.validate(userId, rule);
+
+      const saved = await this.ruleRepository.save(rule);
+      logger.info(`Categorization rule ${saved.id} created for user ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error creating categorization rule:', error);
+      throw error;
+    }
+  }
+
+  async updateRule(userId: string, id: string, data: Partial<CategorizationRuleData>): Promise<CategorizationRule> {
+    try {
+      const rule = await this.findRule(userId, id);
+
+      if (data.name !== undefined) {
+        rule.name = data.name.trim();
+      }
+      if (data.conditions !== undefined) {
+        rule.conditions = data.conditions;
+      }
+      if (data.actions !== undefined) {
+        rule.actions = data.actions;
+      }
+      if (data.priority !== undefined) {
+        rule.priority = data.priority;
+      }
+      if (data.enabled !== undefined) {
+        rule.enabled = data.enabled;
+      }
+      await this.validate(userId, rule);
+
+      const saved = await this.ruleRepository.save(rule);
+      logger.info(`Categorization rule ${id} updated for user ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error updating categorization rule:', error);
+      throw error;
+    }
+  }
+
+  async deleteRule(userId: string, id: string): Promise<void> {
+    try {
+      const result = await this.ruleRepository.delete({ id, userId });
+      if (result.affected === 0) {
+        throw new Error('Rule not found');
+      }
+      logger.info(`Categorization rule ${id} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting categorization rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reordenar las reglas: la prioridad pasa a ser la posición en la lista
+   */
+  async reorderRules(userId: string, ids: string[]): Promise<CategorizationRule[]> {
+    try {
+      await AppDataSource.transaction(async manager => {
+        const rules = await manager.find(CategorizationRule, { where: { id: In(ids), userId } });
+        if (rules.length !== new Set(ids).size) {
+          throw new Error('Rule not found');
+        }
+        for (const [index, id] of ids.entries()) {
+          await manager.update(CategorizationRule, { id, userId }, { priority: index });
+        }
+      });
+
+      logger.info(`Reordered ${ids.length} categorization rules for user ${userId}`);
+      return this.getRules(userId);
+    } catch (error) {
+      logger.error('Error reordering categorization rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Probar una regla (guardada o no) contra las transacciones recientes del usuario sin modificarlas
+   */
+  async testRule(userId: string, data: Pick<CategorizationRuleData, 'conditions' | 'actions'>): Promise<RulePreview> {
+    try {
+      const rule = new CategorizationRule();
+      rule.name = 'preview';
+      rule.conditions = data.conditions;
+      rule.actions = data.actions;
+      await this.validate(userId, rule);
+
+      const transactions = await AppDataSource.getRepository(Transaction).find({
+        where: { userId, type: In(['income', 'expense']) },
+        order: { date: 'DESC', createdAt: 'DESC' },
+        take: RULE_PREVIEW_SCAN_LIMIT
+      });
+
+      const matched = transactions.filter(transaction => ruleMatches(rule, {
+        description: transaction.description,
+        amount: Number(transaction.amount),
+        type: transaction.type,
+        merchant: transaction.merchant
+      }));
+
+      return {
+        scanned: transactions.length,
+        matchCount: matched.length,
+        matches: matched.slice(0, RULE_PREVIEW_MATCH_LIMIT).map(transaction => ({
+          transaction: transaction.toJSON(),
+          proposed: {
+            category: ruleTransferAccount(rule.actions) ? TRANSFER_CATEGORY : rule.actions.category || transaction.category || null,
+            merchant: rule.actions.merchant || transaction.merchant || null,
+            type: ruleTransferAccount(rule.actions) ? 'transfer' : transaction.type
+          }
+        }))
+      };
+    } catch (error) {
+      logger.error('Error testing categorization rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Aplicar a una transacción nueva las acciones de la regla que coincidió
+   * La categoría ya la asigna el categorizador; acá se resuelven el comercio y las etiquetas
+   * "Marcar como transferencia" se aplica al guardar, con TransferService.saveAsTransfer (ver ruleTransferAccount)
+   */
+  async applyActions(
+    userId: string,
+    transaction: Transaction,
+    actions: RuleActions,
+    { merchants }: { merchants?: MerchantResolver } = {}
+  ): Promise<void> {
+    if (actions.category) {
+      transaction.category = actions.category;
+      transaction.confidence = 1.0;
+      transaction.categorySource = 'rule';
+    }
+
+    if (actions.merchant) {
+      const resolver = merchants || await this.merchantService.createResolver(userId);
+      const merchant = await resolver.resolve(actions.merchant, actions.merchant);
+      transaction.merchantId = merchant?.id || null;
+      transaction.merchant = merchant?.name || actions.merchant;
+    }
+
+    if (actions.tags && actions.tags.length > 0) {
+      const names = normalizeTagNames([...(transaction.tags || []).map(tag => tag.name), ...actions.tags]);
+      transaction.tags = await this.tagService.resolveTags(userId, names.slice(0, MAX_TAGS_PER_TRANSACTION));
+    }
+  }
+
+  private async findRule(userId: string, id: string): Promise<CategorizationRule> {
+    const rule = await this.ruleRepository.findOne({ where: { id, userId } });
+    if (!rule) {
+      throw new Error('Rule not found');
+    }
+    return rule;
+  }
+
+  private async validate(userId: string, rule: CategorizationRule): Promise<void> {
+    const errors = rule.validate();
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+    if (rule.actions.category && !(await this.categoryService.categoryExists(userId, rule.actions.category))) {
+      throw new Error('Category not found');
+    }
+    if (rule.actions.transferAccountId) {
+      await this.accountService.resolveAccount(userId, rule.actions.transferAccountId);
+    }
+  }
+}
+
+export default CategorizationRuleService;
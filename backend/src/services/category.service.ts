@@ -0,0 +1,352 @@
+import { EntityManager, IsNull } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Category } from '../models/Category';
+import { Transaction } from '../models/Transaction';
+import { TransactionSplit } from '../models/TransactionSplit';
+import { Budget } from '../models/Budget';
+import { Merchant } from '../models/Merchant';
+import { RecurringTransaction } from '../models/RecurringTransaction';
+import { InstallmentPlan } from '../models/InstallmentPlan';
+import { CategorizationRule } from '../models/CategorizationRule';
+import { CategoryClassifier } from '../models/CategoryClassifier';
+import {
+  buildCategoryRollup,
+  CategoryKind,
+  DEFAULT_CATEGORIES,
+  FALLBACK_EXPENSE_CATEGORY,
+  FALLBACK_INCOME_CATEGORY,
+  MAX_CATEGORIES_PER_USER,
+  SYSTEM_CATEGORIES
+} from '../utils/categories';
+import { renameClassifierLabel } from '../utils/classifier';
+import logger from '../utils/logger';
+
+export interface CategoryData {
+  name: string;
+  parentId?: string | null;
+  icon?: string | null;
+  color?: string | null;
+  kind?: CategoryKind;
+}
+
+export type CategorySummary = ReturnType<Category['toJSON']> & { transactionCount: number };
+
+/**
+ * Servicio de categorías del usuario
+ * Las transacciones, divisiones, presupuestos, comercios, recurrentes, cuotas y reglas guardan el nombre,
+ * así que renombrar o eliminar una categoría actualiza esas tablas en la misma transacción
+ */
+export class CategoryService {
+  private categoryRepository = AppDataSource.getRepository(Category);
+
+  /**
+   * Listar las categorías del usuario con la cantidad de transacciones de cada una
+   */
+  async getCategories(userId: string): Promise<CategorySummary[]> {
+    try {
+      const categories = await this.ensureCategories(userId);
+
+      const counts = await AppDataSource.getRepository(Transaction)
+        .createQueryBuilder('t')
+        .select('t.category', 'category')
+        .addSelect('COUNT(*)', 'count')
+        .where('t.userId = :userId', { userId })
+        .groupBy('t.category')
+        .getRawMany<{ category: string; count: string }>();
+      const countByName = new Map(counts.map(row => [row.category, Number(row.count)]));
+
+      return categories.map(category => ({
+        ...category.toJSON(),
+        transactionCount: countByName.get(category.name) || 0
+      }));
+    } catch (error) {
+      logger.error('Error getting categories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Nombres de las categorías del usuario, opcionalmente de un solo tipo
+   * Es la lista que recibe el categorizador automático
+   */
+  async getCategoryNames(userId: string, kind?: CategoryKind): Promise<string[]> {
+    const categories = await this.ensureCategories(userId);
+    return categories.filter(category => !kind || category.kind === kind).map(category => category.name);
+  }
+
+  /**
+   * Mapa de cada categoría del usuario a su categoría raíz, para agrupar subcategorías en los análisis
+   */
+  async getRollupMap(userId: string): Promise<Map<string, string>> {
+    return buildCategoryRollup(await this.ensureCategories(userId));
+  }
+
+  /**
+   * Indica si el usuario tiene una categoría con ese nombre
+   */
+  async categoryExists(userId: string, name: string): Promise<boolean> {
+    const categories = await this.ensureCategories(userId);
+    return categories.some(category => category.name === name);
+  }
+
+  /**
+   * Tipo (ingreso o gasto) de la categoría del usuario con ese nombre, o null si no existe
+   */
+  async getCategoryKind(userId: string, name: string): Promise<CategoryKind | null> {
+    const categories = await this.ensureCategories(userId);
+    return categories.find(category => category.name === name)?.kind || null;
+  }
+
+  /**
+   * Crear una categoría o subcategoría
+   */
+  async createCategory(userId: string, data: CategoryData): Promise<Category> {
+    try {
+      const categories = await this.ensureCategories(userId);
+      if (categories.length >= MAX_CATEGORIES_PER_USER) {
+        throw new Error(`A user can have at most ${MAX_CATEGORIES_PER_USER} categories`);
+      }
+      this.checkNameAvailable(categories, data.name);
+
+      const category = new Category();
+      category.userId = userId;
+      category.name = data.name.trim();
+      category.icon = data.icon || null;
+      category.color = data.color || null;
+      category.kind = data.kind || 'expense';
+      category.parentId = data.parentId || null;
+      this.checkParent(categories, category);
+      this.validate(category);
+
+      const saved = await this.categoryRepository.save(category);
+      logger.info(`Category ${saved.id} created for user ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error creating category:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar una categoría; si cambia el nombre se actualiza en todo lo que la usa
+   */
+  async updateCategory(userId: string, id: string, data: Partial<CategoryData>): Promise<Category> {
+    try {
+      const categories = await this.ensureCategories(userId);
+      const category = categories.find(item => item.id === id);
+      if (!category) {
+        throw new Error('Category not found');
+      }
+
+      const previousName = category.name;
+      if (data.name !== undefined && data.name.trim() !== category.name) {
+        if (SYSTEM_CATEGORIES.includes(category.name)) {
+          throw new Error('System categories cannot be renamed');
+        }
+        this.checkNameAvailable(categories, data.name, id);
+        category.name = data.name.trim();
+      }
+      if (data.icon !== undefined) {
+        category.icon = data.icon || null;
+      }
+      if (data.color !== undefined) {
+        category.color = data.color || null;
+      }
+      if (data.kind !== undefined && data.kind !== category.kind) {
+        if (SYSTEM_CATEGORIES.includes(category.name)) {
+          throw new Error('System categories cannot change kind');
+        }
+        if (categories.some(item => item.parentId === id)) {
+          throw new Error('A category with subcategories cannot change kind');
+        }
+        category.kind = data.kind;
+      }
+      if (data.parentId !== undefined) {
+        category.parentId = data.parentId || null;
+      }
+      this.checkParent(categories, category);
+      this.validate(category);
+
+      const saved = await AppDataSource.transaction(async manager => {
+        const updated = await manager.save(category);
+        if (updated.name !== previousName) {
+          await this.replaceCategoryName(manager, userId, previousName, updated.name);
+          // Los presupuestos en la papelera también se renombran para poder restaurarlos
+          await manager.update(Budget, { userId, category: previousName }, { category: updated.name });
+        }
+        return updated;
+      });
+
+      logger.info(`Category ${id} updated for user ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error updating category:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una categoría
+   * Sus transacciones pasan a la categoría padre o, si no tiene, a la categoría por defecto de su tipo;
+   * los presupuestos de la categoría se mueven a la papelera y los comercios pierden la categoría por defecto
+   */
+  async deleteCategory(userId: string, id: string): Promise<void> {
+    try {
+      const categories = await this.ensureCategories(userId);
+      const category = categories.find(item => item.id === id);
+      if (!category) {
+        throw new Error('Category not found');
+      }
+      if (SYSTEM_CATEGORIES.includes(category.name)) {
+        throw new Error('System categories cannot be deleted');
+      }
+      if (categories.some(item => item.parentId === id)) {
+        throw new Error('Delete or move the subcategories first');
+      }
+
+      const parent = categories.find(item => item.id === category.parentId);
+      const replacement = parent?.name
+        || (category.kind === 'income' ? FALLBACK_INCOME_CATEGORY : FALLBACK_EXPENSE_CATEGORY);
+
+      await AppDataSource.transaction(async manager => {
+        await manager.softDelete(Budget, { userId, category: category.name, deletedAt: IsNull() });
+        await manager.update(Merchant, { userId, defaultCategory: category.name }, { defaultCategory: null });
+        await this.replaceCategoryName(manager, userId, category.name, replacement);
+        await manager.delete(Category, { id, userId });
+      });
+
+      logger.info(`Category ${id} deleted for user ${userId}, reassigned to ${replacement}`);
+    } catch (error) {
+      logger.error('Error deleting category:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Devuelve las categorías del usuario, creándolas la primera vez
+   * Se crean con la lista por defecto más las categorías que el usuario ya usaba en
+   * transacciones y presupuestos, para que ningún dato existente quede sin categoría
+   */
+  async ensureCategories(userId: string): Promise<Category[]> {
+    const existing = await this.categoryRepository.find({ where: { userId }, order: { name: 'ASC' } });
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    const used = await AppDataSource.query(
+      `SELECT name, bool_and(income) AS income FROM (
+         SELECT t.category AS name, t.type = 'income' AS income
+           FROM transactions t
+          WHERE t."userId" = $1 AND t.type <> 'transfer'
+         UNION ALL
+         SELECT s.category AS name, false AS income
+           FROM transaction_splits s
+           JOIN transactions t ON t.id = s."transactionId"
+          WHERE t."userId" = $1
+         UNION ALL
+         SELECT b.category AS name, false AS income
+           FROM budgets b
+          WHERE b."userId"::text = $1
+       ) used
+       WHERE name IS NOT NULL AND name <> ''
+       GROUP BY name`,
+      [userId]
+    ) as { name: string; income: boolean }[];
+
+    const seeds = new Map(DEFAULT_CATEGORIES.map(seed => [seed.name, { ...seed }]));
+    for (const row of used) {
+      if (!seeds.has(row.name)) {
+        seeds.set(row.name, { name: row.name, icon: '', color: '', kind: row.income ? 'income' : 'expense' });
+      }
+    }
+
+    // orIgnore evita el error de clave única si otra petición crea las categorías a la vez
+    await this.categoryRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Category)
+      .values([...seeds.values()].map(seed => ({
+        userId,
+        name: seed.name,
+        icon: seed.icon || null,
+        color: seed.color || null,
+        kind: seed.kind
+      })))
+      .orIgnore()
+      .execute();
+
+    logger.info(`Seeded ${seeds.size} categories for user ${userId}`);
+    return this.categoryRepository.find({ where: { userId }, order: { name: 'ASC' } });
+  }
+
+  /**
+   * Reemplazar un nombre de categoría en las transacciones, divisiones, comercios, recurrentes, cuotas
+   * y en la acción de las reglas de categorización; el clasificador conserva lo aprendido con el nombre nuevo
+   */
+  private async replaceCategoryName(manager: EntityManager, userId: string, from: string, to: string): Promise<void> {
+    await manager.update(Transaction, { userId, category: from }, { category: to });
+    await manager
+      .createQueryBuilder()
+      .update(TransactionSplit)
+      .set({ category: to })
+      .where('category = :from', { from })
+      .andWhere('"transactionId" IN (SELECT id FROM transactions WHERE "userId" = :userId)', { userId })
+      .execute();
+    await manager.update(Merchant, { userId, defaultCategory: from }, { defaultCategory: to });
+    await manager.update(RecurringTransaction, { userId, category: from }, { category: to });
+    await manager.update(InstallmentPlan, { userId, category: from }, { category: to });
+    await manager
+      .createQueryBuilder()
+      .update(CategorizationRule)
+      .set({ actions: () => `jsonb_set(actions, '{category}', to_jsonb(CAST(:to AS text)))` })
+      .where('"userId" = :userId', { userId })
+      .andWhere(`actions->>'category' = :from`, { from })
+      .setParameter('to', to)
+      .execute();
+
+    const classifier = await manager.findOne(CategoryClassifier, { where: { userId }, lock: { mode: 'pessimistic_write' } });
+    if (classifier && classifier.state.labels[from]) {
+      renameClassifierLabel(classifier.state, from, to);
+      await manager.save(classifier);
+    }
+  }
+
+  private checkNameAvailable(categories: Category[], name: string, exceptId?: string): void {
+    const existing = categories.find(category => category.name === name.trim());
+    if (existing && existing.id !== exceptId) {
+      throw new Error('A category with this name already exists');
+    }
+  }
+
+  /**
+   * Solo hay un nivel de subcategorías y el padre tiene que ser del mismo tipo
+   */
+  private checkParent(categories: Category[], category: Category): void {
+    if (!category.parentId) {
+      return;
+    }
+
+    const parent = categories.find(item => item.id === category.parentId);
+    if (!parent) {
+      throw new Error('Parent category not found');
+    }
+    if (parent.id === category.id || parent.parentId) {
+      throw new Error('Subcategories cannot have subcategories');
+    }
+    if (category.id && categories.some(item => item.parentId === category.id)) {
+      throw new Error('A category with subcategories cannot be a subcategory');
+    }
+    if (parent.kind !== category.kind) {
+      throw new Error('A subcategory must have the same kind as its parent');
+    }
+  }
+
+  private validate(category: Category): void {
+    const errors = category.validate();
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+  }
+}
+
+export default CategoryService;
@@ -0,0 +1,139 @@
+import { EntityManager } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { CategoryClassifier } from '../models/CategoryClassifier';
+import { Transaction } from '../models/Transaction';
+import {
+  ClassifierState,
+  createClassifierState,
+  predictWithClassifier,
+  tokenizeForClassifier,
+  trainClassifier
+} from '../utils/classifier';
+import logger from '../utils/logger';
+
+export interface ClassifierExample {
+  description: string;
+  merchant?: string | null;
+  category: string;
+}
+
+// Al crear el modelo se entrena con las transacciones más recientes categorizadas por el usuario
+export const CLASSIFIER_HISTORY_LIMIT = 5000;
+
+/**
+ * Servicio del clasificador local de cada usuario
+ * El modelo se guarda como conteos de palabras por categoría y se actualiza con cada corrección,
+ * sin volver a leer el historial; la precisión se mide prediciendo cada ejemplo antes de aprenderlo
+ */
+export class ClassifierService {
+  /**
+   * Modelo del usuario para el categorizador; la primera vez se entrena con su historial
+   */
+  async getModel(userId: string): Promise<ClassifierState> {
+    const classifier = await this.findOrCreate(AppDataSource.manager, userId);
+    return classifier.state;
+  }
+
+  /**
+   * Ejemplos aprendidos y precisión de las predicciones que el modelo habría hecho
+   */
+  async getStats(userId: string): Promise<ReturnType<CategoryClassifier['toJSON']>> {
+    try {
+      const classifier = await this.findOrCreate(AppDataSource.manager, userId);
+      return classifier.toJSON();
+    } catch (error) {
+      logger.error('Error getting classifier stats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Aprender de categorías elegidas o corregidas por el usuario
+   */
+  async learn(userId: string, examples: ClassifierExample[]): Promise<void> {
+    if (examples.length === 0) {
+      return;
+    }
+    try {
+      await AppDataSource.transaction(async manager => {
+        const classifier = await this.findOrCreate(manager, userId, true);
+        for (const example of examples) {
+          this.learnExample(classifier, example);
+        }
+        await manager.save(classifier);
+      });
+      logger.info(`Classifier learned ${examples.length} examples for user ${userId}`);
+    } catch (error) {
+      logger.error('Error training classifier:', error);
+      throw error;
+    }
+  }
+
+  private async findOrCreate(manager: EntityManager, userId: string, lock = false): Promise<CategoryClassifier> {
+    const options = { where: { userId }, ...(lock ? { lock: { mode: 'pessimistic_write' as const } } : {}) };
+    const existing = await manager.findOne(CategoryClassifier, options);
+    if (existing) {
+      return existing;
+    }
+
+    const classifier = await this.trainFromHistory(manager, userId);
+    // Dos peticiones simultáneas pueden crear el modelo a la vez: se queda el primero
+    await manager.createQueryBuilder()
+      .insert()
+      .into(CategoryClassifier)
+      .values({ userId, state: classifier.state, evaluated: classifier.evaluated, correct: classifier.correct })
+      .orIgnore()
+      .execute();
+    return manager.findOneOrFail(CategoryClassifier, options);
+  }
+
+  /**
+   * Modelo inicial a partir de los gastos con confianza 1 (categoría elegida por el usuario o por una regla)
+   * Las transacciones divididas no se usan porque su categoría no representa a todas sus líneas
+   */
+  private async trainFromHistory(manager: EntityManager, userId: string): Promise<CategoryClassifier> {
+    const transactions = await manager.createQueryBuilder(Transaction, 't')
+      .leftJoin('t.splits', 's')
+      .select(['t.id', 't.description', 't.merchant', 't.category'])
+      .where('t.userId = :userId', { userId })
+      .andWhere("t.type = 'expense'")
+      .andWhere('t.confidence >= 1')
+      .andWhere('t.category IS NOT NULL')
+      .andWhere('s.id IS NULL')
+      .orderBy('t.date', 'DESC')
+      .addOrderBy('t.createdAt', 'DESC')
+      .take(CLASSIFIER_HISTORY_LIMIT)
+      .getMany();
+
+    const classifier = new CategoryClassifier();
+    classifier.userId = userId;
+    classifier.state = createClassifierState();
+    classifier.evaluated = 0;
+    classifier.correct = 0;
+    // De la más antigua a la más reciente, como si el usuario las hubiera ido corrigiendo
+    for (const transaction of transactions.reverse()) {
+      this.learnExample(classifier, {
+        description: transaction.description,
+        merchant: transaction.merchant,
+        category: transaction.category as string
+      });
+    }
+
+    logger.info(`Classifier trained with ${classifier.state.examples} transactions for user ${userId}`);
+    return classifier;
+  }
+
+  private learnExample(classifier: CategoryClassifier, example: ClassifierExample): void {
+    const tokens = tokenizeForClassifier(example.description, example.merchant);
+    const prediction = predictWithClassifier(classifier.state, tokens);
+    if (prediction) {
+      classifier.evaluated++;
+      if (prediction.category === example.category) {
+        classifier.correct++;
+      }
+    }
+    trainClassifier(classifier.state, tokens, example.category);
+  }
+}
+
+export default ClassifierService;
@@ -0,0 +1,180 @@
+import { In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Transaction } from '../models/Transaction';
+import { Attachment } from '../models/Attachment';
+import { DuplicateDismissal } from '../models/DuplicateDismissal';
+import {
+  DEFAULT_DUPLICATE_MIN_SCORE,
+  DEFAULT_DUPLICATE_WINDOW_DAYS,
+  DuplicateScore,
+  scoreDuplicatePair
+} from '../utils/duplicates';
+import logger from '../utils/logger';
+
+// Máximo de pares candidatos que se puntúan por consulta
+const MAX_DUPLICATE_CANDIDATES = 500;
+
+export interface DuplicateSearchOptions {
+  windowDays?: number;
+  minScore?: number;
+}
+
+export interface DuplicatePair extends DuplicateScore {
+  transaction: ReturnType<Transaction['toJSON']>;
+  otherTransaction: ReturnType<Transaction['toJSON']>;
+}
+
+/**
+ * Servicio de detección y fusión de transacciones duplicadas
+ * Los candidatos se buscan en SQL (mismo tipo, monto y moneda, fechas cercanas) y se puntúan en memoria
+ */
+export class DuplicateDetectionService {
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+  private dismissalRepository = AppDataSource.getRepository(DuplicateDismissal);
+
+  /**
+   * Buscar pares de posibles duplicados del usuario, los más probables primero
+   * Las transferencias y los pares descartados por el usuario no se consideran
+   */
+  async findDuplicates(userId: string, options: DuplicateSearchOptions = {}): Promise<DuplicatePair[]> {
+    const windowDays = options.windowDays ?? DEFAULT_DUPLICATE_WINDOW_DAYS;
+    const minScore = options.minScore ?? DEFAULT_DUPLICATE_MIN_SCORE;
+
+    try {
+      const candidates = await this.transactionRepository
+        .createQueryBuilder('a')
+        .innerJoin(
+          Transaction,
+          'b',
+          'b.userId = a.userId AND b.id > a.id AND b.type = a.type AND b.amount = a.amount ' +
+          'AND b.currency = a.currency AND b.date IS NOT NULL AND ABS(b.date - a.date) <= :windowDays ' +
+          'AND b.deletedAt IS NULL',
+          { windowDays }
+        )
+        .select('a.id', 'id')
+        .addSelect('b.id', 'otherId')
+        .where('a.userId = :userId', { userId })
+        .andWhere("a.type != 'transfer'")
+        .andWhere('a.date IS NOT NULL')
+        .andWhere(queryBuilder => {
+          const dismissed = queryBuilder
+            .subQuery()
+            .select('1')
+            .from(DuplicateDismissal, 'd')
+            .where('d.userId = a.userId AND d.transactionId = a.id AND d.otherTransactionId = b.id')
+            .getQuery();
+          return `NOT EXISTS ${dismissed}`;
+        })
+        .orderBy('a.date', 'DESC')
+        .limit(MAX_DUPLICATE_CANDIDATES)
+        .getRawMany<{ id: string; otherId: string }>();
+
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const ids = [...new Set(candidates.flatMap(pair => [pair.id, pair.otherId]))];
+      const transactions = await this.transactionRepository.find({
+        where: { id: In(ids), userId },
+        relations: { tags: true }
+      });
+      const byId = new Map(transactions.map(t => [t.id, t]));
+
+      const pairs: DuplicatePair[] = [];
+      for (const candidate of candidates) {
+        const transaction = byId.get(candidate.id);
+        const otherTransaction = byId.get(candidate.otherId);
+        if (!transaction?.date || !otherTransaction?.date) {
+          continue;
+        }
+
+        const score = scoreDuplicatePair(
+          { description: transaction.description, merchant: transaction.merchant, date: transaction.date },
+          { description: otherTransaction.description, merchant: otherTransaction.merchant, date: otherTransaction.date },
+          windowDays
+        );
+        if (score.score >= minScore) {
+          pairs.push({ ...score, transaction: transaction.toJSON(), otherTransaction: otherTransaction.toJSON() });
+        }
+      }
+
+      return pairs.sort((a, b) => b.score - a.score || a.daysApart - b.daysApart);
+    } catch (error) {
+      logger.error('Error finding duplicate transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fusionar dos duplicados: se conserva una transacción y la otra va a la papelera
+   * La conservada recibe las etiquetas, los adjuntos y el comercio (si no tenía) de la eliminada
+   */
+  async merge(userId: string, keepId: string, removeId: string): Promise<ReturnType<Transaction['toJSON']>> {
+    try {
+      const merged = await AppDataSource.transaction(async manager => {
+        const [kept, removed] = await Promise.all([
+          manager.findOne(Transaction, { where: { id: keepId, userId }, relations: { tags: true } }),
+          manager.findOne(Transaction, { where: { id: removeId, userId }, relations: { tags: true } })
+        ]);
+        if (!kept || !removed) {
+          throw new Error('Transaction not found');
+        }
+        if (kept.transferId || removed.transferId) {
+          throw new Error('Transfers cannot be merged');
+        }
+        // La conciliada ya cuadró contra un extracto: solo puede absorber a la otra
+        if (removed.status === 'reconciled') {
+          throw new Error('Reconciled transactions cannot be deleted');
+        }
+
+        const tagIds = new Set((kept.tags || []).map(tag => tag.id));
+        kept.tags = [...(kept.tags || []), ...(removed.tags || []).filter(tag => !tagIds.has(tag.id))];
+        kept.merchant = kept.merchant || removed.merchant;
+        await manager.save(kept);
+
+        await manager.update(Attachment, { transactionId: removed.id, userId }, { transactionId: kept.id });
+        await manager.softDelete(Transaction, { id: removed.id, userId });
+
+        return manager.findOneOrFail(Transaction, {
+          where: { id: kept.id, userId },
+          relations: { splits: true, attachments: true, tags: true }
+        });
+      });
+
+      logger.info(`Merged duplicate transaction ${removeId} into ${keepId} for user ${userId}`);
+      return merged.toJSON();
+    } catch (error) {
+      logger.error('Error merging duplicate transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marcar un par como "no son duplicados" para que no vuelva a proponerse
+   */
+  async dismiss(userId: string, transactionId: string, otherTransactionId: string): Promise<void> {
+    try {
+      const owned = await this.transactionRepository.count({
+        where: { id: In([transactionId, otherTransactionId]), userId }
+      });
+      if (owned !== 2) {
+        throw new Error('Transaction not found');
+      }
+
+      // El par se guarda con el id menor primero, igual que lo compara findDuplicates
+      const [first, second] = [transactionId, otherTransactionId].sort();
+      await this.dismissalRepository
+        .createQueryBuilder()
+        .insert()
+        .into(DuplicateDismissal)
+        .values({ userId, transactionId: first, otherTransactionId: second })
+        .orIgnore()
+        .execute();
+    } catch (error) {
+      logger.error('Error dismissing duplicate pair:', error);
+      throw error;
+    }
+  }
+}
+
+export default DuplicateDetectionService;
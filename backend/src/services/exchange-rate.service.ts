@@ -0,0 +1,210 @@
+import { AppDataSource } from '../config/database';
+import { ExchangeRate, ExchangeRateSource } from '../models/ExchangeRate';
+import { ImportDateFormat, MAX_IMPORT_ROWS, parseAmount, parseDate } from './import.service';
+import { parseCsv } from '../utils/csv';
+import logger from '../utils/logger';
+
+export interface ExchangeRateDTO {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string;
+}
+
+export interface ExchangeRateFilters {
+  fromCurrency?: string;
+  toCurrency?: string;
+}
+
+export interface RateImportOptions {
+  dateFormat?: ImportDateFormat;
+  decimalSeparator?: '.' | ',';
+}
+
+export interface RateImportResult {
+  totalRows: number;
+  imported: number;
+  errors: Array<{ row: number; errors: string[] }>;
+}
+
+// Nombres de columna aceptados en el CSV de tasas
+const RATE_HEADER_ALIASES: Record<keyof ExchangeRateDTO, string[]> = {
+  date: ['fecha', 'date'],
+  fromCurrency: ['desde', 'origen', 'moneda origen', 'from', 'base'],
+  toCurrency: ['hacia', 'destino', 'moneda destino', 'to', 'quote'],
+  rate: ['tasa', 'cotizacion', 'cotización', 'rate', 'valor'],
+};
+
+/**
+ * Lee un CSV de tasas (fecha, moneda origen, moneda destino, tasa)
+ * Devuelve las tasas válidas y los errores por fila (la fila 1 es el encabezado)
+ */
+export function parseExchangeRateCsv(
+  content: string,
+  options: RateImportOptions = {}
+): { rates: ExchangeRateDTO[]; errors: Array<{ row: number; errors: string[] }> } {
+  const [headers = [], ...rows] = parseCsv(content);
+  const columnIndex = (field: keyof ExchangeRateDTO) =>
+    headers.findIndex(header => RATE_HEADER_ALIASES[field].includes(header.trim().toLowerCase()));
+
+  const columns = {
+    date: columnIndex('date'),
+    fromCurrency: columnIndex('fromCurrency'),
+    toCurrency: columnIndex('toCurrency'),
+    rate: columnIndex('rate'),
+  };
+
+  const missing = Object.entries(columns).filter(([, index]) => index === -1).map(([field]) => field);
+  if (missing.length > 0) {
+    throw new Error(`Faltan columnas en el archivo de tasas: ${missing.join(', ')}`);
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`El archivo supera el máximo de ${MAX_IMPORT_ROWS} filas`);
+  }
+
+  const rates: ExchangeRateDTO[] = [];
+  const errors: Array<{ row: number; errors: string[] }> = [];
+
+  rows.forEach((cells, index) => {
+    const rowErrors: string[] = [];
+    const date = parseDate((cells[columns.date] || '').trim(), options.dateFormat || 'YYYY-MM-DD');
+    const fromCurrency = (cells[columns.fromCurrency] || '').trim().toUpperCase();
+    const toCurrency = (cells[columns.toCurrency] || '').trim().toUpperCase();
+    const rate = parseAmount((cells[columns.rate] || '').trim(), options.decimalSeparator || '.');
+
+    if (!date) {
+      rowErrors.push('Fecha inválida');
+    }
+    if (!/^[A-Z]{3}$/.test(fromCurrency) || !/^[A-Z]{3}$/.test(toCurrency)) {
+      rowErrors.push('Las monedas deben ser códigos ISO de 3 letras');
+    } else if (fromCurrency === toCurrency) {
+      rowErrors.push('Las monedas de origen y destino deben ser distintas');
+    }
+    if (rate === null || rate <= 0) {
+      rowErrors.push('La tasa debe ser un número mayor a 0');
+    }
+
+    if (rowErrors.length > 0 || !date || rate === null) {
+      errors.push({ row: index + 2, errors: rowErrors });
+      return;
+    }
+
+    rates.push({ date, fromCurrency, toCurrency, rate });
+  });
+
+  return { rates, errors };
+}
+
+/**
+ * Servicio de tasas de cambio del usuario
+ * Las tasas se usan para convertir los análisis a la moneda base según la fecha de cada transacción
+ */
+export class ExchangeRateService {
+  private rateRepository = AppDataSource.getRepository(ExchangeRate);
+
+  /**
+   * Listar las tasas del usuario, las más recientes primero
+   */
+  async getRates(userId: string, filters: ExchangeRateFilters = {}): Promise<ExchangeRate[]> {
+    try {
+      const where: { userId: string; fromCurrency?: string; toCurrency?: string } = { userId };
+      if (filters.fromCurrency) {
+        where.fromCurrency = filters.fromCurrency;
+      }
+      if (filters.toCurrency) {
+        where.toCurrency = filters.toCurrency;
+      }
+
+      return await this.rateRepository.find({
+        where,
+        order: { date: 'DESC', fromCurrency: 'ASC', toCurrency: 'ASC' }
+      });
+    } catch (error) {
+      logger.error('Error getting exchange rates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Guardar una tasa manualmente
+   * Si ya existe una tasa para el mismo par y fecha se reemplaza
+   */
+  async saveRate(userId: string, data: ExchangeRateDTO): Promise<ExchangeRate> {
+    try {
+      const rate = this.buildRate(userId, data, 'manual');
+
+      const validationErrors = rate.validate();
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join(', '));
+      }
+
+      await this.rateRepository.upsert(rate, ['userId', 'fromCurrency', 'toCurrency', 'date']);
+      const saved = await this.rateRepository.findOneOrFail({
+        where: { userId, fromCurrency: rate.fromCurrency, toCurrency: rate.toCurrency, date: rate.date }
+      });
+
+      logger.info(`Exchange rate ${saved.fromCurrency}/${saved.toCurrency} for ${saved.date} saved for user ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error saving exchange rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Importar tasas desde un CSV, reemplazando las existentes del mismo par y fecha
+   */
+  async importCsv(userId: string, content: string, options: RateImportOptions = {}): Promise<RateImportResult> {
+    try {
+      const { rates, errors } = parseExchangeRateCsv(content, options);
+      const entities = rates.map(data => this.buildRate(userId, data, 'import'));
+
+      if (entities.length > 0) {
+        await AppDataSource.transaction(async manager => {
+          await manager.upsert(ExchangeRate, entities, ['userId', 'fromCurrency', 'toCurrency', 'date']);
+        });
+      }
+
+      logger.info(`Imported ${entities.length} exchange rates for user ${userId}`);
+      return {
+        totalRows: rates.length + errors.length,
+        imported: entities.length,
+        errors,
+      };
+    } catch (error) {
+      logger.error('Error importing exchange rates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una tasa
+   */
+  async deleteRate(userId: string, rateId: string): Promise<void> {
+    try {
+      const result = await this.rateRepository.delete({ id: rateId, userId });
+      if (!result.affected) {
+        throw new Error('Exchange rate not found');
+      }
+
+      logger.info(`Exchange rate ${rateId} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting exchange rate:', error);
+      throw error;
+    }
+  }
+
+  private buildRate(userId: string, data: ExchangeRateDTO, source: ExchangeRateSource): ExchangeRate {
+    const rate = new ExchangeRate();
+    rate.userId = userId;
+    rate.fromCurrency = data.fromCurrency.toUpperCase();
+    rate.toCurrency = data.toCurrency.toUpperCase();
+    rate.rate = data.rate;
+    rate.date = data.date;
+    rate.source = source;
+    return rate;
+  }
+}
+
+export default ExchangeRateService;
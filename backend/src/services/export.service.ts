@@ -0,0 +1,304 @@
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { AppDataSource } from '../config/database';
+import { Transaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { toCsvRow } from '../utils/csv';
+import { signedAmount } from '../utils/transfers';
+import logger from '../utils/logger';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ofx';
+
+export interface ExportFilters {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ExportRow {
+  id: string;
+  date: string;
+  description: string;
+  merchant: string | null;
+  category: string | null;
+  type: 'income' | 'expense' | 'transfer';
+  transferDirection: 'in' | 'out' | null;
+  amount: number;
+  currency: string;
+  fitId: string | null;
+}
+
+interface RawTransactionRow {
+  t_id: string;
+  t_date: Date | string | null;
+  t_createdAt: Date;
+  t_description: string;
+  t_merchant: string | null;
+  t_category: string | null;
+  t_type: 'income' | 'expense' | 'transfer';
+  t_transferDirection: 'in' | 'out' | null;
+  t_amount: string;
+  t_currency: string;
+  t_fitId: string | null;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ofx: 'application/x-ofx',
+};
+
+const EXPORT_HEADERS = ['Fecha', 'Descripción', 'Comercio', 'Categoría', 'Tipo', 'Monto', 'Moneda'];
+
+const TYPE_LABELS: Record<ExportRow['type'], string> = {
+  income: 'Ingreso',
+  expense: 'Gasto',
+  transfer: 'Transferencia',
+};
+
+/**
+ * Servicio de exportación de transacciones
+ * Escribe los resultados en streaming para no cargar todo el historial en memoria
+ */
+export class ExportService {
+  /**
+   * Exporta las transacciones del usuario en el formato indicado
+   * @param userId - ID del usuario
+   * @param format - Formato de salida (csv, xlsx u ofx)
+   * @param output - Stream de destino (normalmente la respuesta HTTP)
+   * @param filters - Rango de fechas opcional (YYYY-MM-DD)
+   */
+  async exportTransactions(userId: string, format: ExportFormat, output: Writable, filters: ExportFilters = {}): Promise<number> {
+    try {
+      const rows = this.streamRows(userId, filters);
+
+      let count: number;
+      if (format === 'xlsx') {
+        count = await this.writeXlsx(rows, output);
+      } else if (format === 'ofx') {
+        const user = await AppDataSource.getRepository(User).findOne({ where: { id: userId } });
+        count = await this.writeOfx(rows, output, user?.currency || 'USD', filters);
+      } else {
+        count = await this.writeCsv(rows, output);
+      }
+
+      logger.info(`Exported ${count} transactions as ${format} for user ${userId}`);
+      return count;
+    } catch (error) {
+      logger.error('Error exporting transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recorre las transacciones con un cursor de base de datos
+   * El cursor ocupa una conexión del pool; se libera al terminar el recorrido aunque se corte a la mitad
+   * (TypeORM solo la libera sola cuando el cursor llega al final o falla)
+   */
+  private async *streamRows(userId: string, filters: ExportFilters): AsyncGenerator<ExportRow> {
+    const queryRunner = AppDataSource.createQueryRunner();
+    const queryBuilder = AppDataSource.getRepository(Transaction)
+      .createQueryBuilder('t', queryRunner)
+      .where('t.userId = :userId', { userId });
+
+    if (filters.startDate && filters.endDate) {
+      queryBuilder.andWhere('t.date >= :startDate AND t.date <= :endDate', {
+        startDate: filters.startDate,
+        endDate: filters.endDate
+      });
+    }
+
+    let stream: Awaited<ReturnType<typeof queryBuilder.stream>> | undefined;
+    try {
+      stream = await queryBuilder
+        .orderBy('t.date', 'ASC')
+        .addOrderBy('t.createdAt', 'ASC')
+        .stream();
+
+      for await (const raw of stream as AsyncIterable<RawTransactionRow>) {
+        yield {
+          id: raw.t_id,
+          date: toDateString(raw.t_date ?? raw.t_createdAt),
+          description: raw.t_description,
+          merchant: raw.t_merchant,
+          category: raw.t_category,
+          type: raw.t_type,
+          transferDirection: raw.t_transferDirection,
+          amount: Number(raw.t_amount),
+          currency: raw.t_currency,
+          fitId: raw.t_fitId,
+        };
+      }
+    } finally {
+      stream?.destroy();
+      await queryRunner.release();
+    }
+  }
+
+  private async writeCsv(rows: AsyncGenerator<ExportRow>, output: Writable): Promise<number> {
+    let count = 0;
+    await write(output, toCsvRow(EXPORT_HEADERS));
+
+    for await (const row of rows) {
+      await write(output, toCsvRow([
+        row.date,
+        escapeFormula(row.description),
+        escapeFormula(row.merchant),
+        escapeFormula(row.category),
+        TYPE_LABELS[row.type],
+        signedAmount(row),
+        row.currency,
+      ]));
+      count++;
+    }
+
+    output.end();
+    return count;
+  }
+
+  private async writeXlsx(rows: AsyncGenerator<ExportRow>, output: Writable): Promise<number> {
+    let count = 0;
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    const worksheet = workbook.addWorksheet('Transacciones');
+
+    worksheet.columns = [
+      { header: EXPORT_HEADERS[0], key: 'date', width: 12 },
+      { header: EXPORT_HEADERS[1], key: 'description', width: 40 },
+      { header: EXPORT_HEADERS[2], key: 'merchant', width: 24 },
+      { header: EXPORT_HEADERS[3], key: 'category', width: 18 },
+      { header: EXPORT_HEADERS[4], key: 'type', width: 10 },
+      { header: EXPORT_HEADERS[5], key: 'amount', width: 14, style: { numFmt: '#,##0.00' } },
+      { header: EXPORT_HEADERS[6], key: 'currency', width: 8 },
+    ];
+
+    for await (const row of rows) {
+      // ExcelJS no espera al stream de destino: sin este control se seguiría leyendo la base para nadie
+      assertOpen(output);
+      worksheet.addRow({
+        date: row.date,
+        description: row.description,
+        merchant: row.merchant,
+        category: row.category,
+        type: TYPE_LABELS[row.type],
+        amount: signedAmount(row),
+        currency: row.currency,
+      }).commit();
+      count++;
+    }
+
+    worksheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  private async writeOfx(rows: AsyncGenerator<ExportRow>, output: Writable, currency: string, filters: ExportFilters): Promise<number> {
+    let count = 0;
+    const today = toOfxDate(new Date().toISOString().split('T')[0]);
+
+    await write(output, [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+      '<OFX>',
+      '<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+      `<DTSERVER>${today}</DTSERVER><LANGUAGE>SPA</LANGUAGE></SONRS></SIGNONMSGSRSV1>`,
+      '<BANKMSGSRSV1><STMTTRNRS><TRNUID>0</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+      `<STMTRS><CURDEF>${escapeXml(currency)}</CURDEF>`,
+      '<BANKACCTFROM><BANKID>0</BANKID><ACCTID>asistente-finanzas</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>',
+      `<BANKTRANLIST><DTSTART>${toOfxDate(filters.startDate || '1970-01-01')}</DTSTART><DTEND>${toOfxDate(filters.endDate || today)}</DTEND>`,
+      '',
+    ].join('\n'));
+
+    for await (const row of rows) {
+      await write(output, [
+        '<STMTTRN>',
+        `<TRNTYPE>${row.type === 'transfer' ? 'XFER' : row.type === 'income' ? 'CREDIT' : 'DEBIT'}</TRNTYPE>`,
+        `<DTPOSTED>${toOfxDate(row.date)}</DTPOSTED>`,
+        `<TRNAMT>${signedAmount(row).toFixed(2)}</TRNAMT>`,
+        `<FITID>${escapeXml(row.fitId || row.id)}</FITID>`,
+        `<NAME>${escapeXml((row.merchant || row.description).slice(0, 32))}</NAME>`,
+        `<MEMO>${escapeXml(row.description)}</MEMO>`,
+        '</STMTTRN>',
+        '',
+      ].join('\n'));
+      count++;
+    }
+
+    await write(output, '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>\n</OFX>\n');
+    output.end();
+    return count;
+  }
+}
+
+/**
+ * Una respuesta que el cliente cortó emite 'close' y nunca más 'drain'
+ */
+function assertOpen(output: Writable): void {
+  if (output.destroyed) {
+    throw new Error('Export aborted: the output stream was closed');
+  }
+}
+
+/**
+ * Escribe respetando la contrapresión del stream de destino
+ * Falla si el destino se cierra mientras espera, para que el cursor de la base se libere
+ */
+async function write(output: Writable, chunk: string): Promise<void> {
+  assertOpen(output);
+  if (output.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Export aborted: the output stream was closed'));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const cleanup = () => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+      output.off('error', onError);
+    };
+    output.on('drain', onDrain);
+    output.on('close', onClose);
+    output.on('error', onError);
+  });
+}
+
+/**
+ * El driver pg devuelve las columnas date como Date en hora local
+ */
+function toDateString(value: Date | string): string {
+  if (value instanceof Date) {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return value.slice(0, 10);
+}
+
+function toOfxDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Evita que hojas de cálculo interpreten textos como fórmulas (CSV injection)
+ */
+function escapeFormula(value: string | null): string | null {
+  return value && /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+export default ExportService;
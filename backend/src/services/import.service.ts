@@ -0,0 +1,564 @@
+import { EntityManager, In, IsNull, Not } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Transaction } from '../models/Transaction';
+import { Merchant } from '../models/Merchant';
+import { CategorizationOptions, CategorizationResult, NLPCategorizationService } from './nlp.service';
+import { AccountService } from './account.service';
+import { CategoryService } from './category.service';
+import { CategorizationRuleService } from './categorization-rule.service';
+import { ClassifierService } from './classifier.service';
+import { MerchantService, MerchantResolver } from './merchant.service';
+import { TransferService } from './transfer.service';
+import { parseCsv } from '../utils/csv';
+import { parseOfx } from '../utils/ofx';
+import { isCurrencyCode } from '../utils/currency';
+import { ruleTransferAccount } from '../utils/rules';
+import { categorizationSource } from '../utils/categories';
+import logger from '../utils/logger';
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface CsvColumnMapping {
+  description: string;
+  amount: string;
+  date: string;
+  merchant?: string;
+  type?: string;
+}
+
+export interface CsvImportOptions {
+  mapping?: CsvColumnMapping;
+  dateFormat?: ImportDateFormat;
+  decimalSeparator?: '.' | ',';
+  dryRun?: boolean;
+  accountId?: string; // Defaults to the user's default account
+}
+
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  date: string;
+  merchant: string | null;
+}
+
+export interface CsvImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: CsvColumnMapping | null;
+  totalRows: number;
+  validRows: number;
+  imported: number;
+  preview: ImportPreviewRow[];
+  errors: ImportRowError[];
+}
+
+export interface OfxImportResult {
+  totalTransactions: number;
+  imported: number;
+  duplicates: number;
+  restored: number; // Duplicados que estaban en la papelera, restaurados junto con la otra pata si eran transferencias
+  currency: string | null;
+  dateRange: { startDate: string; endDate: string } | null;
+  errors: string[];
+}
+
+// Movimiento del extracto que ya se había importado y está en la papelera
+interface TrashedDuplicate {
+  id: string;
+  transferId: string | null;
+}
+
+// Movimiento listo para guardar; transferAccountId es la cuenta de la regla que lo marca como transferencia
+interface ImportedTransaction {
+  transaction: Transaction;
+  transferAccountId: string | null;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+const PREVIEW_ROWS = 20;
+
+// Nombres de columna habituales en los extractos bancarios
+const HEADER_ALIASES: Record<keyof CsvColumnMapping, string[]> = {
+  description: ['descripcion', 'descripción', 'description', 'concepto', 'detalle', 'memo'],
+  amount: ['monto', 'importe', 'amount', 'valor'],
+  date: ['fecha', 'date', 'fecha operacion', 'fecha operación'],
+  merchant: ['comercio', 'merchant', 'establecimiento', 'payee', 'beneficiario'],
+  type: ['tipo', 'type', 'movimiento'],
+};
+
+const INCOME_VALUES = ['income', 'ingreso', 'credito', 'crédito', 'credit', 'cr', 'haber'];
+const EXPENSE_VALUES = ['expense', 'gasto', 'debito', 'débito', 'debit', 'dr', 'debe'];
+
+/**
+ * Servicio de importación de extractos bancarios
+ * Convierte filas de archivos externos en transacciones categorizadas
+ */
+export class ImportService {
+  private nlpService = new NLPCategorizationService();
+  private accountService = new AccountService();
+  private merchantService = new MerchantService();
+  private categoryService = new CategoryService();
+  private ruleService = new CategorizationRuleService();
+  private classifierService = new ClassifierService();
+  private transferService = new TransferService();
+
+  /**
+   * Sugiere un mapeo de columnas a partir de los encabezados del archivo
+   */
+  guessMapping(headers: string[]): CsvColumnMapping | null {
+    const find = (field: keyof CsvColumnMapping) =>
+      headers.find(h => HEADER_ALIASES[field].includes(h.trim().toLowerCase()));
+
+    const description = find('description');
+    const amount = find('amount');
+    const date = find('date');
+
+    if (!description || !amount || !date) {
+      return null;
+    }
+
+    return {
+      description,
+      amount,
+      date,
+      merchant: find('merchant'),
+      type: find('type'),
+    };
+  }
+
+  /**
+   * Importa (o previsualiza, si dryRun) un archivo CSV
+   * Las filas válidas se guardan en una única transacción de base de datos
+   * @param userId - ID del usuario
+   * @param content - Contenido del archivo CSV
+   * @param options - Mapeo de columnas y formato de los datos
+   */
+  async importCsv(userId: string, content: string, options: CsvImportOptions = {}): Promise<CsvImportResult> {
+    try {
+      const [headers = [], ...dataRows] = parseCsv(content);
+
+      if (dataRows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`El archivo supera el máximo de ${MAX_IMPORT_ROWS} filas`);
+      }
+
+      const mapping = options.mapping || this.guessMapping(headers);
+      const result: CsvImportResult = {
+        dryRun: options.dryRun ?? true,
+        headers,
+        mapping,
+        totalRows: dataRows.length,
+        validRows: 0,
+        imported: 0,
+        preview: [],
+        errors: [],
+      };
+
+      // Sin mapeo no podemos interpretar las filas: devolver solo los encabezados
+      if (!mapping) {
+        return result;
+      }
+
+      const missingColumns = Object.values(mapping).filter(column => column && !headers.includes(column));
+      if (missingColumns.length > 0) {
+        throw new Error(`Columnas no encontradas en el archivo: ${missingColumns.join(', ')}`);
+      }
+
+      const validRows: ImportPreviewRow[] = [];
+      dataRows.forEach((cells, index) => {
+        // +2: la fila 1 es el encabezado y las filas se numeran desde 1
+        const rowNumber = index + 2;
+        const { row, errors } = this.parseRow(headers, cells, mapping, rowNumber, options);
+        if (errors.length > 0 || !row) {
+          result.errors.push({ row: rowNumber, errors });
+        } else {
+          validRows.push(row);
+        }
+      });
+
+      result.validRows = validRows.length;
+      result.preview = validRows.slice(0, PREVIEW_ROWS);
+
+      if (result.dryRun || validRows.length === 0) {
+        return result;
+      }
+
+      const merchants = await this.merchantService.createResolver(userId);
+      const categories = await this.categoryService.getCategoryNames(userId, 'expense');
+      const rules = await this.ruleService.getActiveRules(userId);
+      const classifier = await this.classifierService.getModel(userId);
+      const transactions = await this.buildTransactions(
+        userId,
+        validRows.map(row => ({ row })),
+        merchants,
+        { categories, rules, classifier, userId }
+      );
+
+      await AppDataSource.transaction(async manager => {
+        await this.saveToAccount(manager, userId, transactions, options.accountId);
+      });
+
+      result.imported = transactions.length;
+      logger.info(`Imported ${transactions.length} transactions from CSV for user ${userId}`);
+
+      return result;
+    } catch (error) {
+      logger.error('Error importing CSV:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Importa un extracto OFX/QFX
+   * Los movimientos cuyo FITID ya fue importado por el usuario se omiten
+   * @param userId - ID del usuario
+   * @param content - Contenido del archivo OFX/QFX
+   * @param accountId - Cuenta destino (por defecto la cuenta por defecto del usuario)
+   */
+  async importOfx(userId: string, content: string, accountId?: string): Promise<OfxImportResult> {
+    try {
+      const statement = parseOfx(content);
+
+      if (statement.transactions.length > MAX_IMPORT_ROWS) {
+        throw new Error(`El archivo supera el máximo de ${MAX_IMPORT_ROWS} movimientos`);
+      }
+
+      const fitIds = statement.transactions.map(t => t.fitId);
+      const existing = fitIds.length > 0
+        ? await AppDataSource.getRepository(Transaction)
+          .createQueryBuilder('t')
+          .select('t.id', 'id')
+          .addSelect('t.fitId', 'fitId')
+          .addSelect('t.transferId', 'transferId')
+          .addSelect('t.deletedAt', 'deletedAt')
+          // Un movimiento en la papelera también es un duplicado: se restaura en lugar de reimportarse
+          .withDeleted()
+          .where('t.userId = :userId', { userId })
+          .andWhere('t.fitId IN (:...fitIds)', { fitIds })
+          .getRawMany()
+        : [];
+
+      const seen = new Set<string>(existing.map((row: { fitId: string }) => row.fitId));
+      const trashed: TrashedDuplicate[] = existing.filter((row: { deletedAt: Date | null }) => row.deletedAt);
+      const merchants = await this.merchantService.createResolver(userId);
+      const categories = await this.categoryService.getCategoryNames(userId, 'expense');
+      const rules = await this.ruleService.getActiveRules(userId);
+      const classifier = await this.classifierService.getModel(userId);
+      const rows: Array<{ row: ImportPreviewRow; fitId: string }> = [];
+      let duplicates = 0;
+
+      for (const ofxTransaction of statement.transactions) {
+        // También se descartan FITID repetidos dentro del mismo archivo
+        if (seen.has(ofxTransaction.fitId)) {
+          duplicates++;
+          continue;
+        }
+        seen.add(ofxTransaction.fitId);
+
+        const description = [ofxTransaction.name, ofxTransaction.memo]
+          .filter((part, index, parts) => part && parts.indexOf(part) === index)
+          .join(' - ')
+          .slice(0, 255) || ofxTransaction.trnType;
+
+        rows.push({
+          row: {
+            row: rows.length + 1,
+            description,
+            amount: ofxTransaction.amount,
+            type: ofxTransaction.type,
+            date: ofxTransaction.date,
+            merchant: ofxTransaction.name,
+          },
+          fitId: ofxTransaction.fitId
+        });
+      }
+
+      // Los que están en la papelera no se omiten: se restauran
+      duplicates -= trashed.length;
+      const transactions = await this.buildTransactions(userId, rows, merchants, { categories, rules, classifier, userId });
+
+      let restored = 0;
+      if (transactions.length > 0 || trashed.length > 0) {
+        await AppDataSource.transaction(async manager => {
+          if (transactions.length > 0) {
+            await this.saveToAccount(manager, userId, transactions, accountId, statement.currency);
+          }
+          restored = await this.restoreTrashed(manager, userId, trashed);
+        });
+      }
+
+      const dates = statement.transactions.map(t => t.date).sort();
+      logger.info(`Imported ${transactions.length} transactions from OFX for user ${userId} (${duplicates} duplicates skipped, ${restored} restored)`);
+
+      return {
+        totalTransactions: statement.transactions.length,
+        imported: transactions.length,
+        duplicates,
+        restored,
+        currency: statement.currency,
+        dateRange: dates.length > 0 ? { startDate: dates[0], endDate: dates[dates.length - 1] } : null,
+        errors: statement.errors,
+      };
+    } catch (error) {
+      logger.error('Error importing OFX:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Interpreta una fila del CSV según el mapeo de columnas
+   */
+  private parseRow(
+    headers: string[],
+    cells: string[],
+    mapping: CsvColumnMapping,
+    rowNumber: number,
+    options: CsvImportOptions
+  ): { row: ImportPreviewRow | null; errors: string[] } {
+    const errors: string[] = [];
+    const valueOf = (column?: string) => (column ? cells[headers.indexOf(column)]?.trim() || '' : '');
+
+    const description = valueOf(mapping.description);
+    if (!description) {
+      errors.push('La descripción es requerida');
+    } else if (description.length > 255) {
+      errors.push('La descripción no puede superar los 255 caracteres');
+    }
+
+    const amount = parseAmount(valueOf(mapping.amount), options.decimalSeparator || '.');
+    if (amount === null || amount === 0) {
+      errors.push(`Monto inválido: "${valueOf(mapping.amount)}"`);
+    }
+
+    const date = parseDate(valueOf(mapping.date), options.dateFormat || 'YYYY-MM-DD');
+    if (!date) {
+      errors.push(`Fecha inválida: "${valueOf(mapping.date)}"`);
+    }
+
+    let type: 'income' | 'expense' | null = null;
+    const rawType = valueOf(mapping.type).toLowerCase();
+    if (mapping.type && rawType) {
+      if (INCOME_VALUES.includes(rawType)) {
+        type = 'income';
+      } else if (EXPENSE_VALUES.includes(rawType)) {
+        type = 'expense';
+      } else {
+        errors.push(`Tipo inválido: "${rawType}"`);
+      }
+    } else if (amount !== null) {
+      // Sin columna de tipo, el signo del monto indica si es un gasto
+      type = amount < 0 ? 'expense' : 'income';
+    }
+
+    if (errors.length > 0 || amount === null || !date || !type) {
+      return { row: null, errors };
+    }
+
+    return {
+      row: {
+        row: rowNumber,
+        description,
+        amount: Math.abs(amount),
+        type,
+        date,
+        merchant: valueOf(mapping.merchant) || null,
+      },
+      errors,
+    };
+  }
+
+  /**
+   * Asigna la cuenta destino y guarda las transacciones dentro de la transacción de base de datos
+   * Cada transacción pasa las mismas validaciones que al crearla a mano; si alguna falla no se importa nada
+   * Las que una regla marca como transferencia se guardan con sus dos patas; si la cuenta de la regla ya no
+   * puede recibirla (archivada, otra moneda) se guardan como un movimiento común
+   * @param currency - Moneda declarada por el extracto; por defecto la de la cuenta
+   */
+  private async saveToAccount(
+    manager: EntityManager,
+    userId: string,
+    transactions: ImportedTransaction[],
+    accountId?: string,
+    currency?: string | null
+  ): Promise<void> {
+    const account = await this.accountService.resolveAccount(userId, accountId, manager);
+    const declaredCurrency = currency?.trim().toUpperCase();
+    const transactionCurrency = isCurrencyCode(declaredCurrency) ? declaredCurrency : account.currency;
+    for (const { transaction } of transactions) {
+      transaction.accountId = account.id;
+      transaction.currency = transactionCurrency;
+      const errors = transaction.validate();
+      if (errors.length > 0) {
+        throw new Error(`Movimiento inválido "${transaction.description}": ${errors.join(', ')}`);
+      }
+    }
+
+    await manager.save(Transaction, transactions.filter(entry => !entry.transferAccountId).map(entry => entry.transaction));
+    for (const { transaction, transferAccountId } of transactions) {
+      if (!transferAccountId) {
+        continue;
+      }
+      try {
+        await this.transferService.saveAsTransfer(manager, transaction, transferAccountId);
+      } catch (error) {
+        logger.warn(`Rule transfer skipped for "${transaction.description}": ${(error as Error).message}`);
+        await manager.save(Transaction, transaction);
+      }
+    }
+  }
+
+  /**
+   * Restaura de la papelera los movimientos que el extracto vuelve a traer, como en TrashService.restore:
+   * si eran una pata de una transferencia se restaura también la otra
+   * @returns Número de movimientos restaurados
+   */
+  private async restoreTrashed(manager: EntityManager, userId: string, trashed: TrashedDuplicate[]): Promise<number> {
+    if (trashed.length === 0) {
+      return 0;
+    }
+
+    const transferIds = [...new Set(trashed.map(row => row.transferId).filter((id): id is string => !!id))];
+    const otherLegs = transferIds.length > 0
+      ? await manager.find(Transaction, {
+        where: { userId, transferId: In(transferIds), deletedAt: Not(IsNull()) },
+        withDeleted: true,
+        select: { id: true }
+      })
+      : [];
+    const ids = [...new Set([...trashed, ...otherLegs].map(row => row.id))];
+
+    await manager.restore(Transaction, { id: In(ids), userId });
+    return ids.length;
+  }
+
+  /**
+   * Crea las entidades Transaction normalizando el comercio y categorizando las descripciones
+   * La categorización se hace por lotes para no consultar la IA una vez por fila
+   * Si coincide una regla del usuario se aplican también sus demás acciones
+   */
+  private async buildTransactions(
+    userId: string,
+    rows: Array<{ row: ImportPreviewRow; fitId?: string }>,
+    merchants: MerchantResolver,
+    options: Pick<CategorizationOptions, 'categories' | 'rules' | 'classifier' | 'userId'>
+  ): Promise<ImportedTransaction[]> {
+    const transactions: Transaction[] = [];
+    const transferAccounts: Array<string | null> = [];
+    const resolvedMerchants: Array<Merchant | null> = [];
+    for (const { row, fitId } of rows) {
+      const transaction = new Transaction();
+      transaction.fitId = fitId;
+      transaction.description = row.description;
+      transaction.amount = row.amount;
+      transaction.type = row.type;
+      transaction.merchant = row.merchant || undefined;
+      transaction.date = row.date;
+      transaction.userId = userId;
+
+      const merchant = await merchants.resolve(row.merchant, row.description);
+      if (merchant) {
+        transaction.merchantId = merchant.id;
+        transaction.merchant = merchant.name;
+      }
+      transactions.push(transaction);
+      resolvedMerchants.push(merchant);
+    }
+
+    let categorizations: CategorizationResult[] = [];
+    try {
+      categorizations = await this.nlpService.categorizeBatch(rows.map(({ row }, index) => ({
+        description: row.description,
+        merchant: resolvedMerchants[index],
+        amount: row.amount,
+        type: row.type
+      })), options);
+    } catch (error) {
+      logger.error('Categorization failed during import:', error);
+    }
+
+    for (const [index, transaction] of transactions.entries()) {
+      try {
+        const categorization = categorizations[index];
+        if (!categorization) {
+          throw new Error('Missing categorization');
+        }
+        transaction.category = categorization.category;
+        transaction.confidence = categorization.confidence;
+        transaction.categorySource = categorizationSource(categorization);
+        if (categorization.rule) {
+          await this.ruleService.applyActions(userId, transaction, categorization.rule.actions, { merchants });
+          transferAccounts[index] = ruleTransferAccount(categorization.rule.actions);
+        }
+      } catch (error) {
+        logger.error('Categorization failed during import:', error);
+        transaction.category = transaction.type === 'expense' ? 'Otros' : 'Ingresos';
+        transaction.confidence = transaction.type === 'expense' ? 0.5 : 1.0;
+        transaction.categorySource = 'auto';
+      }
+    }
+
+    return transactions.map((transaction, index) => ({ transaction, transferAccountId: transferAccounts[index] || null }));
+  }
+}
+
+/**
+ * Convierte un monto en texto ("-1.234,56", "$ 10.50", "(25)") a número
+ */
+export function parseAmount(value: string, decimalSeparator: '.' | ','): number | null {
+  if (!value) {
+    return null;
+  }
+
+  let text = value.replace(/[^\d.,()-]/g, '');
+  const negative = text.startsWith('-') || (text.startsWith('(') && text.endsWith(')'));
+  text = text.replace(/[()-]/g, '');
+
+  if (decimalSeparator === ',') {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    return null;
+  }
+
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Convierte una fecha en el formato indicado a YYYY-MM-DD
+ */
+export function parseDate(value: string, format: ImportDateFormat): string | null {
+  const patterns: Record<ImportDateFormat, RegExp> = {
+    'YYYY-MM-DD': /^(?<year>\d{4})-(?<month>\d{1,2})-(?<day>\d{1,2})/,
+    'DD/MM/YYYY': /^(?<day>\d{1,2})[/-](?<month>\d{1,2})[/-](?<year>\d{4})/,
+    'MM/DD/YYYY': /^(?<month>\d{1,2})[/-](?<day>\d{1,2})[/-](?<year>\d{4})/,
+  };
+
+  const groups = patterns[format].exec(value.trim())?.groups;
+  if (!groups) {
+    return null;
+  }
+
+  const year = Number(groups.year);
+  const month = Number(groups.month);
+  const day = Number(groups.day);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Rechazar fechas imposibles como 31/02
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+export default ImportService;
@@ -0,0 +1,266 @@
+import { AppDataSource } from '../config/database';
+import { InstallmentPlan } from '../models/InstallmentPlan';
+import { Transaction } from '../models/Transaction';
+import { CategorizationMerchant, NLPCategorizationService } from './nlp.service';
+import { AccountService } from './account.service';
+import { MerchantService } from './merchant.service';
+import { CategoryService } from './category.service';
+import { CategorizationRuleService } from './categorization-rule.service';
+import { ClassifierService } from './classifier.service';
+import { ScheduledInstallment, addMonths, planSchedule } from '../utils/installments';
+import logger from '../utils/logger';
+
+export interface InstallmentPlanDTO {
+  description: string;
+  totalAmount: number;
+  installmentCount: number;
+  interestRate?: number;
+  category?: string;
+  merchant?: string;
+  accountId?: string;
+  date: string;
+  firstDueMonth?: string; // Por defecto, el mes siguiente a la compra
+}
+
+export interface InstallmentScheduleEntry extends ScheduledInstallment {
+  generated: boolean; // Ya existe como transacción; si no, es una cuota proyectada
+}
+
+export type InstallmentPlanResponse = ReturnType<InstallmentPlan['toJSON']> & {
+  totalWithInterest: number;
+  remainingAmount: number;
+  schedule: InstallmentScheduleEntry[];
+};
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Servicio de compras en cuotas
+ * Un plan reparte una compra en N cuotas mensuales; cada cuota se genera como transacción
+ * cuando vence y las restantes quedan proyectadas para los análisis
+ */
+export class InstallmentService {
+  private planRepository = AppDataSource.getRepository(InstallmentPlan);
+  private nlpService = new NLPCategorizationService();
+  private accountService = new AccountService();
+  private merchantService = new MerchantService();
+  private categoryService = new CategoryService();
+  private ruleService = new CategorizationRuleService();
+  private classifierService = new ClassifierService();
+
+  /**
+   * Crear un plan de cuotas y generar las que ya vencieron
+   * @param userId - ID del usuario
+   * @param data - Compra, cantidad de cuotas, interés y primer mes de vencimiento
+   */
+  async createPlan(userId: string, data: InstallmentPlanDTO): Promise<InstallmentPlanResponse> {
+    try {
+      const account = await this.accountService.resolveAccount(userId, data.accountId);
+      const merchantEntry = await this.merchantService.resolveMerchant(userId, data.merchant, data.description);
+
+      const plan = new InstallmentPlan();
+      plan.userId = userId;
+      plan.description = data.description;
+      plan.totalAmount = data.totalAmount;
+      plan.installmentCount = data.installmentCount;
+      plan.interestRate = data.interestRate || 0;
+      plan.merchant = merchantEntry?.name || data.merchant;
+      plan.merchantId = merchantEntry?.id || null;
+      plan.date = data.date;
+      plan.firstDueMonth = data.firstDueMonth || addMonths(data.date.slice(0, 7), 1);
+      plan.accountId = account.id;
+      plan.currency = account.currency;
+
+      const validationErrors = plan.validate();
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join(', '));
+      }
+
+      plan.category = data.category || await this.categorize(userId, data.description, merchantEntry, data.totalAmount);
+      plan.generatedCount = 0;
+      plan.nextDueDate = planSchedule(plan)[0].date;
+      plan.active = true;
+
+      const saved = await this.planRepository.save(plan);
+      await this.materialize(saved.id, today());
+      logger.info(`Installment plan ${saved.id} created for user ${userId}`);
+
+      return this.getPlan(userId, saved.id);
+    } catch (error) {
+      logger.error('Error creating installment plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Planes del usuario con su calendario, los que tienen cuotas pendientes primero
+   */
+  async getPlans(userId: string): Promise<InstallmentPlanResponse[]> {
+    try {
+      const plans = await this.planRepository.find({
+        where: { userId },
+        order: { active: 'DESC', date: 'DESC' }
+      });
+      return plans.map(plan => this.toResponse(plan));
+    } catch (error) {
+      logger.error('Error getting installment plans:', error);
+      throw error;
+    }
+  }
+
+  async getPlan(userId: string, planId: string): Promise<InstallmentPlanResponse> {
+    try {
+      const plan = await this.planRepository.findOne({ where: { id: planId, userId } });
+      if (!plan) {
+        throw new Error('Installment plan not found');
+      }
+      return this.toResponse(plan);
+    } catch (error) {
+      logger.error('Error getting installment plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un plan: dejan de generarse cuotas, las ya generadas se conservan
+   */
+  async deletePlan(userId: string, planId: string): Promise<void> {
+    try {
+      const result = await this.planRepository.delete({ id: planId, userId });
+      if (result.affected === 0) {
+        throw new Error('Installment plan not found');
+      }
+      logger.info(`Installment plan ${planId} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting installment plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generar las cuotas vencidas de todos los planes activos
+   * Igual que las recurrentes, cada plan se procesa con bloqueo de fila
+   * @param runDate - Fecha hasta la que se generan cuotas (por defecto hoy)
+   * @returns Número de transacciones creadas
+   */
+  async processDueInstallments(runDate: string = today()): Promise<number> {
+    const due = await this.planRepository
+      .createQueryBuilder('p')
+      .select('p.id', 'id')
+      .where('p.active = true')
+      .andWhere('p.nextDueDate <= :runDate', { runDate })
+      .getRawMany<{ id: string }>();
+
+    let created = 0;
+    for (const { id } of due) {
+      try {
+        created += await this.materialize(id, runDate);
+      } catch (error) {
+        logger.error(`Error generating installments for plan ${id}:`, error);
+      }
+    }
+
+    if (created > 0) {
+      logger.info(`Generated ${created} installment charges`);
+    }
+    return created;
+  }
+
+  private async materialize(planId: string, runDate: string): Promise<number> {
+    return AppDataSource.transaction(async manager => {
+      const plan = await manager.findOne(InstallmentPlan, {
+        where: { id: planId },
+        lock: { mode: 'pessimistic_write' }
+      });
+
+      // Otra instancia pudo haberlo procesado mientras esperábamos el bloqueo
+      if (!plan || !plan.active || !plan.nextDueDate || plan.nextDueDate > runDate) {
+        return 0;
+      }
+
+      const schedule = planSchedule(plan);
+      const charges = schedule
+        .filter(installment => installment.number > plan.generatedCount && installment.date <= runDate)
+        .map(installment => this.buildCharge(plan, installment));
+
+      plan.generatedCount += charges.length;
+      plan.nextDueDate = schedule[plan.generatedCount]?.date || null;
+      plan.active = plan.generatedCount < plan.installmentCount;
+
+      if (charges.length > 0) {
+        // El índice único (installmentPlanId, installmentNumber) descarta cuotas ya generadas
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into(Transaction)
+          .values(charges)
+          .orIgnore()
+          .execute();
+      }
+      await manager.save(InstallmentPlan, plan);
+
+      return charges.length;
+    });
+  }
+
+  private buildCharge(plan: InstallmentPlan, installment: ScheduledInstallment): Transaction {
+    const transaction = new Transaction();
+    transaction.description = plan.description;
+    transaction.amount = installment.amount;
+    transaction.type = 'expense';
+    transaction.category = plan.category;
+    transaction.confidence = 1.0;
+    transaction.categorySource = 'user';
+    transaction.merchant = plan.merchant;
+    transaction.merchantId = plan.merchantId;
+    transaction.date = installment.date;
+    transaction.userId = plan.userId;
+    transaction.accountId = plan.accountId;
+    transaction.currency = plan.currency;
+    transaction.installmentPlanId = plan.id;
+    transaction.installmentNumber = installment.number;
+    transaction.installmentCount = plan.installmentCount;
+    return transaction;
+  }
+
+  private toResponse(plan: InstallmentPlan): InstallmentPlanResponse {
+    const schedule = planSchedule(plan).map(installment => ({
+      ...installment,
+      generated: installment.number <= plan.generatedCount
+    }));
+    const sum = (entries: InstallmentScheduleEntry[]) =>
+      Math.round(entries.reduce((total, entry) => total + entry.amount, 0) * 100) / 100;
+
+    return {
+      ...plan.toJSON(),
+      totalWithInterest: sum(schedule),
+      remainingAmount: sum(schedule.filter(entry => !entry.generated)),
+      schedule
+    };
+  }
+
+  private async categorize(
+    userId: string,
+    description: string,
+    merchantEntry: CategorizationMerchant | null,
+    amount: number
+  ): Promise<string> {
+    try {
+      const categorization = await this.nlpService.categorizeTransaction(description, merchantEntry, {
+        categories: await this.categoryService.getCategoryNames(userId, 'expense'),
+        rules: await this.ruleService.getActiveRules(userId),
+        classifier: await this.classifierService.getModel(userId),
+        userId,
+        amount
+      });
+      return categorization.category;
+    } catch (error) {
+      logger.error('Categorization failed for installment plan:', error);
+      return 'Otros';
+    }
+  }
+}
+
+export default InstallmentService;
@@ -0,0 +1,79 @@
+import { AppDataSource } from '../config/database';
+import { LLMUsage } from '../models/LLMUsage';
+import { DEFAULT_MONTHLY_TOKEN_BUDGET, TokenUsage, usageMonth } from '../utils/llm';
+import logger from '../utils/logger';
+
+export interface LLMUsageSummary {
+  month: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  requests: number;
+  budget: number;
+  remaining: number;
+}
+
+/**
+ * Consumo mensual de tokens de la IA por usuario
+ * Al agotar el presupuesto del mes la categorización sigue con las palabras clave hasta el mes siguiente
+ */
+export class LLMUsageService {
+  private usageRepository = AppDataSource.getRepository(LLMUsage);
+
+  async getUsage(userId: string): Promise<LLMUsageSummary> {
+    try {
+      const month = usageMonth();
+      const usage = await this.usageRepository.findOne({ where: { userId, month } });
+      const promptTokens = usage?.promptTokens || 0;
+      const completionTokens = usage?.completionTokens || 0;
+      const budget = this.getBudget();
+
+      return {
+        month,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        requests: usage?.requests || 0,
+        budget,
+        remaining: Math.max(budget - promptTokens - completionTokens, 0)
+      };
+    } catch (error) {
+      logger.error('Error getting LLM usage:', error);
+      throw error;
+    }
+  }
+
+  async hasBudget(userId: string): Promise<boolean> {
+    return (await this.getUsage(userId)).remaining > 0;
+  }
+
+  /**
+   * Sumar el consumo de una consulta al mes en curso
+   * El incremento se hace en SQL para no perder consultas simultáneas
+   */
+  async record(userId: string, usage: TokenUsage): Promise<void> {
+    const month = usageMonth();
+    await this.usageRepository.createQueryBuilder()
+      .insert()
+      .into(LLMUsage)
+      .values({ userId, month, promptTokens: 0, completionTokens: 0, requests: 0 })
+      .orIgnore()
+      .execute();
+    await this.usageRepository.createQueryBuilder()
+      .update(LLMUsage)
+      .set({
+        promptTokens: () => '"promptTokens" + :promptTokens',
+        completionTokens: () => '"completionTokens" + :completionTokens',
+        requests: () => 'requests + 1'
+      })
+      .where('"userId" = :userId AND month = :month', { userId, month })
+      .setParameters({ promptTokens: usage.promptTokens, completionTokens: usage.completionTokens })
+      .execute();
+  }
+
+  private getBudget(): number {
+    return Number(process.env.LLM_MONTHLY_TOKEN_BUDGET) || DEFAULT_MONTHLY_TOKEN_BUDGET;
+  }
+}
+
+export default LLMUsageService;
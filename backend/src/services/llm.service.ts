@@ -0,0 +1,245 @@
+import OpenAI from 'openai';
+import logger from '../utils/logger';
+import { estimateTokens, TokenUsage } from '../utils/llm';
+
+export type LLMProviderName = 'openai' | 'local' | 'stub' | 'none';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'local', 'stub', 'none'];
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Esquema JSON que debe cumplir la respuesta (salida estructurada de la API de chat de OpenAI)
+export interface LLMResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseSchema?: LLMResponseSchema;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Proveedor de modelo de lenguaje: recibe los mensajes y devuelve el texto de la respuesta con los tokens consumidos
+ * El categorizador no sabe qué proveedor hay detrás
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+// Consumo informado por el proveedor o, si no lo informa, estimado a partir del texto
+function completionUsage(
+  messages: LLMMessage[],
+  content: string,
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+): TokenUsage {
+  return {
+    promptTokens: usage?.prompt_tokens ?? estimateTokens(messages.map(message => message.content).join('\n')),
+    completionTokens: usage?.completion_tokens ?? estimateTokens(content)
+  };
+}
+
+// Campo response_format de la API de chat; el esquema es estricto para que el modelo no pueda salirse de él
+function responseFormat(responseSchema?: LLMResponseSchema) {
+  return responseSchema
+    ? { type: 'json_schema' as const, json_schema: { ...responseSchema, strict: true } }
+    : undefined;
+}
+
+// Modelo por defecto de OpenAI; tiene que admitir salida estructurada (response_format json_schema)
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+// Un modelo local puede tardar bastante más que la API de OpenAI en responder
+export const DEFAULT_LLM_TIMEOUT_MS = 30000;
+
+/**
+ * API de OpenAI
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async complete({ messages, maxTokens, temperature, responseSchema }: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      max_tokens: maxTokens,
+      temperature,
+      response_format: responseFormat(responseSchema)
+    });
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from AI');
+    }
+    return { content, usage: completionUsage(messages, content, response.usage) };
+  }
+}
+
+/**
+ * Servidor local con la API de chat de OpenAI (llama.cpp, Ollama, LM Studio, vLLM...)
+ * @param baseUrl - Raíz de la API, p. ej. http://localhost:11434/v1
+ */
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = 'local' as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey?: string,
+    private readonly timeoutMs = DEFAULT_LLM_TIMEOUT_MS
+  ) {}
+
+  async complete({ messages, maxTokens, temperature, responseSchema }: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+        response_format: responseFormat(responseSchema),
+        stream: false
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    if (!response.ok) {
+      throw new Error(`Local LLM request failed with status ${response.status}`);
+    }
+
+    const body = await response.json() as {
+      choices?: Array<{ message?: { content?: string } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from AI');
+    }
+    return { content, usage: completionUsage(messages, content, body.usage) };
+  }
+}
+
+// Sin respuesta indicada: 'Otros' con baja confianza para cada transacción de la consulta
+function defaultStubResponse(request: LLMCompletionRequest): string {
+  const { transactions = [] } = JSON.parse(request.messages[request.messages.length - 1]?.content || '{}') as {
+    transactions?: Array<{ id: number }>;
+  };
+  return JSON.stringify({
+    results: transactions.map(({ id }) => ({ id, category: 'Otros', confidence: 0.5, explanation: 'Respuesta de prueba' }))
+  });
+}
+
+/**
+ * Proveedor determinista para pruebas y desarrollo sin red
+ * Guarda las consultas recibidas para poder inspeccionarlas
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'stub';
+  readonly requests: LLMCompletionRequest[] = [];
+
+  constructor(
+    private readonly respond: string | ((request: LLMCompletionRequest) => string) = defaultStubResponse
+  ) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    const content = typeof this.respond === 'function' ? this.respond(request) : this.respond;
+    return { content, usage: completionUsage(request.messages, content) };
+  }
+}
+
+/**
+ * Proveedor elegido con LLM_PROVIDER; sin indicarlo se usa OpenAI si hay clave, o el servidor local si hay LLM_BASE_URL
+ */
+export function resolveLLMProviderName(env: NodeJS.ProcessEnv = process.env): LLMProviderName {
+  const configured = env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured) {
+    return configured as LLMProviderName;
+  }
+  if (env.OPENAI_API_KEY) {
+    return 'openai';
+  }
+  return env.LLM_BASE_URL ? 'local' : 'none';
+}
+
+/**
+ * Error de configuración del proveedor, o null si es válida
+ */
+export function getLLMConfigError(env: NodeJS.ProcessEnv = process.env): string | null {
+  const name = resolveLLMProviderName(env);
+  if (!LLM_PROVIDER_NAMES.includes(name)) {
+    return `LLM_PROVIDER must be one of: ${LLM_PROVIDER_NAMES.join(', ')}`;
+  }
+  if (name === 'openai' && !env.OPENAI_API_KEY) {
+    return 'OPENAI_API_KEY is required when LLM_PROVIDER is openai';
+  }
+  if (name === 'local' && !env.LLM_BASE_URL) {
+    return 'LLM_BASE_URL is required when LLM_PROVIDER is local';
+  }
+  if (env.LLM_TIMEOUT_MS && !(Number(env.LLM_TIMEOUT_MS) > 0)) {
+    return 'LLM_TIMEOUT_MS must be a positive number';
+  }
+  return null;
+}
+
+/**
+ * Crea el proveedor configurado, o null si no hay ninguno: el categorizador se queda con las palabras clave
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider | null {
+  const configError = getLLMConfigError(env);
+  if (configError) {
+    logger.warn(`AI categorization disabled: ${configError}`);
+    return null;
+  }
+
+  switch (resolveLLMProviderName(env)) {
+    case 'openai':
+      return new OpenAIProvider(env.OPENAI_API_KEY as string, env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL);
+    case 'local':
+      return new LocalLLMProvider(
+        env.LLM_BASE_URL as string,
+        env.LLM_MODEL || 'llama3',
+        env.LLM_API_KEY,
+        env.LLM_TIMEOUT_MS ? Number(env.LLM_TIMEOUT_MS) : DEFAULT_LLM_TIMEOUT_MS
+      );
+    case 'stub':
+      return new StubLLMProvider();
+    default:
+      return null;
+  }
+}
+
+let defaultProvider: LLMProvider | null | undefined;
+
+/**
+ * Proveedor de la configuración del proceso, compartido por todas las instancias del categorizador
+ */
+export function getDefaultLLMProvider(): LLMProvider | null {
+  if (defaultProvider === undefined) {
+    defaultProvider = createLLMProvider();
+    logger.info(defaultProvider
+      ? `AI categorization uses the ${defaultProvider.name} provider (${defaultProvider.model})`
+      : 'No LLM provider configured: categorization falls back to keywords');
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,255 @@
+import { EntityManager, In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Merchant } from '../models/Merchant';
+import { Transaction } from '../models/Transaction';
+import { cleanMerchantName, findMatchingMerchant, merchantKey } from '../utils/merchants';
+import logger from '../utils/logger';
+
+export interface MerchantData {
+  name: string;
+  defaultCategory?: string | null;
+  aliases?: string[];
+  patterns?: string[];
+}
+
+export type MerchantSummary = ReturnType<Merchant['toJSON']> & { transactionCount: number };
+
+/**
+ * Resuelve comercios de un usuario reutilizando el directorio cargado una sola vez
+ * Pensado para importaciones, donde se normalizan cientos de filas seguidas
+ */
+export interface MerchantResolver {
+  resolve(rawMerchant: string | null | undefined, description: string): Promise<Merchant | null>;
+}
+
+/**
+ * Servicio del directorio de comercios
+ * Cada usuario tiene sus comercios con alias y patrones; las transacciones guardan el comercio normalizado
+ */
+export class MerchantService {
+  private merchantRepository = AppDataSource.getRepository(Merchant);
+
+  /**
+   * Listar los comercios del usuario con la cantidad de transacciones de cada uno
+   */
+  async getMerchants(userId: string): Promise<MerchantSummary[]> {
+    try {
+      const merchants = await this.merchantRepository.find({ where: { userId }, order: { name: 'ASC' } });
+      if (merchants.length === 0) {
+        return [];
+      }
+
+      const counts = await AppDataSource.getRepository(Transaction)
+        .createQueryBuilder('t')
+        .select('t.merchantId', 'merchantId')
+        .addSelect('COUNT(*)', 'count')
+        .where('t.userId = :userId', { userId })
+        .andWhere('t.merchantId IN (:...ids)', { ids: merchants.map(m => m.id) })
+        .groupBy('t.merchantId')
+        .getRawMany<{ merchantId: string; count: string }>();
+      const countById = new Map(counts.map(row => [row.merchantId, Number(row.count)]));
+
+      return merchants.map(merchant => ({
+        ...merchant.toJSON(),
+        transactionCount: countById.get(merchant.id) || 0
+      }));
+    } catch (error) {
+      logger.error('Error getting merchants:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Crear un comercio en el directorio
+   */
+  async createMerchant(userId: string, data: MerchantData): Promise<Merchant> {
+    try {
+      await this.checkNameAvailable(userId, data.name);
+
+      const merchant = new Merchant();
+      merchant.userId = userId;
+      merchant.name = data.name.trim();
+      merchant.defaultCategory = data.defaultCategory || null;
+      merchant.aliases = this.uniqueTexts(data.aliases || []);
+      merchant.patterns = this.uniqueTexts(data.patterns || []);
+      this.validate(merchant);
+
+      const saved = await this.merchantRepository.save(merchant);
+      logger.info(`Merchant ${saved.id} created for user ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error creating merchant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar un comercio; si cambia el nombre se actualiza también en sus transacciones
+   */
+  async updateMerchant(userId: string, id: string, data: Partial<MerchantData>): Promise<Merchant> {
+    try {
+      const merchant = await this.findMerchant(userId, id);
+
+      if (data.name !== undefined && data.name.trim() !== merchant.name) {
+        await this.checkNameAvailable(userId, data.name, id);
+        merchant.name = data.name.trim();
+      }
+      if (data.defaultCategory !== undefined) {
+        merchant.defaultCategory = data.defaultCategory || null;
+      }
+      if (data.aliases !== undefined) {
+        merchant.aliases = this.uniqueTexts(data.aliases);
+      }
+      if (data.patterns !== undefined) {
+        merchant.patterns = this.uniqueTexts(data.patterns);
+      }
+      this.validate(merchant);
+
+      const saved = await AppDataSource.transaction(async manager => {
+        const updated = await manager.save(merchant);
+        await manager.update(Transaction, { merchantId: id, userId }, { merchant: updated.name });
+        return updated;
+      });
+
+      logger.info(`Merchant ${id} updated for user ${userId}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error updating merchant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar un comercio; sus transacciones conservan el nombre pero dejan de estar vinculadas
+   */
+  async deleteMerchant(userId: string, id: string): Promise<void> {
+    try {
+      const result = await this.merchantRepository.delete({ id, userId });
+      if (result.affected === 0) {
+        throw new Error('Merchant not found');
+      }
+      logger.info(`Merchant ${id} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting merchant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fusionar comercios en uno: el destino hereda sus transacciones, alias y patrones,
+   * y los nombres de los fusionados pasan a ser alias del destino
+   */
+  async mergeMerchants(userId: string, targetId: string, sourceIds: string[]): Promise<Merchant> {
+    try {
+      const merged = await AppDataSource.transaction(async manager => {
+        const target = await manager.findOne(Merchant, { where: { id: targetId, userId } });
+        const sources = await manager.find(Merchant, { where: { id: In(sourceIds), userId } });
+        if (!target || sources.length !== new Set(sourceIds).size) {
+          throw new Error('Merchant not found');
+        }
+
+        target.aliases = this.uniqueTexts([
+          ...target.aliases,
+          ...sources.flatMap(source => [source.name, ...source.aliases])
+        ]).filter(alias => merchantKey(alias) !== merchantKey(target.name));
+        target.patterns = this.uniqueTexts([...target.patterns, ...sources.flatMap(source => source.patterns)]);
+        target.defaultCategory = target.defaultCategory || sources.find(source => source.defaultCategory)?.defaultCategory || null;
+        this.validate(target);
+
+        await manager.update(
+          Transaction,
+          { merchantId: In(sourceIds), userId },
+          { merchantId: target.id, merchant: target.name }
+        );
+        await manager.delete(Merchant, { id: In(sourceIds), userId });
+        return manager.save(target);
+      });
+
+      logger.info(`Merged ${sourceIds.length} merchants into ${targetId} for user ${userId}`);
+      return merged;
+    } catch (error) {
+      logger.error('Error merging merchants:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Crear un resolvedor con el directorio del usuario
+   * Busca primero el comercio indicado y luego la descripción; si se indicó un comercio
+   * que no está en el directorio, lo agrega con un nombre limpio (salvo con createMissing en false)
+   */
+  async createResolver(
+    userId: string,
+    { createMissing = true, manager = AppDataSource.manager }: { createMissing?: boolean; manager?: EntityManager } = {}
+  ): Promise<MerchantResolver> {
+    const merchants = await manager.find(Merchant, { where: { userId } });
+
+    return {
+      resolve: async (rawMerchant, description) => {
+        const raw = rawMerchant?.trim();
+        const match = (raw && findMatchingMerchant(raw, merchants)) || findMatchingMerchant(description, merchants);
+        if (match || !raw || !createMissing) {
+          return match;
+        }
+
+        const name = cleanMerchantName(raw);
+        if (!name) {
+          return null;
+        }
+
+        // orIgnore evita el error de clave única si otra petición creó el mismo comercio a la vez
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into(Merchant)
+          .values({ userId, name, aliases: [], patterns: [] })
+          .orIgnore()
+          .execute();
+        const created = await manager.findOneOrFail(Merchant, { where: { userId, name } });
+        merchants.push(created);
+        return created;
+      }
+    };
+  }
+
+  /**
+   * Resolver el comercio de una sola transacción
+   */
+  async resolveMerchant(
+    userId: string,
+    rawMerchant: string | null | undefined,
+    description: string,
+    createMissing = true
+  ): Promise<Merchant | null> {
+    const resolver = await this.createResolver(userId, { createMissing });
+    return resolver.resolve(rawMerchant, description);
+  }
+
+  private async findMerchant(userId: string, id: string): Promise<Merchant> {
+    const merchant = await this.merchantRepository.findOne({ where: { id, userId } });
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+    return merchant;
+  }
+
+  private async checkNameAvailable(userId: string, name: string, exceptId?: string): Promise<void> {
+    const existing = await this.merchantRepository.findOne({ where: { userId, name: name.trim() } });
+    if (existing && existing.id !== exceptId) {
+      throw new Error('A merchant with this name already exists');
+    }
+  }
+
+  private validate(merchant: Merchant): void {
+    const errors = merchant.validate();
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+  }
+
+  private uniqueTexts(values: string[]): string[] {
+    return [...new Set(values.map(value => value.trim()).filter(value => value.length > 0))];
+  }
+}
+
+export default MerchantService;
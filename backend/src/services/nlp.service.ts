@@ -1,76 +1,124 @@
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
 import logger from '../utils/logger';
+import { DEFAULT_CATEGORIES, FALLBACK_EXPENSE_CATEGORY, FALLBACK_INCOME_CATEGORY } from '../utils/categories';
+import { MatchableRule, findMatchingRule } from '../utils/rules';
+import { ClassifierState, predictWithClassifier, tokenizeForClassifier } from '../utils/classifier';
+import {
+  AI_BATCH_SIZE,
+  AICategorization,
+  MAX_AI_ATTEMPTS,
+  buildCategorizationPrompt,
+  categorizationCacheKey,
+  categorizationResponseSchema,
+  parseCategorizationResponse
+} from '../utils/llm';
+import { LLMMessage, LLMProvider, LLMResponseSchema, getDefaultLLMProvider } from './llm.service';
+import { CategorizationCacheService } from './categorization-cache.service';
+import { LLMUsageService } from './llm-usage.service';
 
 dotenv.config();
 
-interface CategorizationResult {
+export interface CategorizationResult {
   category: string;
   confidence: number;
   explanation?: string;
+  rule?: MatchableRule; // Rule that matched; its other actions are applied by CategorizationRuleService
+}
+
+// Comercio del directorio ya resuelto para la transacción (ver MerchantService)
+export interface CategorizationMerchant {
+  name: string;
+  defaultCategory?: string | null;
+}
+
+export interface CategorizationOptions {
+  categories?: string[]; // The user's category names (see CategoryService)
+  rules?: MatchableRule[]; // The user's enabled rules in priority order (see CategorizationRuleService)
+  classifier?: ClassifierState | null; // Model learned from the user's corrections (see ClassifierService)
+  userId?: string; // Enables the AI cache and the monthly token budget
+  amount?: number;
+  type?: 'income' | 'expense';
+}
+
+// Una transacción de un lote (ver categorizeBatch)
+export interface CategorizationItem {
+  description: string;
+  merchant?: CategorizationMerchant | null;
+  amount?: number;
+  type?: 'income' | 'expense';
+}
+
+// Resultado sin IA y si todavía conviene consultarla
+interface LocalCategorization {
+  result: CategorizationResult;
+  needsAI: boolean;
 }
 
 export class NLPCategorizationService {
-  private openai: OpenAI;
-  private readonly CATEGORIES = [
-    'Alimentos',
-    'Transporte', 
-    'Servicios',
-    'Entretenimiento',
-    'Educación',
-    'Salud',
-    'Vivienda',
-    'Ropa',
-    'Tecnología',
-    'Impuestos',
-    'Regalos',
-    'Otros'
-  ];
-
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
-    }
-    
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
+  // Categorías que se usan cuando no se indica la lista del usuario
+  private readonly CATEGORIES = DEFAULT_CATEGORIES
+    .filter(category => category.kind === 'expense')
+    .map(category => category.name);
+
+  private cacheService = new CategorizationCacheService();
+  private usageService = new LLMUsageService();
+
+  /**
+   * @param provider - LLM used when the keywords are not confident; without one only keywords are used
+   */
+  constructor(private readonly provider: LLMProvider | null = getDefaultLLMProvider()) {}
 
   /**
    * Categorize a transaction description using AI
+   * User rules run first, then a merchant with a default category, then the model learned from the
+   * user's corrections, and only then keywords and AI
+   * Results outside the user's categories fall back to 'Otros'; income only goes through the rules
+   * With a userId, AI answers are cached and only requested while the monthly token budget lasts
    */
-  async categorizeTransaction(description: string): Promise<CategorizationResult> {
+  async categorizeTransaction(
+    description: string,
+    merchant?: CategorizationMerchant | null,
+    { categories = this.CATEGORIES, rules = [], classifier = null, userId, amount, type = 'expense' }: CategorizationOptions = {}
+  ): Promise<CategorizationResult> {
+    let rule: MatchableRule | null = null;
     try {
       // Input validation
       if (!description || description.trim().length === 0) {
         throw new Error('Description cannot be empty');
       }
 
-      // Use local keyword matching as fallback or primary method
-      const localResult = this.categorizeWithKeywords(description);
-      
-      // If we have high confidence with keywords, use that
-      if (localResult.confidence > 0.8) {
-        return localResult;
+      rule = findMatchingRule(rules, { description, amount, type, merchant: merchant?.name });
+      if (rule?.actions.category) {
+        return {
+          category: rule.actions.category,
+          confidence: 1.0,
+          explanation: `Regla: ${rule.name}`,
+          rule
+        };
       }
 
-      // Otherwise, use AI for better categorization
-      const aiResult = await this.categorizeWithAI(description);
-      
-      // Return the result with higher confidence
-      return localResult.confidence > aiResult.confidence ? localResult : aiResult;
+      const { result: localResult, needsAI } = this.categorizeLocally(description, merchant, categories, classifier, type);
+      let result = localResult;
+      if (needsAI) {
+        const aiResult = await this.categorizeWithCachedAI(description, merchant?.name, categories, userId);
+        // Return the result with higher confidence
+        if (aiResult && aiResult.confidence >= localResult.confidence) {
+          result = aiResult;
+        }
+      }
+      return rule ? { ...result, rule } : result;
 
     } catch (error) {
       logger.error('Error in categorization:', error);
       
-      // Fallback to keyword matching if AI fails
+      // Fallback to keyword matching if AI fails, keeping the rule's other actions
       try {
-        return this.categorizeWithKeywords(description);
+        const fallback = type === 'income' ? this.incomeResult() : this.categorizeWithKeywords(description, categories);
+        return rule ? { ...fallback, rule } : fallback;
       } catch {
         // Final fallback
         return {
-          category: 'Otros',
+          category: FALLBACK_EXPENSE_CATEGORY,
           confidence: 0.5,
           explanation: 'Categoría predeterminada por error en el sistema'
         };
@@ -78,10 +126,199 @@ export class NLPCategorizationService {
     }
   }
 
+  /**
+   * Categorize many transactions at once (e.g. an imported statement)
+   * Same pipeline as categorizeTransaction, but the descriptions that still need AI are deduplicated,
+   * looked up in the cache and sent to the provider in groups of AI_BATCH_SIZE per request
+   * Results keep the order of the items
+   */
+  async categorizeBatch(
+    items: CategorizationItem[],
+    { categories = this.CATEGORIES, rules = [], classifier = null, userId }: Omit<CategorizationOptions, 'amount' | 'type'> = {}
+  ): Promise<CategorizationResult[]> {
+    const results: CategorizationResult[] = [];
+    const pending: Array<{ index: number; key: string; description: string }> = [];
+
+    items.forEach(({ description, merchant, amount, type = 'expense' }, index) => {
+      let rule: MatchableRule | null = null;
+      try {
+        if (!description || description.trim().length === 0) {
+          throw new Error('Description cannot be empty');
+        }
+
+        rule = findMatchingRule(rules, { description, amount, type, merchant: merchant?.name });
+        if (rule?.actions.category) {
+          results[index] = { category: rule.actions.category, confidence: 1.0, explanation: `Regla: ${rule.name}`, rule };
+          return;
+        }
+
+        const { result, needsAI } = this.categorizeLocally(description, merchant, categories, classifier, type);
+        results[index] = rule ? { ...result, rule } : result;
+        if (needsAI) {
+          pending.push({ index, key: categorizationCacheKey(description, merchant?.name), description });
+        }
+      } catch (error) {
+        logger.error('Error in categorization:', error);
+        const fallback = type === 'income' ? this.incomeResult() : this.categorizeWithKeywords(description || '', categories);
+        results[index] = rule ? { ...fallback, rule } : fallback;
+      }
+    });
+
+    if (pending.length === 0) {
+      return results;
+    }
+
+    try {
+      const aiResults = await this.categorizeManyWithAI(pending, categories, userId);
+      for (const { index, key } of pending) {
+        const aiResult = aiResults.get(key);
+        if (aiResult && aiResult.confidence >= results[index].confidence) {
+          const rule = results[index].rule;
+          results[index] = rule ? { ...aiResult, rule } : aiResult;
+        }
+      }
+    } catch (error) {
+      // Los resultados por palabras clave ya están cargados
+      logger.error('AI batch categorization failed:', error);
+    }
+    return results;
+  }
+
+  /**
+   * Merchant default category, then the user's classifier, then keywords
+   * AI is only worth asking when the keywords are not confident and a provider is configured
+   */
+  private categorizeLocally(
+    description: string,
+    merchant: CategorizationMerchant | null | undefined,
+    categories: string[],
+    classifier: ClassifierState | null,
+    type: 'income' | 'expense'
+  ): LocalCategorization {
+    if (type === 'income') {
+      return { result: this.incomeResult(), needsAI: false };
+    }
+
+    if (merchant?.defaultCategory) {
+      return {
+        result: {
+          category: merchant.defaultCategory,
+          confidence: 0.95,
+          explanation: `Categoría predeterminada del comercio ${merchant.name}`
+        },
+        needsAI: false
+      };
+    }
+
+    // The user's corrections win over the generic keywords; it only answers when it is confident
+    const learned = classifier && predictWithClassifier(classifier, tokenizeForClassifier(description, merchant?.name), categories);
+    if (learned) {
+      return {
+        result: {
+          ...learned,
+          explanation: 'Aprendido de tus correcciones'
+        },
+        needsAI: false
+      };
+    }
+
+    // Use local keyword matching as fallback or primary method
+    const localResult = this.categorizeWithKeywords(description, categories);
+
+    // If we have high confidence with keywords, or no AI provider is configured, use that
+    return { result: localResult, needsAI: localResult.confidence <= 0.8 && !!this.provider };
+  }
+
+  /**
+   * AI for a single description, going through the user's cache and monthly budget
+   * Returns null when the budget is exhausted
+   */
+  private async categorizeWithCachedAI(
+    description: string,
+    merchantName: string | undefined,
+    categories: string[],
+    userId?: string
+  ): Promise<AICategorization | null> {
+    if (!userId) {
+      return this.categorizeWithAI(description, categories);
+    }
+
+    const key = categorizationCacheKey(description, merchantName);
+    const cached = (await this.cacheService.getMany(userId, [key])).get(key);
+    // Una categoría que el usuario borró o renombró desde entonces ya no sirve
+    if (cached && categories.includes(cached.category)) {
+      return cached;
+    }
+
+    if (!(await this.usageService.hasBudget(userId))) {
+      logger.warn(`Monthly AI token budget exhausted for user ${userId}, using keywords`);
+      return null;
+    }
+
+    const result = await this.categorizeWithAI(description, categories, userId);
+    await this.cacheService.setMany(userId, [{ key, result }]);
+    return result;
+  }
+
+  /**
+   * AI for many descriptions: cache first, then one request per AI_BATCH_SIZE descriptions while the budget lasts
+   * A failed group is skipped; its descriptions keep the keyword result
+   */
+  private async categorizeManyWithAI(
+    entries: Array<{ key: string; description: string }>,
+    categories: string[],
+    userId?: string
+  ): Promise<Map<string, AICategorization>> {
+    const unique = [...new Map(entries.map(entry => [entry.key, entry])).values()];
+    const found = new Map<string, AICategorization>();
+
+    if (userId) {
+      const cached = await this.cacheService.getMany(userId, unique.map(entry => entry.key));
+      for (const [key, result] of cached) {
+        if (categories.includes(result.category)) {
+          found.set(key, result);
+        }
+      }
+    }
+
+    const misses = unique.filter(entry => !found.has(entry.key));
+    const fresh: Array<{ key: string; result: AICategorization }> = [];
+    for (let start = 0; start < misses.length; start += AI_BATCH_SIZE) {
+      if (userId && !(await this.usageService.hasBudget(userId))) {
+        logger.warn(`Monthly AI token budget exhausted for user ${userId}, using keywords`);
+        break;
+      }
+
+      const group = misses.slice(start, start + AI_BATCH_SIZE);
+      try {
+        const results = await this.requestBatch(group.map(entry => entry.description), categories, userId);
+        group.forEach((entry, index) => {
+          const result = results[index];
+          if (result) {
+            found.set(entry.key, result);
+            fresh.push({ key: entry.key, result });
+          }
+        });
+      } catch (error) {
+        logger.error('AI batch categorization failed:', error);
+      }
+    }
+
+    if (userId && fresh.length > 0) {
+      await this.cacheService.setMany(userId, fresh);
+    }
+    return found;
+  }
+
+
+  private incomeResult(): CategorizationResult {
+    return { category: FALLBACK_INCOME_CATEGORY, confidence: 1.0 };
+  }
+
   /**
    * Categorize using keyword matching (fallback method)
    */
-  private categorizeWithKeywords(description: string): CategorizationResult {
+  private categorizeWithKeywords(description: string, categories: string[]): CategorizationResult {
     const descLower = description.toLowerCase();
     const keywords: { [key: string]: { keywords: string[], confidence: number } } = {
       'Alimentos': {
@@ -130,10 +367,14 @@ export class NLPCategorizationService {
       }
     };
 
-    let bestMatch = 'Otros';
+    let bestMatch = FALLBACK_EXPENSE_CATEGORY;
     let highestConfidence = 0.3; // Default low confidence
 
     for (const [category, data] of Object.entries(keywords)) {
+      // Skip categories the user has deleted or renamed
+      if (!categories.includes(category)) {
+        continue;
+      }
       for (const keyword of data.keywords) {
         if (descLower.includes(keyword)) {
           if (data.confidence > highestConfidence) {
@@ -148,70 +389,80 @@ export class NLPCategorizationService {
     return {
       category: bestMatch,
       confidence: highestConfidence,
-      explanation: bestMatch === 'Otros' ? undefined : `Coincidencia por palabra clave: ${bestMatch}`
+      explanation: bestMatch === FALLBACK_EXPENSE_CATEGORY ? undefined : `Coincidencia por palabra clave: ${bestMatch}`
     };
   }
 
   /**
-   * Categorize using AI (OpenAI API)
+   * Categorize a single description using AI (the configured LLM provider)
    */
-  private async categorizeWithAI(description: string): Promise<CategorizationResult> {
+  private async categorizeWithAI(description: string, categories: string[], userId?: string): Promise<AICategorization> {
     try {
-      const prompt = `
-      Clasifica la siguiente descripción de gasto en una de estas categorías: ${this.CATEGORIES.join(', ')}.
-      
-      Descripción: "${description}"
-      
-      Responde en formato JSON con los siguientes campos:
-      - category: La categoría elegida
-      - confidence: Confianza de la clasificación (0.0 a 1.0)
-      - explanation: Breve explicación de por qué se eligió esa categoría
-      
-      Importante: Responde SOLO con el JSON, sin texto adicional.
-      `;
-
-      const response = await this.openai.chat.completions.create({
-        model: process.env.OPENAI_MODEL || 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'Eres un experto en clasificación de transacciones financieras. Debes responder siempre en español y solo con el JSON solicitado.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 150,
-        temperature: 0.1, // Low temperature for more consistent responses
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from AI');
+      const [result] = await this.requestBatch([description], categories, userId);
+      if (!result) {
+        throw new Error('AI returned no categorization');
       }
+      return result;
+    } catch (error) {
+      logger.error('AI categorization failed:', error);
+      throw error;
+    }
+  }
 
-      // Parse the JSON response
-      const result = JSON.parse(content.trim());
-      
-      // Validate the response
-      if (!this.CATEGORIES.includes(result.category)) {
-        result.category = 'Otros';
-      }
-      
-      if (result.confidence < 0 || result.confidence > 1) {
-        result.confidence = 0.7; // Default medium confidence
+  /**
+   * Categorize several descriptions with a single AI request
+   * The descriptions are sent as sanitized JSON data and the answer must match the response schema;
+   * an invalid answer is retried up to MAX_AI_ATTEMPTS times before giving up
+   */
+  private async requestBatch(
+    descriptions: string[],
+    categories: string[],
+    userId?: string
+  ): Promise<Array<AICategorization | null>> {
+    const prompt = buildCategorizationPrompt(descriptions, categories);
+    const messages: LLMMessage[] = [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.user }
+    ];
+    const responseSchema = { name: 'categorizations', schema: categorizationResponseSchema(categories) };
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= MAX_AI_ATTEMPTS; attempt++) {
+      const content = await this.complete(messages, 60 * descriptions.length + 50, userId, responseSchema);
+      try {
+        return parseCategorizationResponse(content, descriptions.length, categories);
+      } catch (error) {
+        lastError = error;
+        logger.warn(`Discarded AI response (attempt ${attempt} of ${MAX_AI_ATTEMPTS}): ${(error as Error).message}`);
       }
+    }
+    throw lastError;
+  }
 
-      return {
-        category: result.category,
-        confidence: result.confidence,
-        explanation: result.explanation
-      };
+  /**
+   * Send the request to the provider and record the tokens spent by the user
+   */
+  private async complete(
+    messages: LLMMessage[],
+    maxTokens: number,
+    userId?: string,
+    responseSchema?: LLMResponseSchema
+  ): Promise<string> {
+    if (!this.provider) {
+      throw new Error('No LLM provider configured');
+    }
 
-      } catch (error) {
-        logger.error('AI categorization failed:', error);
-      throw error;
+    const { content, usage } = await this.provider.complete({
+      messages,
+      maxTokens,
+      temperature: 0.1, // Low temperature for more consistent responses
+      responseSchema
+    });
+
+    // Los tokens se cobran aunque la respuesta no sirva
+    if (userId) {
+      await this.usageService.record(userId, usage);
     }
+    return content;
   }
-}
\ No newline at end of file
+}
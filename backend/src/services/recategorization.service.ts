@@ -0,0 +1,275 @@
+import { In, Not } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { AppDataSource } from '../config/database';
+import { Transaction } from '../models/Transaction';
+import { Merchant } from '../models/Merchant';
+import { RecategorizationJob } from '../models/RecategorizationJob';
+import { CategorizationMerchant, NLPCategorizationService } from './nlp.service';
+import { CategoryService } from './category.service';
+import { CategorizationRuleService } from './categorization-rule.service';
+import { ClassifierService } from './classifier.service';
+import { reviewConfidenceThreshold } from './categorization-review.service';
+import {
+  ACTIVE_RECATEGORIZATION_STATUSES,
+  MAX_RECATEGORIZATION_TRANSACTIONS,
+  RECATEGORIZATION_APPLY_BATCH_SIZE,
+  RECATEGORIZATION_PAGE_SIZE,
+  RecategorizationChange,
+  diffCategorizations
+} from '../utils/recategorization';
+import logger from '../utils/logger';
+
+export interface RecategorizationOptions {
+  startDate?: string;
+  endDate?: string;
+  lowConfidenceOnly?: boolean;
+  threshold?: number; // With lowConfidenceOnly; defaults to the review queue threshold
+}
+
+/**
+ * Trabajos que vuelven a categorizar el historial del usuario con sus categorías, reglas y clasificador actuales
+ * El trabajo corre en segundo plano y solo propone cambios; nada se modifica hasta que el usuario los confirma
+ * Las categorías que eligió el usuario no se recalculan; las de sus reglas sí, por si la regla cambió
+ */
+export class RecategorizationService {
+  private jobRepository = AppDataSource.getRepository(RecategorizationJob);
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+  private merchantRepository = AppDataSource.getRepository(Merchant);
+  private nlpService = new NLPCategorizationService();
+  private categoryService = new CategoryService();
+  private ruleService = new CategorizationRuleService();
+  private classifierService = new ClassifierService();
+
+  /**
+   * Crear el trabajo y empezar a procesarlo sin esperar a que termine
+   * Solo se conserva el último trabajo terminado de cada usuario
+   */
+  async start(userId: string, options: RecategorizationOptions = {}): Promise<ReturnType<RecategorizationJob['toJSON']>> {
+    try {
+      if (options.startDate && options.endDate && options.startDate > options.endDate) {
+        throw new Error('startDate must be on or before endDate');
+      }
+
+      const active = await this.jobRepository.count({
+        where: { userId, status: In(ACTIVE_RECATEGORIZATION_STATUSES) }
+      });
+      if (active > 0) {
+        throw new Error('A recategorization job is already running');
+      }
+
+      await this.jobRepository.delete({ userId, status: Not(In(ACTIVE_RECATEGORIZATION_STATUSES)) });
+      const job = await this.jobRepository.save(this.jobRepository.create({
+        userId,
+        status: 'pending',
+        startDate: options.startDate || null,
+        endDate: options.endDate || null,
+        maxConfidence: options.lowConfidenceOnly ? options.threshold ?? reviewConfidenceThreshold() : null,
+        changes: []
+      }));
+
+      // El progreso se consulta con getJob
+      void this.run(job.id);
+
+      logger.info(`Started recategorization job ${job.id} for user ${userId}`);
+      return job.toJSON();
+    } catch (error) {
+      logger.error('Error starting recategorization job:', error);
+      throw error;
+    }
+  }
+
+  async getJob(userId: string, id: string): Promise<ReturnType<RecategorizationJob['toJSON']>> {
+    const job = await this.jobRepository.findOne({ where: { id, userId } });
+    if (!job) {
+      throw new Error('Recategorization job not found');
+    }
+    return job.toJSON();
+  }
+
+  /**
+   * Último trabajo del usuario, para retomar su seguimiento
+   */
+  async getLatestJob(userId: string): Promise<ReturnType<RecategorizationJob['toJSON']> | null> {
+    const job = await this.jobRepository.findOne({ where: { userId }, order: { createdAt: 'DESC' } });
+    return job ? job.toJSON() : null;
+  }
+
+  /**
+   * Aplicar los cambios propuestos, todos o solo los de las transacciones indicadas
+   * Una transacción cuya categoría cambió desde la propuesta, o que se concilió, conserva la que tiene ahora
+   * Los cambios se aplican por lotes con un UPDATE ... FROM (VALUES ...) en lugar de uno por transacción
+   */
+  async apply(userId: string, id: string, transactionIds?: string[]): Promise<ReturnType<RecategorizationJob['toJSON']>> {
+    try {
+      const job = await AppDataSource.transaction(async manager => {
+        const job = await manager.findOne(RecategorizationJob, {
+          where: { id, userId },
+          lock: { mode: 'pessimistic_write' }
+        });
+        if (!job) {
+          throw new Error('Recategorization job not found');
+        }
+        if (job.status !== 'ready') {
+          throw new Error('Recategorization job is not ready');
+        }
+
+        const selected = transactionIds ? new Set(transactionIds) : null;
+        const changes = job.changes.filter(change => !selected || selected.has(change.transactionId));
+        let applied = 0;
+        for (let start = 0; start < changes.length; start += RECATEGORIZATION_APPLY_BATCH_SIZE) {
+          const batch = changes.slice(start, start + RECATEGORIZATION_APPLY_BATCH_SIZE);
+          const values = batch.map((_change, index) => {
+            const param = 2 + index * 5;
+            return `($${param}::uuid, $${param + 1}::varchar, $${param + 2}::varchar, $${param + 3}::float, $${param + 4}::varchar)`;
+          });
+          const [, affected] = await manager.query(
+            `UPDATE "transactions" t
+             SET "category" = v."toCategory", "confidence" = v."toConfidence", "categorySource" = v."toSource"
+             FROM (VALUES ${values.join(', ')}) AS v("id", "fromCategory", "toCategory", "toConfidence", "toSource")
+             WHERE t."id" = v."id" AND t."userId" = $1
+               AND t."category" IS NOT DISTINCT FROM v."fromCategory"
+               AND t."categorySource" IS DISTINCT FROM 'user'
+               AND t."status" != 'reconciled'`,
+            [userId, ...batch.flatMap(change => [
+              change.transactionId, change.fromCategory, change.toCategory, change.toConfidence, change.toSource || 'auto'
+            ])]
+          );
+          applied += affected || 0;
+        }
+
+        job.status = 'applied';
+        job.applied = applied;
+        return manager.save(job);
+      });
+
+      logger.info(`Applied ${job.applied} recategorization changes for user ${userId}`);
+      return job.toJSON();
+    } catch (error) {
+      logger.error('Error applying recategorization job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Descartar el trabajo; si está en curso se detiene al terminar la página actual
+   */
+  async discard(userId: string, id: string): Promise<void> {
+    const result = await this.jobRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new Error('Recategorization job not found');
+    }
+  }
+
+  /**
+   * Los trabajos en curso se pierden al reiniciar el servidor; se marcan como fallidos al arrancar
+   */
+  async failInterrupted(): Promise<number> {
+    const result = await this.jobRepository.update(
+      { status: In(ACTIVE_RECATEGORIZATION_STATUSES) },
+      { status: 'failed', error: 'Interrupted by a server restart' }
+    );
+    return result.affected || 0;
+  }
+
+  /**
+   * Recorrer las transacciones del trabajo por páginas, categorizarlas por lotes y guardar el diff
+   */
+  private async run(jobId: string): Promise<void> {
+    try {
+      const job = await this.jobRepository.findOne({ where: { id: jobId } });
+      if (!job || job.status !== 'pending') {
+        return;
+      }
+
+      const total = Math.min(await this.candidateQuery(job).getCount(), MAX_RECATEGORIZATION_TRANSACTIONS);
+      await this.jobRepository.update({ id: job.id }, { status: 'running', total });
+
+      const [categories, rules, classifier] = await Promise.all([
+        this.categoryService.getCategoryNames(job.userId, 'expense'),
+        this.ruleService.getActiveRules(job.userId),
+        this.classifierService.getModel(job.userId)
+      ]);
+
+      const changes: RecategorizationChange[] = [];
+      for (let offset = 0; offset < total; offset += RECATEGORIZATION_PAGE_SIZE) {
+        const transactions = await this.candidateQuery(job)
+          .orderBy('t.date', 'DESC')
+          .addOrderBy('t.id', 'ASC')
+          .offset(offset)
+          .limit(Math.min(RECATEGORIZATION_PAGE_SIZE, total - offset))
+          .getMany();
+        if (transactions.length === 0) {
+          break;
+        }
+
+        const merchants = await this.loadMerchants(job.userId, transactions);
+        const results = await this.nlpService.categorizeBatch(transactions.map(transaction => ({
+          description: transaction.description,
+          merchant: (transaction.merchantId && merchants.get(transaction.merchantId))
+            || (transaction.merchant ? { name: transaction.merchant } : null),
+          amount: Number(transaction.amount),
+          type: 'expense' as const
+        })), { categories, rules, classifier, userId: job.userId });
+        changes.push(...diffCategorizations(transactions, results));
+
+        // Si el usuario descartó el trabajo, la actualización no encuentra la fila
+        const progress = await this.jobRepository.update(
+          { id: job.id, status: 'running' },
+          { processed: offset + transactions.length }
+        );
+        if (!progress.affected) {
+          logger.info(`Recategorization job ${job.id} was discarded while running`);
+          return;
+        }
+      }
+
+      await this.jobRepository.update(
+        { id: job.id, status: 'running' },
+        { status: 'ready', processed: total, changes } as QueryDeepPartialEntity<RecategorizationJob>
+      );
+      logger.info(`Recategorization job ${job.id} proposed ${changes.length} changes`);
+    } catch (error) {
+      logger.error(`Recategorization job ${jobId} failed:`, error);
+      await this.jobRepository.update({ id: jobId }, { status: 'failed', error: 'Recategorization failed' })
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Gastos con categoría automática o de una regla dentro de los filtros del trabajo
+   * Las elegidas por el usuario, las divididas (cada línea tiene su categoría) y las conciliadas no se tocan
+   */
+  private candidateQuery(job: RecategorizationJob) {
+    const query = this.transactionRepository
+      .createQueryBuilder('t')
+      .leftJoin('t.splits', 's')
+      .where('t.userId = :userId', { userId: job.userId })
+      .andWhere("t.type = 'expense'")
+      .andWhere("t.status != 'reconciled'")
+      .andWhere('s.id IS NULL')
+      .andWhere("(t.categorySource IS NULL OR t.categorySource != 'user')");
+
+    if (job.maxConfidence !== null && job.maxConfidence !== undefined) {
+      query.andWhere('(t.confidence IS NULL OR t.confidence < :maxConfidence)', { maxConfidence: job.maxConfidence });
+    }
+
+    if (job.startDate) {
+      query.andWhere('t.date >= :startDate', { startDate: job.startDate });
+    }
+    if (job.endDate) {
+      query.andWhere('t.date <= :endDate', { endDate: job.endDate });
+    }
+    return query;
+  }
+
+  private async loadMerchants(userId: string, transactions: Transaction[]): Promise<Map<string, CategorizationMerchant>> {
+    const ids = [...new Set(transactions.map(transaction => transaction.merchantId).filter((id): id is string => !!id))];
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const merchants = await this.merchantRepository.find({ where: { id: In(ids), userId } });
+    return new Map(merchants.map(merchant => [merchant.id, { name: merchant.name, defaultCategory: merchant.defaultCategory }]));
+  }
+}
+
+export default RecategorizationService;
@@ -0,0 +1,249 @@
+import { EntityManager, In, IsNull, LessThanOrEqual, Not } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Account } from '../models/Account';
+import { Reconciliation } from '../models/Reconciliation';
+import { Transaction } from '../models/Transaction';
+import { signedAmountSql } from '../utils/transfers';
+import { convertedAmountSql } from '../utils/currency';
+import { ReconciliationSummary, summarizeReconciliation } from '../utils/reconciliation';
+import logger from '../utils/logger';
+
+export interface StartReconciliationDTO {
+  accountId: string;
+  statementDate: string;
+  closingBalance: number;
+}
+
+export interface ReconciliationDetail {
+  reconciliation: ReturnType<Reconciliation['toJSON']>;
+  summary: ReconciliationSummary;
+  transactions: ReturnType<Transaction['toJSON']>[];
+}
+
+// Suma con signo en la moneda de la cuenta, igual que el saldo de AccountService
+const SIGNED_AMOUNT = convertedAmountSql(signedAmountSql('t'), 't', ':accountCurrency');
+
+/**
+ * Servicio de conciliación de cuentas contra el extracto bancario
+ * El usuario abre una sesión con la fecha y el saldo de cierre del extracto, marca las transacciones
+ * que aparecen en él y, cuando la diferencia es cero, la sesión las bloquea como conciliadas
+ */
+export class ReconciliationService {
+  private reconciliationRepository = AppDataSource.getRepository(Reconciliation);
+
+  /**
+   * Abrir una sesión de conciliación para una cuenta
+   */
+  async startReconciliation(userId: string, data: StartReconciliationDTO): Promise<ReconciliationDetail> {
+    try {
+      const account = await AppDataSource.getRepository(Account).findOne({ where: { id: data.accountId, userId } });
+      if (!account) {
+        throw new Error('Account not found');
+      }
+
+      const inProgress = await this.reconciliationRepository.findOne({
+        where: { userId, accountId: account.id, status: 'in_progress' }
+      });
+      if (inProgress) {
+        throw new Error('A reconciliation is already in progress for this account');
+      }
+
+      const lastCompleted = await this.reconciliationRepository.findOne({
+        where: { userId, accountId: account.id, status: 'completed' },
+        order: { statementDate: 'DESC' }
+      });
+      if (lastCompleted && data.statementDate < lastCompleted.statementDate) {
+        throw new Error('Statement date must not be before the last reconciled statement');
+      }
+
+      const reconciliation = new Reconciliation();
+      reconciliation.userId = userId;
+      reconciliation.accountId = account.id;
+      reconciliation.statementDate = data.statementDate;
+      reconciliation.closingBalance = data.closingBalance;
+      reconciliation.status = 'in_progress';
+      const saved = await this.reconciliationRepository.save(reconciliation);
+
+      logger.info(`Reconciliation ${saved.id} started for account ${account.id}`);
+      return this.getReconciliation(userId, saved.id);
+    } catch (error) {
+      logger.error('Error starting reconciliation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Historial de conciliaciones del usuario, las más recientes primero
+   */
+  async getReconciliations(userId: string, accountId?: string): Promise<ReturnType<Reconciliation['toJSON']>[]> {
+    try {
+      const reconciliations = await this.reconciliationRepository.find({
+        where: accountId ? { userId, accountId } : { userId },
+        order: { statementDate: 'DESC', createdAt: 'DESC' }
+      });
+      return reconciliations.map(reconciliation => reconciliation.toJSON());
+    } catch (error) {
+      logger.error('Error getting reconciliations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Detalle de una sesión: sus saldos y las transacciones a marcar
+   * En curso muestra lo no conciliado hasta la fecha del extracto; completada, lo que concilió
+   */
+  async getReconciliation(userId: string, id: string): Promise<ReconciliationDetail> {
+    try {
+      const reconciliation = await this.findReconciliation(userId, id);
+      const transactions = await AppDataSource.getRepository(Transaction).find({
+        where: reconciliation.status === 'completed'
+          ? { userId, reconciliationId: reconciliation.id }
+          : {
+            userId,
+            accountId: reconciliation.accountId,
+            status: Not('reconciled'),
+            date: LessThanOrEqual(reconciliation.statementDate)
+          },
+        order: { date: 'ASC', createdAt: 'ASC' }
+      });
+
+      return {
+        reconciliation: reconciliation.toJSON(),
+        summary: await this.summarize(AppDataSource.manager, reconciliation),
+        transactions: transactions.map(transaction => transaction.toJSON())
+      };
+    } catch (error) {
+      logger.error('Error getting reconciliation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marcar o desmarcar transacciones como vistas en el extracto
+   * @returns Saldos actualizados de la sesión
+   */
+  async setCleared(userId: string, id: string, transactionIds: string[], cleared: boolean): Promise<ReconciliationSummary> {
+    try {
+      return await AppDataSource.transaction(async manager => {
+        const reconciliation = await this.findInProgress(manager, userId, id);
+
+        const result = await manager.update(
+          Transaction,
+          {
+            id: In(transactionIds),
+            userId,
+            accountId: reconciliation.accountId,
+            status: Not('reconciled'),
+            date: LessThanOrEqual(reconciliation.statementDate),
+            deletedAt: IsNull() // update no excluye la papelera por sí solo
+          },
+          { status: cleared ? 'cleared' : 'pending' }
+        );
+        // Alguna no es de la cuenta, ya está conciliada o es posterior al extracto
+        if (result.affected !== new Set(transactionIds).size) {
+          throw new Error('Transaction not found');
+        }
+
+        return this.summarize(manager, reconciliation);
+      });
+    } catch (error) {
+      logger.error('Error updating cleared transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cerrar la sesión: las transacciones marcadas pasan a conciliadas y quedan bloqueadas
+   * Solo es posible cuando el saldo marcado coincide con el saldo de cierre del extracto
+   */
+  async completeReconciliation(userId: string, id: string): Promise<ReconciliationDetail> {
+    try {
+      await AppDataSource.transaction(async manager => {
+        const reconciliation = await this.findInProgress(manager, userId, id);
+
+        const summary = await this.summarize(manager, reconciliation);
+        if (summary.difference !== 0) {
+          throw new Error('Reconciliation is not balanced');
+        }
+
+        await manager.update(
+          Transaction,
+          {
+            userId,
+            accountId: reconciliation.accountId,
+            status: 'cleared',
+            date: LessThanOrEqual(reconciliation.statementDate),
+            deletedAt: IsNull()
+          },
+          { status: 'reconciled', reconciliationId: reconciliation.id }
+        );
+
+        reconciliation.status = 'completed';
+        reconciliation.completedAt = new Date();
+        await manager.save(reconciliation);
+      });
+
+      logger.info(`Reconciliation ${id} completed for user ${userId}`);
+      return this.getReconciliation(userId, id);
+    } catch (error) {
+      logger.error('Error completing reconciliation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Descartar una sesión en curso; las transacciones marcadas siguen marcadas
+   */
+  async cancelReconciliation(userId: string, id: string): Promise<void> {
+    try {
+      const reconciliation = await this.findInProgress(AppDataSource.manager, userId, id);
+      await this.reconciliationRepository.delete({ id: reconciliation.id, userId });
+      logger.info(`Reconciliation ${id} cancelled for user ${userId}`);
+    } catch (error) {
+      logger.error('Error cancelling reconciliation:', error);
+      throw error;
+    }
+  }
+
+  private async findReconciliation(userId: string, id: string, manager: EntityManager = AppDataSource.manager): Promise<Reconciliation> {
+    const reconciliation = await manager.findOne(Reconciliation, { where: { id, userId } });
+    if (!reconciliation) {
+      throw new Error('Reconciliation not found');
+    }
+    return reconciliation;
+  }
+
+  private async findInProgress(manager: EntityManager, userId: string, id: string): Promise<Reconciliation> {
+    const reconciliation = await this.findReconciliation(userId, id, manager);
+    if (reconciliation.status !== 'in_progress') {
+      throw new Error('Reconciliation is already completed');
+    }
+    return reconciliation;
+  }
+
+  private async summarize(manager: EntityManager, reconciliation: Reconciliation): Promise<ReconciliationSummary> {
+    const account = await manager.findOneOrFail(Account, { where: { id: reconciliation.accountId } });
+    const totals = await manager.getRepository(Transaction)
+      .createQueryBuilder('t')
+      .select(`COALESCE(SUM(CASE WHEN t.status = 'reconciled' THEN ${SIGNED_AMOUNT} ELSE 0 END), 0)`, 'reconciled')
+      .addSelect(
+        `COALESCE(SUM(CASE WHEN t.status = 'cleared' AND t.date <= :statementDate THEN ${SIGNED_AMOUNT} ELSE 0 END), 0)`,
+        'cleared'
+      )
+      .where('t.accountId = :accountId', {
+        accountId: account.id,
+        accountCurrency: account.currency,
+        statementDate: reconciliation.statementDate
+      })
+      .getRawOne<{ reconciled: string; cleared: string }>();
+
+    return summarizeReconciliation({
+      accountOpeningBalance: Number(account.openingBalance),
+      reconciledMovement: parseFloat(totals?.reconciled || '0'),
+      clearedMovement: parseFloat(totals?.cleared || '0'),
+      closingBalance: Number(reconciliation.closingBalance)
+    });
+  }
+}
+
+export default ReconciliationService;
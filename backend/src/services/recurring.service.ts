@@ -0,0 +1,361 @@
+import { AppDataSource } from '../config/database';
+import { RecurringTransaction } from '../models/RecurringTransaction';
+import { Transaction } from '../models/Transaction';
+import { Account } from '../models/Account';
+import { NLPCategorizationService } from './nlp.service';
+import { AccountService } from './account.service';
+import { CategoryService } from './category.service';
+import { CategorizationRuleService } from './categorization-rule.service';
+import { ClassifierService } from './classifier.service';
+import { RecurrenceFrequency, getFirstOccurrence, getNextOccurrence } from '../utils/recurrence';
+import logger from '../utils/logger';
+
+// Límite de ocurrencias a generar por regla en una sola ejecución (evita bucles con fechas muy antiguas)
+const MAX_OCCURRENCES_PER_RUN = 400;
+
+export interface RecurrenceDTO {
+  frequency: RecurrenceFrequency;
+  cronExpression?: string;
+  endDate?: string;
+}
+
+export interface RecurringTransactionDTO extends RecurrenceDTO {
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  category?: string;
+  merchant?: string;
+  accountId?: string;
+  startDate: string;
+}
+
+export interface UpdateRecurringTransactionDTO extends Partial<RecurringTransactionDTO> {
+  active?: boolean;
+}
+
+export type RecurringTransactionResponse = ReturnType<RecurringTransaction['toJSON']>;
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Servicio de transacciones recurrentes
+ * Gestiona las plantillas y genera las transacciones reales cuando vencen
+ */
+export class RecurringTransactionService {
+  private recurringRepository = AppDataSource.getRepository(RecurringTransaction);
+  private nlpService = new NLPCategorizationService();
+  private accountService = new AccountService();
+  private categoryService = new CategoryService();
+  private ruleService = new CategorizationRuleService();
+  private classifierService = new ClassifierService();
+
+  /**
+   * Crear una regla recurrente a partir de una plantilla
+   * @param userId - ID del usuario
+   * @param data - Plantilla y frecuencia de la transacción
+   */
+  async createRecurringTransaction(userId: string, data: RecurringTransactionDTO): Promise<RecurringTransactionResponse> {
+    try {
+      const recurring = this.buildRule(userId, data);
+      if (data.accountId) {
+        recurring.accountId = (await this.accountService.resolveAccount(userId, data.accountId)).id;
+      }
+      recurring.category = data.category || await this.categorize(userId, data.description, data.type, data.amount);
+      recurring.nextRunDate = getFirstOccurrence(recurring);
+      recurring.active = !recurring.endDate || recurring.nextRunDate <= recurring.endDate;
+
+      const saved = await this.recurringRepository.save(recurring);
+      logger.info(`Recurring transaction ${saved.id} created for user ${userId}`);
+
+      return saved.toJSON();
+    } catch (error) {
+      logger.error('Error creating recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Guardar una transacción y marcarla como primera ocurrencia de una nueva regla
+   * @param transaction - Transacción ya validada y categorizada
+   * @param recurrence - Frecuencia y fecha de fin de la regla
+   */
+  async createFromTransaction(transaction: Transaction, recurrence: RecurrenceDTO): Promise<Transaction> {
+    try {
+      if (transaction.type === 'transfer') {
+        throw new Error('Transfers cannot be recurring');
+      }
+
+      const recurring = this.buildRule(transaction.userId, {
+        description: transaction.description,
+        amount: transaction.amount,
+        type: transaction.type,
+        category: transaction.category,
+        merchant: transaction.merchant,
+        accountId: transaction.accountId,
+        startDate: transaction.date || today(),
+        ...recurrence
+      });
+      recurring.nextRunDate = getNextOccurrence(recurring, recurring.startDate);
+      recurring.lastRunDate = recurring.startDate;
+      recurring.active = !recurring.endDate || recurring.nextRunDate <= recurring.endDate;
+
+      return await AppDataSource.transaction(async manager => {
+        const savedRule = await manager.save(RecurringTransaction, recurring);
+        transaction.recurringTransactionId = savedRule.id;
+        const saved = await manager.save(Transaction, transaction);
+        logger.info(`Recurring transaction ${savedRule.id} created from transaction ${saved.id}`);
+        return saved;
+      });
+    } catch (error) {
+      logger.error('Error creating recurring transaction from transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener todas las reglas recurrentes del usuario
+   */
+  async getRecurringTransactions(userId: string): Promise<RecurringTransactionResponse[]> {
+    try {
+      const recurring = await this.recurringRepository.find({
+        where: { userId },
+        order: { nextRunDate: 'ASC' }
+      });
+
+      return recurring.map(r => r.toJSON());
+    } catch (error) {
+      logger.error('Error getting recurring transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar una regla recurrente
+   * Si cambia la programación se recalcula la próxima ejecución
+   */
+  async updateRecurringTransaction(userId: string, recurringId: string, data: UpdateRecurringTransactionDTO): Promise<RecurringTransactionResponse> {
+    try {
+      const recurring = await this.recurringRepository.findOne({
+        where: { id: recurringId, userId }
+      });
+
+      if (!recurring) {
+        throw new Error('Recurring transaction not found');
+      }
+
+      if (data.description !== undefined) {
+        recurring.description = data.description;
+      }
+      if (data.amount !== undefined) {
+        recurring.amount = data.amount;
+      }
+      if (data.type !== undefined) {
+        recurring.type = data.type;
+      }
+      if (data.category !== undefined) {
+        recurring.category = data.category;
+      }
+      if (data.merchant !== undefined) {
+        recurring.merchant = data.merchant;
+      }
+      if (data.endDate !== undefined) {
+        recurring.endDate = data.endDate;
+      }
+      if (data.accountId !== undefined) {
+        recurring.accountId = (await this.accountService.resolveAccount(userId, data.accountId)).id;
+      }
+
+      const scheduleChanged = data.frequency !== undefined || data.cronExpression !== undefined || data.startDate !== undefined;
+      if (data.frequency !== undefined) {
+        recurring.frequency = data.frequency;
+      }
+      if (data.cronExpression !== undefined) {
+        recurring.cronExpression = data.cronExpression;
+      }
+      if (data.startDate !== undefined) {
+        recurring.startDate = data.startDate;
+      }
+
+      const validationErrors = recurring.validate();
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join(', '));
+      }
+
+      if (scheduleChanged) {
+        // No volver a generar ocurrencias ya materializadas
+        recurring.nextRunDate = recurring.lastRunDate && recurring.lastRunDate >= recurring.startDate
+          ? getNextOccurrence(recurring, recurring.lastRunDate)
+          : getFirstOccurrence(recurring);
+      }
+
+      if (data.active !== undefined) {
+        recurring.active = data.active;
+      }
+      if (recurring.endDate && recurring.nextRunDate > recurring.endDate) {
+        recurring.active = false;
+      }
+
+      const updated = await this.recurringRepository.save(recurring);
+      logger.info(`Recurring transaction ${recurringId} updated for user ${userId}`);
+
+      return updated.toJSON();
+    } catch (error) {
+      logger.error('Error updating recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar una regla recurrente (las transacciones ya generadas se conservan)
+   */
+  async deleteRecurringTransaction(userId: string, recurringId: string): Promise<void> {
+    try {
+      const result = await this.recurringRepository.delete({
+        id: recurringId,
+        userId
+      });
+
+      if (result.affected === 0) {
+        throw new Error('Recurring transaction not found');
+      }
+
+      logger.info(`Recurring transaction ${recurringId} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting recurring transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generar las transacciones vencidas de todas las reglas activas
+   * Cada regla se procesa con bloqueo de fila, por lo que es seguro ejecutarlo en varias instancias
+   * @param runDate - Fecha hasta la que se generan ocurrencias (por defecto hoy)
+   * @returns Número de transacciones creadas
+   */
+  async processDueTransactions(runDate: string = today()): Promise<number> {
+    const due = await this.recurringRepository
+      .createQueryBuilder('r')
+      .select('r.id', 'id')
+      .where('r.active = true')
+      .andWhere('r.nextRunDate <= :runDate', { runDate })
+      .getRawMany<{ id: string }>();
+
+    let created = 0;
+    for (const { id } of due) {
+      try {
+        created += await this.materialize(id, runDate);
+      } catch (error) {
+        logger.error(`Error generating transactions for recurring rule ${id}:`, error);
+      }
+    }
+
+    if (created > 0) {
+      logger.info(`Generated ${created} recurring transactions`);
+    }
+    return created;
+  }
+
+  private async materialize(recurringId: string, runDate: string): Promise<number> {
+    return AppDataSource.transaction(async manager => {
+      const recurring = await manager.findOne(RecurringTransaction, {
+        where: { id: recurringId },
+        lock: { mode: 'pessimistic_write' }
+      });
+
+      // Otra instancia pudo haberla procesado mientras esperábamos el bloqueo
+      if (!recurring || !recurring.active || recurring.nextRunDate > runDate) {
+        return 0;
+      }
+
+      const account = await this.accountService.resolveAccount(recurring.userId, recurring.accountId, manager);
+      const transactions: Transaction[] = [];
+      while (
+        recurring.nextRunDate <= runDate &&
+        (!recurring.endDate || recurring.nextRunDate <= recurring.endDate) &&
+        transactions.length < MAX_OCCURRENCES_PER_RUN
+      ) {
+        transactions.push(this.buildOccurrence(recurring, recurring.nextRunDate, account));
+        recurring.lastRunDate = recurring.nextRunDate;
+        recurring.nextRunDate = getNextOccurrence(recurring, recurring.nextRunDate);
+      }
+
+      if (recurring.endDate && recurring.nextRunDate > recurring.endDate) {
+        recurring.active = false;
+      }
+
+      if (transactions.length > 0) {
+        // El índice único (recurringTransactionId, date) descarta ocurrencias ya generadas
+        await manager
+          .createQueryBuilder()
+          .insert()
+          .into(Transaction)
+          .values(transactions)
+          .orIgnore()
+          .execute();
+      }
+      await manager.save(RecurringTransaction, recurring);
+
+      return transactions.length;
+    });
+  }
+
+  private buildRule(userId: string, data: RecurringTransactionDTO): RecurringTransaction {
+    const recurring = new RecurringTransaction();
+    recurring.userId = userId;
+    recurring.description = data.description;
+    recurring.amount = data.amount;
+    recurring.type = data.type;
+    recurring.category = data.category;
+    recurring.merchant = data.merchant;
+    recurring.accountId = data.accountId;
+    recurring.frequency = data.frequency;
+    recurring.cronExpression = data.frequency === 'cron' ? data.cronExpression : undefined;
+    recurring.startDate = data.startDate;
+    recurring.endDate = data.endDate;
+
+    const validationErrors = recurring.validate();
+    if (validationErrors.length > 0) {
+      throw new Error(validationErrors.join(', '));
+    }
+
+    return recurring;
+  }
+
+  private buildOccurrence(recurring: RecurringTransaction, date: string, account: Account): Transaction {
+    const transaction = new Transaction();
+    transaction.description = recurring.description;
+    transaction.amount = recurring.amount;
+    transaction.type = recurring.type;
+    transaction.category = recurring.category;
+    transaction.confidence = 1.0;
+    transaction.categorySource = 'user';
+    transaction.merchant = recurring.merchant;
+    transaction.date = date;
+    transaction.userId = recurring.userId;
+    transaction.accountId = account.id;
+    transaction.currency = account.currency;
+    transaction.recurringTransactionId = recurring.id;
+    return transaction;
+  }
+
+  private async categorize(userId: string, description: string, type: 'income' | 'expense', amount: number): Promise<string> {
+    try {
+      const categorization = await this.nlpService.categorizeTransaction(description, null, {
+        categories: await this.categoryService.getCategoryNames(userId, 'expense'),
+        rules: await this.ruleService.getActiveRules(userId),
+        classifier: await this.classifierService.getModel(userId),
+        userId,
+        amount,
+        type
+      });
+      return categorization.category;
+    } catch (error) {
+      logger.error('Categorization failed for recurring transaction:', error);
+      return type === 'income' ? 'Ingresos' : 'Otros';
+    }
+  }
+}
+
+export default RecurringTransactionService;
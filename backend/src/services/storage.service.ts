@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import logger from '../utils/logger';
+
+/**
+ * Almacenamiento de archivos intercambiable (disco local o S3 compatible)
+ * Las claves son rutas relativas del tipo "<userId>/<uuid>.<ext>"
+ */
+export interface StorageDriver {
+  put(key: string, content: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Guarda los archivos en un directorio local (ATTACHMENTS_DIR)
+ */
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch {
+      throw new Error('Attachment file not found');
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Impide que una clave manipulada salga del directorio raíz
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Guarda los archivos en un bucket S3 o compatible (MinIO, R2, etc.)
+ */
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+
+  constructor(private readonly bucket: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+  }
+
+  async put(key: string, content: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: content,
+      ContentType: mimeType,
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!(response.Body instanceof Readable)) {
+        throw new Error('Attachment file not found');
+      }
+      return response.Body;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw new Error('Attachment file not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+let storageDriver: StorageDriver | null = null;
+
+/**
+ * Devuelve el driver configurado con ATTACHMENT_STORAGE ("local" por defecto o "s3")
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!storageDriver) {
+    if (process.env.ATTACHMENT_STORAGE === 's3') {
+      if (!process.env.S3_BUCKET) {
+        throw new Error('S3_BUCKET is required when ATTACHMENT_STORAGE is "s3"');
+      }
+      storageDriver = new S3StorageDriver(process.env.S3_BUCKET);
+      logger.info(`Attachments stored in S3 bucket ${process.env.S3_BUCKET}`);
+    } else {
+      const rootDir = process.env.ATTACHMENTS_DIR || path.join(process.cwd(), 'uploads', 'attachments');
+      storageDriver = new LocalStorageDriver(rootDir);
+      logger.info(`Attachments stored in ${rootDir}`);
+    }
+  }
+  return storageDriver;
+}
@@ -0,0 +1,97 @@
+import { EntityManager, In } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Tag } from '../models/Tag';
+import { normalizeTagNames } from '../utils/tags';
+import logger from '../utils/logger';
+
+export interface TagSummary {
+  id: string;
+  name: string;
+  usageCount: number;
+}
+
+/**
+ * Servicio de etiquetas libres de las transacciones
+ * Las etiquetas se crean al usarlas por primera vez y son únicas por usuario
+ */
+export class TagService {
+  private tagRepository = AppDataSource.getRepository(Tag);
+
+  /**
+   * Listar las etiquetas del usuario, las más usadas primero
+   * @param search - Prefijo para el autocompletado
+   */
+  async getTags(userId: string, search?: string, limit = 20): Promise<TagSummary[]> {
+    try {
+      const queryBuilder = this.tagRepository
+        .createQueryBuilder('tag')
+        .leftJoin('transaction_tags', 'tt', 'tt."tagId" = tag.id')
+        // Las transacciones en la papelera no cuentan como uso
+        .leftJoin('transactions', 'tx', 'tx.id = tt."transactionId" AND tx."deletedAt" IS NULL')
+        .select('tag.id', 'id')
+        .addSelect('tag.name', 'name')
+        .addSelect('COUNT(tx.id)', 'usageCount')
+        .where('tag.userId = :userId', { userId });
+
+      const prefix = search ? normalizeTagNames([search])[0] : undefined;
+      if (prefix) {
+        queryBuilder.andWhere("tag.name LIKE :prefix ESCAPE '\\'", {
+          prefix: `${prefix.replace(/[\\%_]/g, match => `\\${match}`)}%`
+        });
+      }
+
+      const rows = await queryBuilder
+        .groupBy('tag.id')
+        .addGroupBy('tag.name')
+        .orderBy('"usageCount"', 'DESC')
+        .addOrderBy('tag.name', 'ASC')
+        .limit(limit)
+        .getRawMany<{ id: string; name: string; usageCount: string }>();
+
+      return rows.map(row => ({ id: row.id, name: row.name, usageCount: Number(row.usageCount) }));
+    } catch (error) {
+      logger.error('Error getting tags:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener las entidades de las etiquetas indicadas, creando las que no existan
+   */
+  async resolveTags(userId: string, names: string[], manager: EntityManager = AppDataSource.manager): Promise<Tag[]> {
+    const normalized = normalizeTagNames(names);
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    // orIgnore evita el error de clave única si otra petición creó la misma etiqueta a la vez
+    await manager
+      .createQueryBuilder()
+      .insert()
+      .into(Tag)
+      .values(normalized.map(name => ({ name, userId })))
+      .orIgnore()
+      .execute();
+
+    return manager.find(Tag, { where: { userId, name: In(normalized) } });
+  }
+
+  /**
+   * Eliminar una etiqueta; se quita de todas las transacciones que la usaban
+   */
+  async deleteTag(userId: string, tagId: string): Promise<void> {
+    try {
+      const result = await this.tagRepository.delete({ id: tagId, userId });
+      if (!result.affected) {
+        throw new Error('Tag not found');
+      }
+
+      logger.info(`Tag ${tagId} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting tag:', error);
+      throw error;
+    }
+  }
+}
+
+export default TagService;
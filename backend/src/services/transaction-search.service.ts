@@ -0,0 +1,161 @@
+import { EntityManager, In, SelectQueryBuilder } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Transaction, TransactionType } from '../models/Transaction';
+import { TRANSACTION_SORT_COLUMNS, TransactionSortField, searchDocumentSql, searchQuerySql } from '../utils/search';
+import logger from '../utils/logger';
+
+export interface TransactionSearchFilters {
+  q?: string;
+  type?: TransactionType;
+  category?: string;
+  merchant?: string;
+  accountId?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  startDate?: string;
+  endDate?: string;
+  tags?: string[];
+  sortBy?: TransactionSortField;
+  sortOrder?: 'ASC' | 'DESC';
+  page?: number;
+  limit?: number;
+}
+
+export interface TransactionSearchResult {
+  transactions: Transaction[];
+  total: number;
+}
+
+/**
+ * Servicio de búsqueda y filtrado de transacciones
+ * Combina texto completo en español sobre descripción y comercio con filtros estructurados
+ */
+export class TransactionSearchService {
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+
+  /**
+   * Buscar transacciones del usuario con filtros, orden y paginación
+   * Sin texto ni orden explícito se mantienen las más recientes primero
+   */
+  async search(userId: string, filters: TransactionSearchFilters = {}): Promise<TransactionSearchResult> {
+    try {
+      const page = filters.page || 1;
+      const limit = filters.limit || 10;
+
+      const queryBuilder = this.createQuery(userId, filters);
+      const total = await queryBuilder.getCount();
+
+      // Primero se pagina por id sin joins, para que ni las divisiones ni las etiquetas
+      // multipliquen filas ni interfieran con el orden por expresiones como ts_rank
+      const idQuery = queryBuilder.clone().select('t.id', 'id');
+      this.applySort(idQuery, filters);
+      const rows = await idQuery
+        .offset((page - 1) * limit)
+        .limit(limit)
+        .getRawMany<{ id: string }>();
+
+      const ids = rows.map(row => row.id);
+      if (ids.length === 0) {
+        return { transactions: [], total };
+      }
+
+      const transactions = await this.transactionRepository.find({
+        where: { id: In(ids), userId },
+        relations: { splits: true, attachments: true, tags: true }
+      });
+
+      const position = new Map(ids.map((id, index) => [id, index]));
+      transactions.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+
+      return { transactions, total };
+    } catch (error) {
+      logger.error('Error searching transactions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Consulta (alias "t") con las transacciones del usuario que cumplen los filtros, sin orden ni paginación
+   * También la usan las operaciones masivas para seleccionar por filtro
+   */
+  createQuery(userId: string, filters: TransactionSearchFilters, manager: EntityManager = AppDataSource.manager): SelectQueryBuilder<Transaction> {
+    const queryBuilder = manager
+      .createQueryBuilder(Transaction, 't')
+      .where('t.userId = :userId', { userId });
+    this.applyFilters(queryBuilder, filters);
+    return queryBuilder;
+  }
+
+  private applyFilters(queryBuilder: SelectQueryBuilder<Transaction>, filters: TransactionSearchFilters): void {
+    if (filters.q) {
+      queryBuilder.andWhere(`${searchDocumentSql('t')} @@ ${searchQuerySql('q')}`, { q: filters.q });
+    }
+
+    if (filters.type) {
+      queryBuilder.andWhere('t.type = :type', { type: filters.type });
+    }
+
+    // Una transacción dividida coincide si alguna de sus líneas tiene la categoría
+    if (filters.category) {
+      queryBuilder.andWhere(`(t.category = :category OR EXISTS (
+        SELECT 1 FROM transaction_splits ts WHERE ts."transactionId" = t.id AND ts.category = :category
+      ))`, { category: filters.category });
+    }
+
+    if (filters.merchant) {
+      queryBuilder.andWhere('LOWER(t.merchant) = LOWER(:merchant)', { merchant: filters.merchant });
+    }
+
+    if (filters.accountId) {
+      queryBuilder.andWhere('t.accountId = :accountId', { accountId: filters.accountId });
+    }
+
+    if (filters.minAmount !== undefined) {
+      queryBuilder.andWhere('t.amount >= :minAmount', { minAmount: filters.minAmount });
+    }
+
+    if (filters.maxAmount !== undefined) {
+      queryBuilder.andWhere('t.amount <= :maxAmount', { maxAmount: filters.maxAmount });
+    }
+
+    if (filters.startDate) {
+      queryBuilder.andWhere('t.date >= :startDate', { startDate: filters.startDate });
+    }
+
+    if (filters.endDate) {
+      queryBuilder.andWhere('t.date <= :endDate', { endDate: filters.endDate });
+    }
+
+    // Etiquetas: solo las transacciones que tienen todas las indicadas
+    if (filters.tags && filters.tags.length > 0) {
+      queryBuilder.andWhere(`t.id IN (
+        SELECT tt."transactionId" FROM transaction_tags tt
+        INNER JOIN tags tg ON tg.id = tt."tagId"
+        WHERE tg.name IN (:...tagNames)
+        GROUP BY tt."transactionId"
+        HAVING COUNT(DISTINCT tg.id) = :tagCount
+      )`, { tagNames: filters.tags, tagCount: filters.tags.length });
+    }
+  }
+
+  private applySort(queryBuilder: SelectQueryBuilder<Transaction>, filters: TransactionSearchFilters): void {
+    const sortBy = filters.sortBy || (filters.q ? 'relevance' : 'createdAt');
+    const sortOrder = filters.sortOrder || 'DESC';
+
+    if (sortBy === 'relevance') {
+      if (filters.q) {
+        queryBuilder.orderBy(`ts_rank(${searchDocumentSql('t')}, ${searchQuerySql('q')})`, sortOrder);
+        queryBuilder.addOrderBy('t.createdAt', 'DESC');
+      } else {
+        queryBuilder.orderBy('t.createdAt', 'DESC');
+      }
+    } else {
+      queryBuilder.orderBy(`t.${TRANSACTION_SORT_COLUMNS[sortBy]}`, sortOrder, 'NULLS LAST');
+    }
+
+    // Desempate estable para que la paginación no repita ni salte filas
+    queryBuilder.addOrderBy('t.id', 'ASC');
+  }
+}
+
+export default TransactionSearchService;
@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import { EntityManager } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Account } from '../models/Account';
+import { Transaction } from '../models/Transaction';
+import { TRANSFER_CATEGORY, transferRate, validateTransferAccounts } from '../utils/transfers';
+import logger from '../utils/logger';
+
+export interface TransferDTO {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number; // Debited from the source account, in its currency
+  toAmount?: number; // Credited to the destination account, in its currency; required between currencies
+  date?: string;
+  description?: string;
+}
+
+export interface UpdateTransferDTO {
+  amount?: number;
+  toAmount?: number;
+  date?: string;
+  description?: string;
+}
+
+export interface TransferResponse {
+  transferId: string;
+  amount: number;
+  toAmount: number;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number; // Destination currency units per source currency unit
+  date: string;
+  fromAccountId: string;
+  toAccountId: string;
+  legs: {
+    out: ReturnType<Transaction['toJSON']>;
+    in: ReturnType<Transaction['toJSON']>;
+  };
+}
+
+/**
+ * Servicio de transferencias entre cuentas del mismo usuario
+ * Cada transferencia son dos movimientos de tipo "transfer" (salida y entrada) que se guardan juntos,
+ * por lo que no cuentan como ingreso ni gasto en las estadísticas
+ */
+export class TransferService {
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+
+  /**
+   * Crear una transferencia con sus dos movimientos en una única transacción de base de datos
+   */
+  async createTransfer(userId: string, data: TransferDTO): Promise<TransferResponse> {
+    try {
+      const transferId = randomUUID();
+      const date = data.date || new Date().toISOString().split('T')[0];
+
+      const legs = await AppDataSource.transaction(async manager => {
+        const from = await this.findTransferAccount(manager, userId, data.fromAccountId);
+        const to = await this.findTransferAccount(manager, userId, data.toAccountId);
+
+        const accountErrors = validateTransferAccounts(from, to, data);
+        if (accountErrors.length > 0) {
+          throw new Error(accountErrors.join(', '));
+        }
+
+        const outLeg = this.buildLeg(userId, transferId, from, 'out', data.amount, date,
+          data.description || `Transferencia a ${to.name}`);
+        const inLeg = this.buildLeg(userId, transferId, to, 'in', data.toAmount ?? data.amount, date,
+          data.description || `Transferencia desde ${from.name}`);
+
+        for (const leg of [outLeg, inLeg]) {
+          const validationErrors = leg.validate();
+          if (validationErrors.length > 0) {
+            throw new Error(validationErrors.join(', '));
+          }
+        }
+
+        return manager.save(Transaction, [outLeg, inLeg]);
+      });
+
+      logger.info(`Transfer ${transferId} created for user ${userId}`);
+      return this.toResponse(legs);
+    } catch (error) {
+      logger.error('Error creating transfer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar como transferencia un movimiento nuevo, todavía sin guardar (acción "marcar como transferencia" de las reglas)
+   * Un gasto pasa a ser la salida y un ingreso la entrada; la otra pata se crea en counterpartAccountId
+   * Las dos se guardan con el manager recibido, dentro de la transacción de base de datos de quien llama
+   * @returns Las dos patas guardadas, primero la del movimiento recibido
+   */
+  async saveAsTransfer(manager: EntityManager, transaction: Transaction, counterpartAccountId: string): Promise<Transaction[]> {
+    if (transaction.type === 'transfer') {
+      throw new Error('The transaction is already a transfer');
+    }
+    if (transaction.splits && transaction.splits.length > 0) {
+      throw new Error('Split transactions cannot be transfers');
+    }
+
+    const counterpart = await this.findTransferAccount(manager, transaction.userId, counterpartAccountId);
+    const accountErrors = validateTransferAccounts({ id: transaction.accountId, currency: transaction.currency }, counterpart);
+    if (accountErrors.length > 0) {
+      throw new Error(accountErrors.join(', '));
+    }
+
+    const direction = transaction.type === 'income' ? 'in' : 'out';
+    const transferId = randomUUID();
+    const otherLeg = this.buildLeg(transaction.userId, transferId, counterpart, direction === 'out' ? 'in' : 'out',
+      Number(transaction.amount), transaction.date || new Date().toISOString().split('T')[0], transaction.description);
+    otherLeg.categorySource = 'rule';
+
+    // Si algo falla el movimiento queda como estaba, para que quien llama pueda guardarlo igual sin una pata suelta
+    const original = {
+      type: transaction.type,
+      category: transaction.category,
+      confidence: transaction.confidence,
+      categorySource: transaction.categorySource
+    };
+    transaction.type = 'transfer';
+    transaction.transferId = transferId;
+    transaction.transferDirection = direction;
+    transaction.category = TRANSFER_CATEGORY;
+    transaction.confidence = 1.0;
+    transaction.categorySource = 'rule';
+
+    try {
+      const validationErrors = [...transaction.validate(), ...otherLeg.validate()];
+      if (validationErrors.length > 0) {
+        throw new Error(validationErrors.join(', '));
+      }
+
+      const legs = await manager.save(Transaction, [transaction, otherLeg]);
+      logger.info(`Transaction saved as transfer ${transferId} for user ${transaction.userId}`);
+      return legs;
+    } catch (error) {
+      Object.assign(transaction, original, { transferId: undefined, transferDirection: undefined });
+      throw error;
+    }
+  }
+
+  /**
+   * Obtener una transferencia con sus dos movimientos
+   */
+  async getTransfer(userId: string, transferId: string): Promise<TransferResponse> {
+    try {
+      return this.toResponse(await this.findLegs(userId, transferId));
+    } catch (error) {
+      logger.error('Error getting transfer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Actualizar montos, fecha o descripción de ambos movimientos a la vez
+   * Entre monedas distintas, si solo cambia el monto debitado el acreditado se recalcula con la tasa anterior
+   * Para cambiar las cuentas hay que eliminar la transferencia y crearla de nuevo
+   */
+  async updateTransfer(userId: string, transferId: string, data: UpdateTransferDTO): Promise<TransferResponse> {
+    try {
+      const legs = await this.findLegs(userId, transferId);
+      if (legs.some(leg => leg.status === 'reconciled')) {
+        throw new Error('Reconciled transactions cannot be edited');
+      }
+      const outLeg = legs.find(leg => leg.transferDirection === 'out');
+      const inLeg = legs.find(leg => leg.transferDirection === 'in');
+      if (!outLeg || !inLeg) {
+        throw new Error('Transfer not found');
+      }
+
+      const amount = data.amount ?? Number(outLeg.amount);
+      const accountErrors = validateTransferAccounts(
+        { id: outLeg.accountId, currency: outLeg.currency },
+        { id: inLeg.accountId, currency: inLeg.currency },
+        { amount, toAmount: data.toAmount ?? (outLeg.currency === inLeg.currency ? undefined : Number(inLeg.amount)) }
+      );
+      if (accountErrors.length > 0) {
+        throw new Error(accountErrors.join(', '));
+      }
+
+      if (outLeg.currency === inLeg.currency) {
+        inLeg.amount = amount;
+      } else if (data.toAmount !== undefined) {
+        inLeg.amount = data.toAmount;
+      } else if (data.amount !== undefined) {
+        const rate = Number(inLeg.amount) / Number(outLeg.amount);
+        inLeg.amount = Math.round(data.amount * rate * 100) / 100;
+      }
+      outLeg.amount = amount;
+
+      for (const leg of legs) {
+        if (data.date !== undefined) {
+          leg.date = data.date;
+        }
+        if (data.description !== undefined) {
+          leg.description = data.description;
+        }
+
+        const validationErrors = leg.validate();
+        if (validationErrors.length > 0) {
+          throw new Error(validationErrors.join(', '));
+        }
+      }
+
+      const updated = await AppDataSource.transaction(manager => manager.save(Transaction, legs));
+
+      logger.info(`Transfer ${transferId} updated for user ${userId}`);
+      return this.toResponse(updated);
+    } catch (error) {
+      logger.error('Error updating transfer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enviar a la papelera los dos movimientos de una transferencia
+   * No se borra si cualquiera de los dos está conciliado
+   * Los adjuntos se conservan hasta que TrashService la elimine definitivamente
+   */
+  async deleteTransfer(userId: string, transferId: string): Promise<void> {
+    try {
+      const legs = await this.findLegs(userId, transferId);
+      if (legs.some(leg => leg.status === 'reconciled')) {
+        throw new Error('Reconciled transactions cannot be deleted');
+      }
+
+      const result = await this.transactionRepository.softDelete({ transferId, userId });
+      if (!result.affected) {
+        throw new Error('Transfer not found');
+      }
+
+      logger.info(`Transfer ${transferId} deleted for user ${userId}`);
+    } catch (error) {
+      logger.error('Error deleting transfer:', error);
+      throw error;
+    }
+  }
+
+  private async findTransferAccount(manager: EntityManager, userId: string, accountId: string): Promise<Account> {
+    const account = await manager.findOne(Account, { where: { id: accountId, userId } });
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    if (account.archived) {
+      throw new Error('Archived accounts cannot receive new transactions');
+    }
+    return account;
+  }
+
+  private async findLegs(userId: string, transferId: string): Promise<Transaction[]> {
+    const legs = await this.transactionRepository.find({ where: { transferId, userId, type: 'transfer' } });
+    if (legs.length !== 2) {
+      throw new Error('Transfer not found');
+    }
+    return legs;
+  }
+
+  private buildLeg(
+    userId: string,
+    transferId: string,
+    account: Account,
+    direction: 'in' | 'out',
+    amount: number,
+    date: string,
+    description: string
+  ): Transaction {
+    const leg = new Transaction();
+    leg.userId = userId;
+    leg.accountId = account.id;
+    leg.currency = account.currency;
+    leg.type = 'transfer';
+    leg.transferId = transferId;
+    leg.transferDirection = direction;
+    leg.amount = amount;
+    leg.date = date;
+    leg.description = description;
+    leg.category = TRANSFER_CATEGORY;
+    leg.confidence = 1.0;
+    leg.categorySource = 'user';
+    return leg;
+  }
+
+  private toResponse(legs: Transaction[]): TransferResponse {
+    const outLeg = legs.find(leg => leg.transferDirection === 'out');
+    const inLeg = legs.find(leg => leg.transferDirection === 'in');
+    if (!outLeg || !inLeg || !outLeg.transferId) {
+      throw new Error('Transfer not found');
+    }
+
+    return {
+      transferId: outLeg.transferId,
+      amount: Number(outLeg.amount),
+      toAmount: Number(inLeg.amount),
+      fromCurrency: outLeg.currency,
+      toCurrency: inLeg.currency,
+      rate: transferRate(Number(outLeg.amount), Number(inLeg.amount)),
+      date: outLeg.toJSON().date,
+      fromAccountId: outLeg.accountId,
+      toAccountId: inLeg.accountId,
+      legs: {
+        out: outLeg.toJSON(),
+        in: inLeg.toJSON(),
+      },
+    };
+  }
+}
+
+export default TransferService;
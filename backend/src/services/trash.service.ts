@@ -0,0 +1,242 @@
+import { In, IsNull, LessThan, Not } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { Transaction } from '../models/Transaction';
+import { Goal } from '../models/Goal';
+import { Budget } from '../models/Budget';
+import { AttachmentService } from './attachment.service';
+import logger from '../utils/logger';
+
+export type TrashItemType = 'transactions' | 'goals' | 'budgets';
+
+export const TRASH_ITEM_TYPES: TrashItemType[] = ['transactions', 'goals', 'budgets'];
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Máximo de elementos por tipo en el listado de la papelera
+const TRASH_LISTING_LIMIT = 200;
+
+export interface TrashContents {
+  transactions: ReturnType<Transaction['toJSON']>[];
+  goals: ReturnType<Goal['toJSON']>[];
+  budgets: ReturnType<Budget['toJSON']>[];
+  retentionDays: number;
+}
+
+/**
+ * Días que un elemento permanece en la papelera antes de eliminarse definitivamente
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Servicio de la papelera: listar, restaurar y eliminar definitivamente
+ * transacciones, metas y presupuestos borrados con soft delete
+ */
+export class TrashService {
+  private transactionRepository = AppDataSource.getRepository(Transaction);
+  private goalRepository = AppDataSource.getRepository(Goal);
+  private budgetRepository = AppDataSource.getRepository(Budget);
+  private attachmentService = new AttachmentService();
+
+  /**
+   * Listar lo que hay en la papelera del usuario, lo más reciente primero
+   */
+  async getTrash(userId: string): Promise<TrashContents> {
+    try {
+      const options = { userId, deletedAt: Not(IsNull()) };
+      const [transactions, goals, budgets] = await Promise.all([
+        this.transactionRepository.find({
+          where: options,
+          withDeleted: true,
+          relations: { splits: true, tags: true },
+          order: { deletedAt: 'DESC' },
+          take: TRASH_LISTING_LIMIT
+        }),
+        this.goalRepository.find({ where: options, withDeleted: true, order: { deletedAt: 'DESC' }, take: TRASH_LISTING_LIMIT }),
+        this.budgetRepository.find({ where: options, withDeleted: true, order: { deletedAt: 'DESC' }, take: TRASH_LISTING_LIMIT })
+      ]);
+
+      return {
+        transactions: transactions.map(t => t.toJSON()),
+        goals: goals.map(g => g.toJSON()),
+        budgets: budgets.map(b => b.toJSON()),
+        retentionDays: getTrashRetentionDays()
+      };
+    } catch (error) {
+      logger.error('Error getting trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restaurar elementos de la papelera
+   * Restaurar una pata de una transferencia restaura también la otra
+   * @returns Número de elementos restaurados
+   */
+  async restore(userId: string, type: TrashItemType, ids: string[]): Promise<number> {
+    try {
+      let restored: number;
+      if (type === 'transactions') {
+        const allIds = await this.findTrashedTransactionIds(userId, ids);
+        await this.transactionRepository.restore({ id: In(allIds), userId });
+        restored = allIds.length;
+      } else if (type === 'goals') {
+        await this.findTrashed(this.goalRepository, userId, ids);
+        await this.goalRepository.restore({ id: In(ids), userId });
+        restored = ids.length;
+      } else {
+        const budgets = await this.findTrashed(this.budgetRepository, userId, ids);
+        await this.checkBudgetConflicts(userId, budgets);
+        await this.budgetRepository.restore({ id: In(ids), userId });
+        restored = ids.length;
+      }
+
+      logger.info(`Restored ${restored} ${type} from trash for user ${userId}`);
+      return restored;
+    } catch (error) {
+      logger.error('Error restoring from trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar definitivamente elementos que ya están en la papelera
+   * @returns Número de elementos eliminados
+   */
+  async purge(userId: string, type: TrashItemType, ids: string[]): Promise<number> {
+    try {
+      let purged: number;
+      if (type === 'transactions') {
+        purged = await this.purgeTransactions(userId, await this.findTrashedTransactionIds(userId, ids));
+      } else if (type === 'goals') {
+        await this.findTrashed(this.goalRepository, userId, ids);
+        purged = (await this.goalRepository.delete({ id: In(ids), userId })).affected || 0;
+      } else {
+        await this.findTrashed(this.budgetRepository, userId, ids);
+        purged = (await this.budgetRepository.delete({ id: In(ids), userId })).affected || 0;
+      }
+
+      logger.info(`Purged ${purged} ${type} from trash for user ${userId}`);
+      return purged;
+    } catch (error) {
+      logger.error('Error purging trash items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Vaciar la papelera del usuario
+   * @returns Número de elementos eliminados
+   */
+  async emptyTrash(userId: string): Promise<number> {
+    try {
+      const trashed = { userId, deletedAt: Not(IsNull()) };
+      const transactions = await this.transactionRepository.find({ where: trashed, withDeleted: true, select: { id: true } });
+
+      const purged = await this.purgeTransactions(userId, transactions.map(t => t.id)) +
+        ((await this.goalRepository.delete(trashed)).affected || 0) +
+        ((await this.budgetRepository.delete(trashed)).affected || 0);
+
+      logger.info(`Emptied trash (${purged} items) for user ${userId}`);
+      return purged;
+    } catch (error) {
+      logger.error('Error emptying trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Eliminar definitivamente, de todos los usuarios, lo que lleva más de N días en la papelera
+   * Lo ejecuta periódicamente el planificador de tareas
+   * @returns Número de elementos eliminados
+   */
+  async purgeExpired(retentionDays: number = getTrashRetentionDays()): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const expired = { deletedAt: LessThan(cutoff) };
+
+    const transactions = await this.transactionRepository.find({
+      where: expired,
+      withDeleted: true,
+      select: { id: true, userId: true }
+    });
+
+    // Los archivos adjuntos se borran por usuario, igual que al eliminar desde la papelera
+    const idsByUser = new Map<string, string[]>();
+    for (const transaction of transactions) {
+      idsByUser.set(transaction.userId, [...(idsByUser.get(transaction.userId) || []), transaction.id]);
+    }
+
+    let purged = 0;
+    for (const [userId, ids] of idsByUser) {
+      purged += await this.purgeTransactions(userId, ids);
+    }
+    purged += (await this.goalRepository.delete(expired)).affected || 0;
+    purged += (await this.budgetRepository.delete(expired)).affected || 0;
+
+    if (purged > 0) {
+      logger.info(`Purged ${purged} items older than ${retentionDays} days from trash`);
+    }
+    return purged;
+  }
+
+  private async purgeTransactions(userId: string, ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    // Las filas de adjuntos caen en cascada con la transacción, los archivos guardados no
+    await this.attachmentService.removeFilesForTransactions(userId, ids);
+    const result = await this.transactionRepository.delete({ id: In(ids), userId });
+    return result.affected || 0;
+  }
+
+  /**
+   * Ids de las transacciones indicadas que están en la papelera, más la otra pata de sus transferencias
+   */
+  private async findTrashedTransactionIds(userId: string, ids: string[]): Promise<string[]> {
+    const transactions = await this.findTrashed(this.transactionRepository, userId, ids);
+
+    const transferIds = [...new Set(transactions.map(t => t.transferId).filter((id): id is string => !!id))];
+    const otherLegs = transferIds.length > 0
+      ? await this.transactionRepository.find({
+        where: { userId, transferId: In(transferIds), deletedAt: Not(IsNull()) },
+        withDeleted: true,
+        select: { id: true }
+      })
+      : [];
+
+    return [...new Set([...transactions, ...otherLegs].map(t => t.id))];
+  }
+
+  private async findTrashed<T extends Transaction | Goal | Budget>(
+    repository: { find: (options: object) => Promise<T[]> },
+    userId: string,
+    ids: string[]
+  ): Promise<T[]> {
+    const items = await repository.find({
+      where: { id: In(ids), userId, deletedAt: Not(IsNull()) },
+      withDeleted: true
+    });
+
+    if (items.length !== new Set(ids).size) {
+      throw new Error('Item not found in trash');
+    }
+    return items;
+  }
+
+  // Restaurar un presupuesto no debe duplicar uno activo de la misma categoría y mes
+  private async checkBudgetConflicts(userId: string, budgets: Budget[]): Promise<void> {
+    for (const budget of budgets) {
+      const active = await this.budgetRepository.findOne({
+        where: { userId, category: budget.category, month: budget.month ? budget.month : IsNull() }
+      });
+      if (active) {
+        throw new Error('An active budget already exists for this category and month');
+      }
+    }
+  }
+}
+
+export default TrashService;
@@ -0,0 +1,48 @@
+/**
+ * Utilidades para validar comprobantes adjuntos
+ */
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+// Tipos admitidos y la extensión con la que se guardan
+export const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+};
+
+/**
+ * Detecta el tipo real del archivo por sus primeros bytes
+ * El Content-Type que envía el cliente no es confiable
+ */
+export function detectMimeType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (buffer.length >= 5 && buffer.toString('latin1', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+}
+
+/**
+ * Limpia el nombre original para guardarlo y usarlo en Content-Disposition
+ */
+export function sanitizeFileName(name: string): string {
+  const baseName = name.split(/[\\/]/).pop() || '';
+  const cleaned = baseName
+    .normalize('NFC')
+    .replace(/[\u0000-\u001f\u007f"<>|:*?]/g, '')
+    .trim()
+    .slice(-255);
+  return cleaned || 'comprobante';
+}
@@ -0,0 +1,87 @@
+/**
+ * Utilidades para las categorías de cada usuario
+ * Las transacciones, presupuestos y comercios guardan el nombre de la categoría; la tabla
+ * categories agrega la jerarquía (un solo nivel de subcategorías), el icono, el color y el tipo
+ */
+
+export type CategoryKind = 'income' | 'expense';
+
+export const CATEGORY_KINDS: CategoryKind[] = ['income', 'expense'];
+
+export const MAX_CATEGORY_NAME_LENGTH = 100;
+
+export const MAX_CATEGORIES_PER_USER = 200;
+
+export const CATEGORY_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Nombre de un icono de lucide-react, p. ej. "ShoppingCart"
+export const CATEGORY_ICON_PATTERN = /^[A-Z][A-Za-z0-9]{1,49}$/;
+
+// Categorías a las que el sistema recurre por su cuenta: no se pueden renombrar ni eliminar
+export const FALLBACK_EXPENSE_CATEGORY = 'Otros';
+export const FALLBACK_INCOME_CATEGORY = 'Ingresos';
+export const SYSTEM_CATEGORIES = [FALLBACK_EXPENSE_CATEGORY, FALLBACK_INCOME_CATEGORY];
+
+// Quién eligió la categoría de un movimiento: el usuario, una de sus reglas o el categorizador automático
+// La recategorización del historial vuelve a evaluar las de reglas y las automáticas, nunca las del usuario
+export type CategorySource = 'user' | 'rule' | 'auto';
+
+/**
+ * Origen de la categoría que propuso el categorizador: la regla que coincidió si asigna categoría, o automática
+ */
+export function categorizationSource(result: { rule?: { actions: { category?: string } } | null }): CategorySource {
+  return result.rule?.actions.category ? 'rule' : 'auto';
+}
+
+/**
+ * Categoría con la que queda un movimiento que cambia de tipo sin que se indique otra
+ * Los gastos quedan con confianza 0 para que aparezcan en la bandeja de revisión
+ */
+export function fallbackCategorization(type: CategoryKind): { category: string; confidence: number; categorySource: CategorySource } {
+  return type === 'income'
+    ? { category: FALLBACK_INCOME_CATEGORY, confidence: 1.0, categorySource: 'auto' }
+    : { category: FALLBACK_EXPENSE_CATEGORY, confidence: 0, categorySource: 'auto' };
+}
+
+export interface CategorySeed {
+  name: string;
+  icon: string;
+  color: string;
+  kind: CategoryKind;
+}
+
+// Lista con la que se crean las categorías de cada usuario (la que antes estaba fija en el código)
+export const DEFAULT_CATEGORIES: CategorySeed[] = [
+  { name: 'Alimentos', icon: 'ShoppingCart', color: '#22c55e', kind: 'expense' },
+  { name: 'Transporte', icon: 'Car', color: '#3b82f6', kind: 'expense' },
+  { name: 'Servicios', icon: 'Zap', color: '#eab308', kind: 'expense' },
+  { name: 'Entretenimiento', icon: 'Film', color: '#a855f7', kind: 'expense' },
+  { name: 'Educación', icon: 'GraduationCap', color: '#6366f1', kind: 'expense' },
+  { name: 'Salud', icon: 'HeartPulse', color: '#ef4444', kind: 'expense' },
+  { name: 'Vivienda', icon: 'Home', color: '#f97316', kind: 'expense' },
+  { name: 'Ropa', icon: 'Shirt', color: '#ec4899', kind: 'expense' },
+  { name: 'Tecnología', icon: 'Laptop', color: '#0ea5e9', kind: 'expense' },
+  { name: 'Impuestos', icon: 'Landmark', color: '#64748b', kind: 'expense' },
+  { name: 'Regalos', icon: 'Gift', color: '#f43f5e', kind: 'expense' },
+  { name: 'Ahorro', icon: 'PiggyBank', color: '#14b8a6', kind: 'expense' },
+  { name: 'Inversiones', icon: 'TrendingUp', color: '#06b6d4', kind: 'expense' },
+  { name: FALLBACK_EXPENSE_CATEGORY, icon: 'Tag', color: '#6b7280', kind: 'expense' },
+  { name: FALLBACK_INCOME_CATEGORY, icon: 'Wallet', color: '#10b981', kind: 'income' },
+];
+
+export interface CategoryNode {
+  id: string;
+  name: string;
+  parentId?: string | null;
+}
+
+/**
+ * Mapa de cada categoría a la raíz en la que se agrupa en los análisis
+ */
+export function buildCategoryRollup(categories: CategoryNode[]): Map<string, string> {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  return new Map(categories.map(category => {
+    const parent = category.parentId ? byId.get(category.parentId) : undefined;
+    return [category.name, parent?.name || category.name];
+  }));
+}
@@ -0,0 +1,131 @@
+/**
+ * Clasificador bayesiano ingenuo (multinomial) de cada usuario
+ * Aprende de las categorías que el usuario elige o corrige, a partir de las palabras de la
+ * descripción y del comercio; corre antes que las palabras clave y la IA
+ */
+
+import { normalizeRuleText } from './rules';
+
+// Con menos ejemplos el modelo no predice: todavía no conoce lo suficiente al usuario
+export const MIN_CLASSIFIER_EXAMPLES = 10;
+
+// Probabilidad mínima de la categoría ganadora para usar la predicción
+export const CLASSIFIER_MIN_CONFIDENCE = 0.7;
+
+// Nunca tan seguro como una regla o una categoría elegida por el usuario
+export const CLASSIFIER_MAX_CONFIDENCE = 0.95;
+
+export const MAX_CLASSIFIER_TOKENS = 20;
+
+const MIN_TOKEN_LENGTH = 3;
+
+export interface ClassifierLabel {
+  examples: number;
+  tokenTotal: number;
+  tokens: Record<string, number>;
+}
+
+export interface ClassifierState {
+  examples: number;
+  labels: Record<string, ClassifierLabel>;
+}
+
+export interface ClassifierPrediction {
+  category: string;
+  confidence: number;
+}
+
+export function createClassifierState(): ClassifierState {
+  return { examples: 0, labels: {} };
+}
+
+/**
+ * Palabras de la descripción (sin números ni palabras cortas) más un token para el comercio
+ * Cada token cuenta una sola vez por transacción
+ */
+export function tokenizeForClassifier(description: string, merchant?: string | null): string[] {
+  const words = normalizeRuleText(description)
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= MIN_TOKEN_LENGTH && !/^\d+$/.test(word));
+  const tokens = merchant ? [`merchant:${normalizeRuleText(merchant)}`, ...words] : words;
+  return [...new Set(tokens)].slice(0, MAX_CLASSIFIER_TOKENS);
+}
+
+/**
+ * Suma un ejemplo etiquetado al modelo (modifica el estado recibido)
+ */
+export function trainClassifier(state: ClassifierState, tokens: string[], category: string): void {
+  if (tokens.length === 0) {
+    return;
+  }
+  const label = state.labels[category] || { examples: 0, tokenTotal: 0, tokens: {} };
+  state.labels[category] = label;
+  label.examples++;
+  for (const token of tokens) {
+    label.tokens[token] = (label.tokens[token] || 0) + 1;
+    label.tokenTotal++;
+  }
+  state.examples++;
+}
+
+/**
+ * Categoría más probable con suavizado de Laplace, o null si el modelo no está seguro
+ * @param categories - Solo se consideran estas categorías (las que el usuario tiene hoy)
+ */
+export function predictWithClassifier(
+  state: ClassifierState,
+  tokens: string[],
+  categories?: string[]
+): ClassifierPrediction | null {
+  if (state.examples < MIN_CLASSIFIER_EXAMPLES) {
+    return null;
+  }
+
+  const labels = Object.entries(state.labels)
+    .filter(([category, label]) => label.examples > 0 && (!categories || categories.includes(category)));
+  const vocabulary = new Set(labels.flatMap(([, label]) => Object.keys(label.tokens)));
+  // Los tokens que el modelo nunca vio no aportan información
+  const known = tokens.filter(token => vocabulary.has(token));
+  if (labels.length === 0 || known.length === 0) {
+    return null;
+  }
+
+  const scores = labels.map(([category, label]) => {
+    let score = Math.log(label.examples / state.examples);
+    for (const token of known) {
+      score += Math.log(((label.tokens[token] || 0) + 1) / (label.tokenTotal + vocabulary.size));
+    }
+    return { category, score };
+  });
+
+  // Probabilidad a posteriori normalizando en espacio logarítmico
+  const best = scores.reduce((top, item) => (item.score > top.score ? item : top));
+  const total = scores.reduce((sum, item) => sum + Math.exp(item.score - best.score), 0);
+  const probability = 1 / total;
+
+  if (probability < CLASSIFIER_MIN_CONFIDENCE) {
+    return null;
+  }
+  return {
+    category: best.category,
+    confidence: Math.round(Math.min(probability, CLASSIFIER_MAX_CONFIDENCE) * 100) / 100
+  };
+}
+
+/**
+ * Pasa los ejemplos de una categoría a otra (al renombrarla o al eliminarla), sumando los conteos
+ */
+export function renameClassifierLabel(state: ClassifierState, from: string, to: string): void {
+  const source = state.labels[from];
+  if (!source || from === to) {
+    return;
+  }
+  const target = state.labels[to] || { examples: 0, tokenTotal: 0, tokens: {} };
+  target.examples += source.examples;
+  target.tokenTotal += source.tokenTotal;
+  for (const [token, count] of Object.entries(source.tokens)) {
+    target.tokens[token] = (target.tokens[token] || 0) + count;
+  }
+  state.labels[to] = target;
+  delete state.labels[from];
+}
@@ -0,0 +1,96 @@
+/**
+ * Utilidades mínimas para leer archivos CSV (RFC 4180)
+ * Soporta campos entre comillas, comillas escapadas y saltos de línea dentro de campos
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+/**
+ * Detecta el delimitador más probable a partir de la primera línea
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates: CsvDelimiter[] = [',', ';', '\t'];
+
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Convierte el texto CSV en una matriz de filas y columnas
+ * Las filas completamente vacías se descartan
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Eliminar BOM de archivos exportados desde Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(value => value.trim()))
+    .filter(r => r.some(value => value.length > 0));
+}
+
+/**
+ * Serializa una fila como línea CSV, escapando comillas, delimitadores y saltos de línea
+ */
+export function toCsvRow(values: Array<string | number | null | undefined>, delimiter: CsvDelimiter = ','): string {
+  return values
+    .map(value => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(delimiter) + '\r\n';
+}
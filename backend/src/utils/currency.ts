@@ -0,0 +1,31 @@
+/**
+ * Utilidades de moneda y conversión con las tasas guardadas en exchange_rates
+ */
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && CURRENCY_CODE_PATTERN.test(value);
+}
+
+/**
+ * Expresión SQL que convierte un monto de una transacción a la moneda destino
+ * Usa la tasa más reciente en o antes de la fecha de la transacción y, si no hay,
+ * la primera posterior; acepta tasas cargadas en cualquiera de los dos sentidos.
+ * Las transacciones sin fecha usan su fecha de creación.
+ * Sin ninguna tasa el resultado es NULL y el monto queda fuera de las sumas.
+ * @param amount - Expresión del monto a convertir (p. ej. "t.amount")
+ * @param alias - Alias de la transacción, que aporta currency, date y userId
+ * @param target - Expresión de la moneda destino (parámetro o columna)
+ */
+export function convertedAmountSql(amount: string, alias: string, target: string): string {
+  const date = `COALESCE(${alias}.date, ${alias}."createdAt"::date)`;
+  return `(CASE WHEN ${alias}.currency = ${target} THEN ${amount} ELSE ${amount} * (` +
+    `SELECT CASE WHEN r."fromCurrency" = ${alias}.currency THEN r.rate ELSE 1 / r.rate END ` +
+    'FROM exchange_rates r ' +
+    `WHERE r."userId"::text = ${alias}."userId" ` +
+    `AND ((r."fromCurrency" = ${alias}.currency AND r."toCurrency" = ${target}) ` +
+    `OR (r."fromCurrency" = ${target} AND r."toCurrency" = ${alias}.currency)) ` +
+    `ORDER BY (r.date <= ${date}) DESC, ABS(r.date - ${date}) ASC ` +
+    'LIMIT 1) END)';
+}
@@ -0,0 +1,112 @@
+/**
+ * Utilidades para detectar transacciones duplicadas
+ * Dos transacciones son candidatas si tienen el mismo tipo, monto y moneda y fechas cercanas;
+ * la puntuación combina la cercanía de las fechas con el parecido del comercio y la descripción
+ */
+
+export const DEFAULT_DUPLICATE_WINDOW_DAYS = 3;
+
+export const MAX_DUPLICATE_WINDOW_DAYS = 15;
+
+export const DEFAULT_DUPLICATE_MIN_SCORE = 0.6;
+
+// Peso de cada señal en la puntuación final (suman 1)
+const DATE_WEIGHT = 0.3;
+const DESCRIPTION_WEIGHT = 0.5;
+const MERCHANT_WEIGHT = 0.2;
+
+export interface DuplicateCandidate {
+  description: string;
+  merchant?: string | null;
+  date: string; // YYYY-MM-DD
+}
+
+export interface DuplicateScore {
+  score: number;
+  daysApart: number;
+  descriptionSimilarity: number;
+  merchantSimilarity: number | null; // null si ninguna de las dos tiene comercio
+}
+
+/**
+ * Normaliza un texto para compararlo: minúsculas, sin acentos, sin números de referencia ni signos
+ */
+export function normalizeForComparison(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parecido entre dos textos (coeficiente de Dice sobre bigramas de caracteres), de 0 a 1
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeForComparison(a);
+  const right = normalizeForComparison(b);
+  if (left === right) {
+    return left.length > 0 ? 1 : 0;
+  }
+  if (left.length < 2 || right.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Días entre dos fechas YYYY-MM-DD
+ */
+export function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Puntuar un par de transacciones candidatas, de 0 (distintas) a 1 (idénticas)
+ * Se asume que ya coinciden en tipo, monto y moneda
+ */
+export function scoreDuplicatePair(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  windowDays: number = DEFAULT_DUPLICATE_WINDOW_DAYS
+): DuplicateScore {
+  const daysApart = daysBetween(a.date, b.date);
+  const dateScore = Math.max(0, 1 - daysApart / (windowDays + 1));
+  const descriptionSimilarity = textSimilarity(a.description, b.description);
+
+  // Sin comercio en ninguna se decide por la descripción; con comercio en una sola, la señal es neutra
+  let merchantSimilarity: number | null = null;
+  let merchantScore = descriptionSimilarity;
+  if (a.merchant && b.merchant) {
+    merchantSimilarity = textSimilarity(a.merchant, b.merchant);
+    merchantScore = merchantSimilarity;
+  } else if (a.merchant || b.merchant) {
+    merchantScore = 0.5;
+  }
+
+  const score = DATE_WEIGHT * dateScore + DESCRIPTION_WEIGHT * descriptionSimilarity + MERCHANT_WEIGHT * merchantScore;
+  return {
+    score: Math.round(score * 100) / 100,
+    daysApart,
+    descriptionSimilarity: Math.round(descriptionSimilarity * 100) / 100,
+    merchantSimilarity: merchantSimilarity === null ? null : Math.round(merchantSimilarity * 100) / 100
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Utilidades para compras en cuotas
+ * Sin interés cada cuota es el total dividido en partes iguales; con interés se usa el sistema
+ * francés (cuota fija) sobre la tasa nominal anual. La última cuota absorbe el redondeo.
+ */
+
+export const MAX_INSTALLMENTS = 60;
+
+export const MAX_INSTALLMENT_INTEREST_RATE = 500; // TNA en porcentaje
+
+export interface InstallmentTerms {
+  totalAmount: number;
+  installmentCount: number;
+  interestRate?: number; // TNA en porcentaje; 0 o ausente para cuotas sin interés
+  firstDueMonth: string; // YYYY-MM
+  dueDay: number; // Día del mes en que vence cada cuota
+}
+
+// Condiciones tal como se guardan en installment_plans; los decimales llegan como texto desde Postgres
+export interface StoredInstallmentTerms {
+  totalAmount: number | string;
+  installmentCount: number;
+  interestRate: number | string;
+  firstDueMonth: string;
+  date: string; // Fecha de compra; su día del mes es el de vencimiento de cada cuota
+}
+
+export interface ScheduledInstallment {
+  number: number; // 1..installmentCount
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Importe de cada cuota; la suma de todas es exactamente lo que se paga en total
+ */
+export function installmentAmounts(totalAmount: number, installmentCount: number, interestRate = 0): number[] {
+  const monthlyRate = interestRate / 100 / 12;
+  const payment = monthlyRate > 0
+    ? totalAmount * monthlyRate / (1 - Math.pow(1 + monthlyRate, -installmentCount))
+    : totalAmount / installmentCount;
+
+  const installment = round(payment);
+  const total = monthlyRate > 0 ? round(payment * installmentCount) : round(totalAmount);
+  const amounts = Array<number>(installmentCount).fill(installment);
+  amounts[installmentCount - 1] = round(total - installment * (installmentCount - 1));
+  return amounts;
+}
+
+/**
+ * Suma meses a un mes en formato YYYY-MM
+ */
+export function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const index = year * 12 + (monthNumber - 1) + count;
+  return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Fecha de vencimiento dentro de un mes; en meses más cortos vence el último día
+ */
+export function dueDateInMonth(month: string, dueDay: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return `${month}-${String(Math.min(dueDay, lastDay)).padStart(2, '0')}`;
+}
+
+/**
+ * Calendario completo de cuotas de un plan
+ */
+export function buildInstallmentSchedule(terms: InstallmentTerms): ScheduledInstallment[] {
+  return installmentAmounts(terms.totalAmount, terms.installmentCount, terms.interestRate || 0).map((amount, index) => ({
+    number: index + 1,
+    date: dueDateInMonth(addMonths(terms.firstDueMonth, index), terms.dueDay),
+    amount
+  }));
+}
+
+/**
+ * Calendario de un plan guardado
+ */
+export function planSchedule(plan: StoredInstallmentTerms): ScheduledInstallment[] {
+  return buildInstallmentSchedule({
+    totalAmount: Number(plan.totalAmount),
+    installmentCount: plan.installmentCount,
+    interestRate: Number(plan.interestRate),
+    firstDueMonth: plan.firstDueMonth,
+    dueDay: Number(plan.date.split('-')[2])
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Utilidades para normalizar nombres de comercios
+ * Los extractos traen el mismo comercio escrito de muchas formas ("MERCADOPAGO*COTO 1234", "COTO CICSA");
+ * estas funciones reducen cada variante a una clave comparable y a un nombre legible
+ */
+
+import { RE2JS } from 're2js';
+import { normalizeForComparison } from './duplicates';
+
+export const MAX_MERCHANT_NAME_LENGTH = 100;
+
+export const MAX_MERCHANT_ALIASES = 50;
+
+export const MAX_MERCHANT_PATTERNS = 20;
+
+export const MAX_MERCHANT_PATTERN_LENGTH = 200;
+
+// Sufijos societarios que no distinguen a un comercio de otro
+const LEGAL_SUFFIXES = new Set([
+  'sa', 'srl', 'sas', 'saic', 'saci', 'sacifi', 'cicsa', 'sl', 'slu', 'ltda', 'spa', 'inc', 'llc', 'ltd', 'corp'
+]);
+
+export interface MerchantMatchTarget {
+  name: string;
+  aliases: string[];
+  patterns: string[];
+}
+
+/**
+ * Clave de comparación de un comercio: sin procesador de pago, números, signos ni sufijos societarios
+ * "MERCADOPAGO*COTO 1234", "Coto" y "COTO CICSA" dan todos "coto"
+ */
+export function merchantKey(text: string): string {
+  // Los procesadores de pago anteponen su nombre separado por un asterisco
+  const withoutProcessor = text.includes('*') ? text.slice(text.lastIndexOf('*') + 1) : text;
+  return normalizeForComparison(withoutProcessor)
+    .split(' ')
+    .filter(word => word.length > 0 && !LEGAL_SUFFIXES.has(word))
+    .join(' ');
+}
+
+/**
+ * Nombre legible para un comercio nuevo a partir del texto del extracto
+ */
+export function cleanMerchantName(text: string): string {
+  return merchantKey(text)
+    .split(' ')
+    .filter(word => word.length > 0)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+    .slice(0, MAX_MERCHANT_NAME_LENGTH);
+}
+
+// Patrones ya compilados; los inválidos se guardan como null para no volver a intentarlo
+const MAX_COMPILED_PATTERNS = 1000;
+const compiledPatterns = new Map<string, RE2JS | null>();
+
+/**
+ * Compila un patrón de comercio o de regla una sola vez, o devuelve null si no es válido
+ * Los patrones los escriben los usuarios y se evalúan en cada alta e importación, así que corren sobre RE2:
+ * el tiempo de evaluación es lineal en el texto, sin importar el patrón (no hay ReDoS)
+ * RE2 no admite referencias hacia atrás ni lookarounds; esos patrones no son válidos
+ */
+export function compilePattern(pattern: string): RE2JS | null {
+  const cached = compiledPatterns.get(pattern);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let compiled: RE2JS | null = null;
+  if (pattern.length <= MAX_MERCHANT_PATTERN_LENGTH) {
+    try {
+      compiled = RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+    } catch {
+      compiled = null;
+    }
+  }
+
+  if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+    compiledPatterns.clear();
+  }
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Indica si un patrón de comercio es una expresión regular válida para RE2 y no supera el largo máximo
+ */
+export function isValidMerchantPattern(pattern: string): boolean {
+  return compilePattern(pattern) !== null;
+}
+
+/**
+ * Puntúa cuánto se parece un texto a un comercio: 0 si no coincide
+ * Un patrón que coincide gana siempre; si no, cuenta la clave más larga (nombre o alias) contenida en el texto
+ */
+export function merchantMatchScore(text: string, merchant: MerchantMatchTarget): number {
+  for (const pattern of merchant.patterns) {
+    if (compilePattern(pattern)?.test(text)) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+  }
+
+  const key = ` ${merchantKey(text)} `;
+  let best = 0;
+  for (const candidate of [merchant.name, ...merchant.aliases]) {
+    const candidateKey = merchantKey(candidate);
+    // Coincidencia por palabras completas, para que "coto" no coincida con "cotorra"
+    if (candidateKey.length > best && key.includes(` ${candidateKey} `)) {
+      best = candidateKey.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Elige el comercio que mejor coincide con un texto, o null si ninguno coincide
+ */
+export function findMatchingMerchant<T extends MerchantMatchTarget>(text: string, merchants: T[]): T | null {
+  let best: T | null = null;
+  let bestScore = 0;
+  for (const merchant of merchants) {
+    const score = merchantMatchScore(text, merchant);
+    if (score > bestScore) {
+      best = merchant;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,130 @@
+/**
+ * Parser de extractos OFX/QFX
+ * Soporta OFX 1.x (SGML, sin etiquetas de cierre en los elementos hoja) y OFX 2.x (XML)
+ */
+
+export interface OfxTransaction {
+  fitId: string;
+  trnType: string;
+  type: 'income' | 'expense';
+  date: string; // YYYY-MM-DD
+  amount: number; // Siempre positivo, el signo queda reflejado en type
+  name: string | null;
+  memo: string | null;
+}
+
+export interface OfxStatement {
+  currency: string | null;
+  accountId: string | null;
+  transactions: OfxTransaction[];
+  errors: string[];
+}
+
+const INCOME_TRNTYPES = ['CREDIT', 'DEP', 'INT', 'DIV', 'DIRECTDEP'];
+const EXPENSE_TRNTYPES = ['DEBIT', 'PAYMENT', 'CHECK', 'FEE', 'SRVCHG', 'ATM', 'POS', 'CASH', 'DIRECTDEBIT', 'REPEATPMT'];
+
+/**
+ * Determina si un movimiento es ingreso o gasto a partir de TRNTYPE
+ * Para tipos ambiguos (XFER, OTHER, ...) se usa el signo del monto
+ */
+export function mapTrnType(trnType: string, amount: number): 'income' | 'expense' {
+  const normalized = trnType.toUpperCase();
+  if (INCOME_TRNTYPES.includes(normalized)) {
+    return 'income';
+  }
+  if (EXPENSE_TRNTYPES.includes(normalized)) {
+    return 'expense';
+  }
+  return amount < 0 ? 'expense' : 'income';
+}
+
+/**
+ * Convierte fechas OFX (YYYYMMDD[HHMMSS[.XXX]][[-3:ART]]) a YYYY-MM-DD
+ */
+export function parseOfxDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+  return `${year}-${month}-${day}`;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Obtiene el valor de un elemento hoja; funciona tanto con <TAG>valor</TAG> como con <TAG>valor
+ */
+function readTag(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : null;
+}
+
+/**
+ * Extrae los movimientos (STMTTRN) de un extracto OFX/QFX
+ */
+export function parseOfx(content: string): OfxStatement {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error('El archivo no es un extracto OFX válido');
+  }
+
+  const statement: OfxStatement = {
+    currency: readTag(content, 'CURDEF'),
+    accountId: readTag(content, 'ACCTID'),
+    transactions: [],
+    errors: [],
+  };
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  blocks.forEach((block, index) => {
+    const fitId = readTag(block, 'FITID');
+    const trnType = readTag(block, 'TRNTYPE') || 'OTHER';
+    const rawAmount = readTag(block, 'TRNAMT');
+    const rawDate = readTag(block, 'DTPOSTED');
+
+    // Algunos bancos usan coma decimal en TRNAMT
+    const amount = rawAmount ? parseFloat(rawAmount.replace(',', '.')) : NaN;
+    const date = rawDate ? parseOfxDate(rawDate) : null;
+
+    const errors: string[] = [];
+    if (!fitId) {
+      errors.push('FITID faltante');
+    }
+    if (isNaN(amount) || amount === 0) {
+      errors.push(`TRNAMT inválido: "${rawAmount ?? ''}"`);
+    }
+    if (!date) {
+      errors.push(`DTPOSTED inválido: "${rawDate ?? ''}"`);
+    }
+
+    if (errors.length > 0 || !fitId || !date) {
+      statement.errors.push(`Movimiento ${index + 1}: ${errors.join(', ')}`);
+      return;
+    }
+
+    statement.transactions.push({
+      fitId,
+      trnType: trnType.toUpperCase(),
+      type: mapTrnType(trnType, amount),
+      date,
+      amount: Math.abs(amount),
+      name: readTag(block, 'NAME'),
+      memo: readTag(block, 'MEMO'),
+    });
+  });
+
+  return statement;
+}
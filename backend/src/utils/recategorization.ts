@@ -0,0 +1,82 @@
+import { CategorySource, categorizationSource } from './categories';
+
+/**
+ * Utilidades de la recategorización del historial: qué cambiaría al volver a categorizar
+ */
+
+// Transacciones que recorre como máximo un trabajo, de la más reciente a la más antigua
+export const MAX_RECATEGORIZATION_TRANSACTIONS = 5000;
+
+// Transacciones que se categorizan juntas antes de actualizar el progreso
+export const RECATEGORIZATION_PAGE_SIZE = 100;
+
+// Cambios confirmados que se aplican en un solo UPDATE (5 parámetros por fila)
+export const RECATEGORIZATION_APPLY_BATCH_SIZE = 500;
+
+export type RecategorizationJobStatus = 'pending' | 'running' | 'ready' | 'applied' | 'failed';
+
+// Un trabajo pendiente o en curso impide iniciar otro al mismo usuario
+export const ACTIVE_RECATEGORIZATION_STATUSES: RecategorizationJobStatus[] = ['pending', 'running'];
+
+export interface RecategorizationFilters {
+  startDate?: string | null; // YYYY-MM-DD
+  endDate?: string | null;
+  maxConfidence?: number | null; // Solo las que tienen menos confianza que esta
+}
+
+export interface RecategorizationChange {
+  transactionId: string;
+  description: string;
+  date: string | null;
+  amount: number;
+  fromCategory: string | null;
+  fromConfidence: number | null;
+  toCategory: string;
+  toConfidence: number;
+  toSource?: CategorySource; // Los trabajos anteriores a este campo aplican 'auto'
+  explanation?: string;
+}
+
+export interface RecategorizationCandidate {
+  id: string;
+  description: string;
+  date?: string | null;
+  amount: number;
+  category?: string | null;
+  confidence?: number | null;
+}
+
+/**
+ * Cambios propuestos: solo las transacciones cuya categoría sería otra
+ * Una confianza distinta con la misma categoría no se propone
+ */
+export function diffCategorizations(
+  transactions: RecategorizationCandidate[],
+  results: Array<{
+    category: string;
+    confidence: number;
+    explanation?: string;
+    rule?: { actions: { category?: string } } | null;
+  } | null | undefined>
+): RecategorizationChange[] {
+  const changes: RecategorizationChange[] = [];
+  transactions.forEach((transaction, index) => {
+    const result = results[index];
+    if (!result || result.category === transaction.category) {
+      return;
+    }
+    changes.push({
+      transactionId: transaction.id,
+      description: transaction.description,
+      date: transaction.date || null,
+      amount: Number(transaction.amount),
+      fromCategory: transaction.category || null,
+      fromConfidence: transaction.confidence ?? null,
+      toCategory: result.category,
+      toConfidence: result.confidence,
+      toSource: categorizationSource(result),
+      explanation: result.explanation
+    });
+  });
+  return changes;
+}
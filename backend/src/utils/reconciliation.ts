@@ -0,0 +1,38 @@
+/**
+ * Utilidades para conciliar una cuenta contra el extracto del banco
+ * Saldo de partida = saldo inicial de la cuenta + movimientos ya conciliados
+ * Saldo marcado = saldo de partida + movimientos marcados en la sesión
+ * La conciliación cuadra cuando el saldo marcado coincide con el saldo de cierre del extracto
+ */
+
+export interface ReconciliationTotals {
+  accountOpeningBalance: number;
+  reconciledMovement: number; // Suma con signo de lo conciliado en sesiones anteriores
+  clearedMovement: number; // Suma con signo de lo marcado hasta la fecha del extracto
+  closingBalance: number; // Saldo de cierre del extracto
+}
+
+export interface ReconciliationSummary {
+  startingBalance: number;
+  clearedBalance: number;
+  closingBalance: number;
+  difference: number; // closingBalance - clearedBalance; 0 cuando cuadra
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Calcula los saldos de una sesión de conciliación
+ */
+export function summarizeReconciliation(totals: ReconciliationTotals): ReconciliationSummary {
+  const startingBalance = round(totals.accountOpeningBalance + totals.reconciledMovement);
+  const clearedBalance = round(startingBalance + totals.clearedMovement);
+  const closingBalance = round(totals.closingBalance);
+  return {
+    startingBalance,
+    clearedBalance,
+    closingBalance,
+    // round evita diferencias de -0 o de 0.000001 por la aritmética de punto flotante
+    difference: round(closingBalance - clearedBalance) || 0
+  };
+}
@@ -0,0 +1,93 @@
+import { CronExpressionParser } from 'cron-parser';
+
+/**
+ * Cálculo de fechas para transacciones recurrentes
+ * Todas las fechas se manejan como cadenas YYYY-MM-DD en UTC
+ */
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly' | 'cron';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['weekly', 'biweekly', 'monthly', 'yearly', 'cron'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  cronExpression?: string | null;
+}
+
+function toUtcDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/**
+ * Suma meses conservando el día de referencia (31 ene -> 29 feb -> 31 mar)
+ */
+function addMonths(date: Date, months: number, anchorDay: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const day = Math.min(anchorDay, daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), day));
+}
+
+/**
+ * Indica si una expresión cron es válida
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    CronExpressionParser.parse(expression, { tz: 'UTC' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calcula la siguiente ocurrencia estrictamente posterior a `afterDate`
+ */
+export function getNextOccurrence(rule: RecurrenceRule, afterDate: string): string {
+  const current = toUtcDate(afterDate);
+  const anchorDay = toUtcDate(rule.startDate).getUTCDate();
+
+  switch (rule.frequency) {
+    case 'weekly':
+      return toDateString(new Date(current.getTime() + 7 * 86400000));
+    case 'biweekly':
+      return toDateString(new Date(current.getTime() + 14 * 86400000));
+    case 'monthly':
+      return toDateString(addMonths(current, 1, anchorDay));
+    case 'yearly':
+      return toDateString(addMonths(current, 12, anchorDay));
+    case 'cron': {
+      if (!rule.cronExpression) {
+        throw new Error('Cron expression is required for cron frequency');
+      }
+      // Partir del final del día para que la siguiente ocurrencia caiga en otro día
+      const interval = CronExpressionParser.parse(rule.cronExpression, {
+        currentDate: `${afterDate}T23:59:59Z`,
+        tz: 'UTC'
+      });
+      return toDateString(interval.next().toDate());
+    }
+    default:
+      throw new Error(`Unsupported frequency: ${rule.frequency}`);
+  }
+}
+
+/**
+ * Primera ocurrencia de la regla en o después de su fecha de inicio
+ */
+export function getFirstOccurrence(rule: RecurrenceRule): string {
+  if (rule.frequency !== 'cron') {
+    return rule.startDate;
+  }
+  const previousDay = toDateString(new Date(toUtcDate(rule.startDate).getTime() - 86400000));
+  return getNextOccurrence(rule, previousDay);
+}
@@ -0,0 +1,105 @@
+/**
+ * Utilidades de las reglas de categorización
+ * Una regla se cumple cuando se cumplen todas sus condiciones; las reglas se evalúan por prioridad
+ * y gana la primera que coincide, antes del comercio, las palabras clave y la IA
+ */
+
+import { compilePattern, isValidMerchantPattern } from './merchants';
+
+export const MAX_RULES_PER_USER = 200;
+
+export const MAX_RULE_CONDITIONS = 10;
+
+export const MAX_RULE_TEXT_LENGTH = 200;
+
+export const RULE_CONDITION_TYPES = ['contains', 'regex', 'amount', 'transactionType', 'merchant'] as const;
+
+export type RuleConditionType = typeof RULE_CONDITION_TYPES[number];
+
+export type RuleCondition =
+  | { type: 'contains'; value: string } // La descripción contiene el texto (sin distinguir mayúsculas ni acentos)
+  | { type: 'regex'; value: string } // La descripción coincide con la expresión regular
+  | { type: 'amount'; min?: number; max?: number } // Monto dentro del rango, ambos extremos incluidos
+  | { type: 'transactionType'; value: 'income' | 'expense' }
+  | { type: 'merchant'; value: string }; // El comercio contiene el texto
+
+export interface RuleActions {
+  category?: string;
+  merchant?: string;
+  tags?: string[];
+  markAsTransfer?: boolean; // Registra el movimiento como transferencia con transferAccountId: no cuenta como ingreso ni gasto
+  transferAccountId?: string; // Cuenta de la otra pata de la transferencia
+}
+
+export interface MatchableRule {
+  id: string;
+  name: string;
+  conditions: RuleCondition[];
+  actions: RuleActions;
+}
+
+export interface RuleTransactionInput {
+  description: string;
+  amount?: number;
+  type?: 'income' | 'expense' | 'transfer';
+  merchant?: string | null;
+}
+
+/**
+ * Texto comparable: minúsculas, sin acentos y con los espacios colapsados
+ */
+export function normalizeRuleText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export const isValidRulePattern = isValidMerchantPattern;
+
+/**
+ * Evalúa una condición contra una transacción
+ * Las expresiones regulares se compilan una sola vez y corren sobre RE2, en tiempo lineal; las inválidas nunca se cumplen
+ * Las condiciones de monto no se cumplen si la transacción no tiene monto (p. ej. al previsualizar la categoría)
+ */
+export function conditionMatches(condition: RuleCondition, input: RuleTransactionInput): boolean {
+  switch (condition.type) {
+    case 'contains':
+      return normalizeRuleText(input.description).includes(normalizeRuleText(condition.value));
+    case 'regex':
+      return !!compilePattern(condition.value)?.test(input.description);
+    case 'amount':
+      if (input.amount === undefined || input.amount === null) {
+        return false;
+      }
+      return (condition.min === undefined || input.amount >= condition.min)
+        && (condition.max === undefined || input.amount <= condition.max);
+    case 'transactionType':
+      return input.type === condition.value;
+    case 'merchant':
+      return !!input.merchant && normalizeRuleText(input.merchant).includes(normalizeRuleText(condition.value));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Cuenta con la que hay que registrar como transferencia un movimiento que coincidió con la regla, o null
+ * Sin cuenta de destino la acción no se aplica: nunca se crea una transferencia de una sola pata
+ */
+export function ruleTransferAccount(actions: RuleActions): string | null {
+  return actions.markAsTransfer && actions.transferAccountId ? actions.transferAccountId : null;
+}
+
+export function ruleMatches(rule: MatchableRule, input: RuleTransactionInput): boolean {
+  return rule.conditions.length > 0 && rule.conditions.every(condition => conditionMatches(condition, input));
+}
+
+/**
+ * Primera regla que coincide; las reglas tienen que venir ordenadas por prioridad
+ */
+export function findMatchingRule<T extends MatchableRule>(rules: T[], input: RuleTransactionInput): T | null {
+  return rules.find(rule => ruleMatches(rule, input)) || null;
+}
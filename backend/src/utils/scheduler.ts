@@ -0,0 +1,32 @@
+import logger from './logger';
+
+/**
+ * Planificador mínimo de tareas en segundo plano basado en setInterval
+ * Una ejecución no empieza hasta que termina la anterior
+ */
+export function scheduleTask(name: string, intervalMs: number, task: () => Promise<unknown>): () => void {
+  let running = false;
+
+  const run = async (): Promise<void> => {
+    if (running) {
+      logger.warn(`Scheduled task "${name}" is still running, skipping this tick`);
+      return;
+    }
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      logger.error(`Scheduled task "${name}" failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  // No mantener vivo el proceso solo por el planificador
+  timer.unref();
+  void run();
+
+  logger.info(`Scheduled task "${name}" every ${Math.round(intervalMs / 1000)}s`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,58 @@
+/**
+ * Utilidades para la búsqueda de transacciones
+ */
+
+// Configuración de Postgres con stemming en español ("compras" encuentra "compra")
+export const SEARCH_LANGUAGE = 'spanish';
+
+export const TRANSACTION_SORT_FIELDS = [
+  'createdAt',
+  'date',
+  'amount',
+  'description',
+  'merchant',
+  'category',
+  'type',
+  'relevance',
+] as const;
+
+export type TransactionSortField = typeof TRANSACTION_SORT_FIELDS[number];
+
+// Columnas permitidas en el ORDER BY; "relevance" se ordena por ts_rank en el servicio
+export const TRANSACTION_SORT_COLUMNS: Record<Exclude<TransactionSortField, 'relevance'>, string> = {
+  createdAt: 'createdAt',
+  date: 'date',
+  amount: 'amount',
+  description: 'description',
+  merchant: 'merchant',
+  category: 'category',
+  type: 'type',
+};
+
+/**
+ * Documento de texto completo de una transacción (descripción y comercio)
+ * Debe coincidir con la expresión del índice GIN IDX_transactions_search
+ * para que Postgres pueda usarlo.
+ * @param alias - Alias de la transacción en la consulta; vacío para el índice
+ */
+export function searchDocumentSql(alias = ''): string {
+  const column = (name: string) => (alias ? `${alias}.${name}` : name);
+  return `to_tsvector('${SEARCH_LANGUAGE}', coalesce(${column('description')}, '') || ' ' || coalesce(${column('merchant')}, ''))`;
+}
+
+/**
+ * Crea el índice GIN IDX_transactions_search si todavía no existe
+ * synchronize no sabe crear índices por expresión, así que se corre también al arrancar, con la tabla ya creada
+ */
+export function createSearchIndexSql(): string {
+  return `CREATE INDEX IF NOT EXISTS "IDX_transactions_search" ON "transactions" USING GIN (${searchDocumentSql()})`;
+}
+
+/**
+ * Consulta de texto completo para lo que escribe el usuario
+ * websearch_to_tsquery acepta comillas, "or" y "-palabra" sin fallar con la sintaxis
+ * @param parameter - Nombre del parámetro con el texto buscado
+ */
+export function searchQuerySql(parameter: string): string {
+  return `websearch_to_tsquery('${SEARCH_LANGUAGE}', :${parameter})`;
+}
@@ -0,0 +1,32 @@
+/**
+ * Validación de divisiones de una transacción entre varias categorías
+ */
+
+export interface SplitLine {
+  amount: number;
+  category: string;
+}
+
+/**
+ * Comprueba que cada línea sea válida y que la suma coincida con el monto de la transacción
+ * Se compara en centavos para evitar errores de coma flotante
+ */
+export function validateSplitLines(total: number, splits: SplitLine[]): string[] {
+  const errors: string[] = [];
+
+  splits.forEach((split, index) => {
+    if (!split.amount || Number(split.amount) <= 0) {
+      errors.push(`Split ${index + 1}: amount must be greater than 0`);
+    }
+    if (!split.category || split.category.trim().length === 0) {
+      errors.push(`Split ${index + 1}: category is required`);
+    }
+  });
+
+  const splitCents = splits.reduce((sum, split) => sum + Math.round(Number(split.amount) * 100), 0);
+  if (splits.length > 0 && splitCents !== Math.round(Number(total) * 100)) {
+    errors.push(`Splits must sum to the transaction amount (${Number(total).toFixed(2)}), got ${(splitCents / 100).toFixed(2)}`);
+  }
+
+  return errors;
+}
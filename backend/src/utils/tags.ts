@@ -0,0 +1,40 @@
+/**
+ * Utilidades para las etiquetas libres de las transacciones
+ */
+
+export const MAX_TAG_LENGTH = 50;
+
+export const MAX_TAGS_PER_TRANSACTION = 20;
+
+/**
+ * Normaliza una etiqueta: minúsculas, sin espacios sobrantes y sin "#" inicial
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .normalize('NFC')
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH)
+    .trim();
+}
+
+/**
+ * Normaliza y elimina duplicados y vacíos de una lista de etiquetas
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  return [...new Set(names.map(normalizeTagName).filter(name => name.length > 0))];
+}
+
+/**
+ * Lee el parámetro ?tags= (separado por comas, o repetido)
+ */
+export function parseTagsQuery(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return normalizeTagNames(
+    values
+      .filter((item): item is string => typeof item === 'string')
+      .flatMap(item => item.split(','))
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Utilidades para transferencias entre cuentas
+ * Una transferencia se guarda como dos movimientos de tipo "transfer" con el mismo transferId
+ */
+
+// Categoría de los movimientos de una transferencia
+export const TRANSFER_CATEGORY = 'Transferencias';
+
+export interface SignedRow {
+  type: 'income' | 'expense' | 'transfer';
+  amount: number;
+  transferDirection?: 'in' | 'out' | null;
+}
+
+/**
+ * Expresión SQL del monto con signo para un alias de transacción
+ * Los ingresos y las transferencias entrantes suman; los gastos y las salientes restan
+ */
+export function signedAmountSql(alias: string): string {
+  return `CASE WHEN ${alias}.type = 'income' OR (${alias}.type = 'transfer' AND ${alias}.transferDirection = 'in') ` +
+    `THEN ${alias}.amount ELSE -${alias}.amount END`;
+}
+
+/**
+ * Monto con signo de una transacción desde el punto de vista de su cuenta
+ */
+export function signedAmount(row: SignedRow): number {
+  const amount = Number(row.amount);
+  if (row.type === 'income' || (row.type === 'transfer' && row.transferDirection === 'in')) {
+    return amount;
+  }
+  return -amount;
+}
+
+/**
+ * Valida el par de cuentas de una transferencia
+ * Entre monedas distintas hace falta el monto acreditado en la moneda de destino (toAmount);
+ * entre cuentas de la misma moneda se acredita lo mismo que se debita
+ */
+export function validateTransferAccounts(
+  from: { id: string; currency: string },
+  to: { id: string; currency: string },
+  amounts?: { amount: number; toAmount?: number }
+): string[] {
+  const errors: string[] = [];
+
+  if (from.id === to.id) {
+    errors.push('Source and destination accounts must be different');
+  }
+
+  if (from.currency !== to.currency && amounts?.toAmount === undefined) {
+    errors.push('Transfers between accounts with different currencies require toAmount');
+  }
+
+  if (from.currency === to.currency && amounts?.toAmount !== undefined && amounts.toAmount !== amounts.amount) {
+    errors.push('Transfers between accounts with the same currency must credit the same amount');
+  }
+
+  return errors;
+}
+
+/**
+ * Tasa implícita de una transferencia: unidades de la moneda de destino por unidad de la de origen
+ */
+export function transferRate(amount: number, toAmount: number): number {
+  return Math.round((toAmount / amount) * 1e6) / 1e6;
+}
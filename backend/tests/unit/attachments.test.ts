@@ -0,0 +1,48 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { detectMimeType, sanitizeFileName } from '../../src/utils/attachments';
+import { LocalStorageDriver } from '../../src/services/storage.service';
+
+describe('Attachment validation', () => {
+  it('debería detectar el tipo por el contenido y no por la extensión', () => {
+    expect(detectMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe('image/jpeg');
+    expect(detectMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe('image/png');
+    expect(detectMimeType(Buffer.from('RIFF\u0000\u0000\u0000\u0000WEBPVP8 ', 'latin1'))).toBe('image/webp');
+    expect(detectMimeType(Buffer.from('%PDF-1.7\n'))).toBe('application/pdf');
+    expect(detectMimeType(Buffer.from('<html><script>alert(1)</script>'))).toBeNull();
+  });
+
+  it('debería limpiar rutas y caracteres peligrosos del nombre', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('C:\\tickets\\factura "marzo".pdf')).toBe('factura marzo.pdf');
+    expect(sanitizeFileName('\u0000')).toBe('comprobante');
+  });
+});
+
+describe('LocalStorageDriver', () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+  const storage = new LocalStorageDriver(rootDir);
+
+  afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('debería guardar, leer y borrar archivos', async () => {
+    await storage.put('user-1/ticket.pdf', Buffer.from('%PDF-1.7'), 'application/pdf');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.get('user-1/ticket.pdf')) {
+      chunks.push(chunk as Buffer);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('%PDF-1.7');
+
+    await storage.delete('user-1/ticket.pdf');
+    await expect(storage.get('user-1/ticket.pdf')).rejects.toThrow('Attachment file not found');
+  });
+
+  it('debería rechazar claves fuera del directorio raíz', async () => {
+    await expect(storage.put('../escape.pdf', Buffer.from('x'), 'application/pdf')).rejects.toThrow('Invalid storage key');
+  });
+});
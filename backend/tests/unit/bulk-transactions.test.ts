@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { In } from 'typeorm';
+
+const manager = {
+  createQueryBuilder: vi.fn(),
+  find: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  softDelete: vi.fn(),
+};
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn().mockReturnValue({}),
+    transaction: vi.fn((work: (entityManager: typeof manager) => Promise<unknown>) => work(manager)),
+    manager: {}
+  }
+}));
+
+// Mock the models to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {}
+}));
+
+vi.mock('../../src/models/TransactionSplit', () => ({
+  TransactionSplit: class TransactionSplit {}
+}));
+
+vi.mock('../../src/services/merchant.service', () => ({
+  MerchantService: class MockMerchantService {
+    async createResolver() {
+      return { resolve: async () => ({ id: 'm1', name: 'Coto' }) };
+    }
+  }
+}));
+
+const learn = vi.fn();
+
+vi.mock('../../src/services/category.service', () => ({
+  CategoryService: class MockCategoryService {
+    async getCategoryKind(_userId: string, name: string) {
+      return ({ Alimentos: 'expense', Reintegros: 'income' } as Record<string, string>)[name] || null;
+    }
+  }
+}));
+
+vi.mock('../../src/services/categorization-cache.service', () => ({
+  CategorizationCacheService: class MockCategorizationCacheService {
+    async invalidate() {}
+  }
+}));
+
+vi.mock('../../src/services/classifier.service', () => ({
+  ClassifierService: class MockClassifierService {
+    learn = learn;
+  }
+}));
+
+import { BulkTransactionService } from '../../src/services/bulk-transaction.service';
+import { Transaction } from '../../src/models/Transaction';
+import { TransactionSplit } from '../../src/models/TransactionSplit';
+
+// Query builder encadenable que devuelve las transacciones indicadas
+function selectReturning(targets: Array<Partial<Transaction>>) {
+  const queryBuilder = {
+    where: () => queryBuilder,
+    andWhere: () => queryBuilder,
+    select: () => queryBuilder,
+    setLock: () => queryBuilder,
+    limit: () => queryBuilder,
+    getMany: async () => targets,
+  };
+  manager.createQueryBuilder.mockReturnValue(queryBuilder);
+}
+
+describe('BulkTransactionService', () => {
+  const service = new BulkTransactionService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('debería recategorizar quitando las divisiones y marcando la categoría como del usuario', async () => {
+    selectReturning([{ id: 't1', type: 'expense' }, { id: 't2', type: 'expense' }]);
+
+    const updated = await service.bulkUpdate('user-1', { ids: ['t1', 't2'] }, { category: 'Alimentos' });
+
+    expect(updated).toBe(2);
+    expect(manager.delete).toHaveBeenCalledWith(TransactionSplit, expect.objectContaining({ transactionId: expect.anything() }));
+    expect(manager.update).toHaveBeenCalledWith(
+      Transaction,
+      expect.objectContaining({ userId: 'user-1' }),
+      { category: 'Alimentos', confidence: 1.0, categorySource: 'user' }
+    );
+  });
+
+  it('debería enseñarle al clasificador solo los gastos cuya categoría cambió', async () => {
+    selectReturning([
+      { id: 't1', type: 'expense', description: 'Verdulería', merchant: null, category: 'Otros' },
+      { id: 't2', type: 'expense', description: 'Carnicería', merchant: null, category: 'Alimentos' }
+    ]);
+
+    await service.bulkUpdate('user-1', { ids: ['t1', 't2'] }, { category: 'Alimentos' });
+
+    expect(learn).toHaveBeenCalledWith('user-1', [{ description: 'Verdulería', merchant: null, category: 'Alimentos' }]);
+  });
+
+  it('debería pasar a la categoría de ingresos los gastos convertidos en ingresos', async () => {
+    selectReturning([
+      { id: 't1', type: 'expense', category: 'Alimentos' },
+      { id: 't2', type: 'income', category: 'Sueldo' }
+    ]);
+
+    await service.bulkUpdate('user-1', { ids: ['t1', 't2'] }, { type: 'income' });
+
+    expect(manager.update).toHaveBeenCalledWith(Transaction, expect.objectContaining({ userId: 'user-1' }), { type: 'income' });
+    expect(manager.delete).toHaveBeenCalledWith(TransactionSplit, { transactionId: In(['t1']) });
+    expect(manager.update).toHaveBeenCalledWith(
+      Transaction,
+      { id: In(['t1']), userId: 'user-1' },
+      { category: 'Ingresos', confidence: 1.0, categorySource: 'auto' }
+    );
+    expect(learn).toHaveBeenCalledWith('user-1', []);
+  });
+
+  it('debería conservar la categoría indicada junto con el cambio de tipo', async () => {
+    selectReturning([{ id: 't1', type: 'expense', category: 'Alimentos' }]);
+
+    await service.bulkUpdate('user-1', { ids: ['t1'] }, { type: 'income', category: 'Reintegros' });
+
+    expect(manager.update).toHaveBeenCalledTimes(1);
+    expect(manager.update).toHaveBeenCalledWith(
+      Transaction,
+      expect.objectContaining({ userId: 'user-1' }),
+      { category: 'Reintegros', confidence: 1.0, categorySource: 'user', type: 'income' }
+    );
+  });
+
+  it.each([
+    ['no existe', { category: 'Inexistente' }, 'Category not found'],
+    ['es de ingresos para un gasto', { category: 'Reintegros' }, 'The category does not match the transaction type'],
+    ['es de gastos para el tipo nuevo', { type: 'income' as const, category: 'Alimentos' }, 'The category does not match the transaction type']
+  ])('debería rechazar toda la operación si la categoría %s', async (_case, changes, message) => {
+    selectReturning([{ id: 't1', type: 'expense', category: 'Otros' }, { id: 't2', type: 'expense', category: 'Otros' }]);
+
+    await expect(service.bulkUpdate('user-1', { ids: ['t1', 't2'] }, changes)).rejects.toThrow(message);
+    expect(manager.update).not.toHaveBeenCalled();
+    expect(manager.delete).not.toHaveBeenCalled();
+  });
+
+  it('debería normalizar el comercio contra el directorio', async () => {
+    selectReturning([{ id: 't1', type: 'expense' }]);
+
+    await service.bulkUpdate('user-1', { ids: ['t1'] }, { merchant: 'MERCADOPAGO*COTO 1234' });
+
+    expect(manager.update).toHaveBeenCalledWith(
+      Transaction,
+      expect.objectContaining({ userId: 'user-1' }),
+      { merchant: 'Coto', merchantId: 'm1' }
+    );
+  });
+
+  it('debería rechazar toda la operación si incluye una transferencia', async () => {
+    selectReturning([{ id: 't1', type: 'expense' }, { id: 't2', type: 'transfer', transferId: 'tr1' }]);
+
+    await expect(service.bulkUpdate('user-1', { ids: ['t1', 't2'] }, { type: 'income' }))
+      .rejects.toThrow('Transfers must be updated through /api/transfers');
+    expect(manager.update).not.toHaveBeenCalled();
+  });
+
+  it('debería fallar si algún id no existe o es de otro usuario', async () => {
+    selectReturning([{ id: 't1', type: 'expense' }]);
+
+    await expect(service.bulkDelete('user-1', { ids: ['t1', 'ajeno'] })).rejects.toThrow('Transaction not found');
+    expect(manager.softDelete).not.toHaveBeenCalled();
+  });
+
+  it('debería enviar a la papelera las dos patas de una transferencia', async () => {
+    selectReturning([{ id: 't1', type: 'expense' }, { id: 'leg-out', type: 'transfer', transferId: 'tr1' }]);
+    manager.find.mockResolvedValue([{ id: 'leg-out' }, { id: 'leg-in' }]);
+
+    const deleted = await service.bulkDelete('user-1', { filter: { merchant: 'Banco' } });
+
+    expect(deleted).toEqual(['t1', 'leg-out', 'leg-in']);
+    expect(manager.softDelete).toHaveBeenCalledTimes(1);
+    expect(manager.delete).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar el borrado si la otra pata de la transferencia está conciliada', async () => {
+    selectReturning([{ id: 'leg-out', type: 'transfer', transferId: 'tr1', status: 'cleared' }]);
+    manager.find.mockResolvedValue([{ id: 'leg-out', status: 'cleared' }, { id: 'leg-in', status: 'reconciled' }]);
+
+    await expect(service.bulkDelete('user-1', { ids: ['leg-out'] })).rejects.toThrow('Reconciled transactions cannot be edited');
+    expect(manager.softDelete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCategoryRollup,
+  CATEGORY_COLOR_PATTERN,
+  CATEGORY_ICON_PATTERN,
+  DEFAULT_CATEGORIES,
+  SYSTEM_CATEGORIES
+} from '../../src/utils/categories';
+
+describe('Categories', () => {
+  it('debería agrupar cada subcategoría en su categoría padre', () => {
+    const rollup = buildCategoryRollup([
+      { id: '1', name: 'Alimentos' },
+      { id: '2', name: 'Supermercado', parentId: '1' },
+      { id: '3', name: 'Delivery', parentId: '1' },
+      { id: '4', name: 'Transporte', parentId: null },
+    ]);
+
+    expect(rollup.get('Supermercado')).toBe('Alimentos');
+    expect(rollup.get('Delivery')).toBe('Alimentos');
+    expect(rollup.get('Alimentos')).toBe('Alimentos');
+    expect(rollup.get('Transporte')).toBe('Transporte');
+  });
+
+  it('debería incluir las categorías del sistema entre las categorías por defecto', () => {
+    const names = DEFAULT_CATEGORIES.map(category => category.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    for (const name of SYSTEM_CATEGORIES) {
+      expect(names).toContain(name);
+    }
+    expect(DEFAULT_CATEGORIES.find(category => category.name === 'Ingresos')?.kind).toBe('income');
+  });
+
+  it('debería aceptar solo colores hexadecimales y nombres de iconos', () => {
+    expect(CATEGORY_COLOR_PATTERN.test('#22c55e')).toBe(true);
+    expect(CATEGORY_COLOR_PATTERN.test('verde')).toBe(false);
+    expect(CATEGORY_ICON_PATTERN.test('PawPrint')).toBe(true);
+    expect(CATEGORY_ICON_PATTERN.test('<script>')).toBe(false);
+    expect(DEFAULT_CATEGORIES.every(category =>
+      CATEGORY_COLOR_PATTERN.test(category.color) && CATEGORY_ICON_PATTERN.test(category.icon)
+    )).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ClassifierState,
+  createClassifierState,
+  MIN_CLASSIFIER_EXAMPLES,
+  predictWithClassifier,
+  renameClassifierLabel,
+  tokenizeForClassifier,
+  trainClassifier
+} from '../../src/utils/classifier';
+
+const train = (state: ClassifierState, examples: Array<[string, string | null, string]>) => {
+  for (const [description, merchant, category] of examples) {
+    trainClassifier(state, tokenizeForClassifier(description, merchant), category);
+  }
+};
+
+const trainedState = (): ClassifierState => {
+  const state = createClassifierState();
+  for (let i = 0; i < 4; i++) {
+    train(state, [
+      ['Verduleria San Martin', 'Verdulería', 'Alimentos'],
+      ['Carniceria el toro', null, 'Alimentos'],
+      ['Nafta YPF ruta 2', 'YPF', 'Transporte'],
+      ['Cuota gimnasio megatlon', 'Megatlon', 'Salud'],
+    ]);
+  }
+  return state;
+};
+
+describe('Category classifier', () => {
+  it('debería tokenizar sin acentos, números ni palabras cortas', () => {
+    expect(tokenizeForClassifier('Pago de la CUOTA 3/12 gimnasio', 'Megatlón')).toEqual([
+      'merchant:megatlon', 'pago', 'cuota', 'gimnasio'
+    ]);
+    expect(tokenizeForClassifier('cuota cuota cuota')).toEqual(['cuota']);
+  });
+
+  it('debería predecir la categoría aprendida de las correcciones', () => {
+    const state = trainedState();
+
+    expect(predictWithClassifier(state, tokenizeForClassifier('YPF nafta', 'YPF'))?.category).toBe('Transporte');
+    expect(predictWithClassifier(state, tokenizeForClassifier('Cuota megatlon', null))?.category).toBe('Salud');
+    // Solo las categorías que el usuario tiene hoy
+    expect(predictWithClassifier(state, tokenizeForClassifier('YPF nafta', 'YPF'), ['Alimentos', 'Salud'])).toBeNull();
+  });
+
+  it('no debería predecir con pocos ejemplos ni con palabras desconocidas', () => {
+    const state = createClassifierState();
+    train(state, [['Nafta YPF', 'YPF', 'Transporte']]);
+    expect(state.examples).toBeLessThan(MIN_CLASSIFIER_EXAMPLES);
+    expect(predictWithClassifier(state, tokenizeForClassifier('Nafta YPF', 'YPF'))).toBeNull();
+
+    expect(predictWithClassifier(trainedState(), tokenizeForClassifier('Netflix'))).toBeNull();
+  });
+
+  it('debería conservar lo aprendido al renombrar o fusionar una categoría', () => {
+    const state = trainedState();
+    renameClassifierLabel(state, 'Salud', 'Alimentos');
+
+    expect(state.labels['Salud']).toBeUndefined();
+    expect(state.labels['Alimentos'].examples).toBe(12);
+    expect(predictWithClassifier(state, tokenizeForClassifier('Cuota megatlon', null))?.category).toBe('Alimentos');
+  });
+});
@@ -0,0 +1,92 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn().mockReturnValue({}),
+    transaction: vi.fn()
+  }
+}));
+
+// Mock the Transaction model to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {}
+}));
+
+vi.mock('../../src/models/User', () => ({
+  User: class User {}
+}));
+
+vi.mock('../../src/services/nlp.service', () => ({
+  NLPCategorizationService: class MockNLPCategorizationService {
+    async categorizeTransaction() {
+      return { category: 'Alimentos', confidence: 0.9 };
+    }
+  }
+}));
+
+import { parseCsv, detectDelimiter, toCsvRow } from '../../src/utils/csv';
+import { ImportService, parseAmount, parseDate } from '../../src/services/import.service';
+
+describe('CSV parsing', () => {
+  it('debería detectar punto y coma como delimitador', () => {
+    expect(detectDelimiter('fecha;concepto;importe\n2024-01-01;Pan;10')).toBe(';');
+  });
+
+  it('debería respetar comillas, comillas escapadas y saltos de línea', () => {
+    const rows = parseCsv('a,b\n"Coto, sucursal 1","dijo ""hola""\nchau"\n');
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['Coto, sucursal 1', 'dijo "hola"\nchau']
+    ]);
+  });
+
+  it('debería descartar filas vacías y el BOM', () => {
+    const rows = parseCsv('\uFEFFfecha,monto\r\n\r\n2024-01-01,5\r\n');
+    expect(rows).toEqual([['fecha', 'monto'], ['2024-01-01', '5']]);
+  });
+
+  it('debería serializar filas que se pueden volver a leer', () => {
+    const line = toCsvRow(['Coto, sucursal 1', 'dijo "hola"', null, -12.5]);
+    expect(line).toBe('"Coto, sucursal 1","dijo ""hola""",,-12.5\r\n');
+    expect(parseCsv(line)).toEqual([['Coto, sucursal 1', 'dijo "hola"', '', '-12.5']]);
+  });
+});
+
+describe('Import value parsing', () => {
+  it('debería interpretar montos con separador decimal coma', () => {
+    expect(parseAmount('-1.234,56', ',')).toBe(-1234.56);
+    expect(parseAmount('$ 1,234.56', '.')).toBe(1234.56);
+    expect(parseAmount('(25)', '.')).toBe(-25);
+    expect(parseAmount('abc', '.')).toBeNull();
+  });
+
+  it('debería interpretar fechas según el formato indicado', () => {
+    expect(parseDate('2024-03-05', 'YYYY-MM-DD')).toBe('2024-03-05');
+    expect(parseDate('05/03/2024', 'DD/MM/YYYY')).toBe('2024-03-05');
+    expect(parseDate('03/05/2024', 'MM/DD/YYYY')).toBe('2024-03-05');
+    expect(parseDate('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+  });
+});
+
+describe('ImportService.importCsv (dry run)', () => {
+  const service = new ImportService();
+
+  it('debería sugerir el mapeo a partir de los encabezados', async () => {
+    const result = await service.importCsv('user-1', 'Fecha,Concepto,Importe\n2024-01-02,Supermercado,-50');
+    expect(result.mapping).toMatchObject({ date: 'Fecha', description: 'Concepto', amount: 'Importe' });
+    expect(result.preview[0]).toMatchObject({ description: 'Supermercado', amount: 50, type: 'expense' });
+  });
+
+  it('debería reportar errores por fila sin importar nada', async () => {
+    const csv = 'fecha,descripcion,monto,tipo\n2024-01-02,Sueldo,1000,ingreso\nxx,Pan,abc,gasto\n2024-01-03,,10,otro';
+    const result = await service.importCsv('user-1', csv);
+
+    expect(result.dryRun).toBe(true);
+    expect(result.validRows).toBe(1);
+    expect(result.imported).toBe(0);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0].row).toBe(3);
+    expect(result.errors[1].errors).toContain('La descripción es requerida');
+  });
+});
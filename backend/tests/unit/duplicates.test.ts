@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeForComparison, scoreDuplicatePair, textSimilarity } from '../../src/utils/duplicates';
+
+describe('Duplicates', () => {
+  it('debería ignorar mayúsculas, acentos y números de referencia al comparar', () => {
+    expect(normalizeForComparison('COMPRA #4821 Café Martínez')).toBe('compra cafe martinez');
+    expect(textSimilarity('PAGO NETFLIX 0923', 'Pago Netflix')).toBe(1);
+    expect(textSimilarity('Netflix', 'Supermercado Día')).toBeLessThan(0.2);
+  });
+
+  it('debería puntuar alto descripciones parecidas con un día de diferencia', () => {
+    const result = scoreDuplicatePair(
+      { description: 'Compra Mercadona Valencia', merchant: 'Mercadona', date: '2026-10-01' },
+      { description: 'MERCADONA VALENCIA', merchant: 'Mercadona', date: '2026-10-02' }
+    );
+
+    expect(result.daysApart).toBe(1);
+    expect(result.merchantSimilarity).toBe(1);
+    expect(result.score).toBeGreaterThan(0.8);
+  });
+
+  it('debería puntuar bajo el mismo monto en comercios distintos', () => {
+    const result = scoreDuplicatePair(
+      { description: 'Netflix', date: '2026-10-01' },
+      { description: 'Gimnasio', date: '2026-10-01' }
+    );
+
+    expect(result.merchantSimilarity).toBeNull();
+    expect(result.score).toBeLessThan(0.6);
+  });
+});
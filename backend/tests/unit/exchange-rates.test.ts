@@ -0,0 +1,70 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn().mockReturnValue({}),
+    transaction: vi.fn()
+  }
+}));
+
+// Mock the models to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {}
+}));
+
+vi.mock('../../src/models/User', () => ({
+  User: class User {}
+}));
+
+vi.mock('../../src/models/ExchangeRate', () => ({
+  ExchangeRate: class ExchangeRate {}
+}));
+
+vi.mock('../../src/services/nlp.service', () => ({
+  NLPCategorizationService: class MockNLPCategorizationService {}
+}));
+
+import { parseExchangeRateCsv } from '../../src/services/exchange-rate.service';
+import { convertedAmountSql, isCurrencyCode } from '../../src/utils/currency';
+
+describe('Exchange rate CSV parsing', () => {
+  it('debería leer tasas con encabezados en español y coma decimal', () => {
+    const csv = 'Fecha;Desde;Hacia;Tasa\n05/03/2024;usd;ars;850,5\n06/03/2024;EUR;USD;1,09';
+    const { rates, errors } = parseExchangeRateCsv(csv, { dateFormat: 'DD/MM/YYYY', decimalSeparator: ',' });
+
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { date: '2024-03-05', fromCurrency: 'USD', toCurrency: 'ARS', rate: 850.5 },
+      { date: '2024-03-06', fromCurrency: 'EUR', toCurrency: 'USD', rate: 1.09 },
+    ]);
+  });
+
+  it('debería reportar las filas inválidas con su número de fila', () => {
+    const csv = 'date,from,to,rate\n2024-01-01,USD,USD,1\n2024-13-01,USD,EUR,0.9\n2024-01-02,USD,EUR,-1';
+    const { rates, errors } = parseExchangeRateCsv(csv);
+
+    expect(rates).toHaveLength(0);
+    expect(errors.map(error => error.row)).toEqual([2, 3, 4]);
+    expect(errors[0].errors).toContain('Las monedas de origen y destino deben ser distintas');
+    expect(errors[2].errors).toContain('La tasa debe ser un número mayor a 0');
+  });
+
+  it('debería rechazar archivos sin las columnas requeridas', () => {
+    expect(() => parseExchangeRateCsv('fecha,tasa\n2024-01-01,1.1')).toThrow(/Faltan columnas/);
+  });
+});
+
+describe('Currency helpers', () => {
+  it('debería validar códigos ISO de 3 letras', () => {
+    expect(isCurrencyCode('ARS')).toBe(true);
+    expect(isCurrencyCode('ars')).toBe(false);
+    expect(isCurrencyCode('US')).toBe(false);
+  });
+
+  it('debería dejar el monto sin convertir cuando la moneda coincide', () => {
+    const sql = convertedAmountSql('t.amount', 't', ':baseCurrency');
+    expect(sql.startsWith('(CASE WHEN t.currency = :baseCurrency THEN t.amount ELSE')).toBe(true);
+    expect(sql).toContain('1 / r.rate');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable, Writable } from 'stream';
+
+const release = vi.fn(async () => undefined);
+const source = { stream: null as Readable | null };
+
+const queryBuilder = {
+  where: () => queryBuilder,
+  andWhere: () => queryBuilder,
+  orderBy: () => queryBuilder,
+  addOrderBy: () => queryBuilder,
+  stream: async () => source.stream
+};
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    createQueryRunner: () => ({ release }),
+    getRepository: vi.fn().mockReturnValue({ createQueryBuilder: () => queryBuilder })
+  }
+}));
+
+// Mock the models to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {}
+}));
+
+vi.mock('../../src/models/User', () => ({
+  User: class User {}
+}));
+
+import { ExportService } from '../../src/services/export.service';
+
+// Cursor con más filas de las que entran en el buffer de la respuesta
+function rows(count: number): Readable {
+  return Readable.from(Array.from({ length: count }, (_, index) => ({
+    t_id: `t${index}`,
+    t_date: '2026-09-01',
+    t_createdAt: new Date(),
+    t_description: `Movimiento ${index}`,
+    t_merchant: null,
+    t_category: 'Otros',
+    t_type: 'expense',
+    t_transferDirection: null,
+    t_amount: '10.00',
+    t_currency: 'USD',
+    t_fitId: null
+  })));
+}
+
+describe('ExportService', () => {
+  it('debería liberar el cursor cuando el cliente corta la descarga', async () => {
+    source.stream = rows(1000);
+    // Respuesta que nunca termina de enviar: se llena el buffer y queda esperando 'drain'
+    const output = new Writable({ highWaterMark: 64, write: () => undefined });
+
+    const exported = new ExportService().exportTransactions('user-1', 'csv', output);
+    setTimeout(() => output.destroy(), 10);
+
+    await expect(exported).rejects.toThrow('Export aborted');
+    expect(source.stream.destroyed).toBe(true);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { addMonths, buildInstallmentSchedule, installmentAmounts } from '../../src/utils/installments';
+
+describe('Installments', () => {
+  it('debería repartir una compra sin interés y dejar el redondeo en la última cuota', () => {
+    const amounts = installmentAmounts(1000, 3);
+
+    expect(amounts).toEqual([333.33, 333.33, 333.34]);
+    expect(amounts.reduce((total, amount) => total + amount, 0)).toBeCloseTo(1000, 2);
+  });
+
+  it('debería calcular cuotas fijas con interés por sistema francés', () => {
+    const amounts = installmentAmounts(12000, 12, 60);
+
+    // TNA 60% → 5% mensual; cuota = 12000 * 0.05 / (1 - 1.05^-12)
+    expect(amounts[0]).toBe(1353.9);
+    expect(amounts.reduce((total, amount) => total + amount, 0)).toBeGreaterThan(12000);
+  });
+
+  it('debería vencer el mismo día de cada mes o el último si el mes es más corto', () => {
+    const schedule = buildInstallmentSchedule({
+      totalAmount: 300,
+      installmentCount: 3,
+      firstDueMonth: '2026-12',
+      dueDay: 31
+    });
+
+    expect(schedule.map(installment => installment.date)).toEqual(['2026-12-31', '2027-01-31', '2027-02-28']);
+    expect(schedule.map(installment => installment.number)).toEqual([1, 2, 3]);
+    expect(addMonths('2026-11', 14)).toBe('2028-01');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const cache = new Map<string, { category: string; confidence: number }>();
+const usage = { remaining: 1000, recorded: 0 };
+
+vi.mock('../../src/services/categorization-cache.service', () => ({
+  CategorizationCacheService: class MockCategorizationCacheService {
+    async getMany(_userId: string, keys: string[]) {
+      return new Map(keys.filter(key => cache.has(key)).map(key => [key, cache.get(key)!]));
+    }
+    async setMany(_userId: string, entries: Array<{ key: string; result: { category: string; confidence: number } }>) {
+      entries.forEach(({ key, result }) => cache.set(key, result));
+    }
+  }
+}));
+
+vi.mock('../../src/services/llm-usage.service', () => ({
+  LLMUsageService: class MockLLMUsageService {
+    async hasBudget() {
+      return usage.remaining > 0;
+    }
+    async record(_userId: string, tokens: { promptTokens: number; completionTokens: number }) {
+      usage.recorded += tokens.promptTokens + tokens.completionTokens;
+    }
+  }
+}));
+
+import {
+  createLLMProvider,
+  getLLMConfigError,
+  LocalLLMProvider,
+  OpenAIProvider,
+  StubLLMProvider
+} from '../../src/services/llm.service';
+import { NLPCategorizationService } from '../../src/services/nlp.service';
+import { AI_BATCH_SIZE, categorizationCacheKey, parseCategorizationResponse } from '../../src/utils/llm';
+
+// Respuesta de la IA para una sola descripción
+const answer = (category: string, confidence: number, explanation = '') =>
+  JSON.stringify({ results: [{ id: 1, category, confidence, explanation }] });
+
+describe('LLM provider selection', () => {
+  it('debería elegir el proveedor según la configuración', () => {
+    expect(createLLMProvider({ OPENAI_API_KEY: 'sk-test' })).toBeInstanceOf(OpenAIProvider);
+    expect(createLLMProvider({ LLM_BASE_URL: 'http://localhost:11434/v1' })).toBeInstanceOf(LocalLLMProvider);
+    expect(createLLMProvider({ LLM_PROVIDER: 'stub', OPENAI_API_KEY: 'sk-test' })).toBeInstanceOf(StubLLMProvider);
+    expect(createLLMProvider({ LLM_PROVIDER: 'none', OPENAI_API_KEY: 'sk-test' })).toBeNull();
+    expect(createLLMProvider({})).toBeNull();
+  });
+
+  it('debería rechazar configuraciones incompletas', () => {
+    expect(getLLMConfigError({})).toBeNull();
+    expect(getLLMConfigError({ LLM_PROVIDER: 'openai' })).toBe('OPENAI_API_KEY is required when LLM_PROVIDER is openai');
+    expect(getLLMConfigError({ LLM_PROVIDER: 'local' })).toBe('LLM_BASE_URL is required when LLM_PROVIDER is local');
+    expect(getLLMConfigError({ LLM_PROVIDER: 'gemini' })).toContain('LLM_PROVIDER must be one of');
+  });
+});
+
+describe('NLPCategorizationService with a provider', () => {
+  it('debería usar el proveedor cuando las palabras clave no alcanzan', async () => {
+    const provider = new StubLLMProvider(answer('Salud', 0.8, 'Gimnasio'));
+    const service = new NLPCategorizationService(provider);
+
+    const result = await service.categorizeTransaction('Cuota Megatlon');
+
+    expect(result).toMatchObject({ category: 'Salud', confidence: 0.8 });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('debería quedarse con las palabras clave si no hay proveedor', async () => {
+    const service = new NLPCategorizationService(null);
+
+    expect(await service.categorizeTransaction('Cuota Megatlon')).toMatchObject({ category: 'Otros', confidence: 0.3 });
+    expect(await service.categorizeTransaction('Almuerzo con amigos')).toMatchObject({ category: 'Alimentos' });
+  });
+
+  it('debería volver a las palabras clave si el proveedor responde algo inválido', async () => {
+    const service = new NLPCategorizationService(new StubLLMProvider('no es JSON'));
+
+    expect(await service.categorizeTransaction('Cuota Megatlon')).toMatchObject({ category: 'Otros' });
+  });
+});
+
+describe('AI categorization cache and budget', () => {
+  beforeEach(() => {
+    cache.clear();
+    usage.remaining = 1000;
+    usage.recorded = 0;
+  });
+
+  it('debería reutilizar la respuesta guardada y registrar el consumo', async () => {
+    const provider = new StubLLMProvider(answer('Salud', 0.8));
+    const service = new NLPCategorizationService(provider);
+
+    await service.categorizeTransaction('Cuota Megatlon', null, { userId: 'u1' });
+    const cached = await service.categorizeTransaction('  cuota MEGATLON ', null, { userId: 'u1' });
+
+    expect(cached).toMatchObject({ category: 'Salud', confidence: 0.8 });
+    expect(provider.requests).toHaveLength(1);
+    expect(usage.recorded).toBeGreaterThan(0);
+  });
+
+  it('debería usar las palabras clave cuando se agotó el presupuesto del mes', async () => {
+    usage.remaining = 0;
+    const provider = new StubLLMProvider(answer('Salud', 0.8));
+    const service = new NLPCategorizationService(provider);
+
+    expect(await service.categorizeTransaction('Cuota Megatlon', null, { userId: 'u1' }))
+      .toMatchObject({ category: 'Otros', confidence: 0.3 });
+    expect(provider.requests).toHaveLength(0);
+  });
+
+  it('debería categorizar un lote con una consulta por grupo y sin repetir descripciones', async () => {
+    const provider = new StubLLMProvider(request => {
+      const { transactions } = JSON.parse(request.messages[1].content) as { transactions: Array<{ id: number }> };
+      return JSON.stringify({
+        results: transactions.map(({ id }) => ({ id, category: 'Salud', confidence: 0.85, explanation: '' }))
+      });
+    });
+    const service = new NLPCategorizationService(provider);
+    const items = [
+      { description: 'Almuerzo con amigos' },
+      ...Array.from({ length: AI_BATCH_SIZE + 1 }, (_, index) => ({ description: `Cuota ${index}` })),
+      { description: 'cuota 0' }
+    ];
+
+    const results = await service.categorizeBatch(items, { userId: 'u1' });
+
+    expect(results).toHaveLength(items.length);
+    expect(results[0]).toMatchObject({ category: 'Alimentos' });
+    expect(results[1]).toMatchObject({ category: 'Salud', confidence: 0.85 });
+    expect(results[items.length - 1]).toMatchObject({ category: 'Salud' });
+    expect(provider.requests).toHaveLength(2);
+    expect(cache.size).toBe(AI_BATCH_SIZE + 1);
+  });
+});
+
+describe('LLM utils', () => {
+  it('debería generar la misma clave para textos equivalentes', () => {
+    expect(categorizationCacheKey('Cuota  MEGATLON', 'Megatlon')).toBe(categorizationCacheKey('cuota megatlon', ' megatlon '));
+    expect(categorizationCacheKey('Cuota Megatlon')).not.toBe(categorizationCacheKey('Cuota Megatlon', 'Megatlon'));
+  });
+
+  it('debería leer la respuesta por lotes en el orden de las descripciones', () => {
+    const content = JSON.stringify({
+      results: [
+        { id: 3, category: 'Otros', confidence: 0.4, explanation: '' },
+        { id: 1, category: 'Salud', confidence: 0.9, explanation: 'Gimnasio' }
+      ]
+    });
+
+    expect(parseCategorizationResponse(content, 3, ['Salud', 'Otros'])).toEqual([
+      { category: 'Salud', confidence: 0.9, explanation: 'Gimnasio' },
+      null,
+      { category: 'Otros', confidence: 0.4, explanation: undefined }
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { cleanMerchantName, findMatchingMerchant, isValidMerchantPattern, merchantKey } from '../../src/utils/merchants';
+
+describe('Merchants', () => {
+  const coto = { name: 'Coto', aliases: [], patterns: [] };
+  const mercadona = { name: 'Mercadona', aliases: ['MERCADONA VALENCIA'], patterns: [] };
+  const ypf = { name: 'YPF', aliases: [], patterns: ['^ypf\\s*(full|serviclub)?\\b'] };
+
+  it('debería reducir las variantes de un comercio a la misma clave', () => {
+    expect(merchantKey('MERCADOPAGO*COTO 1234')).toBe('coto');
+    expect(merchantKey('COTO CICSA')).toBe('coto');
+    expect(merchantKey('Coto')).toBe('coto');
+    expect(cleanMerchantName('PAYPAL *SPOTIFY AB 4029357733')).toBe('Spotify Ab');
+  });
+
+  it('debería encontrar el comercio por nombre o alias con palabras completas', () => {
+    expect(findMatchingMerchant('COMPRA COTO CICSA SUC 45', [coto, mercadona])).toBe(coto);
+    expect(findMatchingMerchant('Mercadona Valencia 03/10', [coto, mercadona])).toBe(mercadona);
+    expect(findMatchingMerchant('Cotorra pet shop', [coto])).toBeNull();
+  });
+
+  it('debería dar prioridad a los patrones', () => {
+    expect(findMatchingMerchant('YPF FULL 2231 Palermo', [coto, ypf])).toBe(ypf);
+  });
+
+  it('debería rechazar los patrones que RE2 no admite o demasiado largos', () => {
+    expect(isValidMerchantPattern('^ypf\\s*(full|serviclub)?\\b')).toBe(true);
+    expect(isValidMerchantPattern('(?:uber|cabify)\\s*\\*?trip')).toBe(true);
+    expect(isValidMerchantPattern('(a)\\1')).toBe(false);
+    expect(isValidMerchantPattern('coto(?=\\d)')).toBe(false);
+    expect(isValidMerchantPattern('a'.repeat(201))).toBe(false);
+    expect(isValidMerchantPattern('(')).toBe(false);
+  });
+
+  it.each([
+    '(a+)+$',
+    '.*.*.*.*.*x',
+    '\\w*\\w*\\w*\\w*\\w*!',
+    '^(\\w|\\d)*$'
+  ])('debería evaluar en tiempo lineal un patrón con repeticiones solapadas: %s', pattern => {
+    const slow = { name: 'Lento', aliases: [], patterns: [pattern] };
+    const description = 'a'.repeat(255);
+
+    const start = performance.now();
+    findMatchingMerchant(description, [slow]);
+    expect(performance.now() - start).toBeLessThan(200);
+  });
+});
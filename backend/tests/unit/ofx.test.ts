@@ -0,0 +1,171 @@
+import 'reflect-metadata';
+import { describe, it, expect, vi } from 'vitest';
+import { In } from 'typeorm';
+
+const manager = {
+  save: vi.fn(async (_entity: unknown, transactions: unknown) => transactions),
+  find: vi.fn(),
+  restore: vi.fn(),
+};
+
+// FITID ya importados; deletedAt indica que el movimiento está en la papelera
+const existing = vi.fn();
+
+vi.mock('../../src/config/database', () => {
+  const queryBuilder = {
+    select: () => queryBuilder,
+    addSelect: () => queryBuilder,
+    withDeleted: () => queryBuilder,
+    where: () => queryBuilder,
+    andWhere: () => queryBuilder,
+    getRawMany: () => existing(),
+  };
+  return {
+    AppDataSource: {
+      getRepository: vi.fn().mockReturnValue({ createQueryBuilder: () => queryBuilder }),
+      transaction: vi.fn((work: (entityManager: typeof manager) => Promise<unknown>) => work(manager))
+    }
+  };
+});
+
+// Mock the models to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {
+    validate() {
+      return [];
+    }
+  }
+}));
+
+vi.mock('../../src/models/User', () => ({
+  User: class User {}
+}));
+
+import { parseOfx, mapTrnType, parseOfxDate } from '../../src/utils/ofx';
+import { ImportService } from '../../src/services/import.service';
+import { Transaction } from '../../src/models/Transaction';
+
+const SGML_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>ARS
+<BANKACCTFROM>
+<ACCTID>123456
+</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240105120000[-3:ART]
+<TRNAMT>-1500.50
+<FITID>A1
+<NAME>COTO CICSA
+<MEMO>Compra con débito
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240110
+<TRNAMT>250000
+<FITID>A2
+<NAME>SUELDO
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const XML_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <BANKMSGSRSV1><STMTTRNRS><STMTRS>
+    <CURDEF>USD</CURDEF>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>XFER</TRNTYPE>
+        <DTPOSTED>20240201</DTPOSTED>
+        <TRNAMT>-20.00</TRNAMT>
+        <FITID>X1</FITID>
+        <NAME>Tom &amp; Jerry</NAME>
+      </STMTTRN>
+      <STMTTRN>
+        <TRNTYPE>POS</TRNTYPE>
+        <DTPOSTED>invalid</DTPOSTED>
+        <TRNAMT>-5</TRNAMT>
+        <FITID>X2</FITID>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+describe('OFX parser', () => {
+  it('debería leer movimientos de un extracto OFX 1.x (SGML)', () => {
+    const statement = parseOfx(SGML_STATEMENT);
+
+    expect(statement.currency).toBe('ARS');
+    expect(statement.accountId).toBe('123456');
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toMatchObject({
+      fitId: 'A1',
+      type: 'expense',
+      date: '2024-01-05',
+      amount: 1500.5,
+      name: 'COTO CICSA',
+      memo: 'Compra con débito'
+    });
+    expect(statement.transactions[1]).toMatchObject({ fitId: 'A2', type: 'income', memo: null });
+  });
+
+  it('debería leer un extracto OFX 2.x (XML) y reportar movimientos inválidos', () => {
+    const statement = parseOfx(XML_STATEMENT);
+
+    expect(statement.currency).toBe('USD');
+    expect(statement.transactions).toHaveLength(1);
+    expect(statement.transactions[0]).toMatchObject({ fitId: 'X1', type: 'expense', name: 'Tom & Jerry' });
+    expect(statement.errors).toHaveLength(1);
+    expect(statement.errors[0]).toContain('DTPOSTED');
+  });
+
+  it('debería rechazar archivos que no son OFX', () => {
+    expect(() => parseOfx('fecha,monto\n2024-01-01,10')).toThrow();
+  });
+
+  it('debería mapear TRNTYPE y usar el signo para tipos ambiguos', () => {
+    expect(mapTrnType('DEP', -10)).toBe('income');
+    expect(mapTrnType('FEE', 10)).toBe('expense');
+    expect(mapTrnType('OTHER', 10)).toBe('income');
+    expect(mapTrnType('XFER', -10)).toBe('expense');
+  });
+
+  it('debería convertir fechas OFX', () => {
+    expect(parseOfxDate('20240229235959.000[-3:ART]')).toBe('2024-02-29');
+    expect(parseOfxDate('20230230')).toBeNull();
+  });
+});
+
+describe('ImportService.importOfx', () => {
+  it('debería restaurar de la papelera los movimientos ya importados en lugar de omitirlos', async () => {
+    existing.mockResolvedValue([{ id: 'old-a1', fitId: 'A1', transferId: 'tr-1', deletedAt: new Date('2024-02-01') }]);
+    // La otra pata de la transferencia también está en la papelera
+    manager.find.mockResolvedValue([{ id: 'old-a1' }, { id: 'old-leg' }]);
+    const service = new ImportService();
+    Object.assign(service, {
+      merchantService: { createResolver: async () => ({ resolve: async () => null }) },
+      categoryService: { getCategoryNames: async () => ['Alimentos'] },
+      ruleService: { getActiveRules: async () => [] },
+      classifierService: { getModel: async () => null },
+      nlpService: { categorizeBatch: async (items: unknown[]) => items.map(() => ({ category: 'Ingresos', confidence: 1 })) },
+      accountService: { resolveAccount: async () => ({ id: 'acc-1', currency: 'ARS' }) }
+    });
+
+    const result = await service.importOfx('user-1', SGML_STATEMENT);
+
+    expect(manager.restore).toHaveBeenCalledWith(Transaction, { id: In(['old-a1', 'old-leg']), userId: 'user-1' });
+    expect(result).toMatchObject({ totalTransactions: 2, imported: 1, duplicates: 0, restored: 2 });
+    expect(manager.save.mock.calls[0][1]).toEqual([expect.objectContaining({ fitId: 'A2' })]);
+  });
+});
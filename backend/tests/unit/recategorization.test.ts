@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const manager = {
+  findOne: vi.fn(),
+  save: vi.fn(async (job: unknown) => job),
+  query: vi.fn(),
+};
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn().mockReturnValue({}),
+    transaction: vi.fn((work: (entityManager: typeof manager) => Promise<unknown>) => work(manager))
+  }
+}));
+
+// Mock the models to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {}
+}));
+
+vi.mock('../../src/models/Merchant', () => ({
+  Merchant: class Merchant {}
+}));
+
+vi.mock('../../src/models/RecategorizationJob', () => ({
+  RecategorizationJob: class RecategorizationJob {}
+}));
+
+vi.mock('../../src/services/nlp.service', () => ({
+  NLPCategorizationService: class MockNLPCategorizationService {}
+}));
+
+vi.mock('../../src/services/category.service', () => ({
+  CategoryService: class MockCategoryService {}
+}));
+
+vi.mock('../../src/services/categorization-rule.service', () => ({
+  CategorizationRuleService: class MockCategorizationRuleService {}
+}));
+
+vi.mock('../../src/services/classifier.service', () => ({
+  ClassifierService: class MockClassifierService {}
+}));
+
+vi.mock('../../src/services/categorization-review.service', () => ({
+  reviewConfidenceThreshold: () => 0.7
+}));
+
+import { RecategorizationService } from '../../src/services/recategorization.service';
+import { diffCategorizations, RECATEGORIZATION_APPLY_BATCH_SIZE, RecategorizationChange } from '../../src/utils/recategorization';
+
+const change = (transactionId: string, fromCategory: string | null, toCategory: string): RecategorizationChange => ({
+  transactionId,
+  description: 'Cuota Megatlon',
+  date: '2026-09-01',
+  amount: 30,
+  fromCategory,
+  fromConfidence: 0.3,
+  toCategory,
+  toConfidence: 0.9,
+  toSource: 'auto'
+});
+
+// Trabajo terminado con dos cambios propuestos
+const readyJob = () => ({
+  id: 'job-1',
+  userId: 'user-1',
+  status: 'ready',
+  applied: 0,
+  changes: [change('t1', 'Otros', 'Salud'), change('t2', null, 'Alimentos')],
+  toJSON() {
+    return { id: this.id, status: this.status, applied: this.applied };
+  }
+});
+
+describe('Recategorization', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('debería proponer solo las transacciones cuya categoría cambiaría', () => {
+    const changes = diffCategorizations(
+      [
+        { id: 't1', description: 'Cuota Megatlon', date: '2026-09-01', amount: 30, category: 'Otros', confidence: 0.3 },
+        { id: 't2', description: 'Almuerzo', date: '2026-09-02', amount: 12, category: 'Alimentos', confidence: 0.6 },
+        { id: 't3', description: 'Farmacia', amount: 8, category: null }
+      ],
+      [
+        { category: 'Salud', confidence: 0.9, explanation: 'Gimnasio' },
+        { category: 'Alimentos', confidence: 0.9 },
+        { category: 'Salud', confidence: 0.9 }
+      ]
+    );
+
+    expect(changes).toEqual([
+      { ...change('t1', 'Otros', 'Salud'), explanation: 'Gimnasio' },
+      expect.objectContaining({ transactionId: 't3', date: null, fromCategory: null, fromConfidence: null, toCategory: 'Salud' })
+    ]);
+  });
+
+  it('debería aplicar solo los cambios confirmados y contar los que siguen vigentes', async () => {
+    manager.findOne.mockResolvedValue(readyJob());
+    manager.query.mockResolvedValue([[], 1]);
+    const service = new RecategorizationService();
+
+    const job = await service.apply('user-1', 'job-1', ['t2']);
+
+    expect(job).toMatchObject({ status: 'applied', applied: 1 });
+    expect(manager.query).toHaveBeenCalledTimes(1);
+    const [sql, parameters] = manager.query.mock.calls[0];
+    expect(sql).toContain('FROM (VALUES ($2::uuid, $3::varchar, $4::varchar, $5::float, $6::varchar))');
+    expect(sql).toContain(`t."categorySource" IS DISTINCT FROM 'user'`);
+    expect(sql).toContain(`t."status" != 'reconciled'`);
+    expect(parameters).toEqual(['user-1', 't2', null, 'Alimentos', 0.9, 'auto']);
+  });
+
+  it('debería aplicar los cambios en lotes de un solo UPDATE', async () => {
+    const changes = Array.from({ length: RECATEGORIZATION_APPLY_BATCH_SIZE + 1 }, (_, index) => change(`t${index}`, 'Otros', 'Salud'));
+    manager.findOne.mockResolvedValue({ ...readyJob(), changes });
+    manager.query.mockImplementation(async (_sql: string, parameters: unknown[]) => [[], (parameters.length - 1) / 5]);
+    const service = new RecategorizationService();
+
+    const job = await service.apply('user-1', 'job-1');
+
+    expect(job).toMatchObject({ status: 'applied', applied: RECATEGORIZATION_APPLY_BATCH_SIZE + 1 });
+    expect(manager.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('debería volver a evaluar las categorías de una regla que cambió, sin tocar las del usuario', async () => {
+    // La regla "Coto" asignaba Alimentos y ahora asigna Supermercado
+    const ruleRow = { id: 't1', description: 'COTO 123', date: '2026-09-01', amount: 50, category: 'Alimentos', confidence: 1, categorySource: 'rule' };
+    const clauses: string[] = [];
+    const query = {
+      leftJoin: () => query,
+      where: (clause: string) => (clauses.push(clause), query),
+      andWhere: (clause: string) => (clauses.push(clause), query),
+      getCount: async () => 1,
+      orderBy: () => query,
+      addOrderBy: () => query,
+      offset: () => query,
+      limit: () => query,
+      getMany: async () => [ruleRow]
+    };
+    const jobRepository = {
+      findOne: vi.fn().mockResolvedValue({ id: 'job-1', userId: 'user-1', status: 'pending', maxConfidence: null }),
+      update: vi.fn().mockResolvedValue({ affected: 1 })
+    };
+    const rule = { name: 'Coto', actions: { category: 'Supermercado' } };
+    const service = new RecategorizationService();
+    Object.assign(service, {
+      jobRepository,
+      transactionRepository: { createQueryBuilder: () => query },
+      nlpService: { categorizeBatch: vi.fn().mockResolvedValue([{ category: 'Supermercado', confidence: 1, explanation: 'Regla: Coto', rule }]) },
+      categoryService: { getCategoryNames: vi.fn().mockResolvedValue(['Supermercado']) },
+      ruleService: { getActiveRules: vi.fn().mockResolvedValue([rule]) },
+      classifierService: { getModel: vi.fn().mockResolvedValue(null) }
+    });
+
+    await service['run']('job-1');
+
+    expect(clauses).toContain("(t.categorySource IS NULL OR t.categorySource != 'user')");
+    expect(clauses.some(clause => clause.includes('t.confidence'))).toBe(false);
+    expect(jobRepository.update).toHaveBeenLastCalledWith(
+      { id: 'job-1', status: 'running' },
+      expect.objectContaining({
+        status: 'ready',
+        changes: [expect.objectContaining({ transactionId: 't1', fromCategory: 'Alimentos', toCategory: 'Supermercado', toSource: 'rule' })]
+      })
+    );
+  });
+
+  it('debería rechazar aplicar un trabajo que no terminó', async () => {
+    manager.findOne.mockResolvedValue({ ...readyJob(), status: 'running' });
+    const service = new RecategorizationService();
+
+    await expect(service.apply('user-1', 'job-1')).rejects.toThrow('Recategorization job is not ready');
+    expect(manager.query).not.toHaveBeenCalled();
+  });
+});
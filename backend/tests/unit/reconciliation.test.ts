@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeReconciliation } from '../../src/utils/reconciliation';
+
+describe('Reconciliation', () => {
+  it('debería partir del saldo inicial más lo ya conciliado', () => {
+    const summary = summarizeReconciliation({
+      accountOpeningBalance: 1000,
+      reconciledMovement: -250.5,
+      clearedMovement: -120.25,
+      closingBalance: 629.25
+    });
+
+    expect(summary.startingBalance).toBe(749.5);
+    expect(summary.clearedBalance).toBe(629.25);
+    expect(summary.difference).toBe(0);
+  });
+
+  it('debería informar la diferencia pendiente con el extracto', () => {
+    const summary = summarizeReconciliation({
+      accountOpeningBalance: 0,
+      reconciledMovement: 0,
+      clearedMovement: 80,
+      closingBalance: 100
+    });
+
+    expect(summary.difference).toBe(20);
+  });
+
+  it('debería cuadrar pese a los errores de punto flotante', () => {
+    const summary = summarizeReconciliation({
+      accountOpeningBalance: 0.1,
+      reconciledMovement: 0.2,
+      clearedMovement: 0,
+      closingBalance: 0.3
+    });
+
+    expect(summary.difference).toBe(0);
+    expect(Object.is(summary.difference, -0)).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getNextOccurrence, getFirstOccurrence, isValidCronExpression } from '../../src/utils/recurrence';
+
+describe('Recurrence dates', () => {
+  it('debería avanzar semanas y quincenas', () => {
+    expect(getNextOccurrence({ frequency: 'weekly', startDate: '2024-01-01' }, '2024-12-28')).toBe('2025-01-04');
+    expect(getNextOccurrence({ frequency: 'biweekly', startDate: '2024-01-01' }, '2024-02-20')).toBe('2024-03-05');
+  });
+
+  it('debería conservar el día del mes de inicio en meses cortos', () => {
+    const rule = { frequency: 'monthly' as const, startDate: '2024-01-31' };
+    expect(getNextOccurrence(rule, '2024-01-31')).toBe('2024-02-29');
+    expect(getNextOccurrence(rule, '2024-02-29')).toBe('2024-03-31');
+    expect(getNextOccurrence(rule, '2024-03-31')).toBe('2024-04-30');
+  });
+
+  it('debería manejar años bisiestos en reglas anuales', () => {
+    const rule = { frequency: 'yearly' as const, startDate: '2024-02-29' };
+    expect(getNextOccurrence(rule, '2024-02-29')).toBe('2025-02-28');
+    expect(getNextOccurrence(rule, '2027-02-28')).toBe('2028-02-29');
+  });
+
+  it('debería usar expresiones cron', () => {
+    // Día 5 de cada mes
+    const rule = { frequency: 'cron' as const, startDate: '2024-01-05', cronExpression: '0 0 5 * *' };
+    expect(getFirstOccurrence(rule)).toBe('2024-01-05');
+    expect(getNextOccurrence(rule, '2024-01-05')).toBe('2024-02-05');
+    expect(getFirstOccurrence({ ...rule, startDate: '2024-01-06' })).toBe('2024-02-05');
+  });
+
+  it('debería validar expresiones cron', () => {
+    expect(isValidCronExpression('0 9 * * 1-5')).toBe(true);
+    expect(isValidCronExpression('no es cron')).toBe(false);
+  });
+});
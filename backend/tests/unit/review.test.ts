@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const repository = {
+  findOne: vi.fn(),
+  save: vi.fn(async (transaction: Record<string, unknown>) => ({ ...transaction, toJSON: () => transaction })),
+};
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn(() => repository)
+  }
+}));
+
+// Mock the model to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {}
+}));
+
+const learn = vi.fn();
+const invalidate = vi.fn();
+
+vi.mock('../../src/services/category.service', () => ({
+  CategoryService: class MockCategoryService {
+    async categoryExists(_userId: string, name: string) {
+      return name !== 'Inventada';
+    }
+  }
+}));
+
+vi.mock('../../src/services/classifier.service', () => ({
+  ClassifierService: class MockClassifierService {
+    learn = learn;
+  }
+}));
+
+vi.mock('../../src/services/categorization-cache.service', () => ({
+  CategorizationCacheService: class MockCategorizationCacheService {
+    invalidate = invalidate;
+  }
+}));
+
+import { CategorizationReviewService } from '../../src/services/categorization-review.service';
+
+const pending = () => ({
+  id: 't1',
+  type: 'expense',
+  status: 'pending',
+  description: 'Cuota Megatlon',
+  merchant: null,
+  category: 'Otros',
+  confidence: 0.3,
+  splits: []
+});
+
+describe('CategorizationReviewService', () => {
+  const service = new CategorizationReviewService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('debería aceptar la categoría propuesta como elegida por el usuario', async () => {
+    repository.findOne.mockResolvedValue(pending());
+
+    const reviewed = await service.review('user-1', 't1', { action: 'accept' });
+
+    expect(reviewed).toMatchObject({ category: 'Otros', confidence: 1 });
+    expect(learn).toHaveBeenCalledWith('user-1', [{ description: 'Cuota Megatlon', merchant: null, category: 'Otros' }]);
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+
+  it('debería cambiar la categoría, enseñarla al clasificador y olvidar la respuesta en caché', async () => {
+    repository.findOne.mockResolvedValue(pending());
+
+    const reviewed = await service.review('user-1', 't1', { action: 'change', category: 'Salud' });
+
+    expect(reviewed).toMatchObject({ category: 'Salud', confidence: 1 });
+    expect(learn).toHaveBeenCalledWith('user-1', [{ description: 'Cuota Megatlon', merchant: null, category: 'Salud' }]);
+    expect(invalidate).toHaveBeenCalledWith('user-1', [expect.objectContaining({ description: 'Cuota Megatlon' })]);
+  });
+
+  it('debería rechazar categorías inexistentes y transacciones fuera de la bandeja', async () => {
+    repository.findOne.mockResolvedValue(pending());
+    await expect(service.review('user-1', 't1', { action: 'change', category: 'Inventada' }))
+      .rejects.toThrow('Category not found');
+
+    repository.findOne.mockResolvedValue({ ...pending(), splits: [{ id: 's1' }] });
+    await expect(service.review('user-1', 't1', { action: 'accept' }))
+      .rejects.toThrow('Transaction is not pending review');
+
+    repository.findOne.mockResolvedValue(null);
+    await expect(service.review('user-1', 't1', { action: 'accept' }))
+      .rejects.toThrow('Transaction not found');
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+});
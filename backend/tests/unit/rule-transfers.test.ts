@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const manager = {
+  findOne: vi.fn(),
+  save: vi.fn(async (_entity: unknown, legs: unknown) => legs),
+};
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn().mockReturnValue({}),
+    transaction: vi.fn((work: (entityManager: typeof manager) => Promise<unknown>) => work(manager))
+  }
+}));
+
+// Mock the models to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {
+    validate() {
+      return [];
+    }
+  }
+}));
+
+vi.mock('../../src/models/Account', () => ({
+  Account: class Account {}
+}));
+
+import { TransferService } from '../../src/services/transfer.service';
+import { Transaction } from '../../src/models/Transaction';
+import { ruleTransferAccount } from '../../src/utils/rules';
+
+// Movimiento nuevo, todavía sin guardar, que coincidió con una regla "marcar como transferencia"
+function expense(changes: Partial<Transaction> = {}): Transaction {
+  return Object.assign(new Transaction(), {
+    userId: 'user-1',
+    accountId: 'checking',
+    currency: 'ARS',
+    type: 'expense',
+    amount: 150000,
+    date: '2026-10-01',
+    description: 'Transferencia a caja de ahorro',
+    category: 'Otros',
+    confidence: 0.4,
+    fitId: 'FIT-1',
+    ...changes
+  });
+}
+
+describe('Rule transfers', () => {
+  const service = new TransferService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    manager.findOne.mockResolvedValue({ id: 'savings', name: 'Caja de ahorro', currency: 'ARS', archived: false });
+  });
+
+  it('debería aplicar la acción solo si la regla indica la cuenta de la otra pata', () => {
+    expect(ruleTransferAccount({ markAsTransfer: true, transferAccountId: 'savings' })).toBe('savings');
+    expect(ruleTransferAccount({ markAsTransfer: true })).toBeNull();
+    expect(ruleTransferAccount({ category: 'Ahorro', transferAccountId: 'savings' })).toBeNull();
+  });
+
+  it('debería guardar un gasto como la salida de una transferencia con sus dos patas', async () => {
+    const transaction = expense();
+
+    const [leg, otherLeg] = await service.saveAsTransfer(manager as never, transaction, 'savings');
+
+    expect(manager.save).toHaveBeenCalledTimes(1);
+    expect(leg).toBe(transaction);
+    expect(leg).toMatchObject({ type: 'transfer', transferDirection: 'out', category: 'Transferencias', fitId: 'FIT-1' });
+    expect(otherLeg).toMatchObject({
+      type: 'transfer',
+      transferDirection: 'in',
+      transferId: leg.transferId,
+      accountId: 'savings',
+      amount: 150000,
+      date: '2026-10-01'
+    });
+  });
+
+  it('debería registrar un ingreso como la entrada desde la cuenta de la regla', async () => {
+    const [leg, otherLeg] = await service.saveAsTransfer(manager as never, expense({ type: 'income' }), 'savings');
+
+    expect(leg.transferDirection).toBe('in');
+    expect(otherLeg.transferDirection).toBe('out');
+  });
+
+  it.each([
+    ['la misma cuenta', () => expense({ accountId: 'savings' }), 'Source and destination accounts must be different'],
+    ['otra moneda', () => expense({ currency: 'USD' }), 'Transfers between accounts with different currencies require toAmount'],
+    ['divisiones', () => expense({ splits: [{ category: 'Otros', amount: 1 }] as Transaction['splits'] }), 'Split transactions cannot be transfers']
+  ])('debería rechazar la transferencia sin guardar nada si tiene %s', async (_case, build, message) => {
+    const transaction = build();
+
+    await expect(service.saveAsTransfer(manager as never, transaction, 'savings')).rejects.toThrow(message);
+    expect(manager.save).not.toHaveBeenCalled();
+    expect(transaction.type).toBe('expense');
+    expect(transaction.transferId).toBeUndefined();
+  });
+
+  it('debería dejar el movimiento como estaba si falla el guardado de las patas', async () => {
+    manager.save.mockRejectedValueOnce(new Error('connection lost'));
+    const transaction = expense();
+
+    await expect(service.saveAsTransfer(manager as never, transaction, 'savings')).rejects.toThrow('connection lost');
+    expect(transaction).toMatchObject({ type: 'expense', category: 'Otros', confidence: 0.4, transferDirection: undefined });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { conditionMatches, findMatchingRule, isValidRulePattern, MatchableRule, ruleMatches } from '../../src/utils/rules';
+
+const rule = (id: string, conditions: MatchableRule['conditions'], category = 'Otros'): MatchableRule => ({
+  id,
+  name: `Regla ${id}`,
+  conditions,
+  actions: { category }
+});
+
+describe('Categorization rules', () => {
+  it('debería comparar el texto sin distinguir mayúsculas ni acentos', () => {
+    expect(conditionMatches({ type: 'contains', value: 'cafe' }, { description: 'CAFÉ del centro' })).toBe(true);
+    expect(conditionMatches({ type: 'merchant', value: 'Panaderia' }, { description: 'x', merchant: 'La Panadería' })).toBe(true);
+    expect(conditionMatches({ type: 'merchant', value: 'Panaderia' }, { description: 'Panadería', merchant: null })).toBe(false);
+  });
+
+  it('debería evaluar expresiones regulares y rangos de monto', () => {
+    expect(conditionMatches({ type: 'regex', value: '^uber\\s*\\*?trip' }, { description: 'UBER *TRIP 1234' })).toBe(true);
+    expect(conditionMatches({ type: 'regex', value: '(' }, { description: '(' })).toBe(false);
+    expect(conditionMatches({ type: 'regex', value: '^(a+)+$' }, { description: `${'a'.repeat(40)}!` })).toBe(false);
+    expect(conditionMatches({ type: 'regex', value: '(?=uber)' }, { description: 'uber' })).toBe(false);
+
+    const range = { type: 'amount' as const, min: 100, max: 500 };
+    expect(conditionMatches(range, { description: 'x', amount: 100 })).toBe(true);
+    expect(conditionMatches(range, { description: 'x', amount: 500.01 })).toBe(false);
+    expect(conditionMatches(range, { description: 'x' })).toBe(false);
+  });
+
+  it('debería evaluar una condición con repeticiones solapadas en tiempo lineal', () => {
+    const start = performance.now();
+    expect(conditionMatches({ type: 'regex', value: '.*.*.*.*.*x' }, { description: 'a'.repeat(255) })).toBe(false);
+    expect(performance.now() - start).toBeLessThan(200);
+    expect(isValidRulePattern('.*.*.*.*.*x')).toBe(true);
+  });
+
+  it('debería exigir que se cumplan todas las condiciones', () => {
+    const salary = rule('1', [
+      { type: 'contains', value: 'sueldo' },
+      { type: 'transactionType', value: 'income' }
+    ]);
+
+    expect(ruleMatches(salary, { description: 'Sueldo marzo', type: 'income' })).toBe(true);
+    expect(ruleMatches(salary, { description: 'Sueldo marzo', type: 'expense' })).toBe(false);
+    expect(ruleMatches(rule('2', []), { description: 'Sueldo' })).toBe(false);
+  });
+
+  it('debería devolver la primera regla que coincide según la prioridad', () => {
+    const rules = [
+      rule('1', [{ type: 'contains', value: 'netflix' }, { type: 'amount', min: 10000 }], 'Otros'),
+      rule('2', [{ type: 'contains', value: 'netflix' }], 'Entretenimiento'),
+      rule('3', [{ type: 'contains', value: 'net' }], 'Servicios')
+    ];
+
+    expect(findMatchingRule(rules, { description: 'NETFLIX.COM', amount: 5000 })?.id).toBe('2');
+    expect(findMatchingRule(rules, { description: 'NETFLIX.COM', amount: 12000 })?.id).toBe('1');
+    expect(findMatchingRule(rules, { description: 'Spotify', amount: 5000 })).toBeNull();
+  });
+});
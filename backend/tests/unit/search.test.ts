@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { QueryRunner } from 'typeorm';
+import { AddTransactionSearchIndex1761500000000 } from '../../src/migrations/1761500000000-AddTransactionSearchIndex';
+import { TRANSACTION_SORT_COLUMNS, TRANSACTION_SORT_FIELDS, createSearchIndexSql, searchDocumentSql, searchQuerySql } from '../../src/utils/search';
+
+describe('Transaction search', () => {
+  it('debería usar en las consultas la misma expresión que el índice GIN', async () => {
+    const queries: string[] = [];
+    const queryRunner = {
+      hasTable: async () => true,
+      query: async (sql: string) => { queries.push(sql); },
+    } as unknown as QueryRunner;
+
+    await new AddTransactionSearchIndex1761500000000().up(queryRunner);
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain(`USING GIN (${searchDocumentSql()})`);
+  });
+
+  it('debería crear al arrancar el mismo índice que la migración, sin fallar si ya existe', async () => {
+    const queries: string[] = [];
+    const queryRunner = {
+      hasTable: async () => true,
+      query: async (sql: string) => { queries.push(sql); },
+    } as unknown as QueryRunner;
+
+    await new AddTransactionSearchIndex1761500000000().up(queryRunner);
+
+    expect(createSearchIndexSql()).toBe(queries[0]);
+    expect(createSearchIndexSql()).toContain('CREATE INDEX IF NOT EXISTS "IDX_transactions_search"');
+  });
+
+  it('debería calificar las columnas con el alias y usar stemming en español', () => {
+    expect(searchDocumentSql('t')).toBe("to_tsvector('spanish', coalesce(t.description, '') || ' ' || coalesce(t.merchant, ''))");
+    expect(searchQuerySql('q')).toBe("websearch_to_tsquery('spanish', :q)");
+  });
+
+  it('debería tener una columna para cada orden salvo relevancia', () => {
+    const columns = TRANSACTION_SORT_FIELDS.filter(field => field !== 'relevance');
+    expect(Object.keys(TRANSACTION_SORT_COLUMNS).sort()).toEqual([...columns].sort());
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { validateSplitLines } from '../../src/utils/splits';
+
+describe('Transaction splits', () => {
+  it('debería aceptar líneas que suman el monto total', () => {
+    expect(validateSplitLines(100.3, [
+      { amount: 60.1, category: 'Alimentos' },
+      { amount: 20.1, category: 'Hogar' },
+      { amount: 20.1, category: 'Ropa' }
+    ])).toEqual([]);
+  });
+
+  it('debería rechazar líneas que no suman el monto total', () => {
+    const errors = validateSplitLines(100, [
+      { amount: 60, category: 'Alimentos' },
+      { amount: 30, category: 'Hogar' }
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('100.00');
+  });
+
+  it('debería rechazar líneas sin categoría o con monto inválido', () => {
+    const errors = validateSplitLines(10, [
+      { amount: 10, category: ' ' },
+      { amount: 0, category: 'Otros' }
+    ]);
+    expect(errors).toContain('Split 1: category is required');
+    expect(errors).toContain('Split 2: amount must be greater than 0');
+  });
+});
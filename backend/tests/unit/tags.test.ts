@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTagName, normalizeTagNames, parseTagsQuery } from '../../src/utils/tags';
+
+describe('Tags', () => {
+  it('debería normalizar mayúsculas, espacios y el # inicial', () => {
+    expect(normalizeTagName('  #Reforma   Cocina ')).toBe('reforma cocina');
+    expect(normalizeTagName('Vacaciones-2026')).toBe('vacaciones-2026');
+  });
+
+  it('debería descartar duplicados y etiquetas vacías', () => {
+    expect(normalizeTagNames(['Viaje', 'viaje ', '#', ''])).toEqual(['viaje']);
+  });
+
+  it('debería leer ?tags= separado por comas o repetido', () => {
+    expect(parseTagsQuery('vacaciones-2026, Reforma cocina')).toEqual(['vacaciones-2026', 'reforma cocina']);
+    expect(parseTagsQuery(['a', 'b,a'])).toEqual(['a', 'b']);
+    expect(parseTagsQuery(undefined)).toEqual([]);
+  });
+});
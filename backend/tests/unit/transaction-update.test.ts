@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response } from 'express';
+
+const transactionRepository = {
+  findOne: vi.fn(),
+  save: vi.fn(async (transaction: unknown) => transaction),
+};
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn(() => transactionRepository),
+    manager: {}
+  }
+}));
+
+// esbuild does not emit decorator metadata, so columns without an explicit type cannot be registered
+vi.mock('typeorm', async importOriginal => ({
+  ...(await importOriginal<typeof import('typeorm')>()),
+  Column: () => () => undefined
+}));
+
+import { TransactionsController } from '../../src/controllers/transactions.controller';
+import { Transaction } from '../../src/models/Transaction';
+
+// Gasto guardado que el usuario edita desde el formulario, que siempre reenvía la categoría actual
+function stored(changes: Partial<Transaction> = {}): Transaction {
+  return Object.assign(new Transaction(), {
+    id: 't1',
+    userId: 'user-1',
+    accountId: 'a1',
+    currency: 'ARS',
+    date: '2026-10-01',
+    description: 'Compra',
+    amount: 1200,
+    type: 'expense',
+    merchant: null,
+    merchantId: null,
+    category: 'Alimentos',
+    confidence: 0.8,
+    categorySource: 'auto',
+    status: 'pending',
+    tags: [],
+    ...changes
+  });
+}
+
+function response() {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe('TransactionsController.updateTransaction', () => {
+  const controller = new TransactionsController();
+  const categorizeTransaction = vi.fn();
+  const applyActions = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(controller, {
+      nlpService: { categorizeTransaction },
+      merchantService: { resolveMerchant: vi.fn().mockResolvedValue(null) },
+      categoryService: { categoryExists: vi.fn().mockResolvedValue(true), getCategoryNames: vi.fn().mockResolvedValue(['Alimentos']) },
+      ruleService: { getActiveRules: vi.fn().mockResolvedValue([]), applyActions },
+      classifierService: { getModel: vi.fn().mockResolvedValue(null), learn: vi.fn() }
+    });
+  });
+
+  async function update(transaction: Transaction, body: Record<string, unknown>): Promise<Transaction> {
+    transactionRepository.findOne.mockResolvedValue(transaction);
+    const res = response();
+    await controller.updateTransaction(
+      { params: { id: transaction.id }, body, user: { id: 'user-1' } } as unknown as Request,
+      res as unknown as Response
+    );
+    expect(res.status).not.toHaveBeenCalled();
+    return transactionRepository.save.mock.calls[0][0];
+  }
+
+  it.each([
+    ['income', 'Ingresos', 1.0],
+    ['expense', 'Otros', 0]
+  ] as const)('debería pasar a la categoría de respaldo al cambiar el tipo a %s', async (type, category, confidence) => {
+    const transaction = stored(type === 'income' ? {} : { type: 'income', category: 'Sueldo', confidence: 1 });
+
+    const saved = await update(transaction, { description: 'Compra', amount: 1200, type, category: transaction.category });
+
+    expect(saved).toMatchObject({ type, category, confidence, categorySource: 'auto' });
+    expect(categorizeTransaction).not.toHaveBeenCalled();
+  });
+
+  it('debería respetar la categoría que elige el usuario junto con el cambio de tipo', async () => {
+    const saved = await update(stored(), { description: 'Compra', amount: 1200, type: 'income', category: 'Reintegros' });
+
+    expect(saved).toMatchObject({ type: 'income', category: 'Reintegros', confidence: 1, categorySource: 'user' });
+  });
+
+  it('debería aplicar la regla que coincide con la nueva descripción, con su tipo y sus acciones', async () => {
+    const rule = { name: 'Sueldo', actions: { category: 'Sueldo', tags: ['trabajo'] } };
+    categorizeTransaction.mockResolvedValue({ category: 'Sueldo', confidence: 1, explanation: 'Regla: Sueldo', rule });
+    const transaction = stored({ type: 'income', description: 'Transferencia', category: 'Ingresos', confidence: 1 });
+
+    const saved = await update(transaction, { description: 'Sueldo ACME', amount: 1200, type: 'income', category: 'Ingresos' });
+
+    expect(categorizeTransaction).toHaveBeenCalledWith('Sueldo ACME', null, expect.objectContaining({ type: 'income', amount: 1200 }));
+    expect(applyActions).toHaveBeenCalledWith('user-1', transaction, rule.actions);
+    expect(saved).toMatchObject({ category: 'Sueldo', confidence: 1, categorySource: 'rule' });
+  });
+});
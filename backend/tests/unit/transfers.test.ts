@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { signedAmount, transferRate, validateTransferAccounts } from '../../src/utils/transfers';
+
+describe('Transfers', () => {
+  it('debería sumar las entradas y restar las salidas de una transferencia', () => {
+    expect(signedAmount({ type: 'transfer', transferDirection: 'in', amount: 250 })).toBe(250);
+    expect(signedAmount({ type: 'transfer', transferDirection: 'out', amount: 250 })).toBe(-250);
+  });
+
+  it('debería mantener el signo de ingresos y gastos', () => {
+    expect(signedAmount({ type: 'income', amount: 100 })).toBe(100);
+    expect(signedAmount({ type: 'expense', amount: 40.5 })).toBe(-40.5);
+  });
+
+  it('debería rechazar transferencias a la misma cuenta', () => {
+    const account = { id: 'a1', currency: 'USD' };
+    expect(validateTransferAccounts(account, account)).toEqual(['Source and destination accounts must be different']);
+  });
+
+  it('debería exigir el monto acreditado entre monedas distintas', () => {
+    const usd = { id: 'a1', currency: 'USD' };
+    const ars = { id: 'a2', currency: 'ARS' };
+    expect(validateTransferAccounts(usd, ars, { amount: 100 })).toEqual(['Transfers between accounts with different currencies require toAmount']);
+    expect(validateTransferAccounts(usd, ars, { amount: 100, toAmount: 98500 })).toEqual([]);
+    expect(transferRate(100, 98500)).toBe(985);
+  });
+
+  it('debería acreditar lo mismo que se debita entre cuentas de la misma moneda', () => {
+    const from = { id: 'a1', currency: 'USD' };
+    const to = { id: 'a2', currency: 'USD' };
+    expect(validateTransferAccounts(from, to)).toEqual([]);
+    expect(validateTransferAccounts(from, to, { amount: 100, toAmount: 100 })).toEqual([]);
+    expect(validateTransferAccounts(from, to, { amount: 100, toAmount: 90 })).toEqual(['Transfers between accounts with the same currency must credit the same amount']);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const repositories: Record<string, { find: ReturnType<typeof vi.fn>; findOne: ReturnType<typeof vi.fn>; restore: ReturnType<typeof vi.fn>; delete: ReturnType<typeof vi.fn> }> = {};
+const createRepository = () => ({ find: vi.fn(), findOne: vi.fn(), restore: vi.fn(), delete: vi.fn() });
+
+vi.mock('../../src/config/database', () => ({
+  AppDataSource: {
+    getRepository: vi.fn((entity: { name: string }) => {
+      repositories[entity.name] = repositories[entity.name] || createRepository();
+      return repositories[entity.name];
+    })
+  }
+}));
+
+// Mock the models to avoid TypeORM decorators
+vi.mock('../../src/models/Transaction', () => ({
+  Transaction: class Transaction {}
+}));
+
+vi.mock('../../src/models/Goal', () => ({
+  Goal: class Goal {}
+}));
+
+vi.mock('../../src/models/Budget', () => ({
+  Budget: class Budget {}
+}));
+
+const removeFilesForTransactions = vi.fn();
+vi.mock('../../src/services/attachment.service', () => ({
+  AttachmentService: class MockAttachmentService {
+    removeFilesForTransactions = removeFilesForTransactions;
+  }
+}));
+
+import { TrashService, getTrashRetentionDays } from '../../src/services/trash.service';
+
+describe('TrashService', () => {
+  const service = new TrashService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.TRASH_RETENTION_DAYS;
+  });
+
+  it('debería usar 30 días de retención salvo que se configure otro valor válido', () => {
+    expect(getTrashRetentionDays()).toBe(30);
+    process.env.TRASH_RETENTION_DAYS = '7';
+    expect(getTrashRetentionDays()).toBe(7);
+    process.env.TRASH_RETENTION_DAYS = '-1';
+    expect(getTrashRetentionDays()).toBe(30);
+  });
+
+  it('debería restaurar también la otra pata de una transferencia', async () => {
+    repositories.Transaction.find
+      .mockResolvedValueOnce([{ id: 'leg-out', transferId: 'tr1' }])
+      .mockResolvedValueOnce([{ id: 'leg-out' }, { id: 'leg-in' }]);
+
+    const restored = await service.restore('user-1', 'transactions', ['leg-out']);
+
+    expect(restored).toBe(2);
+    expect(repositories.Transaction.restore).toHaveBeenCalledTimes(1);
+  });
+
+  it('debería rechazar ids que no están en la papelera', async () => {
+    repositories.Goal.find.mockResolvedValue([]);
+
+    await expect(service.restore('user-1', 'goals', ['g1'])).rejects.toThrow('Item not found in trash');
+    expect(repositories.Goal.restore).not.toHaveBeenCalled();
+  });
+
+  it('debería impedir restaurar un presupuesto si ya hay otro activo para la categoría', async () => {
+    repositories.Budget.find.mockResolvedValue([{ id: 'b1', category: 'Alimentos', month: '2026-10' }]);
+    repositories.Budget.findOne.mockResolvedValue({ id: 'b2' });
+
+    await expect(service.restore('user-1', 'budgets', ['b1']))
+      .rejects.toThrow('An active budget already exists for this category and month');
+    expect(repositories.Budget.restore).not.toHaveBeenCalled();
+  });
+
+  it('debería borrar los archivos adjuntos al eliminar definitivamente lo vencido', async () => {
+    repositories.Transaction.find.mockResolvedValue([
+      { id: 't1', userId: 'user-1' },
+      { id: 't2', userId: 'user-2' },
+      { id: 't3', userId: 'user-1' },
+    ]);
+    repositories.Transaction.delete.mockResolvedValueOnce({ affected: 2 }).mockResolvedValueOnce({ affected: 1 });
+    repositories.Goal.delete.mockResolvedValue({ affected: 1 });
+    repositories.Budget.delete.mockResolvedValue({ affected: 0 });
+
+    const purged = await service.purgeExpired(30);
+
+    expect(purged).toBe(4);
+    expect(removeFilesForTransactions).toHaveBeenCalledWith('user-1', ['t1', 't3']);
+    expect(removeFilesForTransactions).toHaveBeenCalledWith('user-2', ['t2']);
+  });
+});
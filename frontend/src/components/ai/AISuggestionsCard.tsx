@@ -1,32 +1,23 @@
-import React from 'react';
-import { AISuggestion } from '../../interfaces/financial';
+import React, { useState } from 'react';
+import { ReviewAction, ReviewQueue } from '../../interfaces/financial';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryBadgeStyle } from '../../utils/categories';
+import { formatCurrency, formatDate } from '../../utils/format';
 
 interface AISuggestionsCardProps {
-  suggestions: AISuggestion[];
-  onApplySuggestion?: (suggestionId: string) => void;
-  onDismissSuggestion?: (suggestionId: string) => void;
+  queue: ReviewQueue;
+  onReview: (id: string, review: ReviewAction) => Promise<void>;
 }
 
+// Bandeja "Revisar": gastos que la IA categorizó con poca confianza
 const AISuggestionsCard: React.FC<AISuggestionsCardProps> = ({
-  suggestions,
-  onApplySuggestion,
-  onDismissSuggestion,
+  queue,
+  onReview,
 }) => {
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-ES', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+  const { categories, findCategory } = useCategories();
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('es-ES', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
-  };
+  const expenseCategories = categories.filter(category => category.kind === 'expense');
 
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.9) return 'text-green-400';
@@ -42,32 +33,28 @@ const AISuggestionsCard: React.FC<AISuggestionsCardProps> = ({
     return 'Baja';
   };
 
-  const getCategoryColor = (category: string) => {
-    const colors = {
-      'Alimentos': 'bg-green-500/20 text-green-400 border-green-500/30',
-      'Transporte': 'bg-blue-500/20 text-blue-400 border-blue-500/30',
-      'Entretenimiento': 'bg-purple-500/20 text-purple-400 border-purple-500/30',
-      'Servicios': 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
-      'Salud': 'bg-red-500/20 text-red-400 border-red-500/30',
-      'Educación': 'bg-indigo-500/20 text-indigo-400 border-indigo-500/30',
-      'Otros': 'bg-gray-500/20 text-gray-400 border-gray-500/30',
-    };
-    return colors[category as keyof typeof colors] || colors['Otros'];
+  const review = async (id: string, action: ReviewAction) => {
+    setReviewingId(id);
+    try {
+      await onReview(id, action);
+    } finally {
+      setReviewingId(null);
+    }
   };
 
-  if (suggestions.length === 0) {
+  if (queue.transactions.length === 0) {
     return (
       <div className="bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-700">
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold text-white">Sugerencias de la IA</h3>
+          <h3 className="text-lg font-semibold text-white">Revisar</h3>
           <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
             <span className="text-white text-sm font-bold">AI</span>
           </div>
         </div>
         <div className="text-center py-8">
-          <div className="text-gray-400 mb-2">No hay sugerencias disponibles</div>
+          <div className="text-gray-400 mb-2">No hay categorías para revisar</div>
           <p className="text-sm text-gray-500">
-            La IA analizará tus transacciones para ofrecer sugerencias de categorización
+            Aquí aparecerán los gastos que la IA categorice con poca confianza
           </p>
         </div>
       </div>
@@ -77,85 +64,95 @@ const AISuggestionsCard: React.FC<AISuggestionsCardProps> = ({
   return (
     <div className="bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-700">
       <div className="flex items-center justify-between mb-4">
-        <h3 className="text-lg font-semibold text-white">Sugerencias de la IA</h3>
+        <h3 className="text-lg font-semibold text-white">Revisar</h3>
         <div className="flex items-center space-x-2">
           <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
             <span className="text-white text-sm font-bold">AI</span>
           </div>
           <span className="text-xs text-gray-400 bg-gray-700 px-2 py-1 rounded-full">
-            {suggestions.length} sugerencia{ suggestions.length > 1 ? 'es' : ''}
+            {queue.total} pendiente{queue.total !== 1 ? 's' : ''}
           </span>
         </div>
       </div>
 
       <div className="space-y-4">
-        {suggestions.map((suggestion) => (
-          <div
-            key={suggestion.id}
-            className="bg-gray-700/50 rounded-lg p-4 border border-gray-600 hover:border-gray-500 transition-all duration-200"
-          >
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <div className="flex items-center justify-between mb-2">
-                  <h4 className="font-medium text-white">{suggestion.description}</h4>
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getCategoryColor(suggestion.suggestedCategory)}`}>
-                    {suggestion.suggestedCategory}
-                  </span>
+        {queue.transactions.map((transaction) => {
+          const confidence = transaction.confidence ?? 0;
+          const busy = reviewingId === transaction.id;
+          return (
+            <div
+              key={transaction.id}
+              className="bg-gray-700/50 rounded-lg p-4 border border-gray-600 hover:border-gray-500 transition-all duration-200"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium text-white truncate mr-2">{transaction.description}</h4>
+                <span
+                  className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                  style={getCategoryBadgeStyle(findCategory(transaction.category)?.color)}
+                >
+                  {transaction.category}
+                </span>
+              </div>
+
+              <div className="flex items-center justify-between text-sm mb-3">
+                <div className="flex items-center space-x-4 text-gray-300">
+                  <span>{formatCurrency(transaction.amount, transaction.currency)}</span>
+                  <span>{formatDate(transaction.date)}</span>
                 </div>
-                
-                <div className="flex items-center justify-between text-sm">
-                  <div className="flex items-center space-x-4 text-gray-300">
-                    <span>{formatCurrency(suggestion.amount)}</span>
-                    <span>{formatDate(suggestion.date)}</span>
-                  </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    <span className={`text-xs font-medium ${getConfidenceColor(suggestion.confidence)}`}>
-                      Confianza: {getConfidenceText(suggestion.confidence)}
-                    </span>
-                    <div className="w-16 bg-gray-600 rounded-full h-2">
-                      <div
-                        className="h-2 rounded-full transition-all duration-300"
-                        style={{
-                          width: `${suggestion.confidence * 100}%`,
-                          backgroundColor: suggestion.confidence >= 0.9 ? '#22c55e' :
-                                        suggestion.confidence >= 0.7 ? '#eab308' :
-                                        suggestion.confidence >= 0.5 ? '#f97316' : '#ef4444',
-                        }}
-                      ></div>
-                    </div>
+
+                <div className="flex items-center space-x-2">
+                  <span className={`text-xs font-medium ${getConfidenceColor(confidence)}`}>
+                    Confianza: {getConfidenceText(confidence)}
+                  </span>
+                  <div className="w-16 bg-gray-600 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full transition-all duration-300"
+                      style={{
+                        width: `${confidence * 100}%`,
+                        backgroundColor: confidence >= 0.9 ? '#22c55e' :
+                                      confidence >= 0.7 ? '#eab308' :
+                                      confidence >= 0.5 ? '#f97316' : '#ef4444',
+                      }}
+                    ></div>
                   </div>
                 </div>
               </div>
 
-              <div className="flex space-x-2 ml-4">
+              <div className="flex space-x-2">
                 <button
-                  onClick={() => onApplySuggestion?.(suggestion.id)}
-                  className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-sm rounded-md transition-colors duration-200 flex items-center space-x-1"
+                  onClick={() => review(transaction.id, { action: 'accept' })}
+                  disabled={busy}
+                  className="px-3 py-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm rounded-md transition-colors duration-200 flex items-center space-x-1"
                 >
                   <span>✓</span>
-                  <span>Aplicar</span>
+                  <span>Aceptar</span>
                 </button>
-                <button
-                  onClick={() => onDismissSuggestion?.(suggestion.id)}
-                  className="px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white text-sm rounded-md transition-colors duration-200 flex items-center space-x-1"
+                <select
+                  value=""
+                  disabled={busy}
+                  onChange={(e) => e.target.value && review(transaction.id, { action: 'change', category: e.target.value })}
+                  className="flex-1 px-2 py-1 bg-gray-600 border border-gray-500 text-white text-sm rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                 >
-                  <span>✕</span>
-                  <span>Descartar</span>
-                </button>
+                  <option value="">Cambiar categoría...</option>
+                  {expenseCategories
+                    .filter(category => category.name !== transaction.category)
+                    .map(category => (
+                      <option key={category.id} value={category.name}>{category.name}</option>
+                    ))}
+                </select>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
       <div className="mt-4 pt-4 border-t border-gray-600">
         <p className="text-xs text-gray-400">
-          Las sugerencias se basan en el análisis de tus transacciones anteriores y patrones de gasto.
+          Cada categoría que confirmas o corriges le enseña al categorizador tus preferencias.
         </p>
       </div>
     </div>
   );
 };
 
-export default AISuggestionsCard;
\ No newline at end of file
+export default AISuggestionsCard;
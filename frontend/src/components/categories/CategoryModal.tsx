@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Category, CategoryKind } from '../../interfaces/financial';
+import { categoryService } from '../../services/categoryService';
+import { CATEGORY_COLORS, CATEGORY_ICONS, getCategoryIcon } from '../../utils/categories';
+
+interface CategoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  categories: Category[];
+  category?: Category | null;
+}
+
+// Las categorías del sistema ("Otros" e "Ingresos") no se pueden renombrar
+const SYSTEM_CATEGORIES = ['Otros', 'Ingresos'];
+
+const CategoryModal: React.FC<CategoryModalProps> = ({ isOpen, onClose, onSaved, categories, category }) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CategoryKind>('expense');
+  const [parentId, setParentId] = useState('');
+  const [icon, setIcon] = useState('Tag');
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [loading, setLoading] = useState(false);
+
+  // Limpiar el estado cada vez que se abre el modal
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(category?.name || '');
+    setKind(category?.kind || 'expense');
+    setParentId(category?.parentId || '');
+    setIcon(category?.icon || 'Tag');
+    setColor(category?.color || CATEGORY_COLORS[0]);
+  }, [isOpen, category]);
+
+  const isSystem = !!category && SYSTEM_CATEGORIES.includes(category.name);
+  const hasChildren = !!category && categories.some(item => item.parentId === category.id);
+  // Solo un nivel de subcategorías: el padre tiene que ser una categoría raíz del mismo tipo
+  const parentOptions = categories.filter(item =>
+    !item.parentId && item.kind === kind && item.id !== category?.id);
+
+  const handleKindChange = (value: CategoryKind) => {
+    setKind(value);
+    setParentId('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('El nombre es obligatorio');
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      kind,
+      parentId: parentId || null,
+      icon,
+      color,
+    };
+
+    setLoading(true);
+    try {
+      if (category) {
+        await categoryService.updateCategory(category.id, data);
+        toast.success('Categoría actualizada');
+      } else {
+        await categoryService.createCategory(data);
+        toast.success('Categoría creada');
+      }
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al guardar la categoría');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50';
+  const PreviewIcon = getCategoryIcon(icon);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-md border border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-full flex items-center justify-center" style={{ backgroundColor: color }}>
+              <PreviewIcon className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">
+                {category ? 'Editar Categoría' : 'Nueva Categoría'}
+              </h2>
+              <p className="text-sm text-gray-400">Las subcategorías se suman a su categoría en los análisis</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Nombre *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="Ej: Supermercado"
+              maxLength={100}
+              disabled={isSystem}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Tipo</label>
+              <select
+                value={kind}
+                onChange={(e) => handleKindChange(e.target.value as CategoryKind)}
+                className={inputClassName}
+                disabled={isSystem || hasChildren}
+              >
+                <option value="expense">Gasto</option>
+                <option value="income">Ingreso</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Categoría padre</label>
+              <select
+                value={parentId}
+                onChange={(e) => setParentId(e.target.value)}
+                className={inputClassName}
+                disabled={hasChildren}
+              >
+                <option value="">Ninguna</option>
+                {parentOptions.map((item) => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Icono</label>
+            <div className="grid grid-cols-11 gap-1">
+              {Object.entries(CATEGORY_ICONS).map(([iconName, Icon]) => (
+                <button
+                  key={iconName}
+                  type="button"
+                  onClick={() => setIcon(iconName)}
+                  title={iconName}
+                  className={`p-1.5 rounded-md flex items-center justify-center ${
+                    icon === iconName ? 'bg-blue-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Color</label>
+            <div className="flex flex-wrap gap-2">
+              {CATEGORY_COLORS.map((item) => (
+                <button
+                  key={item}
+                  type="button"
+                  onClick={() => setColor(item)}
+                  aria-label={item}
+                  className={`w-6 h-6 rounded-full border-2 ${color === item ? 'border-white' : 'border-transparent'}`}
+                  style={{ backgroundColor: item }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors duration-200"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{category ? 'Guardar' : 'Crear'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryModal;
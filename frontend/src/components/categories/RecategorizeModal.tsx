@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowRight, Loader2, RefreshCw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { RecategorizationJob } from '../../interfaces/financial';
+import { transactionService } from '../../services/transactionService';
+import { formatCurrency, formatDate } from '../../utils/format';
+
+interface RecategorizeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Cada cuánto se consulta el progreso de un trabajo en curso
+const POLL_INTERVAL_MS = 2000;
+
+const RecategorizeModal: React.FC<RecategorizeModalProps> = ({ isOpen, onClose }) => {
+  const [job, setJob] = useState<RecategorizationJob | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+
+  // Todos los cambios propuestos quedan marcados al terminar el análisis
+  const showJob = useCallback((next: RecategorizationJob | null) => {
+    setJob(next);
+    if (next?.status === 'ready') {
+      setSelected(new Set(next.changes.map(change => change.transactionId)));
+    }
+  }, []);
+
+  // Retomar el último trabajo al abrir: puede seguir en curso o esperando confirmación
+  useEffect(() => {
+    if (!isOpen) return;
+
+    transactionService.getLatestRecategorization()
+      .then(response => showJob(response.data))
+      .catch(() => showJob(null));
+  }, [isOpen, showJob]);
+
+  const jobId = job?.id;
+  const jobStatus = job?.status;
+  useEffect(() => {
+    if (!isOpen || !jobId || (jobStatus !== 'pending' && jobStatus !== 'running')) return;
+
+    const intervalId = setInterval(() => {
+      transactionService.getRecategorization(jobId)
+        .then(response => showJob(response.data))
+        .catch(() => showJob(null));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isOpen, jobId, jobStatus, showJob]);
+
+  if (!isOpen) return null;
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const response = await transactionService.startRecategorization({
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        lowConfidenceOnly,
+      });
+      setJob(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al iniciar la recategorización');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!job) return;
+    setLoading(true);
+    try {
+      const response = await transactionService.applyRecategorization(job.id, Array.from(selected));
+      setJob(response.data);
+      toast.success(`${response.data.applied} transacciones recategorizadas`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al aplicar la recategorización');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!job) return;
+    setLoading(true);
+    try {
+      await transactionService.discardRecategorization(job.id);
+      setJob(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al descartar la recategorización');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (transactionId: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50';
+  const running = job?.status === 'pending' || job?.status === 'running';
+  const showForm = !job || job.status === 'applied' || job.status === 'failed';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl border border-gray-700 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center">
+              <RefreshCw className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Recategorizar historial</h2>
+              <p className="text-sm text-gray-400">Aplica tus categorías y reglas actuales a las transacciones anteriores</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {job?.status === 'applied' && (
+            <div className="text-sm text-green-400">Se recategorizaron {job.applied} transacciones.</div>
+          )}
+          {job?.status === 'failed' && (
+            <div className="text-sm text-red-400">El análisis anterior falló: {job.error || 'error desconocido'}.</div>
+          )}
+
+          {showForm && (
+            <form onSubmit={handleStart} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Desde</label>
+                  <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Hasta</label>
+                  <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={lowConfidenceOnly}
+                  onChange={(e) => setLowConfidenceOnly(e.target.checked)}
+                  className="rounded border-gray-600 bg-gray-700"
+                />
+                <span>Solo las categorizadas con poca confianza</span>
+              </label>
+              <p className="text-xs text-gray-500">
+                Las categorías que elegiste tú no se modifican; las de tus reglas se vuelven a evaluar. Nada cambia hasta que confirmes.
+              </p>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+                >
+                  {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>Analizar historial</span>
+                </button>
+              </div>
+            </form>
+          )}
+
+          {running && job && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-gray-300">
+                <span className="flex items-center space-x-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>Analizando transacciones...</span>
+                </span>
+                <span>{job.processed} de {job.total}</span>
+              </div>
+              <div className="w-full bg-gray-700 rounded-full h-2">
+                <div className="h-2 rounded-full bg-blue-500 transition-all duration-300" style={{ width: `${job.progress * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {job?.status === 'ready' && (
+            job.changes.length === 0 ? (
+              <div className="text-center py-6 text-gray-400">
+                Las {job.total} transacciones analizadas ya tienen la categoría que se les asignaría hoy.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm text-gray-400">
+                  <span>{job.changes.length} cambios propuestos de {job.total} transacciones analizadas</span>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(selected.size === job.changes.length
+                      ? new Set()
+                      : new Set(job.changes.map(change => change.transactionId)))}
+                    className="text-blue-400 hover:text-blue-300"
+                  >
+                    {selected.size === job.changes.length ? 'Desmarcar todos' : 'Marcar todos'}
+                  </button>
+                </div>
+                <div className="divide-y divide-gray-700 border border-gray-700 rounded-lg">
+                  {job.changes.map((change) => (
+                    <label key={change.transactionId} className="flex items-center space-x-3 p-3 hover:bg-gray-700/50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(change.transactionId)}
+                        onChange={() => toggle(change.transactionId)}
+                        className="rounded border-gray-600 bg-gray-700"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-white truncate" title={change.explanation}>{change.description}</div>
+                        <div className="text-xs text-gray-400">
+                          {formatCurrency(change.amount)}{change.date && ` · ${formatDate(change.date)}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 text-sm whitespace-nowrap">
+                        <span className="text-gray-400">{change.fromCategory || 'Sin categoría'}</span>
+                        <ArrowRight className="w-4 h-4 text-gray-500" />
+                        <span className="text-white">{change.toCategory}</span>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {(running || job?.status === 'ready') && (
+          <div className="flex justify-end space-x-3 p-6 border-t border-gray-700">
+            <button
+              type="button"
+              onClick={handleDiscard}
+              disabled={loading}
+              className="px-4 py-2 text-gray-300 hover:text-white disabled:opacity-50 transition-colors duration-200"
+            >
+              {running ? 'Cancelar análisis' : 'Descartar'}
+            </button>
+            {job?.status === 'ready' && job.changes.length > 0 && (
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={loading || selected.size === 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+              >
+                {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Aplicar {selected.size} cambios</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecategorizeModal;
@@ -14,6 +14,7 @@ import { CashFlowData } from '../../interfaces/financial';
 
 interface CashFlowChartProps {
   data: CashFlowData[];
+  currency?: string; // Moneda en la que vienen los montos
   height?: number;
   showTooltips?: boolean;
   showLegend?: boolean;
@@ -30,16 +31,17 @@ interface CustomTooltipProps {
     };
   }[];
   label?: string;
+  currency: string;
 }
 
-const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload }) => {
+const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload, currency }) => {
   if (active && payload && payload.length) {
     const dataPoint = payload[0].payload;
     
     const formatCurrency = (value: number) => {
       return new Intl.NumberFormat('es-ES', {
         style: 'currency',
-        currency: 'USD',
+        currency,
         minimumFractionDigits: 0,
       }).format(value);
     };
@@ -75,6 +77,7 @@ const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload }) => {
 
 const CashFlowChart: React.FC<CashFlowChartProps> = ({
   data,
+  currency = 'USD',
   height = 400,
   showTooltips = true,
   showLegend = true,
@@ -93,7 +96,7 @@ const CashFlowChart: React.FC<CashFlowChartProps> = ({
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('es-ES', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
     }).format(value);
   };
@@ -130,7 +133,7 @@ const CashFlowChart: React.FC<CashFlowChartProps> = ({
             tickFormatter={formatCurrency}
             stroke="#9ca3af"
           />
-          {showTooltips && <Tooltip content={<CustomTooltip />} />}
+          {showTooltips && <Tooltip content={<CustomTooltip currency={currency} />} />}
           {showLegend && (
             <Legend 
               verticalAlign="top" 
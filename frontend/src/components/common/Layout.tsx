@@ -47,6 +47,12 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                   <h1 className="text-2xl font-bold text-white">
                     {pathname === '/dashboard' && 'Dashboard Financiero'}
                     {pathname === '/transactions' && 'Gestión de Transacciones'}
+                    {pathname === '/duplicates' && 'Revisar Duplicados'}
+                    {pathname === '/merchants' && 'Comercios'}
+                    {pathname === '/installments' && 'Compras en Cuotas'}
+                    {pathname === '/categories' && 'Categorías'}
+                    {pathname === '/rules' && 'Reglas de Categorización'}
+                    {pathname === '/reconcile' && 'Conciliación'}
                     {pathname === '/goals' && 'Configuración de Metas'}
                     {pathname === '/new-transaction' && 'Nueva Transacción'}
                     {pathname === '/analytics' && 'Análisis de Gastos'}
@@ -56,6 +62,12 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                   <p className="text-gray-400 text-sm">
                     {pathname === '/dashboard' && 'Visión general de tu situación financiera'}
                     {pathname === '/transactions' && 'Administra tus ingresos y gastos'}
+                    {pathname === '/duplicates' && 'Fusiona las transacciones repetidas'}
+                    {pathname === '/merchants' && 'Normaliza nombres y categorías por comercio'}
+                    {pathname === '/installments' && 'Cada cuota se registra sola cuando vence'}
+                    {pathname === '/categories' && 'Organiza tus categorías y subcategorías'}
+                    {pathname === '/rules' && 'Categoriza automáticamente tus movimientos'}
+                    {pathname === '/reconcile' && 'Cuadra tus cuentas con el extracto bancario'}
                     {pathname === '/goals' && 'Gestiona tus objetivos financieros'}
                     {pathname === '/new-transaction' && 'Agrega un nuevo ingreso o gasto'}
                     {pathname === '/analytics' && 'Descubre patrones y optimiza'}
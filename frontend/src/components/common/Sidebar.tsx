@@ -6,9 +6,15 @@ import {
   Settings,
   TrendingUp,
   Calendar,
+  Copy,
   Home,
   X,
-  HelpCircle
+  HelpCircle,
+  Store,
+  Scale,
+  Layers,
+  Tags,
+  Wand2
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -29,6 +35,42 @@ const navigationItems = [
     icon: Calendar,
     description: 'Todas tus transacciones'
   },
+  {
+    name: 'Revisar Duplicados',
+    href: '/duplicates',
+    icon: Copy,
+    description: 'Fusiona transacciones repetidas'
+  },
+  {
+    name: 'Comercios',
+    href: '/merchants',
+    icon: Store,
+    description: 'Alias y categorías por comercio'
+  },
+  {
+    name: 'Categorías',
+    href: '/categories',
+    icon: Tags,
+    description: 'Subcategorías, iconos y colores'
+  },
+  {
+    name: 'Reglas',
+    href: '/rules',
+    icon: Wand2,
+    description: 'Categorización automática'
+  },
+  {
+    name: 'Compras en Cuotas',
+    href: '/installments',
+    icon: Layers,
+    description: 'Cuotas pagadas y por venir'
+  },
+  {
+    name: 'Conciliación',
+    href: '/reconcile',
+    icon: Scale,
+    description: 'Cuadra tus cuentas con el extracto'
+  },
   {
     name: 'Nueva Transacción',
     href: '/new-transaction',
@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ChevronDown, ChevronRight, Plus, Wallet } from 'lucide-react';
+import { Account, AccountBalanceHistory, AccountType } from '../../interfaces/financial';
+import { accountService } from '../../services/accountService';
+
+const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  bank: 'Banco',
+  cash: 'Efectivo',
+  credit_card: 'Tarjeta de crédito',
+  wallet: 'Billetera',
+};
+
+// Días de historial que se muestran al expandir una cuenta
+const HISTORY_DAYS = 30;
+
+const AccountsCard: React.FC = () => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<AccountBalanceHistory | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('bank');
+  const [openingBalance, setOpeningBalance] = useState('');
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('es-ES', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('es-ES', {
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await accountService.getAccounts();
+      setAccounts(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener las cuentas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const toggleAccount = async (accountId: string) => {
+    if (expandedId === accountId) {
+      setExpandedId(null);
+      setHistory(null);
+      return;
+    }
+
+    setExpandedId(accountId);
+    setHistory(null);
+    try {
+      const start = new Date();
+      start.setDate(start.getDate() - HISTORY_DAYS);
+      const response = await accountService.getBalanceHistory(accountId, start.toISOString().split('T')[0]);
+      setHistory(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener el historial de saldo');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    try {
+      await accountService.createAccount({
+        name: name.trim(),
+        type,
+        openingBalance: openingBalance ? parseFloat(openingBalance) : 0,
+      });
+      toast.success('Cuenta creada');
+      setName('');
+      setOpeningBalance('');
+      setShowForm(false);
+      fetchAccounts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al crear la cuenta');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-blue-400" />
+          Cuentas
+        </h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-1 text-sm text-blue-400 hover:text-blue-300"
+        >
+          <Plus className="w-4 h-4" />
+          Nueva cuenta
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nombre"
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+          />
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as AccountType)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+          >
+            {Object.entries(ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            value={openingBalance}
+            onChange={(e) => setOpeningBalance(e.target.value)}
+            placeholder="Saldo inicial"
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+          />
+          <button
+            type="submit"
+            className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm"
+          >
+            Crear
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-gray-400 text-sm">Cargando cuentas...</div>
+      ) : accounts.length === 0 ? (
+        <div className="text-gray-400 text-sm">Todavía no tienes cuentas registradas</div>
+      ) : (
+        <div className="space-y-2">
+          {accounts.map((account) => (
+            <div key={account.id} className="border border-gray-700 rounded-lg">
+              <button
+                onClick={() => toggleAccount(account.id)}
+                className="w-full flex items-center justify-between p-3 hover:bg-gray-700/50 rounded-lg"
+              >
+                <div className="flex items-center gap-2 text-left">
+                  {expandedId === account.id
+                    ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                    : <ChevronRight className="w-4 h-4 text-gray-400" />}
+                  <div>
+                    <div className="font-medium text-white">
+                      {account.name}
+                      {account.isDefault && <span className="ml-2 text-xs text-blue-400">Predeterminada</span>}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      {ACCOUNT_TYPE_LABELS[account.type]} · {account.transactionCount} movimientos
+                    </div>
+                  </div>
+                </div>
+                <span className={`font-semibold ${account.balance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatCurrency(account.balance, account.currency)}
+                </span>
+              </button>
+
+              {expandedId === account.id && (
+                <div className="px-3 pb-3">
+                  {!history ? (
+                    <div className="text-gray-400 text-sm">Cargando historial...</div>
+                  ) : history.entries.length === 0 ? (
+                    <div className="text-gray-400 text-sm">
+                      Sin movimientos en los últimos {HISTORY_DAYS} días
+                    </div>
+                  ) : (
+                    <div className="max-h-60 overflow-y-auto text-sm">
+                      <div className="flex justify-between text-gray-400 py-1 border-b border-gray-700">
+                        <span>Saldo al inicio del período</span>
+                        <span>{formatCurrency(history.openingBalance, account.currency)}</span>
+                      </div>
+                      {history.entries.map((entry) => (
+                        <div key={entry.id} className="flex justify-between py-1 border-b border-gray-700/50">
+                          <span className="text-gray-300 truncate mr-2">
+                            {formatDate(entry.date)} · {entry.description}
+                          </span>
+                          <span className="flex gap-3 shrink-0">
+                            <span className={entry.type === 'transfer' ? 'text-blue-400' : entry.type === 'income' ? 'text-green-400' : 'text-red-400'}>
+                              {entry.type === 'income' || entry.transferDirection === 'in' ? '+' : '-'}{formatCurrency(entry.amount, entry.currency)}
+                            </span>
+                            <span className="text-white w-24 text-right">
+                              {formatCurrency(entry.balance, account.currency)}
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountsCard;
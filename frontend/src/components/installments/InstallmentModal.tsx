@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { X, CreditCard, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Account } from '../../interfaces/financial';
+import { installmentService } from '../../services/installmentService';
+import { accountService } from '../../services/accountService';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryOptions } from '../../utils/categories';
+import { formatCurrency } from '../../utils/format';
+
+interface InstallmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const INSTALLMENT_OPTIONS = [3, 6, 9, 12, 18, 24];
+
+// Mes siguiente a una fecha YYYY-MM-DD, en formato YYYY-MM
+const nextMonth = (date: string) => {
+  const [year, month] = date.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+};
+
+// Misma cuota que calcula el backend: partes iguales o sistema francés sobre la TNA
+const estimateInstallment = (total: number, count: number, annualRate: number) => {
+  const monthlyRate = annualRate / 100 / 12;
+  return monthlyRate > 0 ? total * monthlyRate / (1 - Math.pow(1 + monthlyRate, -count)) : total / count;
+};
+
+const InstallmentModal: React.FC<InstallmentModalProps> = ({ isOpen, onClose, onSaved }) => {
+  const { categories } = useCategories();
+  const categoryOptions = getCategoryOptions(categories, 'expense');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [description, setDescription] = useState('');
+  const [totalAmount, setTotalAmount] = useState('');
+  const [installmentCount, setInstallmentCount] = useState(12);
+  const [interestRate, setInterestRate] = useState('');
+  const [date, setDate] = useState('');
+  const [firstDueMonth, setFirstDueMonth] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [category, setCategory] = useState('');
+  const [merchant, setMerchant] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Limpiar el estado cada vez que se abre el modal
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const today = new Date().toISOString().split('T')[0];
+    setDescription('');
+    setTotalAmount('');
+    setInstallmentCount(12);
+    setInterestRate('');
+    setDate(today);
+    setFirstDueMonth(nextMonth(today));
+    setCategory('');
+    setMerchant('');
+
+    accountService.getAccounts()
+      .then(response => {
+        setAccounts(response.data);
+        // Las compras en cuotas se hacen casi siempre con tarjeta de crédito
+        const preferred = response.data.find(account => account.type === 'credit_card')
+          || response.data.find(account => account.isDefault);
+        setAccountId(preferred?.id || '');
+      })
+      .catch(() => setAccounts([]));
+  }, [isOpen]);
+
+  const handleDateChange = (value: string) => {
+    setDate(value);
+    if (value) setFirstDueMonth(nextMonth(value));
+  };
+
+  const total = parseFloat(totalAmount);
+  const rate = parseFloat(interestRate) || 0;
+  const account = accounts.find(item => item.id === accountId);
+  const installment = total > 0 ? estimateInstallment(total, installmentCount, rate) : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description.trim() || !(total > 0)) {
+      toast.error('La descripción y el monto son obligatorios');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await installmentService.createPlan({
+        description: description.trim(),
+        totalAmount: total,
+        installmentCount,
+        interestRate: rate,
+        date,
+        firstDueMonth,
+        accountId: accountId || undefined,
+        category: category || undefined,
+        merchant: merchant.trim() || undefined,
+      });
+      toast.success('Compra en cuotas registrada');
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al crear la compra en cuotas');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg border border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+              <CreditCard className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Nueva Compra en Cuotas</h2>
+              <p className="text-sm text-gray-400">Cada cuota se registra cuando vence</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Descripción *</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClassName}
+              placeholder="Ej: Heladera Samsung"
+              maxLength={255}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Monto total *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={totalAmount}
+                onChange={(e) => setTotalAmount(e.target.value)}
+                className={inputClassName}
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Cuotas</label>
+              <select value={installmentCount} onChange={(e) => setInstallmentCount(Number(e.target.value))} className={inputClassName}>
+                {INSTALLMENT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>{count} cuotas</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Fecha de compra</label>
+              <input type="date" value={date} onChange={(e) => handleDateChange(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Primera cuota</label>
+              <input type="month" value={firstDueMonth} onChange={(e) => setFirstDueMonth(e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Interés (TNA %)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={interestRate}
+                onChange={(e) => setInterestRate(e.target.value)}
+                className={inputClassName}
+                placeholder="Sin interés"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Cuenta</label>
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClassName}>
+                {accounts.map((item) => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Categoría</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName}>
+                <option value="">Decidir automáticamente</option>
+                {categoryOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Comercio</label>
+              <input
+                type="text"
+                value={merchant}
+                onChange={(e) => setMerchant(e.target.value)}
+                className={inputClassName}
+                placeholder="Opcional"
+              />
+            </div>
+          </div>
+
+          {installment > 0 && (
+            <p className="text-sm text-gray-300">
+              {installmentCount} cuotas de <span className="font-semibold text-white">{formatCurrency(installment, account?.currency)}</span>
+              {rate > 0 && ` · total ${formatCurrency(installment * installmentCount, account?.currency)}`}
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors duration-200"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>Crear</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InstallmentModal;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { X, Store, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Merchant } from '../../interfaces/financial';
+import { merchantService } from '../../services/merchantService';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryOptions } from '../../utils/categories';
+
+interface MerchantModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  merchant?: Merchant | null;
+}
+
+// Un alias o patrón por línea
+const toLines = (values: string[]) => values.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+const MerchantModal: React.FC<MerchantModalProps> = ({ isOpen, onClose, onSaved, merchant }) => {
+  const { categories } = useCategories();
+  const categoryOptions = getCategoryOptions(categories, 'expense');
+  const [name, setName] = useState('');
+  const [defaultCategory, setDefaultCategory] = useState('');
+  const [aliases, setAliases] = useState('');
+  const [patterns, setPatterns] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Limpiar el estado cada vez que se abre el modal
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(merchant?.name || '');
+    setDefaultCategory(merchant?.defaultCategory || '');
+    setAliases(toLines(merchant?.aliases || []));
+    setPatterns(toLines(merchant?.patterns || []));
+  }, [isOpen, merchant]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('El nombre es obligatorio');
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      defaultCategory: defaultCategory || null,
+      aliases: fromLines(aliases),
+      patterns: fromLines(patterns),
+    };
+
+    setLoading(true);
+    try {
+      if (merchant) {
+        await merchantService.updateMerchant(merchant.id, data);
+        toast.success('Comercio actualizado');
+      } else {
+        await merchantService.createMerchant(data);
+        toast.success('Comercio creado');
+      }
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al guardar el comercio');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-md border border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+              <Store className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">
+                {merchant ? 'Editar Comercio' : 'Nuevo Comercio'}
+              </h2>
+              <p className="text-sm text-gray-400">Se aplica a las transacciones nuevas e importadas</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Nombre *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="Ej: Coto"
+              maxLength={100}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Categoría predeterminada</label>
+            <select value={defaultCategory} onChange={(e) => setDefaultCategory(e.target.value)} className={inputClassName}>
+              <option value="">Decidir automáticamente</option>
+              {categoryOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Alias (uno por línea)</label>
+            <textarea
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              className={inputClassName}
+              rows={3}
+              placeholder={'COTO CICSA\nSupermercado Coto'}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Patrones (expresiones regulares, uno por línea)</label>
+            <textarea
+              value={patterns}
+              onChange={(e) => setPatterns(e.target.value)}
+              className={`${inputClassName} font-mono text-sm`}
+              rows={2}
+              placeholder={'^coto\\s+suc'}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors duration-200"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{merchant ? 'Guardar' : 'Crear'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MerchantModal;
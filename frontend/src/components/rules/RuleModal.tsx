@@ -0,0 +1,386 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Plus, Trash2, Wand2, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Account, CategorizationRule, RuleActions, RuleCondition, RulePreview } from '../../interfaces/financial';
+import { ruleService } from '../../services/ruleService';
+import { accountService } from '../../services/accountService';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryOptions } from '../../utils/categories';
+import { formatCurrency, formatDate } from '../../utils/format';
+
+interface RuleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  rule?: CategorizationRule | null;
+}
+
+// Estado editable de una condición: los montos se editan como texto
+interface ConditionDraft {
+  type: RuleCondition['type'];
+  value: string;
+  min: string;
+  max: string;
+}
+
+const CONDITION_LABELS: Record<RuleCondition['type'], string> = {
+  contains: 'La descripción contiene',
+  regex: 'La descripción coincide con',
+  amount: 'El monto está entre',
+  transactionType: 'El tipo es',
+  merchant: 'El comercio contiene',
+};
+
+const emptyCondition = (): ConditionDraft => ({ type: 'contains', value: '', min: '', max: '' });
+
+const toDraft = (condition: RuleCondition): ConditionDraft => ({
+  ...emptyCondition(),
+  type: condition.type,
+  value: 'value' in condition ? condition.value : '',
+  min: condition.type === 'amount' && condition.min !== undefined ? String(condition.min) : '',
+  max: condition.type === 'amount' && condition.max !== undefined ? String(condition.max) : '',
+});
+
+const fromDraft = (draft: ConditionDraft): RuleCondition => {
+  switch (draft.type) {
+    case 'amount':
+      return {
+        type: 'amount',
+        ...(draft.min.trim() ? { min: Number(draft.min) } : {}),
+        ...(draft.max.trim() ? { max: Number(draft.max) } : {}),
+      };
+    case 'transactionType':
+      return { type: 'transactionType', value: draft.value === 'income' ? 'income' : 'expense' };
+    default:
+      return { type: draft.type, value: draft.value.trim() };
+  }
+};
+
+const RuleModal: React.FC<RuleModalProps> = ({ isOpen, onClose, onSaved, rule }) => {
+  const { categories } = useCategories();
+  const categoryOptions = getCategoryOptions(categories);
+  const [name, setName] = useState('');
+  const [conditions, setConditions] = useState<ConditionDraft[]>([emptyCondition()]);
+  const [category, setCategory] = useState('');
+  const [merchant, setMerchant] = useState('');
+  const [tags, setTags] = useState('');
+  const [markAsTransfer, setMarkAsTransfer] = useState(false);
+  const [transferAccountId, setTransferAccountId] = useState('');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // Limpiar el estado cada vez que se abre el modal
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(rule?.name || '');
+    setConditions(rule ? rule.conditions.map(toDraft) : [emptyCondition()]);
+    setCategory(rule?.actions.category || '');
+    setMerchant(rule?.actions.merchant || '');
+    setTags((rule?.actions.tags || []).join(', '));
+    setMarkAsTransfer(!!rule?.actions.markAsTransfer);
+    setTransferAccountId(rule?.actions.transferAccountId || '');
+    setPreview(null);
+  }, [isOpen, rule]);
+
+  // Cuentas para la otra pata de la transferencia
+  useEffect(() => {
+    if (!isOpen) return;
+    accountService.getAccounts()
+      .then((response) => setAccounts(response.data))
+      .catch(() => setAccounts([]));
+  }, [isOpen]);
+
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setConditions(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    setPreview(null);
+  };
+
+  const buildActions = (): RuleActions => {
+    const tagList = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    return {
+      ...(category ? { category } : {}),
+      ...(merchant.trim() ? { merchant: merchant.trim() } : {}),
+      ...(tagList.length > 0 ? { tags: tagList } : {}),
+      ...(markAsTransfer ? { markAsTransfer: true, ...(transferAccountId ? { transferAccountId } : {}) } : {}),
+    };
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      const response = await ruleService.testRule(conditions.map(fromDraft), buildActions());
+      setPreview(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al probar la regla');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('El nombre es obligatorio');
+      return;
+    }
+    if (markAsTransfer && !transferAccountId) {
+      toast.error('Elige la cuenta de la otra pata de la transferencia');
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      conditions: conditions.map(fromDraft),
+      actions: buildActions(),
+    };
+
+    setLoading(true);
+    try {
+      if (rule) {
+        await ruleService.updateRule(rule.id, data);
+        toast.success('Regla actualizada');
+      } else {
+        await ruleService.createRule(data);
+        toast.success('Regla creada');
+      }
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al guardar la regla');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto border border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+              <Wand2 className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">
+                {rule ? 'Editar Regla' : 'Nueva Regla'}
+              </h2>
+              <p className="text-sm text-gray-400">Se aplica a las transacciones nuevas e importadas</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Nombre *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="Ej: Suscripciones de streaming"
+              maxLength={100}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Condiciones (se deben cumplir todas)</label>
+            <div className="space-y-2">
+              {conditions.map((condition, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={condition.type}
+                    onChange={(e) => updateCondition(index, { ...emptyCondition(), type: e.target.value as RuleCondition['type'] })}
+                    className={`${inputClassName} w-56 flex-none`}
+                  >
+                    {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                  {condition.type === 'amount' ? (
+                    <>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={condition.min}
+                        onChange={(e) => updateCondition(index, { min: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Mínimo"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={condition.max}
+                        onChange={(e) => updateCondition(index, { max: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Máximo"
+                      />
+                    </>
+                  ) : condition.type === 'transactionType' ? (
+                    <select
+                      value={condition.value || 'expense'}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      className={inputClassName}
+                    >
+                      <option value="expense">Gasto</option>
+                      <option value="income">Ingreso</option>
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={condition.value}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      className={`${inputClassName} ${condition.type === 'regex' ? 'font-mono text-sm' : ''}`}
+                      placeholder={condition.type === 'regex' ? '^netflix' : 'Ej: netflix'}
+                      maxLength={200}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setConditions(current => current.filter((_, i) => i !== index))}
+                    disabled={conditions.length === 1}
+                    className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                    title="Quitar condición"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {conditions.length < 10 && (
+              <button
+                type="button"
+                onClick={() => setConditions(current => [...current, emptyCondition()])}
+                className="mt-2 text-sm text-blue-400 hover:text-blue-300 flex items-center space-x-1"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Agregar condición</span>
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Asignar categoría</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName}>
+                <option value="">No cambiar</option>
+                {categoryOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Asignar comercio</label>
+              <input
+                type="text"
+                value={merchant}
+                onChange={(e) => setMerchant(e.target.value)}
+                className={inputClassName}
+                placeholder="No cambiar"
+                maxLength={255}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Agregar etiquetas (separadas por coma)</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className={inputClassName}
+              placeholder="suscripciones, hogar"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={markAsTransfer}
+                onChange={(e) => setMarkAsTransfer(e.target.checked)}
+                className="rounded border-gray-600 bg-gray-700"
+              />
+              <span>Marcar como transferencia (no cuenta como ingreso ni gasto)</span>
+            </label>
+            {markAsTransfer && (
+              <select value={transferAccountId} onChange={(e) => setTransferAccountId(e.target.value)} className={inputClassName}>
+                <option value="">Elige la cuenta de la otra pata</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {preview && (
+            <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4">
+              <p className="text-sm text-gray-300 mb-2">
+                Coincide con {preview.matchCount} de las últimas {preview.scanned} transacciones
+              </p>
+              <div className="max-h-48 overflow-y-auto divide-y divide-gray-700">
+                {preview.matches.map(({ transaction, proposed }) => (
+                  <div key={transaction.id} className="flex items-center justify-between py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{transaction.description}</p>
+                      <p className="text-xs text-gray-400">
+                        {formatDate(transaction.date)} · {transaction.category || 'Sin categoría'} → {proposed.category || 'Sin categoría'}
+                      </p>
+                    </div>
+                    <span className="text-gray-300 ml-3">{formatCurrency(transaction.amount, transaction.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between pt-2">
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={testing}
+              className="px-4 py-2 text-gray-300 hover:text-white border border-gray-600 rounded-md transition-colors duration-200 flex items-center space-x-2 disabled:opacity-50"
+            >
+              {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              <span>Probar</span>
+            </button>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-300 hover:text-white transition-colors duration-200"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+              >
+                {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>{rule ? 'Guardar' : 'Crear'}</span>
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RuleModal;
@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowRightLeft, Loader2, Trash2, Upload } from 'lucide-react';
+import { ExchangeRate, ImportDateFormat } from '../../interfaces/financial';
+import { exchangeRateService } from '../../services/exchangeRateService';
+import { formatDate } from '../../utils/format';
+
+interface ExchangeRatesCardProps {
+  // Moneda base del usuario, usada como destino por defecto
+  baseCurrency: string;
+}
+
+const CURRENCIES = ['USD', 'EUR', 'ARS', 'MXN'];
+
+const ExchangeRatesCard: React.FC<ExchangeRatesCardProps> = ({ baseCurrency }) => {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [fromCurrency, setFromCurrency] = useState('USD');
+  const [toCurrency, setToCurrency] = useState(baseCurrency);
+  const [rate, setRate] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [decimalSeparator, setDecimalSeparator] = useState<'.' | ','>('.');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchRates = useCallback(async () => {
+    try {
+      const response = await exchangeRateService.getRates();
+      setRates(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener las tasas de cambio');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  useEffect(() => {
+    setToCurrency(baseCurrency);
+  }, [baseCurrency]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedRate = parseFloat(rate);
+    if (!parsedRate || parsedRate <= 0) {
+      toast.error('La tasa debe ser mayor a 0');
+      return;
+    }
+    if (fromCurrency === toCurrency) {
+      toast.error('Elige dos monedas distintas');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await exchangeRateService.saveRate({ fromCurrency, toCurrency, rate: parsedRate, date });
+      toast.success('Tasa guardada');
+      setRate('');
+      fetchRates();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al guardar la tasa de cambio');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const response = await exchangeRateService.importCsv(file, dateFormat, decimalSeparator);
+      const { imported, errors } = response.data;
+      if (errors.length > 0) {
+        toast.error(`${imported} tasas importadas, ${errors.length} filas con errores (primera: fila ${errors[0].row})`);
+      } else {
+        toast.success(`${imported} tasas importadas`);
+      }
+      fetchRates();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al importar las tasas de cambio');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    try {
+      await exchangeRateService.deleteRate(rateId);
+      setRates(rates.filter((item) => item.id !== rateId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar la tasa de cambio');
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="w-10 h-10 bg-green-500/20 rounded-lg flex items-center justify-center">
+          <ArrowRightLeft className="w-5 h-5 text-green-400" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-white">Tasas de cambio</h2>
+          <p className="text-sm text-gray-400">
+            Los análisis se convierten a {baseCurrency} con la tasa de la fecha de cada movimiento
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSave} className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        <select value={fromCurrency} onChange={(e) => setFromCurrency(e.target.value)} className={inputClassName}>
+          {CURRENCIES.map((currency) => (
+            <option key={currency} value={currency}>1 {currency}</option>
+          ))}
+        </select>
+        <select value={toCurrency} onChange={(e) => setToCurrency(e.target.value)} className={inputClassName}>
+          {CURRENCIES.map((currency) => (
+            <option key={currency} value={currency}>en {currency}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="any"
+          min="0"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          placeholder="Tasa"
+          className={inputClassName}
+        />
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} />
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg text-sm flex items-center justify-center space-x-2"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Guardar</span>
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <select
+          value={dateFormat}
+          onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+          className={inputClassName}
+        >
+          <option value="YYYY-MM-DD">AAAA-MM-DD</option>
+          <option value="DD/MM/YYYY">DD/MM/AAAA</option>
+          <option value="MM/DD/YYYY">MM/DD/AAAA</option>
+        </select>
+        <select
+          value={decimalSeparator}
+          onChange={(e) => setDecimalSeparator(e.target.value as '.' | ',')}
+          className={inputClassName}
+        >
+          <option value=".">Decimal con punto</option>
+          <option value=",">Decimal con coma</option>
+        </select>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg"
+        >
+          {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Importar CSV
+        </button>
+        <span className="text-gray-500">Columnas: fecha, desde, hacia, tasa</span>
+      </div>
+
+      {loading ? (
+        <div className="text-gray-400 text-sm">Cargando tasas...</div>
+      ) : rates.length === 0 ? (
+        <div className="text-gray-400 text-sm">
+          Sin tasas cargadas: los movimientos en otras monedas no se incluyen en los análisis
+        </div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto text-sm">
+          {rates.map((item) => (
+            <div key={item.id} className="flex items-center justify-between py-2 border-b border-gray-700/50">
+              <span className="text-gray-400 w-28">{formatDate(`${item.date}T00:00:00`)}</span>
+              <span className="text-white flex-1">
+                1 {item.fromCurrency} = {item.rate} {item.toCurrency}
+              </span>
+              <span className="text-gray-500 w-20">{item.source === 'import' ? 'Importada' : 'Manual'}</span>
+              <button
+                onClick={() => handleDelete(item.id)}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Eliminar tasa"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatesCard;
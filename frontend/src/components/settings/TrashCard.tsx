@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { TrashContents, TrashItemType } from '../../interfaces/financial';
+import { trashService } from '../../services/trashService';
+import { formatCurrency, formatDateTime } from '../../utils/format';
+import ConfirmDialog from '../common/ConfirmDialog';
+
+interface TrashRow {
+  type: TrashItemType;
+  id: string;
+  label: string;
+  detail: string;
+  deletedAt: string;
+}
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  transactions: 'Transacción',
+  goals: 'Meta',
+  budgets: 'Presupuesto',
+};
+
+// Una sola lista con los tres tipos, lo eliminado más recientemente primero
+const toRows = (trash: TrashContents): TrashRow[] => [
+  ...trash.transactions.map((t) => ({
+    type: 'transactions' as const,
+    id: t.id,
+    label: t.description,
+    detail: formatCurrency(t.amount, t.currency),
+    deletedAt: t.deletedAt || '',
+  })),
+  ...trash.goals.map((g) => ({
+    type: 'goals' as const,
+    id: g.id,
+    label: g.name,
+    detail: formatCurrency(g.targetAmount, g.currency),
+    deletedAt: g.deletedAt || '',
+  })),
+  ...trash.budgets.map((b) => ({
+    type: 'budgets' as const,
+    id: b.id,
+    label: b.category,
+    detail: `${formatCurrency(b.amount)}${b.month ? ` · ${b.month}` : ''}`,
+    deletedAt: b.deletedAt || '',
+  })),
+].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+const TrashCard: React.FC = () => {
+  const [rows, setRows] = useState<TrashRow[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [showEmptyDialog, setShowEmptyDialog] = useState(false);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await trashService.getTrash();
+      setRows(toRows(response.data));
+      setRetentionDays(response.data.retentionDays);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener la papelera');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (row: TrashRow) => {
+    try {
+      await trashService.restore(row.type, [row.id]);
+      toast.success('Restaurado desde la papelera');
+      fetchTrash();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al restaurar');
+    }
+  };
+
+  const handlePurge = async (row: TrashRow) => {
+    try {
+      await trashService.purge(row.type, [row.id]);
+      fetchTrash();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar definitivamente');
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      await trashService.emptyTrash();
+      toast.success('Papelera vaciada');
+      fetchTrash();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al vaciar la papelera');
+    } finally {
+      setShowEmptyDialog(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-red-500/20 rounded-lg flex items-center justify-center">
+            <Trash2 className="w-5 h-5 text-red-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-white">Papelera</h2>
+            <p className="text-sm text-gray-400">
+              Lo eliminado se borra definitivamente a los {retentionDays} días
+            </p>
+          </div>
+        </div>
+        {rows.length > 0 && (
+          <button
+            onClick={() => setShowEmptyDialog(true)}
+            className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm"
+          >
+            Vaciar
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-gray-400 text-sm">Cargando papelera...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-gray-400 text-sm">La papelera está vacía</div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto text-sm">
+          {rows.map((row) => (
+            <div key={`${row.type}-${row.id}`} className="flex items-center justify-between py-2 border-b border-gray-700/50">
+              <span className="text-gray-500 w-24">{TYPE_LABELS[row.type]}</span>
+              <span className="text-white flex-1 truncate">{row.label}</span>
+              <span className="text-gray-400 w-32 text-right">{row.detail}</span>
+              <span className="text-gray-500 w-40 text-right">{row.deletedAt && formatDateTime(row.deletedAt)}</span>
+              <button
+                onClick={() => handleRestore(row)}
+                className="ml-2 p-1 text-gray-400 hover:text-green-400"
+                title="Restaurar"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handlePurge(row)}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Eliminar definitivamente"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={showEmptyDialog}
+        onClose={() => setShowEmptyDialog(false)}
+        onConfirm={handleEmpty}
+        title="Vaciar papelera"
+        description="Todo lo que está en la papelera se eliminará definitivamente. Esta acción no se puede deshacer."
+        confirmText="Vaciar"
+        cancelText="Cancelar"
+        type="danger"
+      />
+    </div>
+  );
+};
+
+export default TrashCard;
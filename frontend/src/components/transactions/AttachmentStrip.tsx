@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FileText, Loader2, Paperclip, X } from 'lucide-react';
+import { Attachment } from '../../interfaces/financial';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENT_SIZE, attachmentService } from '../../services/attachmentService';
+
+interface AttachmentStripProps {
+  transactionId: string;
+  attachments: Attachment[];
+}
+
+const AttachmentStrip: React.FC<AttachmentStripProps> = ({ transactionId, attachments: initialAttachments }) => {
+  // La lista se gestiona localmente tras la carga inicial para no esperar a recargar las transacciones
+  const [attachments, setAttachments] = useState<Attachment[]>(initialAttachments);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const thumbnailsRef = useRef<Record<string, string>>({});
+
+  // Las miniaturas se piden con el token y se muestran como object URLs
+  useEffect(() => {
+    attachments
+      .filter((attachment) => attachment.mimeType.startsWith('image/') && !thumbnailsRef.current[attachment.id])
+      .forEach(async (attachment) => {
+        try {
+          const blob = await attachmentService.getAttachmentBlob(transactionId, attachment.id);
+          const url = URL.createObjectURL(blob);
+          thumbnailsRef.current[attachment.id] = url;
+          setThumbnails((current) => ({ ...current, [attachment.id]: url }));
+        } catch {
+          // Sin miniatura se muestra el ícono genérico
+        }
+      });
+  }, [attachments, transactionId]);
+
+  useEffect(() => {
+    const urls = thumbnailsRef.current;
+    return () => {
+      Object.values(urls).forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const openAttachment = async (attachment: Attachment) => {
+    try {
+      const blob = await attachmentService.getAttachmentBlob(transactionId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al abrir el adjunto');
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast.error('El archivo supera el máximo de 10 MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const response = await attachmentService.uploadAttachment(transactionId, file);
+      setAttachments((current) => [...current, response.data]);
+      toast.success('Comprobante adjuntado');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al subir el adjunto');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    try {
+      await attachmentService.deleteAttachment(transactionId, attachment.id);
+      setAttachments((current) => current.filter((item) => item.id !== attachment.id));
+      if (thumbnailsRef.current[attachment.id]) {
+        URL.revokeObjectURL(thumbnailsRef.current[attachment.id]);
+        delete thumbnailsRef.current[attachment.id];
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar el adjunto');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 mt-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative group/attachment">
+          <button
+            onClick={() => openAttachment(attachment)}
+            title={attachment.fileName}
+            className="w-10 h-10 rounded-md overflow-hidden border border-gray-600 hover:border-blue-500 bg-gray-800 flex items-center justify-center"
+          >
+            {thumbnails[attachment.id] ? (
+              <img src={thumbnails[attachment.id]} alt={attachment.fileName} className="w-full h-full object-cover" />
+            ) : (
+              <FileText className="w-5 h-5 text-gray-400" />
+            )}
+          </button>
+          <button
+            onClick={() => handleDelete(attachment)}
+            title="Eliminar adjunto"
+            className="absolute -top-1.5 -right-1.5 hidden group-hover/attachment:flex w-4 h-4 rounded-full bg-red-600 items-center justify-center"
+          >
+            <X className="w-3 h-3 text-white" />
+          </button>
+        </div>
+      ))}
+
+      <input ref={fileInputRef} type="file" accept={ATTACHMENT_ACCEPT} onChange={handleUpload} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploading}
+        title="Adjuntar comprobante"
+        className="w-10 h-10 rounded-md border border-dashed border-gray-600 hover:border-blue-500 text-gray-400 hover:text-blue-400 flex items-center justify-center disabled:opacity-50"
+      >
+        {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+};
+
+export default AttachmentStrip;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Check, Trash2, X } from 'lucide-react';
+import { BulkTransactionChanges } from '../../interfaces/financial';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryOptions } from '../../utils/categories';
+
+interface BulkActionBarProps {
+  count: number;
+  isBusy?: boolean;
+  onApply: (changes: BulkTransactionChanges) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const fieldClassName = 'px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, isBusy = false, onApply, onDelete, onClear }) => {
+  const { categories } = useCategories();
+  const categoryOptions = getCategoryOptions(categories);
+  const [category, setCategory] = useState('');
+  const [merchant, setMerchant] = useState('');
+  const [type, setType] = useState('');
+  const [date, setDate] = useState('');
+
+  // Solo se envían los campos que el usuario completó
+  const changes: BulkTransactionChanges = {
+    ...(category && { category }),
+    ...(merchant.trim() && { merchant: merchant.trim() }),
+    ...(type && { type: type as 'income' | 'expense' }),
+    ...(date && { date }),
+  };
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const handleApply = () => {
+    onApply(changes);
+    setCategory('');
+    setMerchant('');
+    setType('');
+    setDate('');
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg flex flex-wrap items-center gap-2">
+      <span className="text-sm text-blue-200 mr-2">
+        {count} seleccionada{count === 1 ? '' : 's'}
+      </span>
+
+      <select value={category} onChange={(e) => setCategory(e.target.value)} className={fieldClassName}>
+        <option value="">Categoría…</option>
+        {categoryOptions.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      <input
+        type="text"
+        value={merchant}
+        onChange={(e) => setMerchant(e.target.value)}
+        className={fieldClassName}
+        placeholder="Comercio…"
+      />
+
+      <select value={type} onChange={(e) => setType(e.target.value)} className={fieldClassName}>
+        <option value="">Tipo…</option>
+        <option value="expense">Gasto</option>
+        <option value="income">Ingreso</option>
+      </select>
+
+      <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={fieldClassName} title="Fecha" />
+
+      <button
+        onClick={handleApply}
+        disabled={!hasChanges || isBusy}
+        className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-md"
+      >
+        <Check className="w-4 h-4" />
+        Aplicar
+      </button>
+
+      <button
+        onClick={onDelete}
+        disabled={isBusy}
+        className="flex items-center gap-1 px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-md"
+      >
+        <Trash2 className="w-4 h-4" />
+        Eliminar
+      </button>
+
+      <button onClick={onClear} className="ml-auto text-gray-400 hover:text-white" title="Quitar selección">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import { X, Upload, Loader2, FileText, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Account, CsvColumnMapping, CsvImportResult, ImportDateFormat } from '../../interfaces/financial';
+import { transactionService } from '../../services/transactionService';
+import { accountService } from '../../services/accountService';
+import { formatCurrency, formatDate } from '../../utils/format';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const MAPPING_FIELDS: Array<{ key: keyof CsvColumnMapping; label: string; required: boolean }> = [
+  { key: 'date', label: 'Fecha', required: true },
+  { key: 'description', label: 'Descripción', required: true },
+  { key: 'amount', label: 'Monto', required: true },
+  { key: 'merchant', label: 'Comercio', required: false },
+  { key: 'type', label: 'Tipo (ingreso/gasto)', required: false },
+];
+
+const DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+const isOfxFile = (file: File | null) => Boolean(file && /\.(ofx|qfx)$/i.test(file.name));
+
+const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('DD/MM/YYYY');
+  const [decimalSeparator, setDecimalSeparator] = useState<'.' | ','>(',');
+  const [preview, setPreview] = useState<CsvImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState('');
+
+  // Limpiar el estado cada vez que se abre el modal
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setMapping({});
+      setPreview(null);
+      setAccountId('');
+      accountService.getAccounts()
+        .then((response) => setAccounts(response.data))
+        .catch(() => setAccounts([]));
+    }
+  }, [isOpen]);
+
+  const isMappingComplete = Boolean(mapping.date && mapping.description && mapping.amount);
+
+  const buildMapping = (): CsvColumnMapping | undefined => {
+    if (!isMappingComplete) return undefined;
+    return {
+      date: mapping.date!,
+      description: mapping.description!,
+      amount: mapping.amount!,
+      merchant: mapping.merchant || undefined,
+      type: mapping.type || undefined,
+    };
+  };
+
+  const runPreview = async (selectedFile: File, currentMapping?: CsvColumnMapping) => {
+    setLoading(true);
+    try {
+      const response = await transactionService.importCsv(selectedFile, {
+        mapping: currentMapping,
+        dateFormat,
+        decimalSeparator,
+        dryRun: true,
+      });
+      setPreview(response.data);
+      if (!currentMapping && response.data.mapping) {
+        setMapping(response.data.mapping);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al leer el archivo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0] || null;
+    setFile(selectedFile);
+    setMapping({});
+    setPreview(null);
+    // Los extractos OFX/QFX no necesitan mapeo de columnas
+    if (selectedFile && !isOfxFile(selectedFile)) {
+      await runPreview(selectedFile);
+    }
+  };
+
+  const handleImportOfx = async () => {
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      const response = await transactionService.importOfx(file, accountId || undefined);
+      toast.success(`${response.data.imported} transacciones importadas`);
+      if (response.data.duplicates > 0) {
+        toast(`${response.data.duplicates} movimientos ya importados se omitieron`);
+      }
+      if (response.data.restored > 0) {
+        toast(`${response.data.restored} movimientos ya importados se restauraron de la papelera`);
+      }
+      if (response.data.errors.length > 0) {
+        toast.error(`${response.data.errors.length} movimientos con errores no se importaron`);
+      }
+      onImported();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al importar el archivo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !isMappingComplete) return;
+
+    setLoading(true);
+    try {
+      const response = await transactionService.importCsv(file, {
+        mapping: buildMapping(),
+        dateFormat,
+        decimalSeparator,
+        dryRun: false,
+        accountId: accountId || undefined,
+      });
+      toast.success(`${response.data.imported} transacciones importadas`);
+      if (response.data.errors.length > 0) {
+        toast.error(`${response.data.errors.length} filas con errores no se importaron`);
+      }
+      onImported();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al importar el archivo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl border border-gray-700 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+              <Upload className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Importar Extracto</h2>
+              <p className="text-sm text-gray-400">Carga un archivo CSV, OFX o QFX exportado de tu banco</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Archivo */}
+          <label className="flex items-center justify-center space-x-2 w-full px-4 py-6 bg-gray-700/50 border-2 border-dashed border-gray-600 rounded-lg cursor-pointer hover:border-blue-500 transition-colors duration-200">
+            <FileText className="w-5 h-5 text-gray-400" />
+            <span className="text-gray-300">{file ? file.name : 'Seleccionar archivo CSV, OFX o QFX...'}</span>
+            <input type="file" accept=".csv,text/csv,.ofx,.qfx" className="hidden" onChange={handleFileChange} />
+          </label>
+
+          {/* Cuenta destino */}
+          {accounts.length > 0 && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Cuenta destino</label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Cuenta predeterminada</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Mapeo de columnas */}
+          {preview && preview.headers.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium text-gray-300">Columnas del archivo</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {MAPPING_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      {field.label}{field.required ? ' *' : ''}
+                    </label>
+                    <select
+                      value={mapping[field.key] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value || undefined }))}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">{field.required ? 'Seleccionar columna...' : 'Sin asignar'}</option>
+                      {preview.headers.map((header) => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Formato de fecha</label>
+                  <select
+                    value={dateFormat}
+                    onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {DATE_FORMATS.map((format) => (
+                      <option key={format} value={format}>{format}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Separador decimal</label>
+                  <select
+                    value={decimalSeparator}
+                    onChange={(e) => setDecimalSeparator(e.target.value as '.' | ',')}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value=",">Coma (1.234,56)</option>
+                    <option value=".">Punto (1,234.56)</option>
+                  </select>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => file && runPreview(file, buildMapping())}
+                disabled={!isMappingComplete || loading}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-md transition-colors duration-200"
+              >
+                Actualizar vista previa
+              </button>
+            </div>
+          )}
+
+          {/* Vista previa */}
+          {preview && preview.mapping && (
+            <div className="space-y-3">
+              <div className="text-sm text-gray-400">
+                {preview.validRows} de {preview.totalRows} filas listas para importar
+              </div>
+              <div className="overflow-x-auto border border-gray-700 rounded-lg">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-gray-700/50 text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2">Fila</th>
+                      <th className="px-3 py-2">Fecha</th>
+                      <th className="px-3 py-2">Descripción</th>
+                      <th className="px-3 py-2">Comercio</th>
+                      <th className="px-3 py-2 text-right">Monto</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.preview.map((row) => (
+                      <tr key={row.row} className="border-t border-gray-700 text-gray-300">
+                        <td className="px-3 py-2">{row.row}</td>
+                        <td className="px-3 py-2">{formatDate(row.date)}</td>
+                        <td className="px-3 py-2">{row.description}</td>
+                        <td className="px-3 py-2">{row.merchant || '-'}</td>
+                        <td className={`px-3 py-2 text-right ${row.type === 'income' ? 'text-green-400' : 'text-red-400'}`}>
+                          {row.type === 'income' ? '+' : '-'}{formatCurrency(row.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg space-y-1">
+                  <div className="flex items-center space-x-2 text-red-400 text-sm font-medium">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>{preview.errors.length} filas con errores</span>
+                  </div>
+                  {preview.errors.slice(0, 10).map((rowError) => (
+                    <p key={rowError.row} className="text-xs text-red-300">
+                      Fila {rowError.row}: {rowError.errors.join(', ')}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {isOfxFile(file) && (
+            <p className="text-sm text-gray-400">
+              Los movimientos del extracto se importarán directamente. Los que ya hayas importado antes se omitirán.
+            </p>
+          )}
+
+          {/* Actions */}
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition-colors duration-200"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={isOfxFile(file) ? handleImportOfx : handleImport}
+              disabled={!file || loading || (!isOfxFile(file) && (!isMappingComplete || !preview?.validRows))}
+              className="flex-1 px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-md transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>Procesando...</span>
+                </>
+              ) : (
+                <>
+                  <Upload className="w-4 h-4" />
+                  <span>{isOfxFile(file) ? 'Importar extracto' : `Importar ${preview?.validRows || 0} transacciones`}</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
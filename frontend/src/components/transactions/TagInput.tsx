@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { TagSummary } from '../../interfaces/financial';
+import { tagService } from '../../services/tagService';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Igual que normalizeTagName en el backend, para no mostrar duplicados
+const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase().slice(0, 50);
+
+const TagInput: React.FC<TagInputProps> = ({ value, onChange }) => {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSummary[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  // Autocompletado con las etiquetas más usadas que empiezan con el texto escrito
+  useEffect(() => {
+    if (!showSuggestions) return;
+
+    const timeoutId = setTimeout(() => {
+      tagService.getTags(normalizeTag(input))
+        .then((response) => setSuggestions(response.data))
+        .catch(() => setSuggestions([]));
+    }, 250);
+    return () => clearTimeout(timeoutId);
+  }, [input, showSuggestions]);
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const visibleSuggestions = suggestions.filter((suggestion) => !value.includes(suggestion.name));
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+        {value.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-300 text-xs rounded-full border border-blue-500/30">
+            #{tag}
+            <button type="button" onClick={() => onChange(value.filter((item) => item !== tag))}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => {
+            // Esperar al clic en una sugerencia antes de ocultarlas
+            setTimeout(() => setShowSuggestions(false), 150);
+            if (input.trim()) addTag(input);
+          }}
+          className="flex-1 min-w-[120px] bg-transparent text-white placeholder-gray-400 focus:outline-none text-sm"
+          placeholder={value.length === 0 ? 'Ej: vacaciones-2026, reforma cocina' : ''}
+        />
+      </div>
+
+      {showSuggestions && visibleSuggestions.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-600 rounded-md shadow-lg max-h-40 overflow-y-auto">
+          {visibleSuggestions.map((suggestion) => (
+            <button
+              key={suggestion.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(suggestion.name)}
+              className="w-full flex justify-between px-3 py-2 text-sm text-left text-gray-200 hover:bg-gray-700"
+            >
+              <span>#{suggestion.name}</span>
+              <span className="text-gray-500">{suggestion.usageCount}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
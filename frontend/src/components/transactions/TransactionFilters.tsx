@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { Search, SlidersHorizontal, ArrowDown, ArrowUp } from 'lucide-react';
+import { Account, TransactionSearchParams, TransactionSortField } from '../../interfaces/financial';
+import { accountService } from '../../services/accountService';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryOptions } from '../../utils/categories';
+
+interface TransactionFiltersProps {
+  value: TransactionSearchParams;
+  onChange: (filters: TransactionSearchParams) => void;
+}
+
+const SORT_OPTIONS: Array<{ value: TransactionSortField; label: string }> = [
+  { value: 'createdAt', label: 'Fecha de registro' },
+  { value: 'date', label: 'Fecha' },
+  { value: 'amount', label: 'Monto' },
+  { value: 'description', label: 'Descripción' },
+  { value: 'merchant', label: 'Comercio' },
+  { value: 'category', label: 'Categoría' },
+  { value: 'type', label: 'Tipo' },
+  { value: 'relevance', label: 'Relevancia' },
+];
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Quita los campos vacíos para no enviarlos como filtros
+const compact = (filters: TransactionSearchParams): TransactionSearchParams =>
+  Object.fromEntries(
+    Object.entries(filters).filter(([, item]) => item !== undefined && item !== '' && !Number.isNaN(item))
+  ) as TransactionSearchParams;
+
+const TransactionFilters: React.FC<TransactionFiltersProps> = ({ value, onChange }) => {
+  const { categories } = useCategories();
+  const categoryOptions = getCategoryOptions(categories);
+  const [draft, setDraft] = useState<TransactionSearchParams>(value);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    accountService.getAccounts()
+      .then((response) => setAccounts(response.data))
+      .catch(() => setAccounts([]));
+  }, []);
+
+  // Aplicar los cambios con una pequeña espera para no consultar en cada tecla
+  useEffect(() => {
+    const next = compact(draft);
+    if (JSON.stringify(next) === JSON.stringify(compact(value))) return;
+
+    const timeoutId = setTimeout(() => onChange(next), 400);
+    return () => clearTimeout(timeoutId);
+  }, [draft, value, onChange]);
+
+  const update = (changes: Partial<TransactionSearchParams>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const parseAmount = (raw: string) => (raw === '' ? undefined : Number(raw));
+
+  const activeCount = Object.keys(compact({ ...draft, q: undefined, sortBy: undefined, sortOrder: undefined })).length;
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={draft.q || ''}
+            onChange={(e) => update({ q: e.target.value })}
+            className={`${inputClassName} pl-9`}
+            placeholder="Buscar por descripción o comercio"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowAdvanced((current) => !current)}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm rounded-md"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          Filtros{activeCount > 0 ? ` (${activeCount})` : ''}
+        </button>
+      </div>
+
+      {showAdvanced && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-3 bg-gray-900/40 border border-gray-700 rounded-lg">
+          <select
+            value={draft.type || ''}
+            onChange={(e) => update({ type: (e.target.value || undefined) as TransactionSearchParams['type'] })}
+            className={inputClassName}
+          >
+            <option value="">Todos los tipos</option>
+            <option value="expense">Gastos</option>
+            <option value="income">Ingresos</option>
+            <option value="transfer">Transferencias</option>
+          </select>
+
+          <select
+            value={draft.category || ''}
+            onChange={(e) => update({ category: e.target.value || undefined })}
+            className={inputClassName}
+          >
+            <option value="">Todas las categorías</option>
+            {categoryOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <select
+            value={draft.accountId || ''}
+            onChange={(e) => update({ accountId: e.target.value || undefined })}
+            className={inputClassName}
+          >
+            <option value="">Todas las cuentas</option>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+
+          <input
+            type="text"
+            value={draft.merchant || ''}
+            onChange={(e) => update({ merchant: e.target.value })}
+            className={inputClassName}
+            placeholder="Comercio exacto"
+          />
+
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.minAmount ?? ''}
+            onChange={(e) => update({ minAmount: parseAmount(e.target.value) })}
+            className={inputClassName}
+            placeholder="Monto mínimo"
+          />
+
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.maxAmount ?? ''}
+            onChange={(e) => update({ maxAmount: parseAmount(e.target.value) })}
+            className={inputClassName}
+            placeholder="Monto máximo"
+          />
+
+          <input
+            type="date"
+            value={draft.startDate || ''}
+            onChange={(e) => update({ startDate: e.target.value })}
+            className={inputClassName}
+            title="Desde"
+          />
+
+          <input
+            type="date"
+            value={draft.endDate || ''}
+            onChange={(e) => update({ endDate: e.target.value })}
+            className={inputClassName}
+            title="Hasta"
+          />
+
+          <div className="flex gap-2">
+            <select
+              value={draft.sortBy || ''}
+              onChange={(e) => update({ sortBy: (e.target.value || undefined) as TransactionSortField | undefined })}
+              className={inputClassName}
+            >
+              <option value="">Orden predeterminado</option>
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => update({ sortOrder: draft.sortOrder === 'ASC' ? 'DESC' : 'ASC' })}
+              title={draft.sortOrder === 'ASC' ? 'Ascendente' : 'Descendente'}
+              className="px-3 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-md"
+            >
+              {draft.sortOrder === 'ASC' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+            </button>
+          </div>
+
+          {activeCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setDraft({ q: draft.q, sortBy: draft.sortBy, sortOrder: draft.sortOrder })}
+              className="md:col-span-3 text-left text-sm text-gray-400 hover:text-white underline"
+            >
+              Limpiar filtros
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionFilters;
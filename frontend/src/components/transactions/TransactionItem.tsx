@@ -1,54 +1,77 @@
 import React from 'react';
 import { Transaction } from '../../interfaces/financial';
 import { formatCurrency, formatDate } from '../../utils/format';
-import { Edit, Trash2, Tag, Calendar, DollarSign } from 'lucide-react';
+import { Edit, Trash2, Tag, Calendar, DollarSign, Repeat, Lock, Unlock } from 'lucide-react';
+import AttachmentStrip from './AttachmentStrip';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryBadgeStyle } from '../../utils/categories';
+
+const TRANSFER_COLOR = '#0ea5e9';
+
+const TYPE_LABELS = {
+  income: 'Ingreso',
+  expense: 'Gasto',
+  transfer: 'Transferencia',
+};
 
 interface TransactionItemProps {
   transaction: Transaction;
   onEdit: () => void;
   onDelete: () => void;
+  onTagClick?: (tag: string) => void;
+  onUnlock?: () => void;
+  selected?: boolean;
+  onSelectChange?: (selected: boolean) => void;
 }
 
 const TransactionItem: React.FC<TransactionItemProps> = ({
   transaction,
   onEdit,
-  onDelete
+  onDelete,
+  onTagClick,
+  onUnlock,
+  selected = false,
+  onSelectChange
 }) => {
+  const { findCategory } = useCategories();
+  // Las entradas de una transferencia suman al saldo de su cuenta, las salidas restan
+  const isInflow = transaction.type === 'income' || transaction.transferDirection === 'in';
+  // Las conciliadas no se editan ni se eliminan hasta desbloquearlas
+  const isReconciled = transaction.status === 'reconciled';
+
   const getTypeColor = (type: string) => {
+    if (type === 'transfer') return 'text-blue-400';
     return type === 'income' ? 'text-green-400' : 'text-red-400';
   };
 
   const getTypeIcon = (type: string) => {
+    if (type === 'transfer') return '⇄';
     return type === 'income' ? '↑' : '↓';
   };
 
-  const getCategoryColor = (category: string) => {
-    const colors = {
-      'Alimentos': 'bg-green-500/20 text-green-400 border-green-500/30',
-      'Transporte': 'bg-blue-500/20 text-blue-400 border-blue-500/30',
-      'Entretenimiento': 'bg-purple-500/20 text-purple-400 border-purple-500/30',
-      'Servicios': 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
-      'Salud': 'bg-red-500/20 text-red-400 border-red-500/30',
-      'Educación': 'bg-indigo-500/20 text-indigo-400 border-indigo-500/30',
-      'Vivienda': 'bg-orange-500/20 text-orange-400 border-orange-500/30',
-      'Ropa': 'bg-pink-500/20 text-pink-400 border-pink-500/30',
-      'Ahorro': 'bg-teal-500/20 text-teal-400 border-teal-500/30',
-      'Inversiones': 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
-      'Regalos': 'bg-rose-500/20 text-rose-400 border-rose-500/30',
-      'Otros': 'bg-gray-500/20 text-gray-400 border-gray-500/30',
-      'Ingresos': 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
-    };
-    return colors[category as keyof typeof colors] || colors['Otros'];
-  };
+  // El color de cada categoría lo define el usuario; las transferencias no son una categoría del usuario
+  const getCategoryStyle = (category?: string) =>
+    getCategoryBadgeStyle(findCategory(category)?.color || (category === 'Transferencias' ? TRANSFER_COLOR : null));
 
   return (
     <div className="flex items-center justify-between p-4 bg-gray-700/50 rounded-lg border border-gray-600 hover:border-gray-500 transition-all duration-200 group">
       {/* Left side: Transaction details */}
       <div className="flex-1">
         <div className="flex items-center space-x-3">
+          {onSelectChange && (
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={(e) => onSelectChange(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-500 bg-gray-700 text-blue-500 focus:ring-blue-500"
+              aria-label="Seleccionar transacción"
+            />
+          )}
           {/* Type indicator */}
           <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-            transaction.type === 'income' ? 'bg-green-500/20 text-green-400 border border-green-500/30' : 'bg-red-500/20 text-red-400 border border-red-500/30'
+            transaction.type === 'transfer'
+              ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+              : transaction.type === 'income' ? 'bg-green-500/20 text-green-400 border border-green-500/30' : 'bg-red-500/20 text-red-400 border border-red-500/30'
           }`}>
             <span className="text-sm font-bold">{getTypeIcon(transaction.type)}</span>
           </div>
@@ -57,14 +80,52 @@ const TransactionItem: React.FC<TransactionItemProps> = ({
           <div className="flex-1">
             <div className="flex items-center space-x-2 mb-1">
               <h4 className="font-medium text-white">{transaction.description}</h4>
-              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getCategoryColor(transaction.category)}`}>
-                {transaction.category}
-              </span>
+              {transaction.splits && transaction.splits.length > 0 ? (
+                transaction.splits.map((split, index) => (
+                  <span
+                    key={split.id || index}
+                    title={formatCurrency(split.amount, transaction.currency)}
+                    className="px-2 py-1 rounded-full text-xs font-medium"
+                    style={getCategoryStyle(split.category)}
+                  >
+                    {split.category}
+                  </span>
+                ))
+              ) : (
+                <span className="px-2 py-1 rounded-full text-xs font-medium" style={getCategoryStyle(transaction.category)}>
+                  {transaction.category}
+                </span>
+              )}
               {transaction.merchant && (
                 <span className="px-2 py-1 bg-gray-600/50 text-gray-300 text-xs rounded-full border border-gray-600">
                   {transaction.merchant}
                 </span>
               )}
+              {transaction.tags?.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => onTagClick?.(tag)}
+                  title="Filtrar por esta etiqueta"
+                  className="px-2 py-1 bg-blue-500/10 text-blue-300 text-xs rounded-full border border-blue-500/30 hover:bg-blue-500/20"
+                >
+                  #{tag}
+                </button>
+              ))}
+              {transaction.installmentNumber && transaction.installmentCount && (
+                <span className="px-2 py-1 bg-amber-500/10 text-amber-300 text-xs rounded-full border border-amber-500/30">
+                  cuota {transaction.installmentNumber}/{transaction.installmentCount}
+                </span>
+              )}
+              {transaction.recurringTransactionId && (
+                <span title="Transacción recurrente">
+                  <Repeat className="w-4 h-4 text-blue-400" />
+                </span>
+              )}
+              {isReconciled && (
+                <span title="Conciliada con el extracto">
+                  <Lock className="w-4 h-4 text-emerald-400" />
+                </span>
+              )}
             </div>
             
             <div className="flex items-center space-x-4 text-sm text-gray-400">
@@ -74,40 +135,56 @@ const TransactionItem: React.FC<TransactionItemProps> = ({
               </div>
               <div className="flex items-center space-x-1">
                 <DollarSign className="w-4 h-4" />
-                <span>{formatCurrency(transaction.amount)}</span>
+                <span>{formatCurrency(transaction.amount, transaction.currency)}</span>
               </div>
               <div className="flex items-center space-x-1">
                 <Tag className="w-4 h-4" />
-                <span>{transaction.type === 'income' ? 'Ingreso' : 'Gasto'}</span>
+                <span>{TYPE_LABELS[transaction.type]}</span>
               </div>
             </div>
+
+            <AttachmentStrip transactionId={transaction.id} attachments={transaction.attachments || []} />
           </div>
         </div>
       </div>
 
       {/* Right side: Actions */}
       <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-        <button
-          onClick={onEdit}
-          className="p-2 hover:bg-blue-500/20 text-blue-400 rounded-lg border border-blue-500/30 transition-all duration-200 hover:border-blue-500/50"
-          title="Editar transacción"
-        >
-          <Edit className="w-4 h-4" />
-        </button>
-        
-        <button
-          onClick={onDelete}
-          className="p-2 hover:bg-red-500/20 text-red-400 rounded-lg border border-red-500/30 transition-all duration-200 hover:border-red-500/50"
-          title="Eliminar transacción"
-        >
-          <Trash2 className="w-4 h-4" />
-        </button>
+        {isReconciled ? (
+          onUnlock && (
+            <button
+              onClick={onUnlock}
+              className="p-2 hover:bg-emerald-500/20 text-emerald-400 rounded-lg border border-emerald-500/30 transition-all duration-200 hover:border-emerald-500/50"
+              title="Desbloquear para editar"
+            >
+              <Unlock className="w-4 h-4" />
+            </button>
+          )
+        ) : (
+          <>
+            <button
+              onClick={onEdit}
+              className="p-2 hover:bg-blue-500/20 text-blue-400 rounded-lg border border-blue-500/30 transition-all duration-200 hover:border-blue-500/50"
+              title="Editar transacción"
+            >
+              <Edit className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={onDelete}
+              className="p-2 hover:bg-red-500/20 text-red-400 rounded-lg border border-red-500/30 transition-all duration-200 hover:border-red-500/50"
+              title="Eliminar transacción"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
       </div>
 
       {/* Amount display */}
       <div className="ml-4">
         <div className={`text-lg font-bold ${getTypeColor(transaction.type)}`}>
-          {transaction.type === 'income' ? '+' : '-'}{formatCurrency(transaction.amount)}
+          {isInflow ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
         </div>
       </div>
     </div>
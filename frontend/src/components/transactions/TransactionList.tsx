@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { Transaction } from '../../interfaces/financial';
+import React, { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { BulkTransactionChanges, BulkTransactionSelection, Transaction, TransactionSearchParams } from '../../interfaces/financial';
 import { transactionService } from '../../services/transactionService';
+import { trashService } from '../../services/trashService';
+import { showUndoToast } from '../../utils/undoToast';
 import TransactionItem from './TransactionItem';
+import TransactionFilters from './TransactionFilters';
+import BulkActionBar from './BulkActionBar';
 import ConfirmDialog from '../common/ConfirmDialog';
 
 interface TransactionListProps {
@@ -20,6 +25,16 @@ const TransactionList: React.FC<TransactionListProps> = ({
   const [totalPages, setTotalPages] = useState(1);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Etiquetas seleccionadas: se muestran las transacciones que tienen todas
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [filters, setFilters] = useState<TransactionSearchParams>({});
+  const [total, setTotal] = useState(0);
+
+  // Selección para las acciones masivas; allMatching abarca todas las páginas de la búsqueda
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [allMatching, setAllMatching] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
 
   // Confirm dialog state
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
@@ -29,11 +44,14 @@ const TransactionList: React.FC<TransactionListProps> = ({
     setLoading(true);
     setError(null);
     try {
-      const response = await transactionService.getUserTransactions(page, 10);
+      const response = await transactionService.getUserTransactions(page, 10, { ...filters, tags: tagFilter });
       if (response.success) {
         setTransactions(response.data.transactions);
         setTotalPages(response.data.pagination.pages);
         setCurrentPage(response.data.pagination.page);
+        setTotal(response.data.pagination.total);
+        setSelectedIds([]);
+        setAllMatching(false);
       } else {
         setError('Error al cargar transacciones');
       }
@@ -55,7 +73,17 @@ const TransactionList: React.FC<TransactionListProps> = ({
     }
     
     fetchTransactions(currentPage);
-  }, [currentPage]);
+  }, [currentPage, tagFilter, filters]);
+
+  const handleFiltersChange = useCallback((next: TransactionSearchParams) => {
+    setCurrentPage(1);
+    setFilters(next);
+  }, []);
+
+  const toggleTagFilter = (tag: string) => {
+    setCurrentPage(1);
+    setTagFilter(current => current.includes(tag) ? current.filter(item => item !== tag) : [...current, tag]);
+  };
 
   const handleDeleteTransaction = async (transactionId: string) => {
     setTransactionToDelete(transactionId);
@@ -65,11 +93,13 @@ const TransactionList: React.FC<TransactionListProps> = ({
   const confirmDeleteTransaction = async () => {
     if (!transactionToDelete) return;
 
+    const deletedId = transactionToDelete;
     try {
-      await transactionService.deleteTransaction(transactionToDelete);
+      await transactionService.deleteTransaction(deletedId);
       // Refrescar la lista después de eliminar
       await fetchTransactions(currentPage);
       onUpdateSuccess();
+      showUndoToast('Transacción enviada a la papelera', () => restoreTransactions([deletedId]));
     } catch {
       // Ignoramos el error intencionalmente
       setError('Error al eliminar la transacción');
@@ -79,12 +109,81 @@ const TransactionList: React.FC<TransactionListProps> = ({
     }
   };
 
+  const restoreTransactions = async (ids: string[]) => {
+    await trashService.restore('transactions', ids);
+    await fetchTransactions(currentPage);
+    onUpdateSuccess();
+  };
+
   const handleEditTransaction = (transaction: Transaction) => {
     onEditTransaction(transaction);
   };
 
+  // Desbloquear una conciliada la devuelve a "vista en el extracto" y la saca de su conciliación
+  const handleUnlockTransaction = async (transactionId: string) => {
+    try {
+      await transactionService.updateTransactionStatus(transactionId, 'cleared');
+      toast.success('Transacción desbloqueada');
+      await fetchTransactions(currentPage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al desbloquear la transacción');
+    }
+  };
+
+  const toggleSelected = (transactionId: string, selected: boolean) => {
+    setAllMatching(false);
+    setSelectedIds(current => selected ? [...current, transactionId] : current.filter(id => id !== transactionId));
+  };
+
+  const pageSelected = transactions.length > 0 && transactions.every(transaction => selectedIds.includes(transaction.id));
+
+  const togglePageSelected = () => {
+    setAllMatching(false);
+    setSelectedIds(pageSelected ? [] : transactions.map(transaction => transaction.id));
+  };
+
+  const bulkSelection = (): BulkTransactionSelection => {
+    if (!allMatching) return { ids: selectedIds };
+    // El orden no es parte del filtro
+    const { q, type, category, merchant, accountId, minAmount, maxAmount, startDate, endDate } = filters;
+    return {
+      filter: { q, type, category, merchant, accountId, minAmount, maxAmount, startDate, endDate, tags: tagFilter.length > 0 ? tagFilter : undefined }
+    };
+  };
+
+  const handleBulkUpdate = async (changes: BulkTransactionChanges) => {
+    setBulkBusy(true);
+    try {
+      const response = await transactionService.bulkUpdateTransactions(bulkSelection(), changes);
+      toast.success(`${response.data.updated} transacciones actualizadas`);
+      await fetchTransactions(currentPage);
+      onUpdateSuccess();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al actualizar las transacciones');
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const confirmBulkDelete = async () => {
+    setBulkBusy(true);
+    try {
+      const response = await transactionService.bulkDeleteTransactions(bulkSelection());
+      showUndoToast(`${response.data.deleted} transacciones enviadas a la papelera`, () => restoreTransactions(response.data.ids));
+      await fetchTransactions(currentPage);
+      onUpdateSuccess();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al eliminar las transacciones');
+    } finally {
+      setBulkBusy(false);
+      setShowBulkDeleteDialog(false);
+    }
+  };
+
+  // Con una búsqueda activa se mantiene el formulario montado para no perder el foco
+  const hasSearch = Object.keys(filters).length > 0;
 
-  if (loading || isLoading) {
+  if ((loading || isLoading) && !hasSearch) {
     return (
       <div className="bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-700">
         <div className="flex items-center justify-between mb-4">
@@ -110,11 +209,47 @@ const TransactionList: React.FC<TransactionListProps> = ({
     <div className="bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-700">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold text-white">Transacciones Recientes</h3>
-        <div className="text-sm text-gray-400">
-          Página {currentPage} de {totalPages}
+        <div className="flex items-center space-x-2 text-sm text-gray-400">
+          {loading && (
+            <div className="w-4 h-4 border-2 border-gray-600 border-t-blue-500 rounded-full animate-spin"></div>
+          )}
+          <span>Página {currentPage} de {totalPages}</span>
         </div>
       </div>
 
+      <TransactionFilters value={filters} onChange={handleFiltersChange} />
+
+      {(selectedIds.length > 0 || allMatching) && (
+        <BulkActionBar
+          count={allMatching ? total : selectedIds.length}
+          isBusy={bulkBusy}
+          onApply={handleBulkUpdate}
+          onDelete={() => setShowBulkDeleteDialog(true)}
+          onClear={() => {
+            setSelectedIds([]);
+            setAllMatching(false);
+          }}
+        />
+      )}
+
+      {tagFilter.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">Filtrando por:</span>
+          {tagFilter.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => toggleTagFilter(tag)}
+              className="px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded-full border border-blue-500/30 hover:bg-blue-500/30"
+            >
+              #{tag} ×
+            </button>
+          ))}
+          <button onClick={() => setTagFilter([])} className="text-gray-400 hover:text-white underline">
+            Quitar filtros
+          </button>
+        </div>
+      )}
+
       {error && (
         <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
           <p className="text-red-400 text-sm">{error}</p>
@@ -135,7 +270,11 @@ const TransactionList: React.FC<TransactionListProps> = ({
             </svg>
           </div>
           <div className="text-lg font-semibold text-white mb-2">Sin transacciones</div>
-          <p className="text-gray-400 mb-4">No hay transacciones para mostrar</p>
+          <p className="text-gray-400 mb-4">
+            {hasSearch || tagFilter.length > 0
+              ? 'Ninguna transacción coincide con la búsqueda'
+              : 'No hay transacciones para mostrar'}
+          </p>
           <div className="text-sm text-gray-500">
             {localStorage.getItem('token') 
               ? "Agrega tu primera transacción para comenzar a gestionar tus finanzas"
@@ -145,6 +284,24 @@ const TransactionList: React.FC<TransactionListProps> = ({
         </div>
       ) : (
         <>
+          <div className="mb-3 flex items-center gap-3 text-sm text-gray-400">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={pageSelected || allMatching}
+                onChange={togglePageSelected}
+                className="w-4 h-4 rounded border-gray-500 bg-gray-700 text-blue-500 focus:ring-blue-500"
+              />
+              Seleccionar página
+            </label>
+            {/* Con una búsqueda activa se puede operar sobre todos los resultados, no solo esta página */}
+            {pageSelected && !allMatching && total > transactions.length && (hasSearch || tagFilter.length > 0) && (
+              <button onClick={() => setAllMatching(true)} className="text-blue-400 hover:text-blue-300 underline">
+                Seleccionar las {total} que coinciden con la búsqueda
+              </button>
+            )}
+          </div>
+
           <div className="space-y-3">
             {transactions.map((transaction) => (
               <TransactionItem
@@ -152,6 +309,10 @@ const TransactionList: React.FC<TransactionListProps> = ({
                 transaction={transaction}
                 onEdit={() => handleEditTransaction(transaction)}
                 onDelete={() => handleDeleteTransaction(transaction.id)}
+                onTagClick={toggleTagFilter}
+                onUnlock={() => handleUnlockTransaction(transaction.id)}
+                selected={allMatching || selectedIds.includes(transaction.id)}
+                onSelectChange={(selected) => toggleSelected(transaction.id, selected)}
               />
             ))}
           </div>
@@ -194,6 +355,18 @@ const TransactionList: React.FC<TransactionListProps> = ({
         cancelText="Cancelar"
         type="danger"
       />
+
+      <ConfirmDialog
+        isOpen={showBulkDeleteDialog}
+        onClose={() => setShowBulkDeleteDialog(false)}
+        onConfirm={confirmBulkDelete}
+        title="Eliminar Transacciones"
+        description={`¿Eliminar ${allMatching ? total : selectedIds.length} transacciones? Las transferencias se eliminan con sus dos movimientos. Esta acción no se puede deshacer.`}
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        type="danger"
+        isLoading={bulkBusy}
+      />
     </div>
   );
 };
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
-import { X, Save, Loader2, Sparkles } from 'lucide-react';
-import { CreateTransactionData } from '../../interfaces/financial';
+import { X, Save, Loader2, Sparkles, Repeat, Split, Plus, Trash2 } from 'lucide-react';
+import { Account, CreateTransactionData, RecurrenceData, RecurrenceFrequency, TransactionSplit, TransactionType } from '../../interfaces/financial';
 import { transactionService } from '../../services/transactionService';
+import { accountService } from '../../services/accountService';
+import { useCategories } from '../../hooks/useCategories';
+import { getCategoryOptions } from '../../utils/categories';
+import TagInput from './TagInput';
 
 interface TransactionModalProps {
   isOpen: boolean;
@@ -14,29 +18,29 @@ interface TransactionModalProps {
     id: string;
     description: string;
     amount: number;
-    type: 'income' | 'expense';
+    type: TransactionType;
     category: string;
     date: string;
     merchant?: string;
+    accountId?: string;
+    splits?: TransactionSplit[];
+    tags?: string[];
   } | null;
   isLoading?: boolean;
 }
 
-const CATEGORIES = [
-  'Alimentos',
-  'Transporte',
-  'Entretenimiento',
-  'Servicios',
-  'Salud',
-  'Educación',
-  'Vivienda',
-  'Ropa',
-  'Ahorro',
-  'Inversiones',
-  'Regalos',
-  'Otros'
+const FREQUENCIES: Array<{ value: RecurrenceFrequency; label: string }> = [
+  { value: 'weekly', label: 'Semanal' },
+  { value: 'biweekly', label: 'Quincenal' },
+  { value: 'monthly', label: 'Mensual' },
+  { value: 'yearly', label: 'Anual' },
+  { value: 'cron', label: 'Personalizada (cron)' },
 ];
 
+const DEFAULT_RECURRENCE: RecurrenceData = { frequency: 'monthly' };
+
+const toCents = (value: number) => Math.round((Number(value) || 0) * 100);
+
 const TransactionModal: React.FC<TransactionModalProps> = ({
   isOpen,
   onClose,
@@ -44,12 +48,18 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
   transaction,
   isLoading = false
 }) => {
+  const { categories } = useCategories();
+  const categoryOptions = getCategoryOptions(categories);
   const [aiSuggestion, setAiSuggestion] = useState<{
     category: string;
     confidence: number;
   } | null>(null);
   
   const [isCategorizing, setIsCategorizing] = useState(false);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceData>(DEFAULT_RECURRENCE);
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   const {
     register,
@@ -63,15 +73,26 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
     defaultValues: {
       description: transaction?.description || '',
       amount: transaction?.amount || 0,
-      type: transaction?.type || 'expense',
+      type: transaction?.type === 'income' ? 'income' : 'expense',
       category: transaction?.category || '',
       date: transaction?.date || new Date().toISOString().split('T')[0],
-      merchant: transaction?.merchant || ''
+      merchant: transaction?.merchant || '',
+      accountId: transaction?.accountId || '',
+      splits: transaction?.splits?.map(({ amount, category }) => ({ amount, category })) || [],
+      tags: transaction?.tags || []
     }
   });
 
+  const { fields: splitFields, append: appendSplit, remove: removeSplit } = useFieldArray({
+    control,
+    name: 'splits'
+  });
+
   const watchedDescription = watch('description');
   const watchedType = watch('type');
+  const watchedAmount = watch('amount');
+  const watchedSplits = watch('splits');
+  const splitRemainingCents = toCents(watchedAmount) - (watchedSplits || []).reduce((sum, split) => sum + toCents(split.amount), 0);
 
   // Reset form when modal opens/closes or transaction changes
   useEffect(() => {
@@ -79,15 +100,29 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
       reset({
         description: transaction?.description || '',
         amount: transaction?.amount || 0,
-        type: transaction?.type || 'expense',
+        type: transaction?.type === 'income' ? 'income' : 'expense',
         category: transaction?.category || '',
         date: transaction?.date || new Date().toISOString().split('T')[0],
-        merchant: transaction?.merchant || ''
+        merchant: transaction?.merchant || '',
+        accountId: transaction?.accountId || '',
+        splits: transaction?.splits?.map(({ amount, category }) => ({ amount, category })) || [],
+        tags: transaction?.tags || []
       });
+      setSplitError(null);
       setAiSuggestion(null);
+      setIsRecurring(false);
+      setRecurrence(DEFAULT_RECURRENCE);
     }
   }, [isOpen, transaction, reset]);
 
+  // Cargar las cuentas disponibles al abrir el modal
+  useEffect(() => {
+    if (!isOpen) return;
+    accountService.getAccounts()
+      .then((response) => setAccounts(response.data))
+      .catch(() => setAccounts([]));
+  }, [isOpen]);
+
   // AI categorization effect
   useEffect(() => {
     const categorizeDescription = async () => {
@@ -117,8 +152,31 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
   }, [watchedDescription, watchedType]);
 
   const onSubmitForm = async (data: CreateTransactionData) => {
+    const splits = data.splits || [];
+    if (splits.length > 0 && splitRemainingCents !== 0) {
+      setSplitError('Las divisiones deben sumar el monto total de la transacción');
+      return;
+    }
+    setSplitError(null);
+
+    const payload: CreateTransactionData = {
+      ...data,
+      // Sin cuenta elegida el backend usa la cuenta por defecto
+      accountId: data.accountId || undefined,
+      // Al editar, un array vacío elimina una división existente
+      splits: splits.length > 0 || transaction?.splits?.length ? splits : undefined,
+    };
+
     try {
-      await onSubmit(data);
+      // La recurrencia solo aplica al crear una transacción nueva
+      await onSubmit(isRecurring && !transaction ? {
+        ...payload,
+        recurrence: {
+          frequency: recurrence.frequency,
+          cronExpression: recurrence.frequency === 'cron' ? recurrence.cronExpression : undefined,
+          endDate: recurrence.endDate || undefined,
+        }
+      } : payload);
       // El cierre del modal será manejado por el componente padre
     } catch {
       // Error handling is managed by the parent component
@@ -285,9 +343,9 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
               className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">Seleccionar categoría...</option>
-              {CATEGORIES.map((category) => (
-                <option key={category} value={category}>
-                  {category}
+              {categoryOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
                 </option>
               ))}
             </select>
@@ -338,6 +396,97 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
             </div>
           )}
 
+          {/* División entre categorías */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Split className="w-4 h-4 text-gray-400" />
+                <span className="text-sm font-medium text-gray-300">Dividir entre categorías</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => appendSplit({ amount: splitFields.length === 0 ? watchedAmount || 0 : Math.max(splitRemainingCents, 0) / 100, category: '' })}
+                className="flex items-center space-x-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors duration-200"
+              >
+                <Plus className="w-3 h-3" />
+                <span>Agregar línea</span>
+              </button>
+            </div>
+
+            {splitFields.map((field, index) => (
+              <div key={field.id} className="flex items-center space-x-2">
+                <input
+                  {...register(`splits.${index}.amount` as const, { required: true, min: 0.01, valueAsNumber: true })}
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  className="w-28 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select
+                  {...register(`splits.${index}.category` as const, { required: true })}
+                  className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Categoría...</option>
+                  {categoryOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => removeSplit(index)}
+                  className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+                >
+                  <Trash2 className="w-4 h-4 text-gray-400" />
+                </button>
+              </div>
+            ))}
+
+            {splitFields.length > 0 && (
+              <p className={`text-xs ${splitRemainingCents === 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+                {splitRemainingCents === 0
+                  ? 'Las divisiones suman el monto total'
+                  : `Restante por asignar: ${(splitRemainingCents / 100).toFixed(2)}`}
+              </p>
+            )}
+            {(splitError || errors.splits) && (
+              <p className="text-sm text-red-400">{splitError || 'Cada línea necesita monto y categoría'}</p>
+            )}
+          </div>
+
+          {/* Cuenta */}
+          {accounts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Cuenta
+              </label>
+              <select
+                {...register('accountId')}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {!transaction && <option value="">Cuenta predeterminada</option>}
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name} ({account.currency})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Etiquetas */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Etiquetas (Opcional)
+            </label>
+            <Controller
+              name="tags"
+              control={control}
+              render={({ field }) => <TagInput value={field.value || []} onChange={field.onChange} />}
+            />
+          </div>
+
           {/* Merchant (Opcional) */}
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -351,6 +500,63 @@ const TransactionModal: React.FC<TransactionModalProps> = ({
             />
           </div>
 
+          {/* Recurrencia (solo al crear) */}
+          {!transaction && (
+            <div className="space-y-3">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isRecurring}
+                  onChange={(e) => setIsRecurring(e.target.checked)}
+                  className="form-checkbox text-blue-500"
+                />
+                <Repeat className="w-4 h-4 text-gray-400" />
+                <span className="text-sm text-white">Transacción recurrente</span>
+              </label>
+
+              {isRecurring && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Frecuencia</label>
+                    <select
+                      value={recurrence.frequency}
+                      onChange={(e) => setRecurrence(prev => ({ ...prev, frequency: e.target.value as RecurrenceFrequency }))}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {FREQUENCIES.map((frequency) => (
+                        <option key={frequency.value} value={frequency.value}>
+                          {frequency.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Hasta (opcional)</label>
+                    <input
+                      type="date"
+                      value={recurrence.endDate || ''}
+                      onChange={(e) => setRecurrence(prev => ({ ...prev, endDate: e.target.value }))}
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  {recurrence.frequency === 'cron' && (
+                    <div className="col-span-2">
+                      <label className="block text-xs text-gray-400 mb-1">Expresión cron</label>
+                      <input
+                        type="text"
+                        required
+                        value={recurrence.cronExpression || ''}
+                        onChange={(e) => setRecurrence(prev => ({ ...prev, cronExpression: e.target.value }))}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Ej: 0 0 5 * * (día 5 de cada mes)"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Loading State */}
           {isCategorizing && (
             <div className="flex items-center space-x-2 text-blue-400 text-sm">
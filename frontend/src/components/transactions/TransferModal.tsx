@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { X, ArrowLeftRight, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Account, Transaction } from '../../interfaces/financial';
+import { accountService } from '../../services/accountService';
+import { transferService } from '../../services/transferService';
+
+interface TransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  // Uno de los movimientos de la transferencia a editar
+  transfer?: Transaction | null;
+}
+
+const TransferModal: React.FC<TransferModalProps> = ({ isOpen, onClose, onSaved, transfer }) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [toAmount, setToAmount] = useState('');
+  // Monedas de la transferencia que se edita; al crear salen de las cuentas elegidas
+  const [editCurrencies, setEditCurrencies] = useState<{ from: string; to: string } | null>(null);
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [description, setDescription] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Limpiar el estado cada vez que se abre el modal
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setAmount(transfer ? String(transfer.amount) : '');
+    setToAmount('');
+    setEditCurrencies(null);
+    setDate(transfer?.date || new Date().toISOString().split('T')[0]);
+    setDescription(transfer?.description || '');
+
+    if (transfer?.transferId) {
+      // El movimiento recibido puede ser la entrada: los montos de ambos lados vienen de la transferencia
+      transferService.getTransfer(transfer.transferId)
+        .then((response) => {
+          setAmount(String(response.data.amount));
+          setToAmount(String(response.data.toAmount));
+          setEditCurrencies({ from: response.data.fromCurrency, to: response.data.toCurrency });
+        })
+        .catch(() => setEditCurrencies(null));
+    }
+
+    if (!transfer) {
+      accountService.getAccounts()
+        .then((response) => {
+          setAccounts(response.data);
+          setFromAccountId(response.data[0]?.id || '');
+          setToAccountId(response.data[1]?.id || '');
+        })
+        .catch(() => setAccounts([]));
+    }
+  }, [isOpen, transfer]);
+
+  const fromCurrency = editCurrencies?.from ?? accounts.find((account) => account.id === fromAccountId)?.currency;
+  const toCurrency = editCurrencies?.to ?? accounts.find((account) => account.id === toAccountId)?.currency;
+  const crossCurrency = Boolean(fromCurrency && toCurrency && fromCurrency !== toCurrency);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (!parsedAmount || parsedAmount <= 0) {
+      toast.error('El monto debe ser mayor a 0');
+      return;
+    }
+    const parsedToAmount = crossCurrency ? parseFloat(toAmount) : undefined;
+    if (crossCurrency && (!parsedToAmount || parsedToAmount <= 0)) {
+      toast.error('El monto recibido debe ser mayor a 0');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (transfer?.transferId) {
+        await transferService.updateTransfer(transfer.transferId, {
+          amount: parsedAmount,
+          toAmount: parsedToAmount,
+          date,
+          description: description.trim() || undefined,
+        });
+        toast.success('Transferencia actualizada');
+      } else {
+        if (fromAccountId === toAccountId) {
+          toast.error('Elige dos cuentas distintas');
+          return;
+        }
+        await transferService.createTransfer({
+          fromAccountId,
+          toAccountId,
+          amount: parsedAmount,
+          toAmount: parsedToAmount,
+          date,
+          description: description.trim() || undefined,
+        });
+        toast.success('Transferencia registrada');
+      }
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al guardar la transferencia');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-md border border-gray-700">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+              <ArrowLeftRight className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">
+                {transfer ? 'Editar Transferencia' : 'Nueva Transferencia'}
+              </h2>
+              <p className="text-sm text-gray-400">No cuenta como ingreso ni gasto</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {!transfer && (
+            accounts.length < 2 ? (
+              <p className="text-sm text-yellow-400">
+                Necesitas al menos dos cuentas para registrar una transferencia
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Desde</label>
+                  <select value={fromAccountId} onChange={(e) => setFromAccountId(e.target.value)} className={inputClassName}>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Hacia</label>
+                  <select value={toAccountId} onChange={(e) => setToAccountId(e.target.value)} className={inputClassName}>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              {crossCurrency ? `Monto enviado (${fromCurrency}) *` : 'Monto *'}
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClassName}
+              placeholder="0.00"
+            />
+          </div>
+
+          {crossCurrency && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Monto recibido ({toCurrency}) *</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={toAmount}
+                onChange={(e) => setToAmount(e.target.value)}
+                className={inputClassName}
+                placeholder="0.00"
+              />
+              {parseFloat(amount) > 0 && parseFloat(toAmount) > 0 && (
+                <p className="text-xs text-gray-400 mt-1">
+                  Tasa: 1 {fromCurrency} = {(parseFloat(toAmount) / parseFloat(amount)).toFixed(4)} {toCurrency}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Fecha</label>
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Descripción (Opcional)</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClassName}
+              placeholder="Ej: Ahorro mensual"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-300 hover:text-white transition-colors duration-200"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading || (!transfer && accounts.length < 2)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{transfer ? 'Guardar' : 'Transferir'}</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TransferModal;
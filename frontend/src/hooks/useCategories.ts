@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Category } from '../interfaces/financial';
+import { categoryService } from '../services/categoryService';
+
+// Una sola petición compartida por todos los componentes que muestran categorías
+let cachedRequest: Promise<Category[]> | null = null;
+
+const loadCategories = (force = false): Promise<Category[]> => {
+  if (!cachedRequest || force) {
+    cachedRequest = categoryService.getCategories()
+      .then(response => response.data)
+      .catch(error => {
+        cachedRequest = null;
+        throw error;
+      });
+  }
+  return cachedRequest;
+};
+
+export function useCategories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    loadCategories()
+      .then(data => active && setCategories(data))
+      .catch(() => active && setCategories([]))
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Volver a pedir las categorías después de crear, editar o eliminar una
+  const refresh = useCallback(async () => {
+    const data = await loadCategories(true);
+    setCategories(data);
+    return data;
+  }, []);
+
+  const findCategory = useCallback(
+    (name?: string | null) => categories.find(category => category.name === name),
+    [categories]
+  );
+
+  return { categories, loading, refresh, findCategory };
+}
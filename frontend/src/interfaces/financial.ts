@@ -1,13 +1,52 @@
+export interface TransactionSplit {
+  id?: string;
+  amount: number;
+  category: string;
+  description?: string | null;
+}
+
+// Las transferencias entre cuentas no cuentan como ingreso ni gasto
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+// pending → cleared (vista en el extracto) → reconciled (bloqueada por una conciliación)
+export type TransactionStatus = 'pending' | 'cleared' | 'reconciled';
+
 export interface Transaction {
   id: string;
   description: string;
   amount: number;
-  type: 'income' | 'expense';
+  currency: string;
+  type: TransactionType;
   category: string;
+  confidence?: number | null; // 1 = elegida por el usuario o por una regla
   date: string;
   merchant?: string;
+  fitId?: string | null; // Id del banco en las importadas desde OFX
+  merchantId?: string | null; // Comercio del directorio, si se pudo normalizar
+  status?: TransactionStatus;
+  reconciliationId?: string | null;
+  accountId?: string;
+  transferId?: string | null;
+  transferDirection?: 'in' | 'out' | null;
+  recurringTransactionId?: string | null;
+  installmentPlanId?: string | null;
+  installmentNumber?: number | null; // "cuota 3/12": 3
+  installmentCount?: number | null; // "cuota 3/12": 12
+  splits?: TransactionSplit[];
+  attachments?: Attachment[];
+  tags?: string[];
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string; // Solo en la papelera
+}
+
+export interface Attachment {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
 }
 
 export interface CashFlowData {
@@ -17,6 +56,7 @@ export interface CashFlowData {
 }
 
 export interface DashboardMetrics {
+  currency: string; // Moneda base en la que están expresados los montos
   monthlyIncome: number;
   monthlyExpenses: number;
   monthlyBalance: number;
@@ -24,6 +64,19 @@ export interface DashboardMetrics {
   totalExpenses: number;
   totalBalance: number;
   transactionCount: number;
+  unconverted: number;
+}
+
+// Totales del dashboard convertidos por el backend a la moneda base del usuario
+export interface DashboardSummary {
+  currency: string;
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  totalIncome: number;
+  totalExpenses: number;
+  transactionCount: number;
+  unconverted: number; // Movimientos sin tasa de cambio, fuera de los totales
+  cashFlow: CashFlowData[];
 }
 
 export interface GoalProjectionData {
@@ -32,13 +85,53 @@ export interface GoalProjectionData {
   target: number;
 }
 
-export interface AISuggestion {
-  id: string;
+// Gastos categorizados automáticamente con poca confianza, pendientes de revisión
+export interface ReviewQueue {
+  threshold: number;
+  total: number;
+  transactions: Transaction[];
+}
+
+// Aceptar la categoría propuesta o reemplazarla por otra
+export type ReviewAction = { action: 'accept' } | { action: 'change'; category: string };
+
+export type RecategorizationJobStatus = 'pending' | 'running' | 'ready' | 'applied' | 'failed';
+
+// Cambio de categoría propuesto al recategorizar el historial
+export interface RecategorizationChange {
+  transactionId: string;
   description: string;
+  date: string | null;
   amount: number;
-  suggestedCategory: string;
-  confidence: number;
-  date: string;
+  fromCategory: string | null;
+  fromConfidence: number | null;
+  toCategory: string;
+  toConfidence: number;
+  explanation?: string;
+}
+
+export interface RecategorizationJob {
+  id: string;
+  status: RecategorizationJobStatus;
+  filters: {
+    startDate: string | null;
+    endDate: string | null;
+    maxConfidence: number | null;
+  };
+  total: number;
+  processed: number;
+  progress: number; // 0 a 1
+  changes: RecategorizationChange[];
+  applied: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecategorizationOptions {
+  startDate?: string;
+  endDate?: string;
+  lowConfidenceOnly?: boolean;
 }
 
 export interface Goal {
@@ -50,13 +143,15 @@ export interface Goal {
   endDate: string;
   interestRate: number;
   compoundFrequency: number;
+  currency: string;
+  deletedAt?: string; // Solo en la papelera
 }
 
 export interface DashboardData {
   cashFlow: CashFlowData[];
   goalProjections: GoalProjectionData[];
   recentTransactions: Transaction[];
-  aiSuggestions: AISuggestion[];
+  reviewQueue: ReviewQueue;
   goals: Goal[];
   metrics: DashboardMetrics;
 }
@@ -71,6 +166,7 @@ export interface ApiError {
     data?: {
       message?: string;
       error?: string;
+      errors?: string[];
     };
     status?: number;
   };
@@ -86,6 +182,15 @@ export interface GoalData {
   endDate: string;
   interestRate: number;
   compoundFrequency: number;
+  currency?: string;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly' | 'cron';
+
+export interface RecurrenceData {
+  frequency: RecurrenceFrequency;
+  cronExpression?: string;
+  endDate?: string;
 }
 
 export interface CreateTransactionData {
@@ -95,6 +200,169 @@ export interface CreateTransactionData {
   category: string;
   date: string;
   merchant?: string;
+  accountId?: string;
+  currency?: string;
+  recurrence?: RecurrenceData;
+  splits?: TransactionSplit[];
+  tags?: string[];
+}
+
+export type TransactionSortField =
+  | 'createdAt'
+  | 'date'
+  | 'amount'
+  | 'description'
+  | 'merchant'
+  | 'category'
+  | 'type'
+  | 'relevance';
+
+// Filtros de búsqueda de GET /transactions; todos opcionales
+export interface TransactionSearchParams {
+  q?: string;
+  type?: 'income' | 'expense' | 'transfer';
+  category?: string;
+  merchant?: string;
+  accountId?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  startDate?: string;
+  endDate?: string;
+  tags?: string[];
+  sortBy?: TransactionSortField;
+  sortOrder?: 'ASC' | 'DESC';
+}
+
+// Operaciones masivas: una lista de ids o un filtro de búsqueda (no vacío), nunca ambos
+export interface BulkTransactionSelection {
+  ids?: string[];
+  filter?: Omit<TransactionSearchParams, 'sortBy' | 'sortOrder'>;
+}
+
+export interface BulkTransactionChanges {
+  category?: string;
+  merchant?: string | null;
+  type?: 'income' | 'expense';
+  date?: string;
+}
+
+export type CategoryKind = 'income' | 'expense';
+
+// Categoría del usuario; las subcategorías (parentId) se suman a su padre en los análisis
+export interface Category {
+  id: string;
+  name: string;
+  parentId: string | null;
+  icon: string | null;
+  color: string | null;
+  kind: CategoryKind;
+  transactionCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryData {
+  name?: string;
+  parentId?: string | null;
+  icon?: string | null;
+  color?: string | null;
+  kind?: CategoryKind;
+}
+
+// Modelo local que aprende de las categorías corregidas por el usuario
+export interface ClassifierStats {
+  examples: number;
+  categories: number;
+  evaluated: number;
+  correct: number;
+  accuracy: number | null;
+  updatedAt: string;
+}
+
+// Tokens de la IA consumidos por el usuario en el mes frente al presupuesto mensual
+export interface AIUsage {
+  month: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  requests: number;
+  budget: number;
+  remaining: number;
+}
+
+// Condiciones de una regla de categorización; la regla se cumple si se cumplen todas
+export type RuleCondition =
+  | { type: 'contains'; value: string }
+  | { type: 'regex'; value: string }
+  | { type: 'amount'; min?: number; max?: number }
+  | { type: 'transactionType'; value: 'income' | 'expense' }
+  | { type: 'merchant'; value: string };
+
+export interface RuleActions {
+  category?: string;
+  merchant?: string;
+  tags?: string[];
+  markAsTransfer?: boolean;
+  transferAccountId?: string;
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  conditions: RuleCondition[];
+  actions: RuleActions;
+  priority: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategorizationRuleData {
+  name?: string;
+  conditions?: RuleCondition[];
+  actions?: RuleActions;
+  priority?: number;
+  enabled?: boolean;
+}
+
+export interface RulePreview {
+  scanned: number;
+  matchCount: number;
+  matches: {
+    transaction: Transaction;
+    proposed: {
+      category: string | null;
+      merchant: string | null;
+      type: Transaction['type'];
+    };
+  }[];
+}
+
+export interface Merchant {
+  id: string;
+  name: string;
+  defaultCategory: string | null;
+  aliases: string[];
+  patterns: string[];
+  transactionCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MerchantData {
+  name?: string;
+  defaultCategory?: string | null;
+  aliases?: string[];
+  patterns?: string[];
+}
+
+export interface DuplicatePair {
+  score: number;
+  daysApart: number;
+  descriptionSimilarity: number;
+  merchantSimilarity: number | null;
+  transaction: Transaction;
+  otherTransaction: Transaction;
 }
 
 export interface UpdateTransactionData {
@@ -104,6 +372,10 @@ export interface UpdateTransactionData {
   category: string;
   date: string;
   merchant?: string;
+  accountId?: string;
+  currency?: string;
+  splits?: TransactionSplit[];
+  tags?: string[];
 }
 
 // Analytics interfaces
@@ -123,6 +395,7 @@ export interface ProjectionData {
   confidence: number;
   monthlyData: MonthlyData[];
   method: 'linear_regression' | 'weighted_average';
+  committedInstallments: number; // Cuotas que vencen el mes proyectado, ya incluidas en projection
 }
 
 export interface AnomalyAlert {
@@ -140,6 +413,25 @@ export interface AnomaliesData {
   analysisPeriod: string;
 }
 
+export interface Budget {
+  id: string;
+  category: string;
+  amount: number;
+  month: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
+
+export type TrashItemType = 'transactions' | 'goals' | 'budgets';
+
+export interface TrashContents {
+  transactions: Transaction[];
+  goals: Goal[];
+  budgets: Budget[];
+  retentionDays: number;
+}
+
 export interface BudgetComparison {
   category: string;
   budgeted: number;
@@ -149,6 +441,14 @@ export interface BudgetComparison {
   status: 'under_budget' | 'on_track' | 'over_budget';
 }
 
+export interface TagBreakdown {
+  tag: string;
+  income: number;
+  expense: number;
+  net: number;
+  count: number;
+}
+
 export interface AIInsight {
   id: string;
   type: 'warning' | 'positive' | 'info';
@@ -157,3 +457,236 @@ export interface AIInsight {
   category?: string;
   priority: number;
 }
+
+// Import interfaces
+export interface CsvColumnMapping {
+  description: string;
+  amount: string;
+  date: string;
+  merchant?: string;
+  type?: string;
+}
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface CsvImportOptions {
+  mapping?: CsvColumnMapping;
+  dateFormat?: ImportDateFormat;
+  decimalSeparator?: '.' | ',';
+  dryRun: boolean;
+  accountId?: string;
+}
+
+export interface ImportPreviewRow {
+  row: number;
+  description: string;
+  amount: number;
+  type: 'income' | 'expense';
+  date: string;
+  merchant: string | null;
+}
+
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface CsvImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: CsvColumnMapping | null;
+  totalRows: number;
+  validRows: number;
+  imported: number;
+  preview: ImportPreviewRow[];
+  errors: ImportRowError[];
+}
+
+export interface OfxImportResult {
+  totalTransactions: number;
+  imported: number;
+  duplicates: number;
+  restored: number;
+  currency: string | null;
+  dateRange: { startDate: string; endDate: string } | null;
+  errors: string[];
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ofx';
+
+// Account interfaces
+export type AccountType = 'bank' | 'cash' | 'credit_card' | 'wallet';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number;
+  archived: boolean;
+  isDefault: boolean;
+  balance: number;
+  transactionCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccountData {
+  name: string;
+  type: AccountType;
+  currency?: string;
+  openingBalance?: number;
+  isDefault?: boolean;
+}
+
+export interface BalanceEntry {
+  id: string;
+  date: string;
+  description: string;
+  type: TransactionType;
+  transferDirection: 'in' | 'out' | null;
+  amount: number;
+  currency: string; // Moneda del movimiento; el saldo está en la moneda de la cuenta
+  balance: number;
+}
+
+export interface AccountBalanceHistory {
+  account: Account;
+  openingBalance: number;
+  closingBalance: number;
+  entries: BalanceEntry[];
+}
+
+// Transfer interfaces
+// Installment interfaces
+export interface InstallmentScheduleEntry {
+  number: number;
+  date: string;
+  amount: number;
+  generated: boolean; // Ya se generó la transacción; si no, es una cuota proyectada
+}
+
+export interface InstallmentPlan {
+  id: string;
+  description: string;
+  totalAmount: number;
+  installmentCount: number;
+  interestRate: number; // TNA en porcentaje
+  category: string | null;
+  merchant: string | null;
+  merchantId: string | null;
+  date: string;
+  firstDueMonth: string;
+  currency: string;
+  accountId: string;
+  generatedCount: number;
+  nextDueDate: string | null;
+  active: boolean;
+  totalWithInterest: number;
+  remainingAmount: number;
+  schedule: InstallmentScheduleEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InstallmentPlanData {
+  description: string;
+  totalAmount: number;
+  installmentCount: number;
+  interestRate?: number;
+  category?: string;
+  merchant?: string;
+  accountId?: string;
+  date: string;
+  firstDueMonth?: string;
+}
+
+// Reconciliation interfaces
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: string;
+  closingBalance: number;
+  status: 'in_progress' | 'completed';
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReconciliationSummary {
+  startingBalance: number; // Saldo inicial de la cuenta más lo ya conciliado
+  clearedBalance: number; // Saldo de partida más lo marcado en esta sesión
+  closingBalance: number;
+  difference: number; // Cero cuando la conciliación cuadra
+}
+
+export interface ReconciliationDetail {
+  reconciliation: Reconciliation;
+  summary: ReconciliationSummary;
+  transactions: Transaction[];
+}
+
+export interface TransferData {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  toAmount?: number; // Monto acreditado en la moneda de destino, obligatorio entre monedas distintas
+  date?: string;
+  description?: string;
+}
+
+export interface UpdateTransferData {
+  amount?: number;
+  toAmount?: number;
+  date?: string;
+  description?: string;
+}
+
+export interface Transfer {
+  transferId: string;
+  amount: number;
+  toAmount: number;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string;
+  fromAccountId: string;
+  toAccountId: string;
+  legs: {
+    out: Transaction;
+    in: Transaction;
+  };
+}
+
+// Exchange rate interfaces
+export type ExchangeRateSource = 'manual' | 'import';
+
+export interface ExchangeRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string;
+  source: ExchangeRateSource;
+  createdAt: string;
+}
+
+export interface ExchangeRateData {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  date: string;
+}
+
+export interface ExchangeRateImportResult {
+  totalRows: number;
+  imported: number;
+  errors: ImportRowError[];
+}
+
+// Tag interfaces
+export interface TagSummary {
+  id: string;
+  name: string;
+  usageCount: number;
+}
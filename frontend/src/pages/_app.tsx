@@ -1,5 +1,6 @@
 import type { AppProps } from 'next/app';
 import { useRouter } from 'next/router';
+import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from '../contexts/AuthContext';
 import ProtectedRoute from '../components/common/ProtectedRoute';
 import '../styles/globals.css';
@@ -18,6 +19,10 @@ export default function App({ Component, pageProps }: AppProps) {
           <Component {...pageProps} />
         </ProtectedRoute>
       )}
+      <Toaster
+        position="bottom-right"
+        toastOptions={{ style: { background: '#1f2937', color: '#f9fafb', border: '1px solid #374151' } }}
+      />
     </AuthProvider>
   );
 }
@@ -25,12 +25,15 @@ import {
   Target,
   ArrowUp,
   ArrowDown,
-  Minus
+  Minus,
+  Tag
 } from 'lucide-react';
 import { transactionService } from '../services/transactionService';
-import { MonthlyData, ProjectionData, AnomaliesData, AIInsight, BudgetComparison } from '../interfaces/financial';
+import { useAuth } from '../contexts/AuthContext';
+import { MonthlyData, ProjectionData, AnomaliesData, AIInsight, BudgetComparison, TagBreakdown } from '../interfaces/financial';
 
 const AnalyticsPage: React.FC = () => {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [monthlyTrend, setMonthlyTrend] = useState<MonthlyData[]>([]);
@@ -38,6 +41,7 @@ const AnalyticsPage: React.FC = () => {
   const [anomalies, setAnomalies] = useState<AnomaliesData | null>(null);
   const [insights, setInsights] = useState<AIInsight[]>([]);
   const [budgetComparison, setBudgetComparison] = useState<BudgetComparison[]>([]);
+  const [tagBreakdown, setTagBreakdown] = useState<TagBreakdown[]>([]);
 
   useEffect(() => {
     fetchAnalyticsData();
@@ -54,13 +58,15 @@ const AnalyticsPage: React.FC = () => {
         projectionResponse,
         anomaliesResponse,
         insightsResponse,
-        budgetResponse
+        budgetResponse,
+        tagsResponse
       ] = await Promise.all([
         transactionService.getMonthlyTrend(6),
         transactionService.getExpenseProjection('weighted_average'),
         transactionService.detectAnomalies(),
         transactionService.getAIInsights(),
-        transactionService.getBudgetComparison()
+        transactionService.getBudgetComparison(),
+        transactionService.getTagBreakdown()
       ]);
 
       if (trendResponse.success) setMonthlyTrend(trendResponse.data);
@@ -68,6 +74,7 @@ const AnalyticsPage: React.FC = () => {
       if (anomaliesResponse.success) setAnomalies(anomaliesResponse.data);
       if (insightsResponse.success) setInsights(insightsResponse.data);
       if (budgetResponse.success) setBudgetComparison(budgetResponse.data);
+      if (tagsResponse.success) setTagBreakdown(tagsResponse.data);
 
     } catch (err) {
       // eslint-disable-next-line no-console
@@ -78,10 +85,11 @@ const AnalyticsPage: React.FC = () => {
     }
   };
 
+  // Los análisis llegan convertidos a la moneda base del usuario
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('es-ES', {
       style: 'currency',
-      currency: 'USD',
+      currency: user?.preferences?.currency || 'USD',
       minimumFractionDigits: 0,
     }).format(value);
   };
@@ -339,6 +347,11 @@ const AnalyticsPage: React.FC = () => {
               </div>
               <p className="text-2xl font-bold text-white">{formatCurrency(projection.projection)}</p>
               <p className="text-sm text-gray-400">Gasto proyectado para el próximo mes</p>
+              {projection.committedInstallments > 0 && (
+                <p className="text-xs text-amber-300 mt-1">
+                  Incluye {formatCurrency(projection.committedInstallments)} en cuotas comprometidas
+                </p>
+              )}
             </div>
 
             <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
@@ -416,6 +429,42 @@ const AnalyticsPage: React.FC = () => {
           </div>
         )}
 
+        {/* Tag Breakdown */}
+        {tagBreakdown.length > 0 && (
+          <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 mb-8">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+              <Tag className="w-5 h-5 mr-2 text-blue-400" />
+              Por Etiqueta
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="pb-3">Etiqueta</th>
+                    <th className="pb-3">Ingresos</th>
+                    <th className="pb-3">Gastos</th>
+                    <th className="pb-3">Neto</th>
+                    <th className="pb-3">Transacciones</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tagBreakdown.map((row) => (
+                    <tr key={row.tag} className="border-b border-gray-700/50">
+                      <td className="py-3 text-blue-300">#{row.tag}</td>
+                      <td className="py-3 text-green-400">{formatCurrency(row.income)}</td>
+                      <td className="py-3 text-red-400">{formatCurrency(row.expense)}</td>
+                      <td className={`py-3 ${row.net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatCurrency(row.net)}
+                      </td>
+                      <td className="py-3 text-gray-400">{row.count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
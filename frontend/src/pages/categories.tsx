@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import Layout from '../components/common/Layout';
+import CategoryModal from '../components/categories/CategoryModal';
+import RecategorizeModal from '../components/categories/RecategorizeModal';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import { Brain, Edit, Plus, RefreshCw, Sparkles, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { categoryService } from '../services/categoryService';
+import { transactionService } from '../services/transactionService';
+import { AIUsage, Category, CategoryKind, ClassifierStats } from '../interfaces/financial';
+import { useCategories } from '../hooks/useCategories';
+import { getCategoryIcon } from '../utils/categories';
+
+const KIND_SECTIONS: { kind: CategoryKind; title: string }[] = [
+  { kind: 'expense', title: 'Gastos' },
+  { kind: 'income', title: 'Ingresos' },
+];
+
+// Las categorías del sistema ("Otros" e "Ingresos") no se pueden eliminar
+const SYSTEM_CATEGORIES = ['Otros', 'Ingresos'];
+
+const CategoriesPage: React.FC = () => {
+  const { categories, loading, refresh } = useCategories();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+  const [classifierStats, setClassifierStats] = useState<ClassifierStats | null>(null);
+  const [aiUsage, setAIUsage] = useState<AIUsage | null>(null);
+  const [isRecategorizeOpen, setIsRecategorizeOpen] = useState(false);
+
+  useEffect(() => {
+    transactionService.getClassifierStats()
+      .then(response => setClassifierStats(response.data))
+      .catch(() => setClassifierStats(null));
+    transactionService.getAIUsage()
+      .then(response => setAIUsage(response.data))
+      .catch(() => setAIUsage(null));
+  }, []);
+
+  const reload = () => {
+    refresh().catch(error => {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener las categorías');
+    });
+  };
+
+  const openModal = (category: Category | null) => {
+    setEditingCategory(category);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCategory) return;
+    try {
+      await categoryService.deleteCategory(deletingCategory.id);
+      toast.success('Categoría eliminada');
+      reload();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar la categoría');
+    } finally {
+      setDeletingCategory(null);
+    }
+  };
+
+  const deletingParent = categories.find(item => item.id === deletingCategory?.parentId);
+  const replacement = deletingParent?.name || (deletingCategory?.kind === 'income' ? 'Ingresos' : 'Otros');
+
+  const renderRow = (category: Category, isChild: boolean) => {
+    const Icon = getCategoryIcon(category.icon);
+    return (
+      <div key={category.id} className={`flex items-center gap-3 py-3 pr-4 ${isChild ? 'pl-12' : 'pl-4'}`}>
+        <div
+          className="w-8 h-8 rounded-full flex items-center justify-center"
+          style={{ backgroundColor: category.color || '#6b7280' }}
+        >
+          <Icon className="w-4 h-4 text-white" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-white truncate">{category.name}</p>
+          <p className="text-xs text-gray-400">{category.transactionCount || 0} transacciones</p>
+        </div>
+        <button
+          onClick={() => openModal(category)}
+          className="p-2 text-gray-400 hover:text-white"
+          title="Editar"
+        >
+          <Edit className="w-4 h-4" />
+        </button>
+        {!SYSTEM_CATEGORIES.includes(category.name) && (
+          <button
+            onClick={() => setDeletingCategory(category)}
+            className="p-2 text-gray-400 hover:text-red-400"
+            title="Eliminar"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="space-y-1">
+            {classifierStats && (
+              <div className="flex items-center space-x-2 text-sm text-gray-400">
+                <Brain className="w-4 h-4" />
+                <span>
+                  Aprendido de {classifierStats.examples} categorizaciones tuyas
+                  {classifierStats.accuracy !== null && ` · ${Math.round(classifierStats.accuracy * 100)}% de aciertos`}
+                </span>
+              </div>
+            )}
+            {aiUsage && (
+              <div className={`flex items-center space-x-2 text-sm ${aiUsage.remaining > 0 ? 'text-gray-400' : 'text-yellow-400'}`}>
+                <Sparkles className="w-4 h-4" />
+                <span>
+                  IA este mes: {aiUsage.totalTokens.toLocaleString('es-ES')} de {aiUsage.budget.toLocaleString('es-ES')} tokens
+                  {aiUsage.remaining === 0 && ' · se usan solo palabras clave hasta el próximo mes'}
+                </span>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setIsRecategorizeOpen(true)}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Recategorizar historial</span>
+            </button>
+            <button
+              onClick={() => openModal(null)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Nueva Categoría</span>
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-400">Cargando categorías...</div>
+        ) : (
+          <div className="space-y-6">
+            {KIND_SECTIONS.map(({ kind, title }) => {
+              const roots = categories.filter(item => item.kind === kind && !item.parentId);
+              return (
+                <div key={kind}>
+                  <h3 className="text-lg font-semibold text-white mb-3">{title}</h3>
+                  <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+                    {roots.map((root) => (
+                      <div key={root.id} className="divide-y divide-gray-700/50">
+                        {renderRow(root, false)}
+                        {categories
+                          .filter(item => item.parentId === root.id)
+                          .map(child => renderRow(child, true))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <CategoryModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSaved={reload}
+        categories={categories}
+        category={editingCategory}
+      />
+
+      <RecategorizeModal
+        isOpen={isRecategorizeOpen}
+        onClose={() => setIsRecategorizeOpen(false)}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deletingCategory}
+        onClose={() => setDeletingCategory(null)}
+        onConfirm={handleDelete}
+        title="Eliminar categoría"
+        description={`Sus transacciones pasan a "${replacement}" y sus presupuestos se mueven a la papelera.`}
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        type="danger"
+      />
+    </Layout>
+  );
+};
+
+export default CategoriesPage;
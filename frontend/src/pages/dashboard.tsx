@@ -8,6 +8,7 @@ import GoalSelector from '../components/dashboard/GoalSelector';
 import TransactionList from '../components/transactions/TransactionList';
 import Layout from '../components/common/Layout';
 import StatusIndicator from '../components/dashboard/StatusIndicator';
+import AccountsCard from '../components/dashboard/AccountsCard';
 
 const Dashboard: React.FC = () => {
   const {
@@ -20,8 +21,7 @@ const Dashboard: React.FC = () => {
     setDateRange,
     setSelectedGoal,
     updateGoalProjection,
-    applyAISuggestion,
-    dismissAISuggestion,
+    reviewTransaction,
     getFilteredData,
   } = useDashboardStore();
 
@@ -109,7 +109,7 @@ const Dashboard: React.FC = () => {
                 <span className="text-green-400 font-semibold">
                   {new Intl.NumberFormat('es-ES', {
                     style: 'currency',
-                    currency: 'USD',
+                    currency: data.metrics.currency,
                     minimumFractionDigits: 0,
                   }).format(filteredCashFlow.reduce((sum, item) => sum + item.income, 0))}
                 </span>
@@ -119,7 +119,7 @@ const Dashboard: React.FC = () => {
                 <span className="text-red-400 font-semibold">
                   {new Intl.NumberFormat('es-ES', {
                     style: 'currency',
-                    currency: 'USD',
+                    currency: data.metrics.currency,
                     minimumFractionDigits: 0,
                   }).format(filteredCashFlow.reduce((sum, item) => sum + item.expense, 0))}
                 </span>
@@ -132,21 +132,32 @@ const Dashboard: React.FC = () => {
                 }`}>
                   {new Intl.NumberFormat('es-ES', {
                     style: 'currency',
-                    currency: 'USD',
+                    currency: data.metrics.currency,
                     minimumFractionDigits: 0,
                   }).format(filteredCashFlow.reduce((sum, item) => sum + item.income - item.expense, 0))}
                 </span>
               </div>
+              {data.metrics.unconverted > 0 && (
+                <p className="text-xs text-yellow-400">
+                  {data.metrics.unconverted} movimiento(s) sin tasa de cambio a {data.metrics.currency} no se incluyen en los totales
+                </p>
+              )}
             </div>
           </div>
         </div>
 
+        {/* Accounts and running balances */}
+        <div className="mb-8">
+          <AccountsCard />
+        </div>
+
         {/* Charts Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           {/* Cash Flow Chart */}
           <div>
             <CashFlowChart
               data={filteredCashFlow}
+              currency={data.metrics.currency}
               height={400}
               showTooltips={true}
               showLegend={true}
@@ -172,12 +183,11 @@ const Dashboard: React.FC = () => {
 
         {/* AI Suggestions and Recent Transactions */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* AI Suggestions */}
+          {/* Review inbox */}
           <div className="lg:col-span-1">
             <AISuggestionsCard
-              suggestions={data.aiSuggestions}
-              onApplySuggestion={applyAISuggestion}
-              onDismissSuggestion={dismissAISuggestion}
+              queue={data.reviewQueue}
+              onReview={reviewTransaction}
             />
           </div>
 
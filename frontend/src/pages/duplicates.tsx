@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Layout from '../components/common/Layout';
+import { Check, Copy, RefreshCw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { transactionService } from '../services/transactionService';
+import { DuplicatePair, Transaction } from '../interfaces/financial';
+import { formatCurrency, formatDate } from '../utils/format';
+
+const WINDOW_OPTIONS = [1, 3, 7, 15];
+
+const pairKey = (pair: DuplicatePair) => `${pair.transaction.id}-${pair.otherTransaction.id}`;
+
+const DuplicateSide: React.FC<{
+  transaction: Transaction;
+  disabled: boolean;
+  onKeep: () => void;
+}> = ({ transaction, disabled, onKeep }) => (
+  <div className="flex-1 bg-gray-900/50 rounded-lg p-4 border border-gray-700">
+    <div className="flex items-start justify-between mb-2">
+      <div className="min-w-0">
+        <p className="text-white font-medium truncate">{transaction.description}</p>
+        <p className="text-xs text-gray-400">
+          {transaction.merchant || 'Sin comercio'} · {formatDate(transaction.date)}
+        </p>
+      </div>
+      <span className={`font-semibold ${transaction.type === 'income' ? 'text-green-400' : 'text-red-400'}`}>
+        {formatCurrency(transaction.amount, transaction.currency)}
+      </span>
+    </div>
+    <div className="flex flex-wrap gap-1 mb-3 text-xs">
+      {transaction.category && (
+        <span className="px-2 py-0.5 bg-gray-700 text-gray-300 rounded">{transaction.category}</span>
+      )}
+      {transaction.tags?.map((tag) => (
+        <span key={tag} className="px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded">#{tag}</span>
+      ))}
+      {transaction.fitId && (
+        <span className="px-2 py-0.5 bg-gray-700 text-gray-400 rounded">Importada</span>
+      )}
+    </div>
+    <button
+      onClick={onKeep}
+      disabled={disabled}
+      className="w-full flex items-center justify-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-md"
+    >
+      <Check className="w-4 h-4" />
+      Conservar esta
+    </button>
+  </div>
+);
+
+const DuplicatesPage: React.FC = () => {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [windowDays, setWindowDays] = useState(3);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const fetchDuplicates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await transactionService.getDuplicates(windowDays);
+      setPairs(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al buscar duplicados');
+    } finally {
+      setLoading(false);
+    }
+  }, [windowDays]);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  // Una transacción fusionada puede aparecer en otros pares, que dejan de tener sentido
+  const removeResolvedPairs = (ids: string[]) => {
+    setPairs(prev => prev.filter(pair => !ids.includes(pair.transaction.id) && !ids.includes(pair.otherTransaction.id)));
+  };
+
+  const handleMerge = async (pair: DuplicatePair, keep: Transaction, remove: Transaction) => {
+    setBusyKey(pairKey(pair));
+    try {
+      await transactionService.mergeDuplicates(keep.id, remove.id);
+      removeResolvedPairs([remove.id]);
+      toast.success('Transacciones fusionadas. La duplicada está en la papelera');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al fusionar las transacciones');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setBusyKey(pairKey(pair));
+    try {
+      await transactionService.dismissDuplicate(pair.transaction.id, pair.otherTransaction.id);
+      setPairs(prev => prev.filter(item => pairKey(item) !== pairKey(pair)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al descartar el duplicado');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <p className="text-gray-400 text-sm">
+            Transacciones con el mismo monto y tipo, fechas cercanas y descripción o comercio parecidos.
+          </p>
+          <div className="flex items-center space-x-3">
+            <select
+              value={windowDays}
+              onChange={(e) => setWindowDays(Number(e.target.value))}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {WINDOW_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  Hasta {days} día{days === 1 ? '' : 's'} de diferencia
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={fetchDuplicates}
+              disabled={loading}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Buscar</span>
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-400">Buscando duplicados...</div>
+        ) : pairs.length === 0 ? (
+          <div className="bg-gray-800 rounded-xl p-12 border border-gray-700 text-center">
+            <Copy className="w-10 h-10 text-gray-500 mx-auto mb-3" />
+            <p className="text-gray-300">No se encontraron posibles duplicados</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map((pair) => {
+              const busy = busyKey === pairKey(pair);
+              return (
+                <div key={pairKey(pair)} className="bg-gray-800 rounded-xl p-5 border border-gray-700">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="text-sm text-gray-300">
+                      Coincidencia <span className="font-semibold text-white">{Math.round(pair.score * 100)}%</span>
+                      <span className="text-gray-500">
+                        {' '}· {pair.daysApart === 0 ? 'mismo día' : `${pair.daysApart} día${pair.daysApart === 1 ? '' : 's'} de diferencia`}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() => handleDismiss(pair)}
+                      disabled={busy}
+                      className="flex items-center gap-1 text-sm text-gray-400 hover:text-white disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" />
+                      No son duplicados
+                    </button>
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-4">
+                    <DuplicateSide
+                      transaction={pair.transaction}
+                      disabled={busy}
+                      onKeep={() => handleMerge(pair, pair.transaction, pair.otherTransaction)}
+                    />
+                    <DuplicateSide
+                      transaction={pair.otherTransaction}
+                      disabled={busy}
+                      onKeep={() => handleMerge(pair, pair.otherTransaction, pair.transaction)}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default DuplicatesPage;
@@ -4,6 +4,8 @@ import Layout from '../components/common/Layout';
 import { Goal } from '../interfaces/financial';
 import { Plus, Edit, Trash2, TrendingUp, Calculator, Info } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { trashService } from '../services/trashService';
+import { showUndoToast } from '../utils/undoToast';
 import { calculateCompoundInterest, calculateTimeToGoal } from '../utils/compoundInterest';
 
 interface GoalFormData {
@@ -105,17 +107,20 @@ const GoalsPage: React.FC = () => {
 
     try {
       await deleteGoal(goalId);
-      toast.success('Meta eliminada exitosamente');
+      showUndoToast('Meta enviada a la papelera', async () => {
+        await trashService.restore('goals', [goalId]);
+        fetchDashboardData();
+      });
       fetchDashboardData();
     } catch {
       toast.error('Error al eliminar la meta');
     }
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency = 'USD') => {
     return new Intl.NumberFormat('es-ES', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
     }).format(amount);
   };
@@ -246,11 +251,11 @@ const GoalsPage: React.FC = () => {
                 <div className="grid grid-cols-2 gap-4 mb-4">
                   <div className="text-center">
                     <p className="text-sm text-gray-400">Actual</p>
-                    <p className="text-lg font-semibold text-white">{formatCurrency(goal.currentAmount)}</p>
+                    <p className="text-lg font-semibold text-white">{formatCurrency(goal.currentAmount, goal.currency)}</p>
                   </div>
                   <div className="text-center">
                     <p className="text-sm text-gray-400">Objetivo</p>
-                    <p className="text-lg font-semibold text-white">{formatCurrency(goal.targetAmount)}</p>
+                    <p className="text-lg font-semibold text-white">{formatCurrency(goal.targetAmount, goal.currency)}</p>
                   </div>
                 </div>
 
@@ -285,18 +290,18 @@ const GoalsPage: React.FC = () => {
                 Fórmula: A = P(1 + r/n)^(nt)
               </p>
               <p className="text-xs text-gray-500">
-                P={formatCurrency(firstGoal!.currentAmount)}, r={(firstGoal!.interestRate * 100).toFixed(1)}%
+                P={formatCurrency(firstGoal!.currentAmount, firstGoal!.currency)}, r={(firstGoal!.interestRate * 100).toFixed(1)}%
               </p>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="text-center p-4 bg-green-500/10 rounded-lg border border-green-500/30">
                 <p className="text-sm text-gray-400">Valor Futuro</p>
-                <p className="text-2xl font-bold text-green-400">{formatCurrency(projection.futureValue)}</p>
+                <p className="text-2xl font-bold text-green-400">{formatCurrency(projection.futureValue, firstGoal!.currency)}</p>
                 <p className="text-xs text-gray-500">{projection.years} años</p>
               </div>
               <div className="text-center p-4 bg-blue-500/10 rounded-lg border border-blue-500/30">
                 <p className="text-sm text-gray-400">Interés Ganado</p>
-                <p className="text-2xl font-bold text-blue-400">+{formatCurrency(projection.totalInterest)}</p>
+                <p className="text-2xl font-bold text-blue-400">+{formatCurrency(projection.totalInterest, firstGoal!.currency)}</p>
               </div>
               <div className="text-center p-4 bg-purple-500/10 rounded-lg border border-purple-500/30">
                 <p className="text-sm text-gray-400">Tiempo a Meta</p>
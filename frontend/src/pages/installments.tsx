@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Layout from '../components/common/Layout';
+import InstallmentModal from '../components/installments/InstallmentModal';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import { ChevronDown, ChevronUp, CreditCard, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { installmentService } from '../services/installmentService';
+import { InstallmentPlan } from '../interfaces/financial';
+import { formatCurrency, formatDate } from '../utils/format';
+
+const InstallmentsPage: React.FC = () => {
+  const [plans, setPlans] = useState<InstallmentPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deletingPlan, setDeletingPlan] = useState<InstallmentPlan | null>(null);
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const response = await installmentService.getPlans();
+      setPlans(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener las compras en cuotas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const handleDelete = async () => {
+    if (!deletingPlan) return;
+    try {
+      await installmentService.deletePlan(deletingPlan.id);
+      toast.success('Compra en cuotas eliminada');
+      fetchPlans();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar la compra en cuotas');
+    } finally {
+      setDeletingPlan(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-end mb-6">
+          <button
+            onClick={() => setIsModalOpen(true)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Nueva Compra en Cuotas</span>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-400">Cargando compras en cuotas...</div>
+        ) : plans.length === 0 ? (
+          <div className="bg-gray-800 rounded-xl p-12 border border-gray-700 text-center">
+            <CreditCard className="w-10 h-10 text-gray-500 mx-auto mb-3" />
+            <p className="text-gray-300">Registra una compra una sola vez y las cuotas se cargan solas cada mes</p>
+          </div>
+        ) : (
+          <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+            {plans.map((plan) => (
+              <div key={plan.id} className="p-4">
+                <div className="flex items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate">{plan.description}</p>
+                    <p className="text-xs text-gray-400">
+                      {formatDate(plan.date)} · {plan.installmentCount} cuotas
+                      {plan.interestRate > 0 ? ` · TNA ${plan.interestRate}%` : ' sin interés'}
+                      {plan.category && ` · ${plan.category}`}
+                    </p>
+                  </div>
+                  <div className="w-40">
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                      <span>{plan.generatedCount}/{plan.installmentCount}</span>
+                      <span>{plan.nextDueDate ? `Próxima ${formatDate(plan.nextDueDate)}` : 'Finalizada'}</span>
+                    </div>
+                    <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500"
+                        style={{ width: `${(plan.generatedCount / plan.installmentCount) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                  <div className="w-36 text-right">
+                    <p className="text-white font-semibold">{formatCurrency(plan.totalWithInterest, plan.currency)}</p>
+                    <p className="text-xs text-gray-400">Restan {formatCurrency(plan.remainingAmount, plan.currency)}</p>
+                  </div>
+                  <button
+                    onClick={() => setExpandedId(expandedId === plan.id ? null : plan.id)}
+                    className="p-2 text-gray-400 hover:text-white"
+                    title="Ver cuotas"
+                  >
+                    {expandedId === plan.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => setDeletingPlan(plan)}
+                    className="p-2 text-gray-400 hover:text-red-400"
+                    title="Eliminar"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {expandedId === plan.id && (
+                  <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {plan.schedule.map((installment) => (
+                      <div
+                        key={installment.number}
+                        className={`px-3 py-2 rounded-md text-sm border ${
+                          installment.generated ? 'bg-gray-700/50 border-gray-600 text-gray-300' : 'border-dashed border-gray-600 text-gray-400'
+                        }`}
+                      >
+                        <p className="text-xs">Cuota {installment.number} · {formatDate(installment.date)}</p>
+                        <p className={installment.generated ? 'text-white' : ''}>
+                          {formatCurrency(installment.amount, plan.currency)}
+                          {!installment.generated && <span className="text-xs ml-1">(proyectada)</span>}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <InstallmentModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSaved={fetchPlans}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deletingPlan}
+        onClose={() => setDeletingPlan(null)}
+        onConfirm={handleDelete}
+        title="Eliminar compra en cuotas"
+        description="Dejan de generarse las cuotas pendientes. Las cuotas ya registradas se conservan."
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        type="danger"
+      />
+    </Layout>
+  );
+};
+
+export default InstallmentsPage;
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Layout from '../components/common/Layout';
+import MerchantModal from '../components/merchants/MerchantModal';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import { Edit, GitMerge, Plus, Search, Store, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { merchantService } from '../services/merchantService';
+import { Merchant } from '../interfaces/financial';
+
+const MerchantsPage: React.FC = () => {
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingMerchant, setEditingMerchant] = useState<Merchant | null>(null);
+  const [deletingMerchant, setDeletingMerchant] = useState<Merchant | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  const fetchMerchants = useCallback(async () => {
+    try {
+      const response = await merchantService.getMerchants();
+      setMerchants(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener los comercios');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMerchants();
+  }, [fetchMerchants]);
+
+  const query = search.trim().toLowerCase();
+  const visibleMerchants = query
+    ? merchants.filter(merchant =>
+      [merchant.name, ...merchant.aliases].some(text => text.toLowerCase().includes(query)))
+    : merchants;
+  const selectedMerchants = merchants.filter(merchant => selectedIds.includes(merchant.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const openModal = (merchant: Merchant | null) => {
+    setEditingMerchant(merchant);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingMerchant) return;
+    try {
+      await merchantService.deleteMerchant(deletingMerchant.id);
+      setSelectedIds(prev => prev.filter(id => id !== deletingMerchant.id));
+      toast.success('Comercio eliminado');
+      fetchMerchants();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar el comercio');
+    } finally {
+      setDeletingMerchant(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    const targetId = mergeTargetId || selectedIds[0];
+    setMerging(true);
+    try {
+      await merchantService.mergeMerchants(targetId, selectedIds.filter(id => id !== targetId));
+      toast.success('Comercios fusionados');
+      setSelectedIds([]);
+      setMergeTargetId('');
+      fetchMerchants();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al fusionar los comercios');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+          <div className="relative w-full md:w-80">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Buscar por nombre o alias"
+            />
+          </div>
+          <button
+            onClick={() => openModal(null)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Nuevo Comercio</span>
+          </button>
+        </div>
+
+        {selectedMerchants.length >= 2 && (
+          <div className="mb-4 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg flex flex-wrap items-center gap-2">
+            <span className="text-sm text-blue-200 mr-2">Fusionar {selectedMerchants.length} comercios en</span>
+            <select
+              value={mergeTargetId || selectedIds[0]}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className="px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {selectedMerchants.map((merchant) => (
+                <option key={merchant.id} value={merchant.id}>{merchant.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleMerge}
+              disabled={merging}
+              className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-md"
+            >
+              <GitMerge className="w-4 h-4" />
+              Fusionar
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-gray-400">Cargando comercios...</div>
+        ) : visibleMerchants.length === 0 ? (
+          <div className="bg-gray-800 rounded-xl p-12 border border-gray-700 text-center">
+            <Store className="w-10 h-10 text-gray-500 mx-auto mb-3" />
+            <p className="text-gray-300">
+              {query ? 'Ningún comercio coincide con la búsqueda' : 'Los comercios se agregan solos al crear o importar transacciones'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+            {visibleMerchants.map((merchant) => (
+              <div key={merchant.id} className="flex items-center gap-4 p-4">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(merchant.id)}
+                  onChange={() => toggleSelected(merchant.id)}
+                  className="w-4 h-4 rounded border-gray-600 bg-gray-700"
+                  title="Seleccionar para fusionar"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-medium">{merchant.name}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {merchant.aliases.length > 0 ? merchant.aliases.join(' · ') : 'Sin alias'}
+                    {merchant.patterns.length > 0 && ` · ${merchant.patterns.length} patrón${merchant.patterns.length === 1 ? '' : 'es'}`}
+                  </p>
+                </div>
+                <span className="text-sm text-gray-300 w-32">
+                  {merchant.defaultCategory || <span className="text-gray-500">Automática</span>}
+                </span>
+                <span className="text-sm text-gray-400 w-28 text-right">
+                  {merchant.transactionCount || 0} transacc.
+                </span>
+                <button
+                  onClick={() => openModal(merchant)}
+                  className="p-2 text-gray-400 hover:text-blue-400"
+                  title="Editar"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setDeletingMerchant(merchant)}
+                  className="p-2 text-gray-400 hover:text-red-400"
+                  title="Eliminar"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <MerchantModal
+        isOpen={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false);
+          setEditingMerchant(null);
+        }}
+        onSaved={fetchMerchants}
+        merchant={editingMerchant}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deletingMerchant}
+        onClose={() => setDeletingMerchant(null)}
+        onConfirm={handleDelete}
+        title="Eliminar comercio"
+        description="Las transacciones conservan el nombre del comercio, pero dejan de estar vinculadas al directorio."
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        type="danger"
+      />
+    </Layout>
+  );
+};
+
+export default MerchantsPage;
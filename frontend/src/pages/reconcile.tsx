@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Layout from '../components/common/Layout';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import { CheckCircle2, Lock, Scale } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { accountService } from '../services/accountService';
+import { reconciliationService } from '../services/reconciliationService';
+import { Account, Reconciliation, ReconciliationDetail, Transaction } from '../interfaces/financial';
+import { formatCurrency, formatDate, formatDateTime } from '../utils/format';
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Las entradas de una transferencia suman al saldo de la cuenta, igual que en TransactionItem
+const isInflow = (transaction: Transaction) => transaction.type === 'income' || transaction.transferDirection === 'in';
+
+const ReconcilePage: React.FC = () => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [history, setHistory] = useState<Reconciliation[]>([]);
+  const [detail, setDetail] = useState<ReconciliationDetail | null>(null);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [closingBalance, setClosingBalance] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+
+  useEffect(() => {
+    accountService.getAccounts()
+      .then(response => {
+        setAccounts(response.data);
+        const preferred = response.data.find(account => account.isDefault) || response.data[0];
+        setAccountId(preferred?.id || '');
+      })
+      .catch(error => toast.error(error instanceof Error ? error.message : 'Error al obtener las cuentas'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Al elegir una cuenta se retoma su sesión en curso, si la hay
+  const fetchAccountReconciliations = useCallback(async () => {
+    if (!accountId) return;
+    try {
+      const response = await reconciliationService.getReconciliations(accountId);
+      setHistory(response.data.filter(reconciliation => reconciliation.status === 'completed'));
+      const inProgress = response.data.find(reconciliation => reconciliation.status === 'in_progress');
+      setDetail(inProgress ? (await reconciliationService.getReconciliation(inProgress.id)).data : null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener las conciliaciones');
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchAccountReconciliations();
+  }, [fetchAccountReconciliations]);
+
+  const account = accounts.find(item => item.id === accountId);
+  const currency = account?.currency || 'USD';
+  const isInProgress = detail?.reconciliation.status === 'in_progress';
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const balance = parseFloat(closingBalance);
+    if (isNaN(balance)) {
+      toast.error('Ingresa el saldo de cierre del extracto');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const response = await reconciliationService.startReconciliation({ accountId, statementDate, closingBalance: balance });
+      setDetail(response.data);
+      setClosingBalance('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al iniciar la conciliación');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleCleared = async (transactionIds: string[], cleared: boolean) => {
+    if (!detail || transactionIds.length === 0) return;
+    try {
+      const response = await reconciliationService.setCleared(detail.reconciliation.id, transactionIds, cleared);
+      setDetail({
+        ...detail,
+        summary: response.data,
+        transactions: detail.transactions.map(transaction =>
+          transactionIds.includes(transaction.id) ? { ...transaction, status: cleared ? 'cleared' : 'pending' } : transaction)
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al marcar las transacciones');
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!detail) return;
+    setBusy(true);
+    try {
+      const response = await reconciliationService.completeReconciliation(detail.reconciliation.id);
+      toast.success('Conciliación completada');
+      setDetail(response.data);
+      setHistory(prev => [response.data.reconciliation, ...prev]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al completar la conciliación');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!detail) return;
+    try {
+      await reconciliationService.cancelReconciliation(detail.reconciliation.id);
+      toast.success('Conciliación descartada');
+      setDetail(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al cancelar la conciliación');
+    } finally {
+      setShowCancelDialog(false);
+    }
+  };
+
+  const openCompleted = async (reconciliation: Reconciliation) => {
+    try {
+      const response = await reconciliationService.getReconciliation(reconciliation.id);
+      setDetail(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener la conciliación');
+    }
+  };
+
+  const pendingIds = detail?.transactions.filter(transaction => transaction.status === 'pending').map(transaction => transaction.id) || [];
+  const clearedIds = detail?.transactions.filter(transaction => transaction.status === 'cleared').map(transaction => transaction.id) || [];
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {loading ? (
+          <div className="text-gray-400">Cargando cuentas...</div>
+        ) : accounts.length === 0 ? (
+          <div className="bg-gray-800 rounded-xl p-12 border border-gray-700 text-center">
+            <Scale className="w-10 h-10 text-gray-500 mx-auto mb-3" />
+            <p className="text-gray-300">Crea una cuenta para poder conciliarla con su extracto</p>
+          </div>
+        ) : (
+          <>
+            <div className="w-full md:w-80">
+              <label className="block text-sm font-medium text-gray-300 mb-2">Cuenta</label>
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClassName}>
+                {accounts.map((item) => (
+                  <option key={item.id} value={item.id}>{item.name} ({item.currency})</option>
+                ))}
+              </select>
+            </div>
+
+            {!detail && (
+              <form onSubmit={handleStart} className="bg-gray-800 rounded-xl p-6 border border-gray-700 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Fecha de cierre del extracto</label>
+                  <input type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Saldo de cierre ({currency})</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={closingBalance}
+                    onChange={(e) => setClosingBalance(e.target.value)}
+                    className={inputClassName}
+                    placeholder="0.00"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={busy}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center justify-center space-x-2"
+                >
+                  <Scale className="w-4 h-4" />
+                  <span>Iniciar conciliación</span>
+                </button>
+              </form>
+            )}
+
+            {detail && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    { label: 'Saldo de partida', value: detail.summary.startingBalance },
+                    { label: 'Saldo marcado', value: detail.summary.clearedBalance },
+                    { label: 'Saldo del extracto', value: detail.summary.closingBalance },
+                  ].map(({ label, value }) => (
+                    <div key={label} className="bg-gray-800 rounded-xl p-4 border border-gray-700">
+                      <p className="text-xs text-gray-400">{label}</p>
+                      <p className="text-lg font-semibold text-white">{formatCurrency(value, currency)}</p>
+                    </div>
+                  ))}
+                  <div className={`rounded-xl p-4 border ${detail.summary.difference === 0 ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-yellow-500/10 border-yellow-500/30'}`}>
+                    <p className="text-xs text-gray-400">Diferencia</p>
+                    <p className={`text-lg font-semibold ${detail.summary.difference === 0 ? 'text-emerald-400' : 'text-yellow-400'}`}>
+                      {formatCurrency(detail.summary.difference, currency)}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <p className="text-sm text-gray-400">
+                    Extracto al {formatDate(detail.reconciliation.statementDate)}
+                    {detail.reconciliation.completedAt && ` · completada el ${formatDateTime(detail.reconciliation.completedAt)}`}
+                  </p>
+                  {isInProgress ? (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => toggleCleared(pendingIds, true)}
+                        disabled={pendingIds.length === 0}
+                        className="px-3 py-1.5 text-sm text-gray-300 hover:text-white border border-gray-600 rounded-md disabled:opacity-50"
+                      >
+                        Marcar todas
+                      </button>
+                      <button
+                        onClick={() => setShowCancelDialog(true)}
+                        className="px-3 py-1.5 text-sm text-gray-300 hover:text-white border border-gray-600 rounded-md"
+                      >
+                        Descartar
+                      </button>
+                      <button
+                        onClick={handleComplete}
+                        disabled={busy || detail.summary.difference !== 0}
+                        title={detail.summary.difference !== 0 ? 'La diferencia debe ser cero' : undefined}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-md"
+                      >
+                        <CheckCircle2 className="w-4 h-4" />
+                        Completar
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setDetail(null)}
+                      className="px-3 py-1.5 text-sm text-gray-300 hover:text-white border border-gray-600 rounded-md"
+                    >
+                      Nueva conciliación
+                    </button>
+                  )}
+                </div>
+
+                {detail.transactions.length === 0 ? (
+                  <div className="bg-gray-800 rounded-xl p-8 border border-gray-700 text-center text-gray-400">
+                    No hay transacciones sin conciliar hasta la fecha del extracto
+                  </div>
+                ) : (
+                  <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+                    {detail.transactions.map((transaction) => (
+                      <label key={transaction.id} className={`flex items-center gap-4 p-4 ${isInProgress ? 'cursor-pointer hover:bg-gray-700/30' : ''}`}>
+                        {isInProgress ? (
+                          <input
+                            type="checkbox"
+                            checked={transaction.status === 'cleared'}
+                            onChange={(e) => toggleCleared([transaction.id], e.target.checked)}
+                            className="w-4 h-4 rounded border-gray-600 bg-gray-700"
+                          />
+                        ) : (
+                          <Lock className="w-4 h-4 text-emerald-400" />
+                        )}
+                        <span className="text-sm text-gray-400 w-28">{formatDate(transaction.date)}</span>
+                        <span className="flex-1 min-w-0 text-white truncate">{transaction.description}</span>
+                        <span className={`font-semibold ${isInflow(transaction) ? 'text-green-400' : 'text-red-400'}`}>
+                          {isInflow(transaction) ? '+' : '-'}{formatCurrency(transaction.amount, transaction.currency)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                {isInProgress && (
+                  <p className="text-xs text-gray-500">{clearedIds.length} de {detail.transactions.length} transacciones marcadas</p>
+                )}
+              </div>
+            )}
+
+            {history.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-3">Conciliaciones anteriores</h3>
+                <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+                  {history.map((reconciliation) => (
+                    <button
+                      key={reconciliation.id}
+                      onClick={() => openCompleted(reconciliation)}
+                      disabled={isInProgress}
+                      className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-700/30 disabled:cursor-not-allowed"
+                    >
+                      <span className="text-white">Extracto al {formatDate(reconciliation.statementDate)}</span>
+                      <span className="text-gray-300">{formatCurrency(reconciliation.closingBalance, currency)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={showCancelDialog}
+        onClose={() => setShowCancelDialog(false)}
+        onConfirm={handleCancel}
+        title="Descartar conciliación"
+        description="Las transacciones marcadas conservan la marca de vistas en el extracto."
+        confirmText="Descartar"
+        cancelText="Volver"
+        type="warning"
+      />
+    </Layout>
+  );
+};
+
+export default ReconcilePage;
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Layout from '../components/common/Layout';
+import RuleModal from '../components/rules/RuleModal';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ruleService } from '../services/ruleService';
+import { CategorizationRule, RuleCondition } from '../interfaces/financial';
+
+const describeCondition = (condition: RuleCondition): string => {
+  switch (condition.type) {
+    case 'contains':
+      return `descripción contiene "${condition.value}"`;
+    case 'regex':
+      return `descripción coincide con /${condition.value}/`;
+    case 'merchant':
+      return `comercio contiene "${condition.value}"`;
+    case 'transactionType':
+      return condition.value === 'income' ? 'es un ingreso' : 'es un gasto';
+    case 'amount':
+      if (condition.min !== undefined && condition.max !== undefined) {
+        return `monto entre ${condition.min} y ${condition.max}`;
+      }
+      return condition.min !== undefined ? `monto desde ${condition.min}` : `monto hasta ${condition.max}`;
+  }
+};
+
+const describeActions = (rule: CategorizationRule): string => {
+  const { category, merchant, tags, markAsTransfer } = rule.actions;
+  return [
+    category && `categoría ${category}`,
+    merchant && `comercio ${merchant}`,
+    tags && tags.length > 0 && `etiquetas ${tags.map(tag => `#${tag}`).join(' ')}`,
+    markAsTransfer && 'marcar como transferencia',
+  ].filter(Boolean).join(', ');
+};
+
+const RulesPage: React.FC = () => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+  const [deletingRule, setDeletingRule] = useState<CategorizationRule | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await ruleService.getRules();
+      setRules(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al obtener las reglas');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openModal = (rule: CategorizationRule | null) => {
+    setEditingRule(rule);
+    setIsModalOpen(true);
+  };
+
+  // Mover una regla una posición hacia arriba o hacia abajo en la lista de prioridad
+  const moveRule = async (index: number, offset: number) => {
+    const ids = rules.map(rule => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    try {
+      const response = await ruleService.reorderRules(ids);
+      setRules(response.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al reordenar las reglas');
+    }
+  };
+
+  const toggleRule = async (rule: CategorizationRule) => {
+    try {
+      await ruleService.updateRule(rule.id, { enabled: !rule.enabled });
+      fetchRules();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al actualizar la regla');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRule) return;
+    try {
+      await ruleService.deleteRule(deletingRule.id);
+      toast.success('Regla eliminada');
+      fetchRules();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar la regla');
+    } finally {
+      setDeletingRule(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <p className="text-sm text-gray-400">
+            Las reglas se evalúan en orden y gana la primera que coincide, antes que la categorización automática.
+          </p>
+          <button
+            onClick={() => openModal(null)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Nueva Regla</span>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-gray-400">Cargando reglas...</div>
+        ) : rules.length === 0 ? (
+          <div className="text-gray-400">Todavía no creaste ninguna regla.</div>
+        ) : (
+          <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className={`flex items-center gap-3 p-4 ${rule.enabled ? '' : 'opacity-50'}`}>
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    title="Subir prioridad"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === rules.length - 1}
+                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    title="Bajar prioridad"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white truncate">{rule.name}</p>
+                  <p className="text-xs text-gray-400 truncate">Si {rule.conditions.map(describeCondition).join(' y ')}</p>
+                  <p className="text-xs text-gray-400 truncate">Entonces {describeActions(rule)}</p>
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => toggleRule(rule)}
+                    className="rounded border-gray-600 bg-gray-700"
+                  />
+                  <span>Activa</span>
+                </label>
+                <button
+                  onClick={() => openModal(rule)}
+                  className="p-2 text-gray-400 hover:text-white"
+                  title="Editar"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setDeletingRule(rule)}
+                  className="p-2 text-gray-400 hover:text-red-400"
+                  title="Eliminar"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <RuleModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSaved={fetchRules}
+        rule={editingRule}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deletingRule}
+        onClose={() => setDeletingRule(null)}
+        onConfirm={handleDelete}
+        title="Eliminar regla"
+        description="Las transacciones ya categorizadas no cambian."
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        type="danger"
+      />
+    </Layout>
+  );
+};
+
+export default RulesPage;
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import Layout from '../components/common/Layout';
 import { useAuth } from '../contexts/AuthContext';
 import ConfirmDialog from '../components/common/ConfirmDialog';
+import ExchangeRatesCard from '../components/settings/ExchangeRatesCard';
+import TrashCard from '../components/settings/TrashCard';
 import { User, Bell, Shield, Palette, Check, AlertCircle, Loader2 } from 'lucide-react';
 
 type ToastType = 'success' | 'error';
@@ -393,6 +395,12 @@ const SettingsPage: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            {/* Exchange Rates */}
+            <ExchangeRatesCard baseCurrency={user?.preferences?.currency || 'USD'} />
+
+            {/* Trash */}
+            <TrashCard />
           </div>
 
           {/* Sidebar Settings */}
@@ -2,10 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { useDashboardStore } from '../store/dashboardStore';
 import TransactionModal from '../components/transactions/TransactionModal';
 import TransactionList from '../components/transactions/TransactionList';
+import ImportModal from '../components/transactions/ImportModal';
+import TransferModal from '../components/transactions/TransferModal';
 import Layout from '../components/common/Layout';
-import { Filter, Download, Upload } from 'lucide-react';
+import { Filter, Download, Upload, ArrowLeftRight } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { Transaction, CreateTransactionData, UpdateTransactionData } from '../interfaces/financial';
+import { transactionService } from '../services/transactionService';
+import { Transaction, CreateTransactionData, UpdateTransactionData, ExportFormat } from '../interfaces/financial';
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'ofx', label: 'OFX' },
+];
 
 const TransactionsPage: React.FC = () => {
   const {
@@ -20,6 +29,14 @@ const TransactionsPage: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [loading, setLoading] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [editingTransfer, setEditingTransfer] = useState<Transaction | null>(null);
+  // Cambiar la key fuerza a TransactionList a recargar sus datos
+  const [listVersion, setListVersion] = useState(0);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportRange, setExportRange] = useState({ startDate: '', endDate: '' });
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     fetchTransactions(1);
@@ -39,6 +56,12 @@ const TransactionsPage: React.FC = () => {
   };
 
   const handleEditTransaction = (transaction: Transaction) => {
+    // Las transferencias se editan en su propio modal para mantener ambos movimientos iguales
+    if (transaction.type === 'transfer') {
+      setEditingTransfer(transaction);
+      setIsTransferOpen(true);
+      return;
+    }
     setEditingTransaction(transaction);
     setIsModalOpen(true);
   };
@@ -71,10 +94,101 @@ const TransactionsPage: React.FC = () => {
     }
   };
 
+  const handleImported = async () => {
+    setListVersion(prev => prev + 1);
+    await refreshTransactions();
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const { startDate, endDate } = exportRange;
+    if ((startDate || endDate) && !(startDate && endDate)) {
+      toast.error('Indica ambas fechas o ninguna');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const blob = await transactionService.exportTransactions(format, startDate || undefined, endDate || undefined);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `transacciones-${new Date().toISOString().split('T')[0]}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsExportOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al exportar las transacciones');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <Layout>
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8">
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 mb-6">
+          <button
+            onClick={() => setIsTransferOpen(true)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+            <span>Transferir</span>
+          </button>
+          <button
+            onClick={() => setIsImportOpen(true)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Importar</span>
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsExportOpen(prev => !prev)}
+              disabled={exporting}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-md transition-colors duration-200 flex items-center space-x-2"
+            >
+              <Download className="w-4 h-4" />
+              <span>{exporting ? 'Exportando...' : 'Exportar'}</span>
+            </button>
+            {isExportOpen && (
+              <div className="absolute right-0 mt-2 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-20 p-4 space-y-3">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Desde</label>
+                  <input
+                    type="date"
+                    value={exportRange.startDate}
+                    onChange={(e) => setExportRange(prev => ({ ...prev, startDate: e.target.value }))}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Hasta</label>
+                  <input
+                    type="date"
+                    value={exportRange.endDate}
+                    onChange={(e) => setExportRange(prev => ({ ...prev, endDate: e.target.value }))}
+                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div className="space-y-1">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      disabled={exporting}
+                      className="w-full text-left px-3 py-2 text-sm text-gray-200 hover:bg-gray-700 disabled:opacity-50 rounded-md transition-colors duration-200"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Stats Summary */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <div className="bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-700">
@@ -132,6 +246,7 @@ const TransactionsPage: React.FC = () => {
 
         {/* Transaction List */}
         <TransactionList
+          key={listVersion}
           onEditTransaction={handleEditTransaction}
           onUpdateSuccess={handleRefresh}
           isLoading={loading}
@@ -149,6 +264,24 @@ const TransactionsPage: React.FC = () => {
         transaction={editingTransaction}
         isLoading={loading}
       />
+
+      {/* Import Modal */}
+      <ImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={handleImported}
+      />
+
+      {/* Transfer Modal */}
+      <TransferModal
+        isOpen={isTransferOpen}
+        onClose={() => {
+          setIsTransferOpen(false);
+          setEditingTransfer(null);
+        }}
+        onSaved={handleImported}
+        transfer={editingTransfer}
+      />
     </Layout>
   );
 };
@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { Account, AccountBalanceHistory, AccountData, ApiError } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+export interface AccountResponse {
+  success: boolean;
+  message: string;
+  data: Account;
+}
+
+export interface AccountsResponse {
+  success: boolean;
+  data: Account[];
+}
+
+export interface BalanceHistoryResponse {
+  success: boolean;
+  data: AccountBalanceHistory;
+}
+
+export const accountService = {
+  // Obtener las cuentas del usuario con su saldo actual
+  async getAccounts(includeArchived?: boolean): Promise<AccountsResponse> {
+    try {
+      const url = includeArchived ? '/accounts?includeArchived=true' : '/accounts';
+      const response = await api.get<AccountsResponse>(url);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener las cuentas');
+    }
+  },
+
+  // Crear una nueva cuenta
+  async createAccount(data: AccountData): Promise<AccountResponse> {
+    try {
+      const response = await api.post<AccountResponse>('/accounts', data);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al crear la cuenta');
+    }
+  },
+
+  // Actualizar una cuenta (incluye archivarla)
+  async updateAccount(id: string, data: Partial<AccountData> & { archived?: boolean }): Promise<AccountResponse> {
+    try {
+      const response = await api.put<AccountResponse>(`/accounts/${id}`, data);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al actualizar la cuenta');
+    }
+  },
+
+  // Eliminar una cuenta sin transacciones
+  async deleteAccount(id: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete<{ success: boolean; message: string }>(`/accounts/${id}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar la cuenta');
+    }
+  },
+
+  // Obtener el saldo acumulado de una cuenta transacción a transacción
+  async getBalanceHistory(id: string, startDate?: string, endDate?: string): Promise<BalanceHistoryResponse> {
+    try {
+      const params = new URLSearchParams();
+      if (startDate) params.append('startDate', startDate);
+      if (endDate) params.append('endDate', endDate);
+
+      const query = params.toString();
+      const response = await api.get<BalanceHistoryResponse>(
+        `/accounts/${id}/balance-history${query ? `?${query}` : ''}`
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener el historial de saldo');
+    }
+  },
+};
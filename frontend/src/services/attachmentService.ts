@@ -0,0 +1,97 @@
+import axios from 'axios';
+import { ApiError, Attachment } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+
+// Tipos y tamaño que acepta el backend
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf';
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const attachmentService = {
+  // Listar los comprobantes de una transacción
+  async getAttachments(transactionId: string): Promise<{ success: boolean; data: Attachment[] }> {
+    try {
+      const response = await api.get(`/transactions/${transactionId}/attachments`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener los adjuntos');
+    }
+  },
+
+  // Subir un comprobante (imagen o PDF)
+  async uploadAttachment(transactionId: string, file: File): Promise<{ success: boolean; message: string; data: Attachment }> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await api.post(`/transactions/${transactionId}/attachments`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      const data = apiError.response?.data;
+      throw new Error(data?.errors?.[0] || data?.error || data?.message || 'Error al subir el adjunto');
+    }
+  },
+
+  // Descargar el contenido como Blob (la ruta requiere el token, por eso no se usa como src directo)
+  async getAttachmentBlob(transactionId: string, attachmentId: string): Promise<Blob> {
+    try {
+      const response = await api.get(`/transactions/${transactionId}/attachments/${attachmentId}`, {
+        responseType: 'blob'
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al descargar el adjunto');
+    }
+  },
+
+  // Eliminar un comprobante
+  async deleteAttachment(transactionId: string, attachmentId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/transactions/${transactionId}/attachments/${attachmentId}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar el adjunto');
+    }
+  },
+};
@@ -0,0 +1,83 @@
+import axios from 'axios';
+import { ApiError, Category, CategoryData } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+export const categoryService = {
+  // Categorías del usuario con la cantidad de transacciones de cada una
+  async getCategories(): Promise<{ success: boolean; data: Category[] }> {
+    try {
+      const response = await api.get('/categories');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener las categorías');
+    }
+  },
+
+  async createCategory(data: CategoryData): Promise<{ success: boolean; message: string; data: Category }> {
+    try {
+      const response = await api.post('/categories', data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al crear la categoría');
+    }
+  },
+
+  // Renombrar una categoría también la renombra en transacciones, presupuestos y comercios
+  async updateCategory(id: string, data: CategoryData): Promise<{ success: boolean; message: string; data: Category }> {
+    try {
+      const response = await api.put(`/categories/${id}`, data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al actualizar la categoría');
+    }
+  },
+
+  // Las transacciones de la categoría eliminada pasan a su categoría padre o a "Otros"
+  async deleteCategory(id: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/categories/${id}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar la categoría');
+    }
+  },
+};
@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { ApiError, ExchangeRate, ExchangeRateData, ExchangeRateImportResult, ImportDateFormat } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+
+export interface ExchangeRateResponse {
+  success: boolean;
+  message: string;
+  data: ExchangeRate;
+}
+
+export interface ExchangeRatesResponse {
+  success: boolean;
+  data: ExchangeRate[];
+}
+
+export const exchangeRateService = {
+  // Obtener las tasas de cambio cargadas por el usuario
+  async getRates(fromCurrency?: string, toCurrency?: string): Promise<ExchangeRatesResponse> {
+    try {
+      const response = await api.get<ExchangeRatesResponse>('/exchange-rates', {
+        params: { fromCurrency, toCurrency }
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener las tasas de cambio');
+    }
+  },
+
+  // Guardar una tasa manual (reemplaza la del mismo par y fecha)
+  async saveRate(data: ExchangeRateData): Promise<ExchangeRateResponse> {
+    try {
+      const response = await api.post<ExchangeRateResponse>('/exchange-rates', data);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al guardar la tasa de cambio');
+    }
+  },
+
+  // Importar tasas desde un CSV con columnas fecha, desde, hacia y tasa
+  async importCsv(file: File, dateFormat?: ImportDateFormat, decimalSeparator?: '.' | ','): Promise<{
+    success: boolean;
+    message: string;
+    data: ExchangeRateImportResult;
+  }> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (dateFormat) formData.append('dateFormat', dateFormat);
+      if (decimalSeparator) formData.append('decimalSeparator', decimalSeparator);
+
+      const response = await api.post('/exchange-rates/import', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al importar las tasas de cambio');
+    }
+  },
+
+  // Eliminar una tasa de cambio
+  async deleteRate(rateId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/exchange-rates/${rateId}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar la tasa de cambio');
+    }
+  },
+};
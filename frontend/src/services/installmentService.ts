@@ -0,0 +1,73 @@
+import axios from 'axios';
+import { ApiError, InstallmentPlan, InstallmentPlanData } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+export const installmentService = {
+  // Planes de cuotas con su calendario de cuotas generadas y proyectadas
+  async getPlans(): Promise<{ success: boolean; data: InstallmentPlan[] }> {
+    try {
+      const response = await api.get('/installments');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener las compras en cuotas');
+    }
+  },
+
+  // Las cuotas ya vencidas se generan al crear el plan
+  async createPlan(data: InstallmentPlanData): Promise<{ success: boolean; message: string; data: InstallmentPlan }> {
+    try {
+      const response = await api.post('/installments', data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al crear la compra en cuotas');
+    }
+  },
+
+  // Deja de generar cuotas; las ya generadas se conservan
+  async deletePlan(id: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/installments/${id}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar la compra en cuotas');
+    }
+  },
+};
@@ -0,0 +1,93 @@
+import axios from 'axios';
+import { ApiError, Merchant, MerchantData } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+export const merchantService = {
+  // Directorio de comercios del usuario con la cantidad de transacciones de cada uno
+  async getMerchants(): Promise<{ success: boolean; data: Merchant[] }> {
+    try {
+      const response = await api.get('/merchants');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener los comercios');
+    }
+  },
+
+  async createMerchant(data: MerchantData): Promise<{ success: boolean; message: string; data: Merchant }> {
+    try {
+      const response = await api.post('/merchants', data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al crear el comercio');
+    }
+  },
+
+  // Renombrar un comercio también renombra sus transacciones
+  async updateMerchant(id: string, data: MerchantData): Promise<{ success: boolean; message: string; data: Merchant }> {
+    try {
+      const response = await api.put(`/merchants/${id}`, data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al actualizar el comercio');
+    }
+  },
+
+  async deleteMerchant(id: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/merchants/${id}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar el comercio');
+    }
+  },
+
+  // Fusionar varios comercios en uno; sus nombres pasan a ser alias del destino
+  async mergeMerchants(targetId: string, sourceIds: string[]): Promise<{ success: boolean; message: string; data: Merchant }> {
+    try {
+      const response = await api.post('/merchants/merge', { targetId, sourceIds });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al fusionar los comercios');
+    }
+  },
+};
@@ -0,0 +1,103 @@
+import axios from 'axios';
+import { ApiError, Reconciliation, ReconciliationDetail, ReconciliationSummary } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+export const reconciliationService = {
+  // Historial de conciliaciones, opcionalmente de una sola cuenta
+  async getReconciliations(accountId?: string): Promise<{ success: boolean; data: Reconciliation[] }> {
+    try {
+      const response = await api.get('/reconciliations', { params: accountId ? { accountId } : {} });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener las conciliaciones');
+    }
+  },
+
+  // Abrir una sesión con la fecha y el saldo de cierre del extracto
+  async startReconciliation(data: { accountId: string; statementDate: string; closingBalance: number }): Promise<{ success: boolean; message: string; data: ReconciliationDetail }> {
+    try {
+      const response = await api.post('/reconciliations', data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al iniciar la conciliación');
+    }
+  },
+
+  async getReconciliation(id: string): Promise<{ success: boolean; data: ReconciliationDetail }> {
+    try {
+      const response = await api.get(`/reconciliations/${id}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener la conciliación');
+    }
+  },
+
+  // Marcar o desmarcar transacciones; devuelve los saldos recalculados
+  async setCleared(id: string, transactionIds: string[], cleared: boolean): Promise<{ success: boolean; data: ReconciliationSummary }> {
+    try {
+      const response = await api.post(`/reconciliations/${id}/transactions`, { transactionIds, cleared });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al marcar las transacciones');
+    }
+  },
+
+  async completeReconciliation(id: string): Promise<{ success: boolean; message: string; data: ReconciliationDetail }> {
+    try {
+      const response = await api.post(`/reconciliations/${id}/complete`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al completar la conciliación');
+    }
+  },
+
+  async cancelReconciliation(id: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/reconciliations/${id}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al cancelar la conciliación');
+    }
+  },
+};
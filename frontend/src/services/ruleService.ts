@@ -0,0 +1,103 @@
+import axios from 'axios';
+import { ApiError, CategorizationRule, CategorizationRuleData, RuleActions, RuleCondition, RulePreview } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+export const ruleService = {
+  // Reglas del usuario en orden de prioridad: gana la primera que coincide
+  async getRules(): Promise<{ success: boolean; data: CategorizationRule[] }> {
+    try {
+      const response = await api.get('/rules');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener las reglas');
+    }
+  },
+
+  async createRule(data: CategorizationRuleData): Promise<{ success: boolean; message: string; data: CategorizationRule }> {
+    try {
+      const response = await api.post('/rules', data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al crear la regla');
+    }
+  },
+
+  async updateRule(id: string, data: CategorizationRuleData): Promise<{ success: boolean; message: string; data: CategorizationRule }> {
+    try {
+      const response = await api.put(`/rules/${id}`, data);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al actualizar la regla');
+    }
+  },
+
+  async deleteRule(id: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/rules/${id}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar la regla');
+    }
+  },
+
+  // La prioridad de cada regla pasa a ser su posición en la lista
+  async reorderRules(ids: string[]): Promise<{ success: boolean; message: string; data: CategorizationRule[] }> {
+    try {
+      const response = await api.put('/rules/reorder', { ids });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al reordenar las reglas');
+    }
+  },
+
+  // Probar una regla contra el historial sin modificar ninguna transacción
+  async testRule(conditions: RuleCondition[], actions: RuleActions): Promise<{ success: boolean; data: RulePreview }> {
+    try {
+      const response = await api.post('/rules/test', { conditions, actions });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al probar la regla');
+    }
+  },
+};
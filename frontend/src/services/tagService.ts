@@ -0,0 +1,65 @@
+import axios from 'axios';
+import { ApiError, TagSummary } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+
+export const tagService = {
+  // Etiquetas del usuario ordenadas por uso; con search filtra por prefijo
+  async getTags(search?: string, limit: number = 10): Promise<{ success: boolean; data: TagSummary[] }> {
+    try {
+      const response = await api.get('/tags', {
+        params: { q: search || undefined, limit }
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener las etiquetas');
+    }
+  },
+
+  // Eliminar una etiqueta de todas las transacciones
+  async deleteTag(tagId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/tags/${tagId}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar la etiqueta');
+    }
+  },
+};
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Transaction, ApiError, CreateTransactionData, ProjectionData, AnomaliesData, AIInsight, BudgetComparison, MonthlyData } from '../interfaces/financial';
+import { Transaction, ApiError, CreateTransactionData, ProjectionData, AnomaliesData, AIInsight, BudgetComparison, TagBreakdown, MonthlyData, CsvImportOptions, CsvImportResult, OfxImportResult, ExportFormat, TransactionSearchParams, BulkTransactionSelection, BulkTransactionChanges, DuplicatePair, ClassifierStats, AIUsage, DashboardSummary, ReviewQueue, ReviewAction, RecategorizationJob, RecategorizationOptions } from '../interfaces/financial';
 
 const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
 
@@ -83,11 +83,13 @@ export const transactionService = {
     }
   },
 
-  // Obtener transacciones del usuario
-  async getUserTransactions(page: number = 1, limit: number = 10): Promise<TransactionsResponse> {
+  // Obtener transacciones del usuario, con búsqueda de texto, filtros y orden opcionales
+  // Con tags solo devuelve las transacciones que tienen todas esas etiquetas
+  async getUserTransactions(page: number = 1, limit: number = 10, filters: TransactionSearchParams = {}): Promise<TransactionsResponse> {
     try {
+      const { tags = [], ...params } = filters;
       const response = await api.get<TransactionsResponse>('/transactions', {
-        params: { page, limit }
+        params: { page, limit, ...params, tags: tags.length > 0 ? tags.join(',') : undefined }
       });
       return response.data;
     } catch (error) {
@@ -113,8 +115,19 @@ export const transactionService = {
       const response = await api.put<TransactionResponse>(`/transactions/${id}`, data);
       return response.data;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.response?.data?.message || 'Error al actualizar la transacción');
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al actualizar la transacción');
+    }
+  },
+
+  // Marcar una transacción como pendiente o vista en el extracto; también desbloquea una conciliada
+  async updateTransactionStatus(id: string, status: 'pending' | 'cleared'): Promise<TransactionResponse> {
+    try {
+      const response = await api.patch<TransactionResponse>(`/transactions/${id}/status`, { status });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al actualizar el estado de la transacción');
     }
   },
 
@@ -124,8 +137,165 @@ export const transactionService = {
       const response = await api.delete<{ success: boolean; message: string }>(`/transactions/${id}`);
       return response.data;
     } catch (error) {
-      const apiError = error as ApiError;
-      throw new Error(apiError.response?.data?.message || 'Error al eliminar la transacción');
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al eliminar la transacción');
+    }
+  },
+
+  // Aplicar el mismo cambio de categoría, comercio, tipo o fecha a varias transacciones
+  async bulkUpdateTransactions(selection: BulkTransactionSelection, changes: BulkTransactionChanges): Promise<{
+    success: boolean;
+    message: string;
+    data: { updated: number };
+  }> {
+    try {
+      const response = await api.patch<{ success: boolean; message: string; data: { updated: number } }>('/transactions/bulk', {
+        ...selection,
+        changes
+      });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al actualizar las transacciones');
+    }
+  },
+
+  // Eliminar varias transacciones (una transferencia se elimina con sus dos movimientos)
+  async bulkDeleteTransactions(selection: BulkTransactionSelection): Promise<{
+    success: boolean;
+    message: string;
+    data: { deleted: number; ids: string[] };
+  }> {
+    try {
+      const response = await api.delete<{ success: boolean; message: string; data: { deleted: number; ids: string[] } }>('/transactions/bulk', {
+        data: selection
+      });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al eliminar las transacciones');
+    }
+  },
+
+  // Obtener pares de posibles duplicados, los más probables primero
+  async getDuplicates(days?: number, minScore?: number): Promise<{ success: boolean; data: DuplicatePair[] }> {
+    try {
+      const response = await api.get<{ success: boolean; data: DuplicatePair[] }>('/transactions/duplicates', {
+        params: { days, minScore }
+      });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al buscar duplicados');
+    }
+  },
+
+  // Conservar una transacción del par y enviar la otra a la papelera
+  async mergeDuplicates(keepId: string, removeId: string): Promise<{ success: boolean; message: string; data: Transaction }> {
+    try {
+      const response = await api.post<{ success: boolean; message: string; data: Transaction }>('/transactions/duplicates/merge', {
+        keepId,
+        removeId
+      });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al fusionar las transacciones');
+    }
+  },
+
+  // Marcar un par como "no son duplicados"
+  async dismissDuplicate(transactionId: string, otherTransactionId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.post<{ success: boolean; message: string }>('/transactions/duplicates/dismiss', {
+        transactionId,
+        otherTransactionId
+      });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al descartar el duplicado');
+    }
+  },
+
+  // Obtener los gastos categorizados con poca confianza, los más dudosos primero
+  async getReviewQueue(threshold?: number, limit?: number): Promise<{ success: boolean; data: ReviewQueue }> {
+    try {
+      const response = await api.get<{ success: boolean; data: ReviewQueue }>('/transactions/review', {
+        params: { threshold, limit }
+      });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al obtener las transacciones a revisar');
+    }
+  },
+
+  // Aceptar o cambiar la categoría de una transacción pendiente de revisión
+  async reviewTransaction(id: string, review: ReviewAction): Promise<{ success: boolean; message: string; data: Transaction }> {
+    try {
+      const response = await api.post<{ success: boolean; message: string; data: Transaction }>(`/transactions/review/${id}`, review);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al revisar la transacción');
+    }
+  },
+
+  // Iniciar la recategorización del historial en segundo plano
+  async startRecategorization(options: RecategorizationOptions): Promise<{ success: boolean; message: string; data: RecategorizationJob }> {
+    try {
+      const response = await api.post<{ success: boolean; message: string; data: RecategorizationJob }>('/transactions/recategorize', options);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al iniciar la recategorización');
+    }
+  },
+
+  // Obtener el último trabajo de recategorización del usuario
+  async getLatestRecategorization(): Promise<{ success: boolean; data: RecategorizationJob | null }> {
+    try {
+      const response = await api.get<{ success: boolean; data: RecategorizationJob | null }>('/transactions/recategorize');
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al obtener la recategorización');
+    }
+  },
+
+  // Obtener el progreso y los cambios propuestos de un trabajo
+  async getRecategorization(id: string): Promise<{ success: boolean; data: RecategorizationJob }> {
+    try {
+      const response = await api.get<{ success: boolean; data: RecategorizationJob }>(`/transactions/recategorize/${id}`);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al obtener la recategorización');
+    }
+  },
+
+  // Aplicar los cambios confirmados por el usuario
+  async applyRecategorization(id: string, transactionIds: string[]): Promise<{ success: boolean; message: string; data: RecategorizationJob }> {
+    try {
+      const response = await api.post<{ success: boolean; message: string; data: RecategorizationJob }>(`/transactions/recategorize/${id}/apply`, {
+        transactionIds
+      });
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al aplicar la recategorización');
+    }
+  },
+
+  // Descartar un trabajo de recategorización y sus cambios propuestos
+  async discardRecategorization(id: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete<{ success: boolean; message: string }>(`/transactions/recategorize/${id}`);
+      return response.data;
+    } catch (error) {
+      const data = (error as ApiError).response?.data;
+      throw new Error(data?.errors?.[0] || data?.message || 'Error al descartar la recategorización');
     }
   },
 
@@ -140,6 +310,65 @@ export const transactionService = {
     }
   },
 
+  // Importar (o previsualizar) un extracto bancario en CSV
+  async importCsv(file: File, options: CsvImportOptions): Promise<{
+    success: boolean;
+    message: string;
+    data: CsvImportResult;
+  }> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', String(options.dryRun));
+      if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+      if (options.dateFormat) formData.append('dateFormat', options.dateFormat);
+      if (options.decimalSeparator) formData.append('decimalSeparator', options.decimalSeparator);
+      if (options.accountId) formData.append('accountId', options.accountId);
+
+      const response = await api.post('/transactions/import/csv', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al importar el archivo');
+    }
+  },
+
+  // Importar un extracto OFX/QFX (los movimientos ya importados se omiten)
+  async importOfx(file: File, accountId?: string): Promise<{
+    success: boolean;
+    message: string;
+    data: OfxImportResult;
+  }> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (accountId) formData.append('accountId', accountId);
+
+      const response = await api.post('/transactions/import/ofx', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al importar el archivo');
+    }
+  },
+
+  // Exportar transacciones como archivo (CSV, XLSX u OFX)
+  async exportTransactions(format: ExportFormat, startDate?: string, endDate?: string): Promise<Blob> {
+    try {
+      const response = await api.get<Blob>('/transactions/export', {
+        params: { format, startDate, endDate },
+        responseType: 'blob'
+      });
+      return response.data;
+    } catch {
+      throw new Error('Error al exportar las transacciones');
+    }
+  },
+
   // Categorizar una transacción (para sugerencias de IA)
   async categorizeTransaction(description: string): Promise<{
     success: boolean;
@@ -157,6 +386,28 @@ export const transactionService = {
     }
   },
 
+  // Cuánto aprendió el clasificador local de las correcciones del usuario
+  async getClassifierStats(): Promise<{ success: boolean; data: ClassifierStats }> {
+    try {
+      const response = await api.get('/transactions/categorize/model');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener el modelo de categorización');
+    }
+  },
+
+  // Obtener el consumo de IA del mes
+  async getAIUsage(): Promise<{ success: boolean; data: AIUsage }> {
+    try {
+      const response = await api.get('/transactions/categorize/usage');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener el consumo de IA');
+    }
+  },
+
   // Obtener transacciones por rango de fechas
   async getTransactionsByDateRange(
     startDate: string,
@@ -180,6 +431,20 @@ export const transactionService = {
     }
   },
 
+  // Obtener los totales y el flujo de caja del dashboard en la moneda base
+  async getDashboardSummary(): Promise<{
+    success: boolean;
+    data: DashboardSummary;
+  }> {
+    try {
+      const response = await api.get<{ success: boolean; data: DashboardSummary }>('/transactions/analytics/summary');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener el resumen');
+    }
+  },
+
   // Obtener proyección de gastos para el mes siguiente
   async getExpenseProjection(method: 'linear_regression' | 'weighted_average' = 'weighted_average'): Promise<{
     success: boolean;
@@ -252,5 +517,21 @@ export const transactionService = {
       const apiError = error as ApiError;
       throw new Error(apiError.response?.data?.message || 'Error al obtener comparación de presupuesto');
     }
+  },
+
+  // Obtener ingresos y gastos agrupados por etiqueta
+  async getTagBreakdown(startDate?: string, endDate?: string): Promise<{
+    success: boolean;
+    data: TagBreakdown[];
+  }> {
+    try {
+      const response = await api.get<{ success: boolean; data: TagBreakdown[] }>('/transactions/analytics/tags', {
+        params: { startDate, endDate }
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener el reporte por etiquetas');
+    }
   }
 };
@@ -0,0 +1,90 @@
+import axios from 'axios';
+import { ApiError, Transfer, TransferData, UpdateTransferData } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+export interface TransferResponse {
+  success: boolean;
+  message: string;
+  data: Transfer;
+}
+
+export const transferService = {
+  // Obtener una transferencia con sus dos movimientos
+  async getTransfer(transferId: string): Promise<{ success: boolean; data: Transfer }> {
+    try {
+      const response = await api.get<{ success: boolean; data: Transfer }>(`/transfers/${transferId}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener la transferencia');
+    }
+  },
+
+  // Transferir dinero entre dos cuentas propias
+  async createTransfer(data: TransferData): Promise<TransferResponse> {
+    try {
+      const response = await api.post<TransferResponse>('/transfers', data);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al crear la transferencia');
+    }
+  },
+
+  // Actualizar montos, fecha o descripción de ambos movimientos
+  async updateTransfer(transferId: string, data: UpdateTransferData): Promise<TransferResponse> {
+    try {
+      const response = await api.put<TransferResponse>(`/transfers/${transferId}`, data);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al actualizar la transferencia');
+    }
+  },
+
+  // Eliminar una transferencia (ambos movimientos)
+  async deleteTransfer(transferId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete<{ success: boolean; message: string }>(`/transfers/${transferId}`);
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar la transferencia');
+    }
+  },
+};
@@ -0,0 +1,85 @@
+import axios from 'axios';
+import { ApiError, TrashContents, TrashItemType } from '../interfaces/financial';
+
+const API_BASE_URL = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001') + '/api';
+
+// Configurar axios con interceptores para manejo de auth
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Interceptor para agregar token JWT
+api.interceptors.request.use(
+  (config) => {
+    const token = localStorage.getItem('token');
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
+    return config;
+  },
+  (error) => {
+    return Promise.reject(error);
+  }
+);
+
+// Interceptor para manejar errores de autenticación
+api.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (error.response?.status === 401) {
+      localStorage.removeItem('token');
+      window.location.href = '/login';
+    }
+    return Promise.reject(error);
+  }
+);
+
+
+export const trashService = {
+  // Transacciones, metas y presupuestos eliminados, lo más reciente primero
+  async getTrash(): Promise<{ success: boolean; data: TrashContents }> {
+    try {
+      const response = await api.get('/trash');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al obtener la papelera');
+    }
+  },
+
+  // Restaurar elementos; también es el "Deshacer" tras eliminar
+  async restore(type: TrashItemType, ids: string[]): Promise<{ success: boolean; data: { restored: number } }> {
+    try {
+      const response = await api.post('/trash/restore', { type, ids });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al restaurar');
+    }
+  },
+
+  // Eliminar definitivamente elementos de la papelera
+  async purge(type: TrashItemType, ids: string[]): Promise<{ success: boolean; data: { purged: number } }> {
+    try {
+      const response = await api.post('/trash/purge', { type, ids });
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al eliminar definitivamente');
+    }
+  },
+
+  // Vaciar la papelera
+  async emptyTrash(): Promise<{ success: boolean; data: { purged: number } }> {
+    try {
+      const response = await api.delete('/trash');
+      return response.data;
+    } catch (error) {
+      const apiError = error as ApiError;
+      throw new Error(apiError.response?.data?.message || 'Error al vaciar la papelera');
+    }
+  },
+};
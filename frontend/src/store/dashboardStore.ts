@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { DashboardData, DateRange, ApiError, GoalData, Goal } from '../interfaces/financial';
+import { DashboardData, DashboardSummary, DateRange, ApiError, GoalData, Goal, ReviewAction, ReviewQueue } from '../interfaces/financial';
 import { generateCompoundProjection } from '../utils/compoundInterest';
 import { Transaction } from '../interfaces/financial';
 import { transactionService } from '../services/transactionService';
@@ -32,8 +32,7 @@ interface DashboardState {
     cashFlow: { date: string; income: number; expense: number }[];
     goalProjections: { month: string; amount: number; target: number }[];
   };
-  applyAISuggestion: (suggestionId: string) => void;
-  dismissAISuggestion: (suggestionId: string) => void;
+  reviewTransaction: (id: string, review: ReviewAction) => Promise<void>;
   
   // Transaction Actions
   setTransactions: (transactions: Transaction[]) => void;
@@ -117,14 +116,27 @@ export const useDashboardStore = create<DashboardState>((set, get) => ({
   fetchDashboardData: async () => {
     set({ loading: true, error: null });
     try {
-      // Obtener transacciones y metas en paralelo
-      const [transactionsResponse, goalsResponse] = await Promise.allSettled([
-        transactionService.getUserTransactions(1, 100),
-        goalService.getUserGoals()
+      // Obtener transacciones, metas, la bandeja de revisión y los totales en paralelo
+      const [transactionsResponse, goalsResponse, reviewResponse, summaryResponse] = await Promise.allSettled([
+        transactionService.getUserTransactions(1, 10),
+        goalService.getUserGoals(),
+        transactionService.getReviewQueue(),
+        transactionService.getDashboardSummary()
       ]);
 
       let transactions: Transaction[] = [];
       let goals: Goal[] = [];
+      let reviewQueue: ReviewQueue = { threshold: 0, total: 0, transactions: [] };
+      let summary: DashboardSummary = {
+        currency: 'USD',
+        monthlyIncome: 0,
+        monthlyExpenses: 0,
+        totalIncome: 0,
+        totalExpenses: 0,
+        transactionCount: 0,
+        unconverted: 0,
+        cashFlow: []
+      };
 
       // Procesar transacciones
       if (transactionsResponse.status === 'fulfilled' && transactionsResponse.value.success) {
@@ -136,56 +148,15 @@ export const useDashboardStore = create<DashboardState>((set, get) => ({
         goals = goalsResponse.value.data.goals;
       }
 
-      // Calcular métricas del dashboard
-      const now = new Date();
-      const currentMonth = now.getMonth();
-      const currentYear = now.getFullYear();
-
-      // Filtrar transacciones del mes actual
-      const monthlyTransactions = transactions.filter((t: Transaction) => {
-        const txDate = new Date(t.date || t.createdAt);
-        return txDate.getMonth() === currentMonth && txDate.getFullYear() === currentYear;
-      });
-
-      // Calcular ingresos y gastos del mes
-      const monthlyIncome = monthlyTransactions
-        .filter((t: Transaction) => t.type === 'income')
-        .reduce((sum: number, t: Transaction) => sum + Number(t.amount), 0);
-
-      const monthlyExpenses = monthlyTransactions
-        .filter((t: Transaction) => t.type === 'expense')
-        .reduce((sum: number, t: Transaction) => sum + Number(t.amount), 0);
-
-      // Calcular balance total
-      const allIncome = transactions
-        .filter((t: Transaction) => t.type === 'income')
-        .reduce((sum: number, t: Transaction) => sum + Number(t.amount), 0);
-
-      const allExpenses = transactions
-        .filter((t: Transaction) => t.type === 'expense')
-        .reduce((sum: number, t: Transaction) => sum + Number(t.amount), 0);
-
-      // Generar datos de cashFlow (últimos 30 días)
-      const cashFlow: { date: string; income: number; expense: number }[] = [];
-      for (let i = 29; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        const dateStr = date.toISOString().split('T')[0];
-        
-        const dayTransactions = transactions.filter((t: Transaction) => {
-          const txDate = (t.date || t.createdAt).split('T')[0];
-          return txDate === dateStr;
-        });
-
-        const income = dayTransactions
-          .filter((t: Transaction) => t.type === 'income')
-          .reduce((sum: number, t: Transaction) => sum + Number(t.amount), 0);
-
-        const expense = dayTransactions
-          .filter((t: Transaction) => t.type === 'expense')
-          .reduce((sum: number, t: Transaction) => sum + Number(t.amount), 0);
+      // Procesar la bandeja de revisión
+      if (reviewResponse.status === 'fulfilled' && reviewResponse.value.success) {
+        reviewQueue = reviewResponse.value.data;
+      }
 
-        cashFlow.push({ date: dateStr, income, expense });
+      // Los totales y el flujo de caja llegan convertidos a la moneda base: sumar montos
+      // de cuentas en ARS y USD en el navegador mezclaría monedas
+      if (summaryResponse.status === 'fulfilled' && summaryResponse.value.success) {
+        summary = summaryResponse.value.data;
       }
 
       // Generar proyecciones de metas basadas en datos reales
@@ -193,20 +164,22 @@ export const useDashboardStore = create<DashboardState>((set, get) => ({
 
       // Construir objeto del dashboard
       const dashboardData: DashboardData = {
-        cashFlow,
+        cashFlow: summary.cashFlow,
         goalProjections,
-        recentTransactions: transactions.slice(0, 10),
-        aiSuggestions: [],
+        recentTransactions: transactions,
+        reviewQueue,
         goals,
         // Métricas adicionales
         metrics: {
-          monthlyIncome,
-          monthlyExpenses,
-          monthlyBalance: monthlyIncome - monthlyExpenses,
-          totalIncome: allIncome,
-          totalExpenses: allExpenses,
-          totalBalance: allIncome - allExpenses,
-          transactionCount: transactions.length,
+          currency: summary.currency,
+          monthlyIncome: summary.monthlyIncome,
+          monthlyExpenses: summary.monthlyExpenses,
+          monthlyBalance: summary.monthlyIncome - summary.monthlyExpenses,
+          totalIncome: summary.totalIncome,
+          totalExpenses: summary.totalExpenses,
+          totalBalance: summary.totalIncome - summary.totalExpenses,
+          transactionCount: summary.transactionCount,
+          unconverted: summary.unconverted,
         }
       };
 
@@ -248,46 +221,28 @@ export const useDashboardStore = create<DashboardState>((set, get) => ({
     });
   },
 
-  applyAISuggestion: (suggestionId: string) => {
-    const state = get();
-    if (!state.data) return;
-
-    const suggestion = state.data.aiSuggestions.find(s => s.id === suggestionId);
-    if (!suggestion) return;
-
-    // Actualizar la categoría de la transacción sugerida
-    // En una implementación real, esto llamaría a un endpoint API
-    const updatedTransactions = state.data.recentTransactions.map(t => {
-      if (t.description === suggestion.description && t.amount === suggestion.amount) {
-        return { ...t, category: suggestion.suggestedCategory };
-      }
-      return t;
-    });
-
-    // Eliminar la sugerencia aplicada
-    const updatedSuggestions = state.data.aiSuggestions.filter(s => s.id !== suggestionId);
-
-    set({
-      data: {
-        ...state.data,
-        recentTransactions: updatedTransactions,
-        aiSuggestions: updatedSuggestions,
-      },
-    });
-  },
-
-  dismissAISuggestion: (suggestionId: string) => {
-    const state = get();
-    if (!state.data) return;
-
-    const updatedSuggestions = state.data.aiSuggestions.filter(s => s.id !== suggestionId);
+  reviewTransaction: async (id: string, review: ReviewAction) => {
+    try {
+      const response = await transactionService.reviewTransaction(id, review);
+      const state = get();
+      if (!state.data) return;
 
-    set({
-      data: {
-        ...state.data,
-        aiSuggestions: updatedSuggestions,
-      },
-    });
+      // La transacción revisada sale de la bandeja y se actualiza en la lista reciente
+      set({
+        data: {
+          ...state.data,
+          recentTransactions: state.data.recentTransactions.map(t => t.id === id ? response.data : t),
+          reviewQueue: {
+            ...state.data.reviewQueue,
+            total: Math.max(state.data.reviewQueue.total - 1, 0),
+            transactions: state.data.reviewQueue.transactions.filter(t => t.id !== id),
+          },
+        },
+      });
+      toast.success(review.action === 'accept' ? 'Categoría confirmada' : `Categoría cambiada a ${response.data.category}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al revisar la transacción');
+    }
   },
 
   // Transaction Actions Implementation
@@ -453,8 +408,6 @@ export const useDashboardStore = create<DashboardState>((set, get) => ({
             goals: updatedGoals,
           },
         });
-        
-        toast.success('Meta eliminada exitosamente');
       } else {
         toast.error(response.message || 'Error al eliminar la meta');
       }
@@ -0,0 +1,49 @@
+import {
+  Baby, Book, Briefcase, Bus, Car, Coffee, Droplet, Dumbbell, Film, Fuel, Gamepad2, Gift, GraduationCap,
+  Hammer, HeartPulse, Home, Landmark, Laptop, LucideIcon, Music, PawPrint, PiggyBank, Pill, Plane, Shirt,
+  ShoppingCart, Smartphone, Sparkles, Tag, TrendingUp, Utensils, Wallet, Wifi, Zap
+} from 'lucide-react';
+import type { CSSProperties } from 'react';
+import { Category, CategoryKind } from '../interfaces/financial';
+
+// Iconos que se pueden elegir para una categoría; el backend guarda el nombre del icono
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  ShoppingCart, Car, Zap, Film, GraduationCap, HeartPulse, Home, Shirt, Laptop, Landmark, Gift, PiggyBank,
+  TrendingUp, Tag, Wallet, Coffee, Utensils, Plane, Bus, Fuel, Dumbbell, PawPrint, Baby, Briefcase, Music,
+  Gamepad2, Smartphone, Wifi, Droplet, Book, Pill, Hammer, Sparkles,
+};
+
+export const CATEGORY_COLORS = [
+  '#22c55e', '#10b981', '#14b8a6', '#06b6d4', '#0ea5e9', '#3b82f6', '#6366f1', '#a855f7',
+  '#ec4899', '#f43f5e', '#ef4444', '#f97316', '#eab308', '#64748b', '#6b7280',
+];
+
+const DEFAULT_COLOR = '#6b7280';
+
+export const getCategoryIcon = (icon?: string | null): LucideIcon => (icon && CATEGORY_ICONS[icon]) || Tag;
+
+// Estilo de la etiqueta de una categoría a partir de su color (fondo y borde translúcidos)
+export const getCategoryBadgeStyle = (color?: string | null): CSSProperties => {
+  const base = color || DEFAULT_COLOR;
+  return { backgroundColor: `${base}33`, color: base, borderColor: `${base}4d` };
+};
+
+export interface CategoryOption {
+  value: string;
+  label: string;
+}
+
+// Opciones para un <select>: cada categoría seguida de sus subcategorías, con sangría
+export const getCategoryOptions = (categories: Category[], kind?: CategoryKind): CategoryOption[] => {
+  const visible = categories.filter(category => !kind || category.kind === kind);
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const roots = visible.filter(category => !category.parentId).sort(byName);
+
+  return roots.flatMap(root => [
+    { value: root.name, label: root.name },
+    ...visible
+      .filter(category => category.parentId === root.id)
+      .sort(byName)
+      .map(child => ({ value: child.name, label: `\u00a0\u00a0\u00a0${child.name}` })),
+  ]);
+};
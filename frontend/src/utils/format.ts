@@ -1,7 +1,7 @@
-export const formatCurrency = (amount: number): string => {
+export const formatCurrency = (amount: number, currency = 'USD'): string => {
   return new Intl.NumberFormat('es-ES', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 0,
   }).format(amount);
 };
@@ -0,0 +1,26 @@
+import toast from 'react-hot-toast';
+
+/**
+ * Aviso tras eliminar algo con un botón "Deshacer" que lo restaura desde la papelera
+ */
+export const showUndoToast = (message: string, onUndo: () => Promise<unknown>) => {
+  toast((t) => (
+    <span className="flex items-center gap-3">
+      {message}
+      <button
+        onClick={async () => {
+          toast.dismiss(t.id);
+          try {
+            await onUndo();
+            toast.success('Restaurado');
+          } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'No se pudo deshacer');
+          }
+        }}
+        className="font-semibold text-blue-400 hover:text-blue-300"
+      >
+        Deshacer
+      </button>
+    </span>
+  ), { duration: 8000 });
+};